@@ -24,8 +24,15 @@ if (openaiKey) {
   console.log('OPENAI_API_KEY length:', openaiKey.length);
 }
 
+console.log('LLM_PROVIDER:', process.env.LLM_PROVIDER || '(default: anthropic)');
+console.log('LLM_MODEL:', process.env.LLM_MODEL || '(provider default)');
+console.log('OPENAI_COMPATIBLE_BASE_URL:', process.env.OPENAI_COMPATIBLE_BASE_URL);
+
 console.log('Other environment variables:');
 console.log('MCP_SERVER_BASE_URL:', process.env.MCP_SERVER_BASE_URL);
+console.log('MCP_TRANSPORT:', process.env.MCP_TRANSPORT || '(default: auto)');
+console.log('MCP_STDIO_COMMAND:', process.env.MCP_STDIO_COMMAND || '(default: npx)');
+console.log('MCP_STDIO_ARGS:', process.env.MCP_STDIO_ARGS || '(default: @playwright/mcp@latest)');
 console.log('NODE_ENV:', process.env.NODE_ENV);
 
 console.log('============================================'); 
\ No newline at end of file
@@ -0,0 +1,140 @@
+// backend/src/export/playwrightSpec.ts
+import type { ToolCallRecord } from '../orchestrator/Orchestrator';
+import type { RunTranscript } from '../runs/RunStore';
+import { AriaNode, AriaSnapshot, findByRef, flattenAriaTree, parseAriaSnapshot } from '../snapshot/ariaSnapshot';
+
+// Snapshot roles that getByRole cannot target; their elements are found by text instead
+const NON_ROLE_LOCATOR_ROLES = new Set(['text', 'generic', 'none', 'presentation']);
+
+/** A single-quoted TypeScript string literal. */
+function quote(text: string): string {
+    return `'${String(text).replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\r/g, '\\r')}'`;
+}
+
+// `.nth(i)` when several elements of the snapshot share the role and name of the target
+function nthOf(snapshot: AriaSnapshot, target: AriaNode, sameAs: (node: AriaNode) => boolean): string {
+    const matches = flattenAriaTree(snapshot).filter(sameAs);
+    return matches.length > 1 ? `.nth(${matches.indexOf(target)})` : '';
+}
+
+/**
+ * A Playwright locator for the element a step targets. The ref is looked up in the snapshot the step
+ * was resolved against, and the element is located by its role and accessible name, which (unlike
+ * refs) stay the same from one page load to the next.
+ * @returns The locator expression, and a comment when the element had to be guessed from its description.
+ */
+function locatorFor(snapshot: AriaSnapshot | null, ref: unknown, element: unknown): { locator: string; note: string | null } {
+    const node = snapshot && typeof ref === 'string' ? findByRef(snapshot, ref) : null;
+    if (snapshot && node && node.name && !NON_ROLE_LOCATOR_ROLES.has(node.role)) {
+        const nth = nthOf(snapshot, node, other => other.role === node.role && other.name === node.name);
+        return { locator: `page.getByRole(${quote(node.role)}, { name: ${quote(node.name)}, exact: true })${nth}`, note: null };
+    }
+    const text = node?.name || node?.text;
+    if (snapshot && node && text) {
+        const nth = nthOf(snapshot, node, other => (other.name || other.text) === text);
+        return { locator: `page.getByText(${quote(text)}, { exact: true })${nth}`, note: null };
+    }
+    const description = typeof element === 'string' && element ? element : String(ref);
+    return {
+        locator: `page.getByText(${quote(description)})`,
+        note: `Element ${ref ? `[ref=${ref}] ` : ''}was not found in the page snapshot; located by its description`,
+    };
+}
+
+/** The statements that replay one tool call, or a TODO comment for tools without a Playwright equivalent. */
+function statementsFor(call: ToolCallRecord, snapshot: AriaSnapshot | null): string[] {
+    const args = call.arguments;
+    const target = () => {
+        const { locator, note } = locatorFor(snapshot, args.ref, args.element);
+        return { locator, lines: note ? [`// ${note}`] : [] };
+    };
+    switch (call.toolName) {
+        case 'browser_navigate':
+            return [`await page.goto(${quote(args.url)});`];
+        case 'browser_navigate_back':
+            return ['await page.goBack();'];
+        case 'browser_navigate_forward':
+            return ['await page.goForward();'];
+        case 'browser_click': {
+            const { locator, lines } = target();
+            const options = args.button && args.button !== 'left' ? `{ button: ${quote(args.button)} }` : '';
+            return [...lines, `await ${locator}.${args.doubleClick ? 'dblclick' : 'click'}(${options});`];
+        }
+        case 'browser_hover': {
+            const { locator, lines } = target();
+            return [...lines, `await ${locator}.hover();`];
+        }
+        case 'browser_type': {
+            const { locator, lines } = target();
+            const typing = args.slowly
+                ? `await ${locator}.pressSequentially(${quote(args.text ?? '')});`
+                : `await ${locator}.fill(${quote(args.text ?? '')});`;
+            return [...lines, typing, ...(args.submit ? [`await ${locator}.press('Enter');`] : [])];
+        }
+        case 'browser_select_option': {
+            const { locator, lines } = target();
+            const values: string[] = Array.isArray(args.values) ? args.values : [args.values];
+            return [...lines, `await ${locator}.selectOption([${values.map(quote).join(', ')}]);`];
+        }
+        case 'browser_press_key':
+            return [`await page.keyboard.press(${quote(args.key)});`];
+        case 'browser_drag': {
+            const start = locatorFor(snapshot, args.startRef, args.startElement);
+            const end = locatorFor(snapshot, args.endRef, args.endElement);
+            const notes = [start.note, end.note].filter((note): note is string => note !== null).map(note => `// ${note}`);
+            return [...notes, `await ${start.locator}.dragTo(${end.locator});`];
+        }
+        case 'browser_wait_for':
+            if (typeof args.text === 'string') return [`await expect(page.getByText(${quote(args.text)}).first()).toBeVisible();`];
+            if (typeof args.textGone === 'string') return [`await expect(page.getByText(${quote(args.textGone)})).toHaveCount(0);`];
+            return [`await page.waitForTimeout(${Math.round(Number(args.time ?? 1) * 1000)});`];
+        case 'browser_resize':
+            return [`await page.setViewportSize({ width: ${Number(args.width)}, height: ${Number(args.height)} });`];
+        default:
+            return [`// TODO: ${call.toolName} ${JSON.stringify(args)} has no Playwright equivalent in this export`];
+    }
+}
+
+// Tools that only observe or end the session; nothing to replay
+const SKIPPED_TOOLS = new Set(['browser_snapshot', 'browser_take_screenshot', 'browser_close', 'browser_console_messages', 'browser_network_requests']);
+
+/**
+ * Turns a run into a standalone `@playwright/test` spec that repeats its steps: each successful tool
+ * call in the order it ran, with elements located by the role and name their ref had in the page
+ * snapshot the call was made against (the latest snapshot recorded before it). Failed attempts that
+ * were retried are left out.
+ *
+ * @returns The source of a `.spec.ts` file.
+ */
+export function exportPlaywrightSpec(run: RunTranscript): string {
+    const descriptions = new Map(run.steps.map(step => [step.tool_call_id, step.description] as [string | undefined, string | undefined]));
+    const body: string[] = [];
+    let snapshot: AriaSnapshot | null = null;
+    let stepNumber = 0;
+    for (const event of run.events) {
+        if (event.kind === 'snapshot') {
+            snapshot = parseAriaSnapshot(event.data.snapshot);
+            continue;
+        }
+        if (event.kind !== 'toolCall') continue;
+        const call = event.data as ToolCallRecord;
+        if (call.error !== null || call.result?.isError || SKIPPED_TOOLS.has(call.toolName)) continue;
+
+        stepNumber += 1;
+        const description = (call.stepId && descriptions.get(call.stepId)) || call.toolName;
+        if (body.length > 0) body.push('');
+        body.push(`// ${stepNumber}. ${description.replace(/\s*\n\s*/g, ' ')}`);
+        body.push(...statementsFor(call, snapshot));
+    }
+
+    const usesExpect = body.some(line => line.includes('expect('));
+    return [
+        `import { test${usesExpect ? ', expect' : ''} } from '@playwright/test';`,
+        '',
+        `// Exported from run ${run.id} (${new Date(run.startedAt).toISOString()})`,
+        `test(${quote(run.instruction)}, async ({ page }) => {`,
+        ...(body.length > 0 ? body : ['// The run made no tool calls to replay']).map(line => (line ? `  ${line}` : line)),
+        '});',
+        '',
+    ].join('\n');
+}
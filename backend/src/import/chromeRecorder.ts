@@ -0,0 +1,105 @@
+// backend/src/import/chromeRecorder.ts
+import type { McpToolCall } from '../orchestrator/Orchestrator';
+import { ImportedSteps, RecordingImportError } from './recording';
+
+// Roles whose `change` steps pick an option instead of typing
+const SELECT_ROLES = new Set(['combobox', 'listbox']);
+
+// Step types that change nothing a replay depends on
+const IGNORED_STEP_TYPES = new Set(['keyUp', 'close']);
+
+/**
+ * Describes the element a recorded step targets from its selectors, preferring the accessible
+ * (`aria/Name[role="button"]`) and text (`text/Checkout`) forms over CSS and XPath.
+ * @returns The description and the element's role when the aria selector gives one.
+ */
+function describeTarget(selectors: unknown): { element: string; role: string | null } | null {
+    // Each selector is a string or, for elements inside frames and shadow roots, an array of strings
+    const candidates = (Array.isArray(selectors) ? selectors : [])
+        .map(selector => (Array.isArray(selector) ? selector[selector.length - 1] : selector))
+        .filter((selector): selector is string => typeof selector === 'string');
+    for (const selector of candidates) {
+        const aria = /^aria\/(.*?)(?:\[role="([^"]+)"\])?$/.exec(selector);
+        if (aria && aria[1]) {
+            return { element: aria[2] ? `${aria[2]} "${aria[1]}"` : `"${aria[1]}"`, role: aria[2] ?? null };
+        }
+    }
+    const text = candidates.find(selector => selector.startsWith('text/'));
+    if (text) return { element: `text "${text.slice(5)}"`, role: null };
+    const css = candidates.find(selector => !/^(xpath|pierce|aria|text)\//.test(selector));
+    if (css) return { element: `element matching ${css}`, role: null };
+    const xpath = candidates.find(selector => selector.startsWith('xpath/'));
+    return xpath ? { element: `element at ${xpath.slice(6)}`, role: null } : null;
+}
+
+/**
+ * Reads a Chrome DevTools Recorder JSON export (`{ title, steps: [{ type, ... }] }`) into steps:
+ * setViewport, navigate, click, doubleClick, hover, change and keyDown are replayed; anything else
+ * is left out with a warning.
+ * @throws RecordingImportError if the JSON cannot be parsed.
+ */
+export function importChromeRecording(source: string): ImportedSteps {
+    let recording: any;
+    try {
+        recording = JSON.parse(source);
+    } catch (err: any) {
+        throw new RecordingImportError(`The Chrome Recorder export is not valid JSON: ${err.message}`);
+    }
+    if (!recording || !Array.isArray(recording.steps)) {
+        throw new RecordingImportError('The Chrome Recorder export has no steps array');
+    }
+
+    const steps: McpToolCall[] = [];
+    const warnings: string[] = [];
+    recording.steps.forEach((step: any, index: number) => {
+        const label = `Step ${index + 1} (${step?.type})`;
+        const needTarget = () => {
+            const target = describeTarget(step.selectors);
+            if (!target) warnings.push(`${label} was left out: it has no usable selector`);
+            return target;
+        };
+        switch (step?.type) {
+            case 'setViewport':
+                steps.push({ tool_name: 'browser_resize', arguments: { width: step.width, height: step.height } });
+                break;
+            case 'navigate':
+                steps.push({ tool_name: 'browser_navigate', arguments: { url: step.url } });
+                break;
+            case 'click':
+            case 'doubleClick': {
+                const target = needTarget();
+                if (!target) break;
+                steps.push({
+                    tool_name: 'browser_click',
+                    arguments: {
+                        element: target.element, ref: '<UNKNOWN>',
+                        ...(step.type === 'doubleClick' ? { doubleClick: true } : {}),
+                        ...(step.button === 'secondary' ? { button: 'right' } : step.button === 'auxiliary' ? { button: 'middle' } : {}),
+                    },
+                });
+                break;
+            }
+            case 'hover': {
+                const target = needTarget();
+                if (target) steps.push({ tool_name: 'browser_hover', arguments: { element: target.element, ref: '<UNKNOWN>' } });
+                break;
+            }
+            case 'change': {
+                const target = needTarget();
+                if (!target) break;
+                steps.push(target.role && SELECT_ROLES.has(target.role)
+                    ? { tool_name: 'browser_select_option', arguments: { element: target.element, ref: '<UNKNOWN>', values: [String(step.value)] } }
+                    : { tool_name: 'browser_type', arguments: { element: target.element, ref: '<UNKNOWN>', text: String(step.value ?? '') } });
+                break;
+            }
+            case 'keyDown':
+                steps.push({ tool_name: 'browser_press_key', arguments: { key: step.key } });
+                break;
+            default:
+                if (!IGNORED_STEP_TYPES.has(step?.type)) {
+                    warnings.push(`${label} was left out: the browser tools have no equivalent`);
+                }
+        }
+    });
+    return { title: typeof recording.title === 'string' && recording.title ? recording.title : null, steps, warnings };
+}
@@ -0,0 +1,412 @@
+// backend/src/import/playwrightScript.ts
+import type { McpToolCall } from '../orchestrator/Orchestrator';
+import { ImportedSteps, RecordingImportError } from './recording';
+
+/** One `.name(args)` (or `.name` property access, with null args) in a call chain. */
+interface ChainCall {
+    name: string;
+    args: Value[] | null;
+}
+
+/** `page.getByRole('button').click()` as its root identifier and the calls made on it. */
+interface Chain {
+    kind: 'chain';
+    root: string;
+    calls: ChainCall[];
+}
+
+interface RegexLiteral {
+    kind: 'regex';
+    source: string;
+}
+
+type Value = string | number | boolean | null | RegexLiteral | Chain | Value[] | { [key: string]: Value };
+
+/** Thrown by the reader when a statement ends before its brackets close; the next line is appended. */
+class IncompleteStatement extends Error {}
+
+/**
+ * Reads the subset of JavaScript that codegen writes: call chains on `page` and `expect`, with string,
+ * number, regex, array and object-literal arguments.
+ */
+class ExpressionReader {
+    private pos = 0;
+
+    constructor(private readonly text: string) {}
+
+    /** Reads a whole statement, allowing a trailing semicolon. */
+    readStatement(): Value {
+        const value = this.readValue();
+        this.skipSpace();
+        if (this.text[this.pos] === ';') this.pos += 1;
+        this.skipSpace();
+        if (this.pos < this.text.length) throw new Error(`Unexpected "${this.text.slice(this.pos, this.pos + 10)}"`);
+        return value;
+    }
+
+    private skipSpace(): void {
+        while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos += 1;
+    }
+
+    private peek(): string {
+        this.skipSpace();
+        if (this.pos >= this.text.length) throw new IncompleteStatement();
+        return this.text[this.pos];
+    }
+
+    private expect(char: string): void {
+        if (this.peek() !== char) throw new Error(`Expected "${char}"`);
+        this.pos += 1;
+    }
+
+    private readValue(): Value {
+        const char = this.peek();
+        if (char === "'" || char === '"' || char === '`') return this.readString(char);
+        if (char === '/') return this.readRegex();
+        if (char === '[') return this.readList('[', ']');
+        if (char === '{') return this.readObject();
+        if (/[-\d]/.test(char)) return this.readNumber();
+        const name = this.readIdentifier();
+        if (name === 'await') return this.readValue();
+        if (name === 'true' || name === 'false') return name === 'true';
+        if (name === 'null' || name === 'undefined') return null;
+        return this.readChain(name);
+    }
+
+    private readIdentifier(): string {
+        const match = /^[A-Za-z_$][\w$]*/.exec(this.text.slice(this.pos));
+        if (!match) throw new Error(`Unexpected "${this.text[this.pos]}"`);
+        this.pos += match[0].length;
+        return match[0];
+    }
+
+    private readChain(root: string): Chain {
+        const chain: Chain = { kind: 'chain', root, calls: [] };
+        // `expect(locator)` is a call on the root itself
+        this.skipSpace();
+        if (this.text[this.pos] === '(') {
+            chain.calls.push({ name: '', args: this.readList('(', ')') });
+        }
+        while (this.pos < this.text.length) {
+            this.skipSpace();
+            if (this.text[this.pos] !== '.') break;
+            this.pos += 1;
+            this.skipSpace();
+            const name = this.readIdentifier();
+            this.skipSpace();
+            const args = this.text[this.pos] === '(' ? this.readList('(', ')') : null;
+            chain.calls.push({ name, args });
+        }
+        return chain;
+    }
+
+    private readList(open: string, close: string): Value[] {
+        this.expect(open);
+        const values: Value[] = [];
+        while (this.peek() !== close) {
+            values.push(this.readValue());
+            if (this.peek() === ',') this.pos += 1;
+        }
+        this.pos += 1;
+        return values;
+    }
+
+    private readObject(): { [key: string]: Value } {
+        this.expect('{');
+        const object: { [key: string]: Value } = {};
+        while (this.peek() !== '}') {
+            const char = this.peek();
+            const key = char === "'" || char === '"' ? this.readString(char) : this.readIdentifier();
+            this.expect(':');
+            object[key] = this.readValue();
+            if (this.peek() === ',') this.pos += 1;
+        }
+        this.pos += 1;
+        return object;
+    }
+
+    private readString(quote: string): string {
+        const escapes: { [char: string]: string } = { n: '\n', r: '\r', t: '\t' };
+        let value = '';
+        this.pos += 1;
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos];
+            if (char === quote) {
+                this.pos += 1;
+                return value;
+            }
+            if (quote === '`' && char === '$' && this.text[this.pos + 1] === '{') {
+                throw new Error('Template literals with ${...} are not supported');
+            }
+            if (char === '\\') {
+                const next = this.text[this.pos + 1] ?? '';
+                value += escapes[next] ?? next;
+                this.pos += 2;
+                continue;
+            }
+            value += char;
+            this.pos += 1;
+        }
+        throw new IncompleteStatement();
+    }
+
+    private readRegex(): RegexLiteral {
+        const match = /^\/((?:\\.|\[(?:\\.|[^\]])*\]|[^/\\\n])+)\/[a-z]*/.exec(this.text.slice(this.pos));
+        if (!match) throw new Error('Unreadable regular expression');
+        this.pos += match[0].length;
+        return { kind: 'regex', source: match[1] };
+    }
+
+    private readNumber(): number {
+        const match = /^-?\d+(\.\d+)?/.exec(this.text.slice(this.pos));
+        if (!match) throw new Error(`Unexpected "${this.text[this.pos]}"`);
+        this.pos += match[0].length;
+        return Number(match[0]);
+    }
+}
+
+const isChain = (value: Value | undefined): value is Chain =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && (value as Chain).kind === 'chain';
+
+const isRegex = (value: Value | undefined): value is RegexLiteral =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && (value as RegexLiteral).kind === 'regex';
+
+const isRecord = (value: Value | undefined): value is { [key: string]: Value } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !isChain(value) && !isRegex(value);
+
+// Text arguments as they read in a description; regexes keep their slashes
+function textOf(value: Value | undefined): string | null {
+    if (typeof value === 'string') return value;
+    if (isRegex(value)) return `/${value.source}/`;
+    return null;
+}
+
+/**
+ * Describes the element a locator chain (the calls between `page` and the action) points at, e.g.
+ * `page.getByRole('listitem').filter({ hasText: 'Mocha' }).getByRole('button', { name: 'Add' })` is
+ * `button "Add" in listitem containing "Mocha"`. Returns null for calls that are not locators.
+ */
+function describeLocator(calls: ChainCall[]): string | null {
+    const parts: string[] = [];
+    for (const { name, args } of calls) {
+        const [first, second] = args ?? [];
+        const text = textOf(first);
+        const quoted = text === null ? '' : isRegex(first) ? text : `"${text}"`;
+        const current = parts.length - 1;
+        switch (name) {
+            case 'getByRole': {
+                const label = isRecord(second) ? second.name : undefined;
+                const labelText = textOf(label);
+                parts.push(labelText === null ? String(first) : `${first} ${isRegex(label) ? labelText : `"${labelText}"`}`);
+                break;
+            }
+            case 'getByText': parts.push(`text ${quoted}`); break;
+            case 'getByLabel': parts.push(`field labelled ${quoted}`); break;
+            case 'getByPlaceholder': parts.push(`field with placeholder ${quoted}`); break;
+            case 'getByAltText': parts.push(`image ${quoted}`); break;
+            case 'getByTitle': parts.push(`element titled ${quoted}`); break;
+            case 'getByTestId': parts.push(`element with test id ${quoted}`); break;
+            case 'locator': parts.push(`element matching ${text}`); break;
+            case 'frameLocator':
+            case 'contentFrame':
+                break; // Snapshots include frame contents, so the element is described as if on the page
+            case 'filter': {
+                if (current < 0) return null;
+                const hasText = isRecord(first) ? textOf(first.hasText) : null;
+                const hasNotText = isRecord(first) ? textOf(first.hasNotText) : null;
+                if (hasText !== null) parts[current] += ` containing "${hasText}"`;
+                if (hasNotText !== null) parts[current] += ` not containing "${hasNotText}"`;
+                break;
+            }
+            case 'first': if (current >= 0) parts[current] = `first ${parts[current]}`; break;
+            case 'last': if (current >= 0) parts[current] = `last ${parts[current]}`; break;
+            case 'nth': if (current >= 0) parts[current] = `${parts[current]} #${Number(first) + 1}`; break;
+            default: return null;
+        }
+        if (text === null && (name === 'locator' || (name !== 'getByRole' && name.startsWith('getBy')))) return null;
+    }
+    return parts.length > 0 ? parts.reverse().join(' in ') : null;
+}
+
+/** The step for an action on a located element, or null when the action is not one the tools can take. */
+function elementStep(action: ChainCall, element: string): McpToolCall | null {
+    const [first] = action.args ?? [];
+    const target = { element, ref: '<UNKNOWN>' };
+    const options = isRecord(first) ? first : {};
+    switch (action.name) {
+        case 'click':
+        case 'dblclick':
+            return {
+                tool_name: 'browser_click',
+                arguments: {
+                    ...target,
+                    ...(action.name === 'dblclick' || options.clickCount === 2 ? { doubleClick: true } : {}),
+                    ...(options.button === 'right' || options.button === 'middle' ? { button: options.button } : {}),
+                },
+            };
+        case 'check':
+        case 'uncheck':
+        case 'tap':
+            return { tool_name: 'browser_click', arguments: target };
+        case 'hover':
+            return { tool_name: 'browser_hover', arguments: target };
+        case 'fill':
+            return { tool_name: 'browser_type', arguments: { ...target, text: String(first ?? '') } };
+        case 'type':
+        case 'pressSequentially':
+            return { tool_name: 'browser_type', arguments: { ...target, text: String(first ?? ''), slowly: true } };
+        case 'selectOption': {
+            const values = (Array.isArray(first) ? first : [first])
+                .map(value => (isRecord(value) ? value.label ?? value.value : value))
+                .map(value => String(value));
+            return { tool_name: 'browser_select_option', arguments: { ...target, values } };
+        }
+        case 'dragTo': {
+            const end = isChain(first) ? describeLocator(first.calls) : null;
+            return end === null ? null : {
+                tool_name: 'browser_drag',
+                arguments: { startElement: element, startRef: '<UNKNOWN>', endElement: end, endRef: '<UNKNOWN>' },
+            };
+        }
+        default:
+            return null;
+    }
+}
+
+// Page calls that only wait for or close the page; a replay has nothing to do for them
+const IGNORED_PAGE_CALLS = new Set(['waitForURL', 'waitForLoadState', 'waitForNavigation', 'close', 'bringToFront']);
+
+/** The step for a call on the page itself, `undefined` for calls with nothing to replay, or null when unsupported. */
+function pageStep(calls: ChainCall[]): McpToolCall | null | undefined {
+    const [call, next] = calls;
+    const [first] = call.args ?? [];
+    switch (call.name) {
+        case 'goto': return { tool_name: 'browser_navigate', arguments: { url: String(first) } };
+        case 'goBack': return { tool_name: 'browser_navigate_back', arguments: {} };
+        case 'goForward': return { tool_name: 'browser_navigate_forward', arguments: {} };
+        case 'waitForTimeout': return { tool_name: 'browser_wait_for', arguments: { time: Number(first) / 1000 } };
+        case 'setViewportSize':
+            return isRecord(first) ? { tool_name: 'browser_resize', arguments: { width: first.width, height: first.height } } : null;
+        case 'keyboard':
+            return next?.name === 'press' && typeof next.args?.[0] === 'string'
+                ? { tool_name: 'browser_press_key', arguments: { key: next.args[0] } }
+                : null;
+        default:
+            return IGNORED_PAGE_CALLS.has(call.name) ? undefined : null;
+    }
+}
+
+/** `expect(page.getByText('Done')).toBeVisible()` and similar text assertions become waits for the text. */
+function assertionStep(chain: Chain): McpToolCall | null {
+    const subject = chain.calls[0]?.args?.[0];
+    const rest = chain.calls.slice(1);
+    const negated = rest[0]?.name === 'not';
+    const matcher = negated ? rest[1] : rest[0];
+    if (!isChain(subject) || !matcher) return null;
+    const locatorText = subject.calls.length > 0 && subject.calls[0].name === 'getByText' ? subject.calls[0].args?.[0] : undefined;
+    const expected = matcher.args?.[0];
+
+    if (['toBeVisible', 'toBeHidden'].includes(matcher.name) && typeof locatorText === 'string') {
+        const gone = negated !== (matcher.name === 'toBeHidden');
+        return { tool_name: 'browser_wait_for', arguments: gone ? { textGone: locatorText } : { text: locatorText } };
+    }
+    if (['toContainText', 'toHaveText'].includes(matcher.name) && !negated && typeof expected === 'string') {
+        return { tool_name: 'browser_wait_for', arguments: { text: expected } };
+    }
+    return null;
+}
+
+/** The steps one statement replays as; an empty list for statements with nothing to replay. */
+function stepsFor(chain: Chain): McpToolCall[] | null {
+    if (chain.root === 'expect') {
+        const step = assertionStep(chain);
+        return step ? [step] : null;
+    }
+    if (!/^page\d*$/.test(chain.root) || chain.calls.length === 0) return null;
+    const page = pageStep(chain.calls);
+    if (page !== null) return page ? [page] : [];
+
+    const action = chain.calls[chain.calls.length - 1];
+    const element = describeLocator(chain.calls.slice(0, -1));
+    if (element !== null && action.name === 'press' && typeof action.args?.[0] === 'string') {
+        // browser_press_key goes to the focused element, so the pressed element is clicked first
+        return [
+            { tool_name: 'browser_click', arguments: { element, ref: '<UNKNOWN>' } },
+            { tool_name: 'browser_press_key', arguments: { key: action.args[0] } },
+        ];
+    }
+    const step = element === null ? null : elementStep(action, element);
+    return step ? [step] : null;
+}
+
+/**
+ * True when a statement's steps only press Enter in the field the previous step typed into: codegen
+ * records that as a fill followed by `page.keyboard.press('Enter')` or a press on the same locator.
+ */
+function submitsTyping(replayed: McpToolCall[], previous: McpToolCall | undefined): boolean {
+    const press = replayed[replayed.length - 1];
+    if (press?.tool_name !== 'browser_press_key' || press.arguments.key !== 'Enter') return false;
+    if (previous?.tool_name !== 'browser_type' || previous.arguments.submit) return false;
+    return replayed.length === 1 || (replayed.length === 2 && replayed[0].arguments.element === previous.arguments.element);
+}
+
+// Lines of a codegen script that hold no steps: imports, the test wrapper, setup, teardown and closing brackets
+const SCAFFOLDING = /^(import\b|const\b|let\b|var\b|\}|\)|\/\/|\/\*|\*|test\.(use|describe|beforeEach|afterEach)\b|\(async\b|(await\s+)?(browser|context)\.close\(|$)/;
+
+/**
+ * Reads a Playwright codegen script (test or library mode) into steps: page navigation, locator
+ * actions, keyboard presses, timeouts and text assertions. Statements the browser tools cannot replay
+ * are left out with a warning naming their line.
+ * @throws RecordingImportError if a statement cannot be read.
+ */
+export function importPlaywrightScript(source: string): ImportedSteps {
+    const lines = source.split(/\r?\n/);
+    const steps: McpToolCall[] = [];
+    const warnings: string[] = [];
+    let title: string | null = null;
+
+    for (let index = 0; index < lines.length; index += 1) {
+        const line = lines[index].trim();
+        const testName = /^test\(\s*(['"`])(.*?)\1/.exec(line);
+        if (testName) {
+            if (testName[2] && testName[2] !== 'test') title = testName[2];
+            continue;
+        }
+        if (SCAFFOLDING.test(line)) continue;
+
+        const lineNumber = index + 1;
+        let statement = line;
+        // Long chains are wrapped with each call on its own line
+        while (index + 1 < lines.length && lines[index + 1].trim().startsWith('.')) {
+            index += 1;
+            statement += lines[index].trim();
+        }
+        let chain: Value | null = null;
+        for (;;) {
+            try {
+                chain = new ExpressionReader(statement).readStatement();
+                break;
+            } catch (err: any) {
+                if (!(err instanceof IncompleteStatement) || index + 1 >= lines.length) {
+                    throw new RecordingImportError(`Line ${lineNumber} of the script could not be read`, [`${err.message || 'Unexpected end of script'}: ${line}`]);
+                }
+                index += 1;
+                statement += ` ${lines[index].trim()}`;
+            }
+        }
+
+        const replayed = isChain(chain) ? stepsFor(chain) : null;
+        if (replayed === null) {
+            warnings.push(`Line ${lineNumber} was left out: the browser tools have no equivalent for ${line}`);
+            continue;
+        }
+        // Codegen presses Enter on the field it just filled; that is typing with submit
+        const previous = steps[steps.length - 1];
+        if (submitsTyping(replayed, previous)) {
+            previous.arguments.submit = true;
+            continue;
+        }
+        steps.push(...replayed);
+    }
+    return { title, steps, warnings };
+}
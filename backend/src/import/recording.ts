@@ -0,0 +1,73 @@
+// backend/src/import/recording.ts
+import type { McpToolCall } from '../orchestrator/Orchestrator';
+import { defaultStepDescription } from '../parser/stepAnnotations';
+import { importChromeRecording } from './chromeRecorder';
+import { importPlaywrightScript } from './playwrightScript';
+
+export type RecordingFormat = 'playwright' | 'chrome-recorder';
+
+/** A recording turned into steps the orchestrator can run. */
+export interface ImportedPlan {
+    format: RecordingFormat;
+    instruction: string;   // What the recording does, for the session and its run history
+    steps: McpToolCall[];  // Element steps carry a description in `element` and `ref: '<UNKNOWN>'`
+    warnings: string[];    // Parts of the recording that were left out, one message each
+}
+
+/**
+ * Thrown when a recording cannot be imported: it is in neither format, cannot be read, or has no
+ * steps the MCP browser tools can run (the problems say why).
+ */
+export class RecordingImportError extends Error {
+    constructor(message: string, public readonly problems: string[] = []) {
+        super(message);
+        this.name = 'RecordingImportError';
+    }
+}
+
+/** Steps and warnings as each importer produces them. */
+export interface ImportedSteps {
+    title: string | null;
+    steps: McpToolCall[];
+    warnings: string[];
+}
+
+/** Tells the formats apart: Chrome Recorder exports are JSON objects with a `steps` array. */
+export function detectRecordingFormat(source: string): RecordingFormat | null {
+    const trimmed = source.trim();
+    if (trimmed.startsWith('{')) {
+        try {
+            return Array.isArray(JSON.parse(trimmed).steps) ? 'chrome-recorder' : null;
+        } catch {
+            return null;
+        }
+    }
+    return /\bpage\d*\s*\.\s*goto\s*\(|\bpage\d*\s*\.\s*getBy|\bpage\d*\s*\.\s*locator\s*\(/.test(trimmed) ? 'playwright' : null;
+}
+
+/**
+ * Turns a Playwright codegen script or a Chrome DevTools Recorder JSON export into a step plan.
+ * Elements are described (e.g. `button "Add to cart"`) rather than pinned to a ref, so each one is
+ * resolved against the page when its step comes up, like a parsed instruction's steps.
+ *
+ * @param format The recording's format; detected when omitted.
+ * @throws RecordingImportError if the format is unknown or the recording yields no steps.
+ */
+export function importRecording(source: string, format?: RecordingFormat): ImportedPlan {
+    const detected = format ?? detectRecordingFormat(source);
+    if (!detected) {
+        throw new RecordingImportError('Not a Playwright script or a Chrome Recorder JSON export');
+    }
+    const imported = detected === 'chrome-recorder' ? importChromeRecording(source) : importPlaywrightScript(source);
+    if (imported.steps.length === 0) {
+        throw new RecordingImportError('The recording has no steps that can be run', imported.warnings);
+    }
+    const steps = imported.steps.map(step => ({ ...step, description: step.description ?? defaultStepDescription(step) }));
+    const title = imported.title ?? (detected === 'chrome-recorder' ? 'Recorded flow' : 'Playwright script');
+    return {
+        format: detected,
+        instruction: `${title}: ${steps.map(step => step.description).join(', then ')}`,
+        steps,
+        warnings: imported.warnings,
+    };
+}
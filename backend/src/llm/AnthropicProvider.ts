@@ -0,0 +1,49 @@
+// backend/src/llm/AnthropicProvider.ts
+import { anthropic, testAnthropicApiKey } from './anthropicClient'; // Import shared client
+import { LlmProvider, LlmProviderName, LlmCompletionRequest, LlmCompletionResponse, LlmToolCall } from './LlmProvider';
+
+/**
+ * LlmProvider backed by the Anthropic Messages API (tool use via `tool_use` content blocks).
+ */
+export class AnthropicProvider implements LlmProvider {
+    public readonly name: LlmProviderName = 'anthropic';
+
+    public async complete(request: LlmCompletionRequest): Promise<LlmCompletionResponse> {
+        const params: any = {
+            model: request.model,
+            max_tokens: request.maxTokens,
+            messages: request.messages,
+        };
+        if (request.system) params.system = request.system;
+        if (request.temperature !== undefined) params.temperature = request.temperature;
+        if (request.tools && request.tools.length > 0) {
+            params.tools = request.tools.map(t => ({
+                name: t.name,
+                description: t.description || `Execute the ${t.name} tool.`,
+                input_schema: t.inputSchema || { type: 'object', properties: {} }
+            }));
+            params.tool_choice = { type: request.toolChoice ?? 'auto' };
+        }
+
+        const response: any = await anthropic.messages.create(params);
+
+        const content: any[] = Array.isArray(response?.content) ? response.content : [];
+        const text = content
+            .filter(item => item.type === 'text')
+            .map(item => item.text ?? '')
+            .join('');
+        const toolCalls: LlmToolCall[] = content
+            .filter(item => item.type === 'tool_use' && typeof item.name === 'string')
+            .map(item => ({
+                id: item.id || `claude-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+                name: item.name,
+                input: item.input ?? {}
+            }));
+
+        return { text, toolCalls, raw: response };
+    }
+
+    public isAvailable(): Promise<boolean> {
+        return testAnthropicApiKey();
+    }
+}
@@ -0,0 +1,187 @@
+// backend/src/llm/CassetteProvider.ts
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LlmProvider, LlmProviderName, LlmCompletionRequest, LlmCompletionResponse, LlmToolCall } from './LlmProvider';
+import type { LlmCassetteMode } from './config';
+
+/** Thrown in replay mode when the cassette holds no response for a request. */
+export class CassetteMissError extends Error {
+    constructor(public readonly key: string, cassettePath: string) {
+        super(`No recorded LLM response for request ${key} in cassette ${cassettePath}. Re-record it with LLM_CASSETTE_MODE=record.`);
+        this.name = 'CassetteMissError';
+    }
+}
+
+/** One recorded request/response pair. The request is kept for readability; only the key is used for lookups. */
+export interface CassetteInteraction {
+    recordedAt: string;
+    provider: LlmProviderName;
+    model: string;
+    request: {
+        system: string | null;
+        messages: { role: string; content: string }[];
+        tools: string[];
+        toolChoice: string | null;
+    };
+    response: {
+        text: string;
+        toolCalls: LlmToolCall[];
+    };
+}
+
+interface CassetteFile {
+    version: 1;
+    interactions: { [key: string]: CassetteInteraction };
+}
+
+// Collapses whitespace runs so re-indenting a prompt template doesn't invalidate a recording
+function normalizeText(value: string | undefined): string | null {
+    return value === undefined ? null : value.replace(/\s+/g, ' ').trim();
+}
+
+// JSON.stringify with object keys sorted at every level, so key order never changes the hash
+function stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort()
+            .filter(key => value[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Computes the cassette key for a request: a sha256 over the normalized prompt (system text and messages)
+ * and the offered tools (sorted by name, including their schemas). The model, token limit and temperature
+ * are deliberately left out so a recording stays valid when only the model configuration changes.
+ */
+export function cassetteKey(request: LlmCompletionRequest): string {
+    const tools = (request.tools ?? [])
+        .map(tool => ({ name: tool.name, description: normalizeText(tool.description), inputSchema: tool.inputSchema ?? null }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    const normalized = {
+        system: normalizeText(request.system),
+        messages: request.messages.map(message => ({ role: message.role, content: normalizeText(message.content) })),
+        tools,
+        toolChoice: tools.length > 0 ? (request.toolChoice ?? 'auto') : null,
+    };
+    return createHash('sha256').update(stableStringify(normalized)).digest('hex');
+}
+
+/**
+ * A cassette file of recorded LLM interactions. Instances are shared per path (see Cassette.open)
+ * so that all call sites recording in one process append to the same file.
+ */
+export class Cassette {
+    private static readonly openCassettes = new Map<string, Cassette>();
+
+    public readonly path: string;
+    private data: CassetteFile;
+
+    private constructor(filePath: string) {
+        this.path = filePath;
+        this.data = Cassette.read(filePath);
+    }
+
+    /** Returns the shared cassette for a file, loading it on first use. A missing file is an empty cassette. */
+    public static open(filePath: string): Cassette {
+        const resolved = path.resolve(filePath);
+        let cassette = Cassette.openCassettes.get(resolved);
+        if (!cassette) {
+            cassette = new Cassette(resolved);
+            Cassette.openCassettes.set(resolved, cassette);
+        }
+        return cassette;
+    }
+
+    private static read(filePath: string): CassetteFile {
+        if (!fs.existsSync(filePath)) {
+            return { version: 1, interactions: {} };
+        }
+        const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        if (parsed?.version !== 1 || typeof parsed.interactions !== 'object' || parsed.interactions === null) {
+            throw new Error(`Unsupported LLM cassette format in ${filePath}`);
+        }
+        return parsed as CassetteFile;
+    }
+
+    public get(key: string): CassetteInteraction | undefined {
+        return this.data.interactions[key];
+    }
+
+    /** Stores an interaction and writes the whole cassette back to disk (keys sorted, for stable diffs). */
+    public put(key: string, interaction: CassetteInteraction): void {
+        this.data.interactions[key] = interaction;
+        const sorted: { [key: string]: CassetteInteraction } = {};
+        for (const k of Object.keys(this.data.interactions).sort()) {
+            sorted[k] = this.data.interactions[k];
+        }
+        this.data = { version: 1, interactions: sorted };
+        fs.mkdirSync(path.dirname(this.path), { recursive: true });
+        fs.writeFileSync(this.path, JSON.stringify(this.data, null, 2) + '\n', 'utf8');
+    }
+}
+
+/**
+ * LlmProvider that records or replays another provider's responses through a cassette file.
+ * - record: forwards each request to the wrapped provider and saves the response under cassetteKey(request);
+ * - replay: answers from the cassette without contacting any backend, and rejects with
+ *   CassetteMissError for requests that were never recorded.
+ */
+export class CassetteProvider implements LlmProvider {
+    public readonly name: LlmProviderName;
+
+    constructor(
+        private readonly mode: LlmCassetteMode,
+        private readonly cassette: Cassette,
+        private readonly inner: LlmProvider | null, // Not needed (and may be unconfigured) in replay mode
+        name: LlmProviderName
+    ) {
+        if (mode === 'record' && !inner) {
+            throw new Error('CassetteProvider needs a provider to record from.');
+        }
+        this.name = name;
+    }
+
+    public async complete(request: LlmCompletionRequest): Promise<LlmCompletionResponse> {
+        const key = cassetteKey(request);
+
+        if (this.mode === 'replay') {
+            const interaction = this.cassette.get(key);
+            if (!interaction) {
+                throw new CassetteMissError(key, this.cassette.path);
+            }
+            console.log(`[CassetteProvider] Replaying ${interaction.provider} response ${key.substring(0, 12)} from ${this.cassette.path}`);
+            return {
+                text: interaction.response.text,
+                toolCalls: interaction.response.toolCalls.map(call => ({ ...call, input: { ...call.input } })),
+                raw: { cassette: this.cassette.path, key },
+            };
+        }
+
+        const response = await this.inner!.complete(request);
+        this.cassette.put(key, {
+            recordedAt: new Date().toISOString(),
+            provider: this.name,
+            model: request.model,
+            request: {
+                system: request.system ?? null,
+                messages: request.messages,
+                tools: (request.tools ?? []).map(tool => tool.name),
+                toolChoice: request.toolChoice ?? null,
+            },
+            response: { text: response.text, toolCalls: response.toolCalls },
+        });
+        console.log(`[CassetteProvider] Recorded ${this.name} response ${key.substring(0, 12)} to ${this.cassette.path}`);
+        return response;
+    }
+
+    public async isAvailable(): Promise<boolean> {
+        // Replays need no credentials
+        return this.mode === 'replay' ? true : this.inner!.isAvailable();
+    }
+}
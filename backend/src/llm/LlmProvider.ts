@@ -0,0 +1,56 @@
+// backend/src/llm/LlmProvider.ts
+
+/** Names of the supported LLM backends (see llm/config.ts for how they are selected). */
+export type LlmProviderName = 'anthropic' | 'openai' | 'openai-compatible';
+
+/** A tool the model may call, described with a JSON schema for its input (MCP `inputSchema`). */
+export interface LlmToolDefinition {
+    name: string;
+    description?: string;
+    inputSchema: any;
+}
+
+/** A tool call returned by the model. */
+export interface LlmToolCall {
+    id: string;
+    name: string;
+    input: { [key: string]: any };
+}
+
+export interface LlmMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+/**
+ * A provider-neutral completion request.
+ * With `tools`, the model is asked to respond with tool calls; without them it answers in text
+ * (e.g. a JSON object the caller parses itself).
+ */
+export interface LlmCompletionRequest {
+    model: string;
+    system?: string;
+    messages: LlmMessage[];
+    maxTokens: number;
+    temperature?: number;
+    tools?: LlmToolDefinition[];
+    toolChoice?: 'auto' | 'any'; // 'any' = the model must call at least one tool
+}
+
+export interface LlmCompletionResponse {
+    text: string; // All text content, concatenated
+    toolCalls: LlmToolCall[];
+    raw: unknown; // The provider's original response, for debug logging
+}
+
+/**
+ * A chat-completion backend. Implementations translate the neutral request/response shapes
+ * to and from their SDK so parser code does not depend on a particular vendor.
+ */
+export interface LlmProvider {
+    readonly name: LlmProviderName;
+    /** Sends a completion request. Rejects on transport/API errors. */
+    complete(request: LlmCompletionRequest): Promise<LlmCompletionResponse>;
+    /** Checks that the provider is configured (e.g. has a usable API key) before a request is attempted. */
+    isAvailable(): Promise<boolean>;
+}
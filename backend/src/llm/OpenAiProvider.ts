@@ -0,0 +1,152 @@
+// backend/src/llm/OpenAiProvider.ts
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam, ChatCompletionToolChoiceOption } from 'openai/resources/chat/completions';
+import { LlmProvider, LlmProviderName, LlmCompletionRequest, LlmCompletionResponse, LlmToolCall } from './LlmProvider';
+
+/**
+ * LlmProvider backed by the OpenAI Chat Completions API (tool use via `tool_calls`).
+ */
+export class OpenAiProvider implements LlmProvider {
+    public readonly name: LlmProviderName = 'openai';
+    protected readonly client: OpenAI;
+
+    constructor(options: { apiKey?: string; baseURL?: string } = {}) {
+        this.client = new OpenAI({
+            apiKey: options.apiKey ?? process.env.OPENAI_API_KEY,
+            baseURL: options.baseURL ?? process.env.OPENAI_BASE_URL,
+        });
+    }
+
+    public async complete(request: LlmCompletionRequest): Promise<LlmCompletionResponse> {
+        const messages: ChatCompletionMessageParam[] = [];
+        if (request.system) {
+            messages.push({ role: 'system', content: request.system });
+        }
+        messages.push(...request.messages);
+
+        const hasTools = !!request.tools && request.tools.length > 0;
+        const response = await this.client.chat.completions.create({
+            model: request.model,
+            max_tokens: request.maxTokens,
+            messages,
+            ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+            ...(hasTools ? {
+                tools: request.tools!.map(t => ({
+                    type: 'function' as const,
+                    function: {
+                        name: t.name,
+                        description: t.description || `Execute the ${t.name} tool.`,
+                        parameters: t.inputSchema || { type: 'object', properties: {} },
+                    },
+                })),
+                tool_choice: this.toToolChoice(request.toolChoice ?? 'auto'),
+            } : {}),
+        });
+
+        const message = response.choices[0]?.message;
+        const text = message?.content ?? '';
+        const toolCalls: LlmToolCall[] = [];
+        for (const call of message?.tool_calls ?? []) {
+            try {
+                toolCalls.push({
+                    id: call.id,
+                    name: call.function.name,
+                    input: call.function.arguments ? JSON.parse(call.function.arguments) : {},
+                });
+            } catch (parseError) {
+                console.warn(`[${this.name}Provider] Skipping tool call "${call.function.name}" with invalid JSON arguments:`, call.function.arguments);
+            }
+        }
+
+        return { text, toolCalls, raw: response };
+    }
+
+    public async isAvailable(): Promise<boolean> {
+        if (!this.client.apiKey) {
+            console.error(`[${this.name}Provider] No API key configured.`);
+            return false;
+        }
+        return true;
+    }
+
+    protected toToolChoice(choice: 'auto' | 'any'): ChatCompletionToolChoiceOption {
+        return choice === 'any' ? 'required' : 'auto';
+    }
+}
+
+/**
+ * LlmProvider for local or self-hosted servers that expose an OpenAI-compatible API
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...).
+ * Many of these ignore or reject `tool_choice: 'required'`, and smaller models often answer with the
+ * tool call written as JSON text instead of a structured `tool_calls` entry, so both are handled here.
+ */
+export class OpenAiCompatibleProvider extends OpenAiProvider {
+    public override readonly name: LlmProviderName = 'openai-compatible';
+
+    constructor(options: { apiKey?: string; baseURL?: string } = {}) {
+        const baseURL = options.baseURL ?? process.env.OPENAI_COMPATIBLE_BASE_URL;
+        if (!baseURL) {
+            throw new Error('OPENAI_COMPATIBLE_BASE_URL must be set to use the openai-compatible LLM provider.');
+        }
+        // Local servers usually don't check the key, but the SDK requires one
+        super({ apiKey: options.apiKey ?? process.env.OPENAI_COMPATIBLE_API_KEY ?? 'not-needed', baseURL });
+    }
+
+    public override async complete(request: LlmCompletionRequest): Promise<LlmCompletionResponse> {
+        const response = await super.complete(request);
+        if (request.tools && request.tools.length > 0 && response.toolCalls.length === 0 && response.text) {
+            const allowedToolNames = new Set(request.tools.map(t => t.name));
+            const toolCalls = extractToolCallsFromText(response.text).filter(call => allowedToolNames.has(call.name));
+            if (toolCalls.length > 0) {
+                console.log(`[${this.name}Provider] Recovered ${toolCalls.length} tool calls from text output.`);
+                return { ...response, toolCalls };
+            }
+        }
+        return response;
+    }
+
+    public override async isAvailable(): Promise<boolean> {
+        return true;
+    }
+
+    protected override toToolChoice(): ChatCompletionToolChoiceOption {
+        return 'auto';
+    }
+}
+
+/**
+ * Reads tool calls a model wrote as JSON text: a single `{ "name", "arguments" }` object or an array
+ * of them, optionally inside a markdown code block. `tool_name`/`tool` and `input`/`parameters` are
+ * accepted as aliases.
+ */
+function extractToolCallsFromText(text: string): LlmToolCall[] {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    const candidate = (fenced ? fenced[1] : text).trim();
+    let parsed: any;
+    try {
+        parsed = JSON.parse(candidate);
+    } catch {
+        return [];
+    }
+    const items = Array.isArray(parsed) ? parsed : [parsed];
+    return items
+        .map((item: any, index: number): LlmToolCall | null => {
+            const name = item?.name ?? item?.tool_name ?? item?.tool;
+            if (typeof name !== 'string') return null;
+            const input = item.arguments ?? item.input ?? item.parameters ?? {};
+            return {
+                id: `text-call-${Date.now()}-${index}`,
+                name,
+                input: typeof input === 'string' ? safeJsonParse(input) : input,
+            };
+        })
+        .filter((call: LlmToolCall | null): call is LlmToolCall => call !== null);
+}
+
+function safeJsonParse(value: string): { [key: string]: any } {
+    try {
+        return JSON.parse(value);
+    } catch {
+        return {};
+    }
+}
@@ -10,7 +10,7 @@ if (apiKey) {
         : '****';
     console.log('[anthropicClient] ANTHROPIC_API_KEY format:', maskedKey);
 } else {
-    console.error('[anthropicClient] CRITICAL: ANTHROPIC_API_KEY environment variable is not set.');
+    console.warn('[anthropicClient] ANTHROPIC_API_KEY environment variable is not set. The anthropic LLM provider will be unavailable.');
     // Optionally throw an error or exit if the key is essential for the app to run
     // process.exit(1);
 }
@@ -0,0 +1,95 @@
+// backend/src/llm/config.ts
+import type { LlmProviderName } from './LlmProvider';
+
+export const LLM_PROVIDER_NAMES: readonly LlmProviderName[] = ['anthropic', 'openai', 'openai-compatible'];
+
+/** The places in the backend that call an LLM; each can use its own provider and model. */
+export type LlmCallSite = 'parse' | 'refine' | 'replan';
+
+export interface LlmCallSiteConfig {
+    provider: LlmProviderName;
+    model: string;
+}
+
+// Models used when none is configured. Local servers have no sensible default.
+export const DEFAULT_MODELS: Record<LlmProviderName, string | null> = {
+    'anthropic': 'claude-3-opus-20240229',
+    'openai': 'gpt-4o',
+    'openai-compatible': null,
+};
+
+/**
+ * Resolves the provider and model for a call site from environment variables:
+ * - LLM_<SITE>_PROVIDER / LLM_<SITE>_MODEL (e.g. LLM_PARSE_PROVIDER, LLM_REFINE_MODEL) take precedence;
+ * - otherwise LLM_PROVIDER / LLM_MODEL apply to every call site;
+ * - the provider defaults to 'anthropic' and the model to DEFAULT_MODELS for that provider.
+ * LLM_MODEL is only used when the call site runs on the LLM_PROVIDER provider, so overriding just the
+ * provider of one call site doesn't send it a model name meant for another vendor.
+ *
+ * @throws Error if a provider name is unknown or no model can be determined.
+ */
+export function loadLlmConfig(site: LlmCallSite, env: NodeJS.ProcessEnv = process.env): LlmCallSiteConfig {
+    const prefix = `LLM_${site.toUpperCase()}_`;
+    const globalProvider = parseProviderName(env.LLM_PROVIDER, 'LLM_PROVIDER') ?? 'anthropic';
+    const provider = parseProviderName(env[`${prefix}PROVIDER`], `${prefix}PROVIDER`) ?? globalProvider;
+
+    const model = nonEmpty(env[`${prefix}MODEL`])
+        ?? (provider === globalProvider ? nonEmpty(env.LLM_MODEL) : undefined)
+        ?? DEFAULT_MODELS[provider];
+    if (!model) {
+        throw new Error(`No model configured for the ${site} call site (provider '${provider}'). Set ${prefix}MODEL or LLM_MODEL.`);
+    }
+    return { provider, model };
+}
+
+/** How LLM calls are routed through a cassette file (see llm/CassetteProvider.ts). */
+export type LlmCassetteMode = 'record' | 'replay';
+
+export interface LlmCassetteConfig {
+    mode: LlmCassetteMode;
+    path: string;
+}
+
+/**
+ * Reads the cassette settings: LLM_CASSETTE_MODE ('record', 'replay' or 'off'/unset) and
+ * LLM_CASSETTE_PATH (defaults to ./llm-cassette.json in the working directory).
+ * @returns The cassette configuration, or null when cassettes are disabled.
+ * @throws Error if the mode is unknown.
+ */
+export function loadCassetteConfig(env: NodeJS.ProcessEnv = process.env): LlmCassetteConfig | null {
+    const mode = nonEmpty(env.LLM_CASSETTE_MODE)?.toLowerCase();
+    if (!mode || mode === 'off') return null;
+    if (mode !== 'record' && mode !== 'replay') {
+        throw new Error(`Unknown LLM_CASSETTE_MODE '${env.LLM_CASSETTE_MODE}'. Expected 'record', 'replay' or 'off'.`);
+    }
+    return { mode, path: nonEmpty(env.LLM_CASSETTE_PATH) ?? 'llm-cassette.json' };
+}
+
+function parseProviderName(value: string | undefined, variable: string): LlmProviderName | undefined {
+    const name = nonEmpty(value)?.toLowerCase();
+    if (!name) return undefined;
+    if (!LLM_PROVIDER_NAMES.includes(name as LlmProviderName)) {
+        throw new Error(`Unknown LLM provider '${value}' in ${variable}. Expected one of: ${LLM_PROVIDER_NAMES.join(', ')}.`);
+    }
+    return name as LlmProviderName;
+}
+
+function nonEmpty(value: string | undefined): string | undefined {
+    return value && value.trim() !== '' ? value.trim() : undefined;
+}
+
+// Snapshot tokens per prompt when nothing is configured; about the 10000 characters prompts used to keep
+export const DEFAULT_SNAPSHOT_TOKEN_BUDGET = 2500;
+
+/**
+ * Reads how many tokens of page snapshot a call site's prompts may hold: LLM_<SITE>_SNAPSHOT_TOKENS
+ * (e.g. LLM_REFINE_SNAPSHOT_TOKENS), else LLM_SNAPSHOT_TOKENS, else DEFAULT_SNAPSHOT_TOKEN_BUDGET.
+ * Tokens are counted with the call site's provider (see llm/tokens.ts). Invalid values are ignored.
+ */
+export function loadSnapshotTokenBudget(site: LlmCallSite, env: NodeJS.ProcessEnv = process.env): number {
+    for (const variable of [`LLM_${site.toUpperCase()}_SNAPSHOT_TOKENS`, 'LLM_SNAPSHOT_TOKENS']) {
+        const value = Number(nonEmpty(env[variable]));
+        if (Number.isInteger(value) && value > 0) return value;
+    }
+    return DEFAULT_SNAPSHOT_TOKEN_BUDGET;
+}
@@ -0,0 +1,55 @@
+// backend/src/llm/providers.ts
+import { LlmProvider, LlmProviderName } from './LlmProvider';
+import { AnthropicProvider } from './AnthropicProvider';
+import { OpenAiProvider, OpenAiCompatibleProvider } from './OpenAiProvider';
+import { Cassette, CassetteProvider } from './CassetteProvider';
+import { LlmCallSite, loadLlmConfig, loadCassetteConfig } from './config';
+
+// Providers are created on first use so that unused backends don't need credentials
+const providers = new Map<LlmProviderName, LlmProvider>();
+
+/** Returns the shared provider instance for a backend, creating it on first use. */
+export function getLlmProvider(name: LlmProviderName): LlmProvider {
+    let provider = providers.get(name);
+    if (!provider) {
+        switch (name) {
+            case 'anthropic':
+                provider = new AnthropicProvider();
+                break;
+            case 'openai':
+                provider = new OpenAiProvider();
+                break;
+            case 'openai-compatible':
+                provider = new OpenAiCompatibleProvider();
+                break;
+        }
+        providers.set(name, provider);
+    }
+    return provider;
+}
+
+// Cassette wrappers, keyed by mode, cassette path and provider
+const cassetteProviders = new Map<string, CassetteProvider>();
+
+/**
+ * Returns the provider and model configured for a call site (see loadLlmConfig).
+ * When LLM_CASSETTE_MODE is set, the provider is wrapped in a CassetteProvider that records to or
+ * replays from LLM_CASSETTE_PATH; in replay mode the real provider is never created.
+ * Configuration is read on every call, so changes to the environment take effect without a restart.
+ */
+export function resolveLlm(site: LlmCallSite): { provider: LlmProvider; model: string } {
+    const config = loadLlmConfig(site);
+    const cassetteConfig = loadCassetteConfig();
+    if (!cassetteConfig) {
+        return { provider: getLlmProvider(config.provider), model: config.model };
+    }
+
+    const cacheKey = `${cassetteConfig.mode}:${cassetteConfig.path}:${config.provider}`;
+    let provider = cassetteProviders.get(cacheKey);
+    if (!provider) {
+        const inner = cassetteConfig.mode === 'record' ? getLlmProvider(config.provider) : null;
+        provider = new CassetteProvider(cassetteConfig.mode, Cassette.open(cassetteConfig.path), inner, config.provider);
+        cassetteProviders.set(cacheKey, provider);
+    }
+    return { provider, model: config.model };
+}
@@ -0,0 +1,18 @@
+// backend/src/llm/tokens.ts
+import type { LlmProviderName } from './LlmProvider';
+
+// Average characters per token of each backend's tokenizer on snapshot-like text (English words,
+// punctuation and short ids). Local models get the more cautious figure since their tokenizer is unknown.
+export const CHARS_PER_TOKEN: Record<LlmProviderName, number> = {
+    'anthropic': 3.5,
+    'openai': 4,
+    'openai-compatible': 3.5,
+};
+
+/**
+ * Estimates how many tokens a text takes up for a provider. The SDKs have no offline tokenizer for
+ * every backend, so this is a character-ratio estimate, rounded up to err on the side of a smaller prompt.
+ */
+export function estimateTokens(text: string, provider: LlmProviderName): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN[provider]);
+}
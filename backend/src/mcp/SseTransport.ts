@@ -0,0 +1,118 @@
+// backend/src/mcp/SseTransport.ts
+import axios from 'axios';
+import * as EventSourceLib from 'eventsource';
+import { McpTransport, McpTransportKind, McpTransportOptions, JsonRpcMessage } from './transport';
+
+/**
+ * The legacy MCP HTTP+SSE transport: a long-lived GET event stream announces a POST endpoint
+ * (`endpoint` event, e.g. `/sse?sessionId=...`), messages are POSTed there and answers come back
+ * on the event stream. connect() runs the initialize handshake once the endpoint is known.
+ */
+export class SseTransport extends McpTransport {
+    public readonly kind: McpTransportKind = 'sse';
+    private es: EventSourceLib.EventSource | null = null;
+    private postUrl: string | null = null;
+    private currentSessionId: string | null = null;
+    private readonly connectTimeoutMs: number;
+    private readonly requestTimeoutMs: number;
+
+    /** @param url The server's SSE endpoint (the URL the event stream is opened on). */
+    constructor(private readonly url: string, options: McpTransportOptions = {}) {
+        super();
+        this.connectTimeoutMs = options.connectTimeoutMs ?? 20000;
+        this.requestTimeoutMs = options.requestTimeoutMs ?? 15000;
+    }
+
+    public get sessionId(): string | null {
+        return this.currentSessionId;
+    }
+
+    public async connect(): Promise<void> {
+        await this.openStream();
+        try {
+            await this.initialize(message => this.send(message), this.connectTimeoutMs);
+        } catch (error) {
+            this.close();
+            throw error;
+        }
+    }
+
+    // Opens the event stream and waits for the endpoint event
+    private openStream(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            console.log(`[SseTransport] Opening event stream to ${this.url}...`);
+            let connected = false;
+            const es = new EventSourceLib.EventSource(this.url);
+            this.es = es;
+
+            const timeoutId = setTimeout(() => {
+                this.close();
+                reject(new Error(`Timeout waiting for the MCP endpoint event from ${this.url}`));
+            }, this.connectTimeoutMs);
+
+            es.addEventListener('endpoint', (ev) => {
+                if (connected) return;
+                const dataStr = (ev as any).data as string;
+                if (typeof dataStr !== 'string' || dataStr.trim() === '') {
+                    console.warn('[SseTransport] Ignoring empty endpoint event.');
+                    return;
+                }
+                // The endpoint is usually a path relative to the server, e.g. /sse?sessionId=abc
+                const endpoint = new URL(dataStr.trim(), this.url);
+                this.postUrl = endpoint.toString();
+                this.currentSessionId = endpoint.searchParams.get('sessionId');
+                connected = true;
+                clearTimeout(timeoutId);
+                console.log(`[SseTransport] Obtained sessionId: ${this.currentSessionId} (POST endpoint ${this.postUrl})`);
+                resolve();
+            });
+
+            es.addEventListener('message', (msgEvent) => {
+                this.emitRaw((msgEvent as any).data);
+            });
+
+            es.onerror = (err: any) => {
+                const error = new Error(`MCP event stream error: ${err?.message ?? 'connection failed'}`);
+                if (!connected) {
+                    clearTimeout(timeoutId);
+                    this.close();
+                    reject(error);
+                    return;
+                }
+                this.emit('error', error);
+            };
+        });
+    }
+
+    public async send(message: JsonRpcMessage): Promise<void> {
+        if (!this.postUrl) {
+            throw new Error('SSE transport is not connected.');
+        }
+        const response = await axios.post(this.postUrl, message, {
+            headers: { 'Content-Type': 'application/json' },
+            timeout: this.requestTimeoutMs
+        });
+        // Most servers answer 202 Accepted and deliver the response on the stream, but some reply inline
+        const data = response.data;
+        if (data && typeof data === 'object' && data.jsonrpc === '2.0' && (data.result !== undefined || data.error !== undefined)) {
+            this.receive(data as JsonRpcMessage);
+        }
+    }
+
+    public close(): void {
+        if (!this.es) return;
+        this.es.close();
+        this.es = null;
+        this.postUrl = null;
+        this.currentSessionId = null;
+        this.emit('close');
+    }
+
+    private emitRaw(data: string): void {
+        try {
+            this.receive(JSON.parse(data) as JsonRpcMessage);
+        } catch (parseError: any) {
+            console.error('[SseTransport] Error parsing SSE message data:', { err: parseError, data });
+        }
+    }
+}
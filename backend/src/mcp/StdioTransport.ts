@@ -0,0 +1,175 @@
+// backend/src/mcp/StdioTransport.ts
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { McpTransport, McpTransportKind, McpTransportOptions, McpStdioCommand, JsonRpcMessage } from './transport';
+
+// Children still running, killed if the backend exits without closing their transports
+const liveChildren = new Set<ChildProcessWithoutNullStreams>();
+process.on('exit', () => liveChildren.forEach(child => child.kill('SIGKILL')));
+
+/**
+ * The MCP stdio transport: the server runs as a child process (by default `npx @playwright/mcp`)
+ * and exchanges newline-delimited JSON-RPC messages over its stdin/stdout; stderr is logged.
+ *
+ * The transport supervises the process: if it exits unexpectedly it is restarted (up to
+ * McpStdioCommand.maxRestarts times, with a growing delay), re-initialized, and 'restart' is emitted.
+ * close() terminates it.
+ */
+export class StdioTransport extends McpTransport {
+    public readonly kind: McpTransportKind = 'stdio';
+    private child: ChildProcessWithoutNullStreams | null = null;
+    private stdoutBuffer = '';
+    private restarts = 0;
+    private restartTimerId: NodeJS.Timeout | null = null;
+    private starting = false; // A process is being started; its failures are reported by start() itself
+    private closed = false;
+    private readonly connectTimeoutMs: number;
+
+    constructor(private readonly serverCommand: McpStdioCommand, options: McpTransportOptions = {}) {
+        super();
+        // npx may need to download the server on first start
+        this.connectTimeoutMs = options.connectTimeoutMs ?? 60000;
+    }
+
+    /** The child's process id, used as the session id (stdio servers have no session of their own). */
+    public get sessionId(): string | null {
+        return this.child?.pid !== undefined ? `stdio-${this.child.pid}` : null;
+    }
+
+    public async connect(): Promise<void> {
+        this.closed = false;
+        try {
+            await this.start();
+        } catch (error) {
+            this.close();
+            throw error;
+        }
+    }
+
+    public async send(message: JsonRpcMessage): Promise<void> {
+        if (!this.child || this.closed) {
+            throw new Error('MCP server process is not running.');
+        }
+        await this.write(message);
+    }
+
+    public close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        if (this.restartTimerId) {
+            clearTimeout(this.restartTimerId);
+            this.restartTimerId = null;
+        }
+        const child = this.child;
+        this.child = null;
+        if (child) {
+            console.log(`[StdioTransport] Stopping MCP server process ${child.pid}.`);
+            child.stdin.end();
+            child.kill('SIGTERM');
+            // Escalate if the server ignores SIGTERM (e.g. while a browser is shutting down)
+            const killTimer = setTimeout(() => child.kill('SIGKILL'), 5000);
+            killTimer.unref();
+            child.once('exit', () => clearTimeout(killTimer));
+        }
+        this.emit('close');
+    }
+
+    // Spawns the server and runs the initialize handshake
+    private async start(): Promise<void> {
+        const { command, args } = this.serverCommand;
+        console.log(`[StdioTransport] Starting MCP server: ${command} ${args.join(' ')}`);
+        const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'], env: process.env });
+        this.child = child;
+        this.stdoutBuffer = '';
+        liveChildren.add(child);
+
+        const spawnFailed = new Promise<never>((_, reject) => {
+            child.once('error', err => reject(new Error(`Failed to start MCP server '${command}': ${err.message}`)));
+            child.once('exit', (code, signal) => reject(new Error(`MCP server exited during startup (code ${code}, signal ${signal})`)));
+        });
+        spawnFailed.catch(() => {}); // Only observed while the handshake is running
+
+        child.stdout.setEncoding('utf8');
+        child.stdout.on('data', (chunk: string) => this.handleStdout(chunk));
+        child.stderr.setEncoding('utf8');
+        child.stderr.on('data', (chunk: string) => {
+            chunk.split('\n').filter(line => line.trim() !== '').forEach(line => console.log(`[StdioTransport] [server] ${line}`));
+        });
+        // Writes to a dying process fail with EPIPE; the exit handler deals with the crash itself
+        child.stdin.on('error', err => console.warn('[StdioTransport] Error writing to MCP server stdin:', err.message));
+        child.on('error', err => console.error('[StdioTransport] MCP server process error:', err.message));
+        child.on('exit', (code, signal) => {
+            liveChildren.delete(child);
+            this.handleExit(child, code, signal);
+        });
+
+        this.starting = true;
+        try {
+            await Promise.race([this.initialize(message => this.write(message), this.connectTimeoutMs), spawnFailed]);
+        } catch (error) {
+            this.stopChild();
+            throw error;
+        } finally {
+            this.starting = false;
+        }
+        console.log(`[StdioTransport] MCP server process ${child.pid} is ready.`);
+    }
+
+    private write(message: JsonRpcMessage): Promise<void> {
+        const child = this.child;
+        if (!child) return Promise.reject(new Error('MCP server process is not running.'));
+        return new Promise((resolve, reject) => {
+            child.stdin.write(JSON.stringify(message) + '\n', err => (err ? reject(err) : resolve()));
+        });
+    }
+
+    private handleStdout(chunk: string): void {
+        this.stdoutBuffer += chunk;
+        let newline: number;
+        while ((newline = this.stdoutBuffer.indexOf('\n')) !== -1) {
+            const line = this.stdoutBuffer.slice(0, newline).trim();
+            this.stdoutBuffer = this.stdoutBuffer.slice(newline + 1);
+            if (line === '') continue;
+            try {
+                this.receive(JSON.parse(line) as JsonRpcMessage);
+            } catch {
+                // Servers should only write JSON-RPC to stdout, but some print banners
+                console.log(`[StdioTransport] [server stdout] ${line}`);
+            }
+        }
+    }
+
+    private handleExit(child: ChildProcessWithoutNullStreams, code: number | null, signal: NodeJS.Signals | null): void {
+        // Expected when closed, replaced, or still starting (start() rejects instead)
+        if (this.closed || this.starting || this.child !== child) return;
+        this.child = null;
+        console.warn(`[StdioTransport] MCP server process ${child.pid} exited unexpectedly (code ${code}, signal ${signal}).`);
+        this.scheduleRestart();
+    }
+
+    private scheduleRestart(): void {
+        if (this.restarts >= this.serverCommand.maxRestarts) {
+            this.emit('error', new Error(`MCP server process crashed and the restart limit (${this.serverCommand.maxRestarts}) was reached.`));
+            return;
+        }
+        this.restarts++;
+        const delayMs = 1000 * this.restarts;
+        console.log(`[StdioTransport] Restarting MCP server in ${delayMs}ms (restart ${this.restarts}/${this.serverCommand.maxRestarts}).`);
+        this.restartTimerId = setTimeout(() => {
+            this.restartTimerId = null;
+            if (this.closed) return;
+            this.start()
+                .then(() => this.emit('restart'))
+                .catch(err => {
+                    console.error('[StdioTransport] Failed to restart MCP server:', err?.message ?? err);
+                    if (!this.closed) this.scheduleRestart();
+                });
+        }, delayMs);
+    }
+
+    // Kills the current process without treating its exit as a crash
+    private stopChild(): void {
+        const child = this.child;
+        this.child = null;
+        child?.kill('SIGKILL');
+    }
+}
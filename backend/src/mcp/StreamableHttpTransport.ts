@@ -0,0 +1,214 @@
+// backend/src/mcp/StreamableHttpTransport.ts
+import { McpTransport, McpTransportKind, McpTransportOptions, JsonRpcMessage } from './transport';
+
+/**
+ * The MCP Streamable HTTP transport: every message is POSTed to a single endpoint (usually `/mcp`).
+ * The server answers each request either with a JSON body or with an event stream carrying the
+ * response, and identifies the session with the `Mcp-Session-Id` header returned from `initialize`.
+ * An optional GET event stream carries messages the server sends on its own (e.g. notifications).
+ * connect() runs the initialize handshake, which is also where the server assigns the session;
+ * resume() re-binds to it after a dropped connection.
+ */
+export class StreamableHttpTransport extends McpTransport {
+    public readonly kind: McpTransportKind = 'streamable-http';
+    private currentSessionId: string | null = null;
+    private readonly streams = new Set<AbortController>(); // Open response/GET streams, aborted on close
+    private closed = false;
+    private readonly connectTimeoutMs: number;
+    private readonly requestTimeoutMs: number;
+
+    /** @param url The server's MCP endpoint, e.g. http://localhost:9000/mcp. */
+    constructor(private readonly url: string, options: McpTransportOptions = {}) {
+        super();
+        this.connectTimeoutMs = options.connectTimeoutMs ?? 20000;
+        this.requestTimeoutMs = options.requestTimeoutMs ?? 15000;
+    }
+
+    public get sessionId(): string | null {
+        return this.currentSessionId;
+    }
+
+    public async connect(): Promise<void> {
+        console.log(`[StreamableHttpTransport] Initializing session with ${this.url}...`);
+        this.closed = false;
+
+        try {
+            await this.initialize(message => this.post(message), this.connectTimeoutMs);
+        } catch (error) {
+            this.close();
+            throw error;
+        }
+
+        console.log(`[StreamableHttpTransport] Obtained sessionId: ${this.currentSessionId ?? '(none, stateless server)'}`);
+        this.openServerStream();
+    }
+
+    public async send(message: JsonRpcMessage): Promise<void> {
+        if (this.closed) {
+            throw new Error('Streamable HTTP transport is closed.');
+        }
+        await this.post(message);
+    }
+
+    /**
+     * The server keeps the session (and its browser) across HTTP connections, so a dropped stream
+     * does not end it: a ping with the session id tells whether the server still knows it.
+     */
+    public async resume(): Promise<boolean> {
+        if (this.closed || !this.currentSessionId) return false;
+        try {
+            await this.ping(message => this.post(message), this.requestTimeoutMs);
+        } catch (error: any) {
+            console.warn(`[StreamableHttpTransport] Could not resume session ${this.currentSessionId}: ${error.message}`);
+            return false;
+        }
+        console.log(`[StreamableHttpTransport] Resumed session ${this.currentSessionId}.`);
+        this.openServerStream();
+        return true;
+    }
+
+    public close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.streams.forEach(controller => controller.abort());
+        this.streams.clear();
+        if (this.currentSessionId) {
+            // Tell the server the session is over; it will expire it eventually anyway
+            fetch(this.url, { method: 'DELETE', headers: this.headers() })
+                .catch(err => console.warn('[StreamableHttpTransport] Failed to terminate MCP session:', err?.message ?? err));
+        }
+        this.currentSessionId = null;
+        this.emit('close');
+    }
+
+    private headers(extra: Record<string, string> = {}): Record<string, string> {
+        const headers: Record<string, string> = { ...extra };
+        if (this.currentSessionId) headers['Mcp-Session-Id'] = this.currentSessionId;
+        if (this.initializeResult?.protocolVersion) headers['MCP-Protocol-Version'] = this.initializeResult.protocolVersion;
+        return headers;
+    }
+
+    /**
+     * POSTs one message. Resolves once the server accepted it: JSON answers are delivered before resolving,
+     * event-stream answers are read in the background so long-running tool calls don't block the caller.
+     * Only notifications and responses are timed here. A server may answer a request with a plain JSON
+     * body, which it sends only once the tool has finished, so requests are left to the caller's own
+     * timeout (McpClient's, or initialize()'s and ping()'s) and are aborted only by close().
+     */
+    private async post(message: JsonRpcMessage): Promise<void> {
+        const controller = new AbortController();
+        const isRequest = message.method !== undefined && message.id !== undefined && message.id !== null;
+        const timeoutId = isRequest ? null : setTimeout(() => controller.abort(), this.requestTimeoutMs);
+        if (isRequest) this.streams.add(controller);
+        let response: Response;
+        try {
+            response = await fetch(this.url, {
+                method: 'POST',
+                headers: this.headers({ 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' }),
+                body: JSON.stringify(message),
+                signal: controller.signal
+            });
+        } catch (error: any) {
+            this.streams.delete(controller);
+            throw new Error(controller.signal.aborted && !isRequest
+                ? `Timed out after ${this.requestTimeoutMs}ms sending ${message.method ?? 'message'} to ${this.url}`
+                : `Failed to send ${message.method ?? 'message'} to ${this.url}: ${error.message}`);
+        } finally {
+            if (timeoutId) clearTimeout(timeoutId);
+        }
+
+        let streaming = false; // The event stream keeps the controller until it ends
+        try {
+            const sessionHeader = response.headers.get('mcp-session-id');
+            if (sessionHeader && message.method === 'initialize') {
+                this.currentSessionId = sessionHeader;
+            }
+
+            if (!response.ok) {
+                const body = await response.text().catch(() => '');
+                throw new Error(`MCP server rejected ${message.method ?? 'message'} with HTTP ${response.status}${body ? `: ${body}` : ''}`);
+            }
+            if (response.status === 202 || !response.body) {
+                return; // Accepted; nothing to read (notifications and responses)
+            }
+
+            const contentType = response.headers.get('content-type') ?? '';
+            if (contentType.includes('text/event-stream')) {
+                streaming = true;
+                this.readEventStream(response, controller);
+            } else {
+                const text = await response.text();
+                if (text.trim() !== '') {
+                    this.deliverJson(text);
+                }
+            }
+        } finally {
+            if (!streaming) this.streams.delete(controller);
+        }
+    }
+
+    /** Opens the optional GET stream for server-initiated messages. Servers without one answer 405. */
+    private openServerStream(): void {
+        if (this.closed) return;
+        const controller = new AbortController();
+        fetch(this.url, { method: 'GET', headers: this.headers({ 'Accept': 'text/event-stream' }), signal: controller.signal })
+            .then(response => {
+                if (!response.ok || !response.body) {
+                    console.log(`[StreamableHttpTransport] Server does not offer a notification stream (HTTP ${response.status}).`);
+                    return;
+                }
+                this.readEventStream(response, controller);
+            })
+            .catch(err => {
+                if (!controller.signal.aborted) {
+                    console.warn('[StreamableHttpTransport] Failed to open notification stream:', err?.message ?? err);
+                }
+            });
+    }
+
+    private readEventStream(response: Response, controller: AbortController): void {
+        this.streams.add(controller);
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        const pump = async (): Promise<void> => {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+                let boundary: number;
+                while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+                    const rawEvent = buffer.slice(0, boundary);
+                    buffer = buffer.slice(boundary + 2);
+                    const data = rawEvent.split('\n')
+                        .filter(line => line.startsWith('data:'))
+                        .map(line => line.slice(5).replace(/^ /, ''))
+                        .join('\n');
+                    if (data !== '') this.deliverJson(data);
+                }
+            }
+        };
+
+        pump()
+            .catch(err => {
+                if (!controller.signal.aborted && !this.closed) {
+                    this.emit('error', new Error(`MCP response stream failed: ${err?.message ?? err}`));
+                }
+            })
+            .finally(() => this.streams.delete(controller));
+    }
+
+    // Parses a JSON body or SSE data field (a single message or a batch) and emits each message
+    private deliverJson(text: string): void {
+        let parsed: any;
+        try {
+            parsed = JSON.parse(text);
+        } catch (parseError: any) {
+            console.error('[StreamableHttpTransport] Error parsing MCP message:', { err: parseError, data: text });
+            return;
+        }
+        const messages: JsonRpcMessage[] = Array.isArray(parsed) ? parsed : [parsed];
+        messages.forEach(message => this.receive(message));
+    }
+}
@@ -0,0 +1,216 @@
+// backend/src/mcp/client.ts
+import { EventEmitter } from 'events';
+import { McpTransport, JsonRpcMessage } from './transport';
+import { McpToolDefinition, McpResourceDefinition, McpToolCallResult } from '../types/mcp';
+
+/** The server answered a request with a JSON-RPC error. */
+export class McpRequestError extends Error {
+    constructor(
+        public readonly method: string,
+        public readonly code: number,
+        message: string,
+        public readonly data?: unknown
+    ) {
+        super(message);
+        this.name = 'McpRequestError';
+    }
+}
+
+/** No response arrived within the request's timeout. */
+export class McpTimeoutError extends Error {
+    constructor(public readonly method: string, public readonly timeoutMs: number) {
+        super(`MCP ${method} request timed out after ${timeoutMs}ms.`);
+        this.name = 'McpTimeoutError';
+    }
+}
+
+/** The request's AbortSignal fired before the response arrived. */
+export class McpCancelledError extends Error {
+    constructor(public readonly method: string) {
+        super(`MCP ${method} request was cancelled.`);
+        this.name = 'McpCancelledError';
+    }
+}
+
+export interface McpRequestOptions {
+    timeoutMs?: number; // Defaults to the client's requestTimeoutMs
+    signal?: AbortSignal; // Cancels the request: the promise rejects and the server is notified
+}
+
+export interface McpClientOptions {
+    requestTimeoutMs?: number; // Default per-request timeout (30s)
+}
+
+// Events emitted by the client
+export interface McpClientEvents {
+    notification: (message: JsonRpcMessage) => void; // Server notifications (messages with a method and no id)
+}
+
+// Use declaration merging to type the EventEmitter
+export declare interface McpClient {
+    on<K extends keyof McpClientEvents>(event: K, listener: McpClientEvents[K]): this;
+    off<K extends keyof McpClientEvents>(event: K, listener: McpClientEvents[K]): this;
+    emit<K extends keyof McpClientEvents>(event: K, ...args: Parameters<McpClientEvents[K]>): boolean;
+}
+
+// An outstanding request, settled by its response, its timeout, cancellation or the connection going away
+interface PendingRequest {
+    method: string;
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Typed request/response API over a connected McpTransport. Each request gets its own JSON-RPC id
+ * and a promise that settles when the matching response arrives, whichever stream carries it.
+ *
+ * Requests in flight are rejected when the transport restarts or closes, since their responses
+ * will never arrive. Server notifications are re-emitted as 'notification'.
+ */
+export class McpClient extends EventEmitter {
+    private nextId = 1;
+    private readonly pending = new Map<number, PendingRequest>();
+    private readonly requestTimeoutMs: number;
+
+    constructor(public readonly transport: McpTransport, options: McpClientOptions = {}) {
+        super();
+        this.requestTimeoutMs = options.requestTimeoutMs ?? 30000;
+        transport.on('message', (message) => this.handleMessage(message));
+        transport.on('restart', () => this.failPending(new Error('MCP server restarted while the request was running.')));
+        transport.on('close', () => this.failPending(new Error('MCP connection closed.')));
+    }
+
+    /**
+     * Lists the server's tools, following pagination cursors.
+     * @throws McpRequestError, McpTimeoutError or McpCancelledError.
+     */
+    public async listTools(options: McpRequestOptions = {}): Promise<McpToolDefinition[]> {
+        return this.listAll<McpToolDefinition>('tools/list', 'tools', options);
+    }
+
+    /**
+     * Lists the server's resources, following pagination cursors. Servers that did not declare the
+     * resources capability are not asked and yield an empty list.
+     */
+    public async listResources(options: McpRequestOptions = {}): Promise<McpResourceDefinition[]> {
+        if (!this.transport.initializeResult?.capabilities.resources) {
+            return [];
+        }
+        return this.listAll<McpResourceDefinition>('resources/list', 'resources', options);
+    }
+
+    /**
+     * Calls a tool. A tool that ran but failed resolves with `isError: true`; only protocol-level
+     * failures reject.
+     * @throws McpRequestError, McpTimeoutError or McpCancelledError.
+     */
+    public callTool(name: string, args: Record<string, any> = {}, options: McpRequestOptions = {}): Promise<McpToolCallResult> {
+        return this.request<McpToolCallResult>('tools/call', { name, arguments: args }, options);
+    }
+
+    /**
+     * Sends a JSON-RPC request and resolves with its result.
+     * @throws McpRequestError if the server answers with an error, McpTimeoutError if it does not
+     *         answer in time, McpCancelledError if options.signal fires, or the transport's error if
+     *         the request cannot be delivered.
+     */
+    public request<T = any>(method: string, params: Record<string, any> = {}, options: McpRequestOptions = {}): Promise<T> {
+        const { signal } = options;
+        if (signal?.aborted) {
+            return Promise.reject(new McpCancelledError(method));
+        }
+        const id = this.nextId++;
+        const timeoutMs = options.timeoutMs ?? this.requestTimeoutMs;
+
+        return new Promise<T>((resolve, reject) => {
+            const settle = () => {
+                clearTimeout(timeoutId);
+                signal?.removeEventListener('abort', onAbort);
+                this.pending.delete(id);
+            };
+            const onAbort = () => {
+                settle();
+                // Let the server stop working on it; failures do not matter, the caller has moved on
+                this.transport.send({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: id, reason: 'Cancelled by client' } })
+                    .catch(() => {});
+                reject(new McpCancelledError(method));
+            };
+            const timeoutId = setTimeout(() => {
+                settle();
+                reject(new McpTimeoutError(method, timeoutMs));
+            }, timeoutMs);
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            // Registered before sending: some transports deliver the response with the acknowledgment
+            this.pending.set(id, {
+                method,
+                resolve: (result) => { settle(); resolve(result); },
+                reject: (error) => { settle(); reject(error); },
+            });
+            this.transport.send({ jsonrpc: '2.0', id, method, params }).catch(error => {
+                this.pending.get(id)?.reject(error);
+            });
+        });
+    }
+
+    /** Number of requests still waiting for a response. */
+    public get pendingCount(): number {
+        return this.pending.size;
+    }
+
+    /** Closes the transport, rejecting any requests still in flight. */
+    public close(): void {
+        this.transport.close();
+        this.failPending(new Error('MCP connection closed.'));
+    }
+
+    /** Rejects every request in flight with the given error, e.g. when their responses were lost with the connection. */
+    public failPending(error: Error): void {
+        for (const request of [...this.pending.values()]) {
+            request.reject(error);
+        }
+    }
+
+    private async listAll<T>(method: string, key: string, options: McpRequestOptions): Promise<T[]> {
+        const items: T[] = [];
+        let cursor: string | undefined;
+        do {
+            const result = await this.request<any>(method, cursor ? { cursor } : {}, options);
+            items.push(...(Array.isArray(result?.[key]) ? result[key] : []));
+            cursor = typeof result?.nextCursor === 'string' ? result.nextCursor : undefined;
+        } while (cursor);
+        return items;
+    }
+
+    private handleMessage(message: JsonRpcMessage): void {
+        if (message.method !== undefined) {
+            if (message.id === undefined || message.id === null) {
+                this.emit('notification', message);
+            } else {
+                this.answerServerRequest(message);
+            }
+            return;
+        }
+
+        const pending = typeof message.id === 'number' ? this.pending.get(message.id) : undefined;
+        if (!pending) {
+            console.warn(`[McpClient] Dropping response for unknown or already settled request ID: ${message.id}`);
+            return;
+        }
+        if (message.error) {
+            pending.reject(new McpRequestError(pending.method, message.error.code, message.error.message, message.error.data));
+        } else {
+            pending.resolve(message.result);
+        }
+    }
+
+    // The server may ping us; nothing else it can ask for (sampling, roots, ...) is supported
+    private answerServerRequest(message: JsonRpcMessage): void {
+        const reply: JsonRpcMessage = message.method === 'ping'
+            ? { jsonrpc: '2.0', id: message.id, result: {} }
+            : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not supported by client: ${message.method}` } };
+        this.transport.send(reply).catch(error => {
+            console.warn(`[McpClient] Failed to answer server request ${message.method}:`, error?.message ?? error);
+        });
+    }
+}
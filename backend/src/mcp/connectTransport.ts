@@ -0,0 +1,64 @@
+// backend/src/mcp/connectTransport.ts
+import { McpTransport, McpTransportOptions, McpTransportSetting, McpStdioCommand, loadMcpStdioCommand } from './transport';
+import { SseTransport } from './SseTransport';
+import { StreamableHttpTransport } from './StreamableHttpTransport';
+import { StdioTransport } from './StdioTransport';
+
+function urlPath(serverUrl: string): string {
+    return new URL(serverUrl).pathname.replace(/\/+$/, '');
+}
+
+/** The Streamable HTTP endpoint for a server URL: the URL itself if it already ends in /mcp, else <url>/mcp. */
+export function streamableHttpEndpoint(serverUrl: string): string {
+    if (urlPath(serverUrl).endsWith('/mcp')) return serverUrl;
+    const url = new URL(serverUrl);
+    url.pathname = `${url.pathname.replace(/\/+$/, '')}/mcp`;
+    return url.toString();
+}
+
+/**
+ * Creates and connects the transport for an MCP server.
+ * - 'stdio': launches the server as a child process (see loadMcpStdioCommand); the URL is ignored;
+ * - 'sse': legacy HTTP+SSE on the URL as given;
+ * - 'streamable-http': Streamable HTTP on the URL's /mcp endpoint (see streamableHttpEndpoint);
+ * - 'auto': without a URL the server is launched over stdio. URLs ending in /sse use SSE and URLs ending
+ *   in /mcp use Streamable HTTP; for any other URL, Streamable HTTP is tried first and SSE is used if
+ *   the server does not accept it.
+ *
+ * @throws An error if the server cannot be reached with the selected transport(s), or if an HTTP
+ *         transport is selected without a URL.
+ */
+export async function connectMcpTransport(
+    serverUrl: string | null,
+    setting: McpTransportSetting,
+    options: McpTransportOptions = {},
+    stdioCommand: McpStdioCommand = loadMcpStdioCommand()
+): Promise<McpTransport> {
+    if (setting === 'stdio' || (setting === 'auto' && !serverUrl)) {
+        return connected(new StdioTransport(stdioCommand, options));
+    }
+    if (!serverUrl) {
+        throw new Error(`MCP_TRANSPORT=${setting} needs MCP_SERVER_BASE_URL to be set.`);
+    }
+
+    const path = urlPath(serverUrl);
+    if (setting === 'sse' || (setting === 'auto' && path.endsWith('/sse'))) {
+        return connected(new SseTransport(serverUrl, options));
+    }
+    if (setting === 'streamable-http' || path.endsWith('/mcp')) {
+        return connected(new StreamableHttpTransport(streamableHttpEndpoint(serverUrl), options));
+    }
+
+    try {
+        return await connected(new StreamableHttpTransport(streamableHttpEndpoint(serverUrl), options));
+    } catch (error: any) {
+        console.log(`[connectMcpTransport] Streamable HTTP not available at ${streamableHttpEndpoint(serverUrl)} (${error.message}). Falling back to SSE.`);
+        return connected(new SseTransport(serverUrl, options));
+    }
+}
+
+async function connected(transport: McpTransport): Promise<McpTransport> {
+    await transport.connect();
+    console.log(`[connectMcpTransport] Connected using the ${transport.kind} transport.`);
+    return transport;
+}
@@ -0,0 +1,93 @@
+// backend/src/mcp/toolSchema.ts
+import { McpToolDefinition } from '../types/mcp';
+
+// JSON Schema type names, as used in a schema's `type` keyword
+type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+function jsonTypeOf(value: unknown): JsonType | 'undefined' {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') return typeof value as JsonType;
+    return 'undefined';
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    const actual = jsonTypeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Checks a value against the subset of JSON Schema that MCP servers use for tool input schemas:
+ * type, enum, const, properties, required, additionalProperties, items, anyOf/oneOf and the
+ * numeric, string and array bounds. Other keywords are ignored, so unknown schemas never reject.
+ *
+ * @param path Where the value sits, used to prefix each problem (e.g. "arguments.ref").
+ * @returns One message per problem found; empty if the value is valid.
+ */
+export function validateAgainstSchema(value: unknown, schema: any, path = 'arguments'): string[] {
+    if (!schema || typeof schema !== 'object') {
+        return [];
+    }
+
+    if (schema.type !== undefined) {
+        const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            return [`${path}: expected ${types.join(' or ')}, got ${jsonTypeOf(value)}`];
+        }
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+        return [`${path}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`];
+    }
+    if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+        return [`${path}: must be ${JSON.stringify(schema.const)}`];
+    }
+
+    const alternatives = schema.anyOf ?? schema.oneOf;
+    if (Array.isArray(alternatives) && alternatives.length > 0
+        && !alternatives.some((alternative: any) => validateAgainstSchema(value, alternative, path).length === 0)) {
+        return [`${path}: does not match any of the allowed shapes`];
+    }
+
+    const problems: string[] = [];
+    if (typeof value === 'number') {
+        if (typeof schema.minimum === 'number' && value < schema.minimum) problems.push(`${path}: must be >= ${schema.minimum}`);
+        if (typeof schema.maximum === 'number' && value > schema.maximum) problems.push(`${path}: must be <= ${schema.maximum}`);
+    }
+    if (typeof value === 'string') {
+        if (typeof schema.minLength === 'number' && value.length < schema.minLength) problems.push(`${path}: must be at least ${schema.minLength} characters`);
+        if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) problems.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (Array.isArray(value)) {
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) problems.push(`${path}: must have at least ${schema.minItems} items`);
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) problems.push(`${path}: must have at most ${schema.maxItems} items`);
+        if (schema.items && typeof schema.items === 'object') {
+            value.forEach((item, index) => problems.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`)));
+        }
+    }
+    if (jsonTypeOf(value) === 'object') {
+        const object = value as Record<string, unknown>;
+        const properties: Record<string, any> = schema.properties ?? {};
+        for (const name of Array.isArray(schema.required) ? schema.required : []) {
+            if (object[name] === undefined) problems.push(`${path}.${name}: is required`);
+        }
+        for (const [name, propertyValue] of Object.entries(object)) {
+            if (properties[name]) {
+                problems.push(...validateAgainstSchema(propertyValue, properties[name], `${path}.${name}`));
+            } else if (schema.additionalProperties === false) {
+                problems.push(`${path}.${name}: is not an allowed property`);
+            } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                problems.push(...validateAgainstSchema(propertyValue, schema.additionalProperties, `${path}.${name}`));
+            }
+        }
+    }
+    return problems;
+}
+
+/**
+ * Validates a tool call's arguments against the tool's `inputSchema` from `tools/list`.
+ * @returns One message per problem found; empty if the arguments are valid.
+ */
+export function validateToolArguments(tool: McpToolDefinition, args: unknown): string[] {
+    return validateAgainstSchema(args, tool.inputSchema ?? { type: 'object' });
+}
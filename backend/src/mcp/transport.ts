@@ -0,0 +1,189 @@
+// backend/src/mcp/transport.ts
+import { EventEmitter } from 'events';
+import { McpInitializeResult } from '../types/mcp';
+
+/** A JSON-RPC 2.0 request, notification or response exchanged with an MCP server. */
+export interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: number | string | null;
+    method?: string;
+    params?: any;
+    result?: any;
+    error?: { code: number; message: string; data?: any };
+}
+
+/** Wire protocols an MCP server may speak. 'stdio' runs the server as a child process. */
+export type McpTransportKind = 'sse' | 'streamable-http' | 'stdio';
+
+/** MCP_TRANSPORT values: a specific transport, or 'auto' to detect it from the server. */
+export type McpTransportSetting = McpTransportKind | 'auto';
+
+export const MCP_TRANSPORT_SETTINGS: readonly McpTransportSetting[] = ['auto', 'sse', 'streamable-http', 'stdio'];
+
+// Protocol revisions this client can speak, newest first; the first one is requested in initialize
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly string[] = ['2025-03-26', '2024-11-05'];
+// JSON-RPC ids of the transport's own requests; strings so they never collide with McpClient's numeric ids
+const INITIALIZE_REQUEST_ID = 'initialize';
+const RESUME_PING_REQUEST_ID = 'resume-ping';
+
+export interface McpTransportOptions {
+    connectTimeoutMs?: number; // How long connect() may take before it rejects
+    requestTimeoutMs?: number; // Timeout for an HTTP POST to be accepted (Streamable HTTP: notifications and responses only), not for the tool result
+}
+
+// Events emitted by every transport
+export interface McpTransportEvents {
+    message: (message: JsonRpcMessage) => void; // Every message received from the server, in arrival order
+    error: (error: Error) => void; // The connection failed after connect() resolved
+    restart: () => void; // The server was restarted; requests sent before the restart will not be answered
+    close: () => void;
+}
+
+// Use declaration merging to type the EventEmitter
+export declare interface McpTransport {
+    on<K extends keyof McpTransportEvents>(event: K, listener: McpTransportEvents[K]): this;
+    off<K extends keyof McpTransportEvents>(event: K, listener: McpTransportEvents[K]): this;
+    emit<K extends keyof McpTransportEvents>(event: K, ...args: Parameters<McpTransportEvents[K]>): boolean;
+}
+
+/**
+ * Carries JSON-RPC messages between the orchestrator and one MCP server session.
+ * send() only delivers a message; responses and server notifications arrive as 'message' events,
+ * whether the server answers in the HTTP response itself or on a separate stream.
+ */
+export abstract class McpTransport extends EventEmitter {
+    public abstract readonly kind: McpTransportKind;
+    private readonly ownRequests = new Map<string, (message: JsonRpcMessage) => void>(); // initialize / ping in flight
+    private serverInitializeResult: McpInitializeResult | null = null;
+
+    /** Session id assigned by the server, once connected. */
+    public abstract get sessionId(): string | null;
+
+    /** The server's answer to `initialize` (negotiated protocol version, capabilities, server info), once connected. */
+    public get initializeResult(): McpInitializeResult | null {
+        return this.serverInitializeResult;
+    }
+
+    /** Opens the session. Rejects if the server cannot be reached or does not speak this transport. */
+    public abstract connect(): Promise<void>;
+
+    /** Sends a message. Resolves once the server accepted it; rejects if it could not be delivered. */
+    public abstract send(message: JsonRpcMessage): Promise<void>;
+
+    /** Closes the session and any open streams. Safe to call more than once. */
+    public abstract close(): void;
+
+    /**
+     * Re-binds to the same server session after the connection dropped ('error'), keeping its state
+     * (and browser). Transports whose sessions do not outlive the connection cannot, and resolve false;
+     * the caller then closes this transport and connects a new one.
+     * @returns true if the session was resumed and requests can be sent again.
+     */
+    public async resume(): Promise<boolean> {
+        return false;
+    }
+
+    /**
+     * Runs the MCP initialize handshake: sends `initialize`, waits for its response (which
+     * receive() hands back here instead of emitting), then sends `notifications/initialized`.
+     * @param post Delivers one message to the server.
+     * @throws An error if the server rejects initialize, answers with a protocol version this client
+     *         does not support, or does not answer within timeoutMs.
+     */
+    protected async initialize(post: (message: JsonRpcMessage) => Promise<void>, timeoutMs: number): Promise<void> {
+        const response = await this.ownRequest(post, {
+            jsonrpc: '2.0',
+            id: INITIALIZE_REQUEST_ID,
+            method: 'initialize',
+            params: {
+                protocolVersion: SUPPORTED_PROTOCOL_VERSIONS[0],
+                capabilities: {},
+                clientInfo: { name: 'll-web-agent', version: '1.0.0' }
+            }
+        }, timeoutMs);
+        if (response.error) {
+            throw new Error(`MCP initialize failed: ${response.error.message}`);
+        }
+        const result = response.result as McpInitializeResult | undefined;
+        if (!result || typeof result.protocolVersion !== 'string') {
+            throw new Error('MCP initialize response is missing the protocol version.');
+        }
+        // The server answers with the version it will use; disconnect if we can't speak it
+        if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+            throw new Error(`MCP server requires unsupported protocol version ${result.protocolVersion} (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}).`);
+        }
+        this.serverInitializeResult = { ...result, capabilities: result.capabilities ?? {} };
+        await post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    }
+
+    /**
+     * Pings the server, e.g. to check that a session survived a dropped connection.
+     * @throws An error if the server answers with an error or does not answer within timeoutMs.
+     */
+    protected async ping(post: (message: JsonRpcMessage) => Promise<void>, timeoutMs: number): Promise<void> {
+        const response = await this.ownRequest(post, { jsonrpc: '2.0', id: RESUME_PING_REQUEST_ID, method: 'ping' }, timeoutMs);
+        if (response.error) {
+            throw new Error(`MCP ping failed: ${response.error.message}`);
+        }
+    }
+
+    // Sends one of the transport's own requests and waits for the response, which receive() hands back here
+    private async ownRequest(post: (message: JsonRpcMessage) => Promise<void>, request: JsonRpcMessage & { id: string }, timeoutMs: number): Promise<JsonRpcMessage> {
+        let timeoutId: NodeJS.Timeout | undefined;
+        const response = new Promise<JsonRpcMessage>((resolve, reject) => {
+            this.ownRequests.set(request.id, resolve);
+            timeoutId = setTimeout(() => reject(new Error(`Timeout waiting for the MCP ${request.method} response (${this.kind} transport)`)), timeoutMs);
+        });
+        try {
+            await Promise.race([post(request), response.then(() => undefined)]);
+            return await response;
+        } finally {
+            clearTimeout(timeoutId);
+            this.ownRequests.delete(request.id);
+        }
+    }
+
+    /** Emits a message received from the server, unless it answers the transport's own initialize() or ping(). */
+    protected receive(message: JsonRpcMessage): void {
+        const waiter = typeof message.id === 'string' ? this.ownRequests.get(message.id) : undefined;
+        if (waiter) {
+            waiter(message);
+            return;
+        }
+        this.emit('message', message);
+    }
+}
+
+/**
+ * Reads MCP_TRANSPORT ('auto', 'sse', 'streamable-http' or 'stdio'; defaults to 'auto').
+ * @throws Error if the value is not one of those.
+ */
+export function loadMcpTransportSetting(env: NodeJS.ProcessEnv = process.env): McpTransportSetting {
+    const value = env.MCP_TRANSPORT?.trim().toLowerCase();
+    if (!value) return 'auto';
+    if (!MCP_TRANSPORT_SETTINGS.includes(value as McpTransportSetting)) {
+        throw new Error(`Unknown MCP_TRANSPORT '${env.MCP_TRANSPORT}'. Expected one of: ${MCP_TRANSPORT_SETTINGS.join(', ')}.`);
+    }
+    return value as McpTransportSetting;
+}
+
+/** How to launch an MCP server as a child process for the stdio transport. */
+export interface McpStdioCommand {
+    command: string;
+    args: string[];
+    maxRestarts: number; // Restarts allowed after the process crashes, per transport
+}
+
+/**
+ * Reads the stdio server command: MCP_STDIO_COMMAND (default 'npx'), MCP_STDIO_ARGS (whitespace-separated,
+ * default '@playwright/mcp@latest') and MCP_STDIO_MAX_RESTARTS (default 3).
+ */
+export function loadMcpStdioCommand(env: NodeJS.ProcessEnv = process.env): McpStdioCommand {
+    const args = env.MCP_STDIO_ARGS?.trim();
+    const maxRestarts = Number(env.MCP_STDIO_MAX_RESTARTS ?? 3);
+    return {
+        command: env.MCP_STDIO_COMMAND?.trim() || 'npx',
+        args: args ? args.split(/\s+/) : ['@playwright/mcp@latest'],
+        maxRestarts: Number.isInteger(maxRestarts) && maxRestarts >= 0 ? maxRestarts : 3,
+    };
+}
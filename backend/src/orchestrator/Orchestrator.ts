@@ -1,25 +1,47 @@
 // backend/src/orchestrator/Orchestrator.ts
-import axios from 'axios';
-import { OrchestratorFsm, OrchestratorState, OrchestratorEvent, FsmContext } from './fsm';
-import * as EventSourceLib from 'eventsource';
-import { parseInstruction } from '../parser/parseInstruction';
+import { EventEmitter } from 'events';
+import { OrchestratorFsm, OrchestratorState, OrchestratorEvent, FsmContext, FsmTransition } from './fsm';
+import { McpTransport, McpTransportSetting, JsonRpcMessage } from '../mcp/transport';
+import { connectMcpTransport } from '../mcp/connectTransport';
+import { McpClient, McpRequestError, McpTimeoutError, McpCancelledError } from '../mcp/client';
+import { parseInstructionPlan } from '../parser/parseInstruction';
 import { refineStepArgumentsWithSnapshot } from '../parser/refineStepArguments';
-import { Call } from '../types/mcp';
+import { replanRemainingSteps } from '../parser/replan';
+import { planNextChunk } from '../parser/planNextChunk';
+import { planNextAction } from '../parser/nextAction';
+import { validateAndRepairSteps, validateStep } from '../parser/repairSteps';
+import { AriaSnapshot, isPageSnapshot, parseAriaSnapshot } from '../snapshot/ariaSnapshot';
+import { Call, McpInitializeResult, McpToolDefinition, McpToolCallResult } from '../types/mcp';
+import { RetryPolicy, DEFAULT_RETRY_POLICY, computeRetryDelay } from './retryPolicy';
+import { ConfirmationPolicy, DEFAULT_CONFIRMATION_POLICY } from './confirmationPolicy';
+import { PlanningPolicy, DEFAULT_PLANNING_POLICY } from './planningPolicy';
+import { PlanEdit, PlanEditError, applyPlanEdit } from './planEditor';
 // import logger from '../utils/logger';
 
+// A range of the user's instruction, as character offsets (end exclusive) plus the text itself
+export interface SourceSpan {
+    start: number;
+    end: number;
+    text: string;
+}
+
 // Define the structure for parsed tool call steps used internally
 export interface McpToolCall { // Exported for fsm.ts
     tool_name: string;
     arguments: { [key: string]: any };
     tool_call_id?: string; // Optional ID from parser or unique internal ID
+    description?: string; // Human-readable summary shown to the reviewer, e.g. "Click the 'Espresso' product card"
+    source_span?: SourceSpan; // Part of the instruction this step was parsed from
+    confidence?: number; // The parser's confidence in this step, 0 to 1
+    validation_errors?: string[]; // Problems against the tool's input schema left after the repair round; blocks confirmation
+    auto_approved_by?: string; // Confirmation-policy rule that let this step run without asking the user
 }
 
-// Define the structure for MCP tool definitions
-interface McpToolDefinition {
-    name: string;
-    description?: string;
-    inputSchema: any; // Ideally, use a more specific JSON schema type
-}
+/**
+ * How a session is driven: 'plan' parses the whole instruction into steps up front (in chunks for long
+ * instructions); 'agent' observes the page and asks the LLM for one action at a time until it calls `done`.
+ */
+export type SessionMode = 'plan' | 'agent';
 
 // Define the structure for session data managed by the orchestrator
 interface SessionData {
@@ -27,24 +49,74 @@ interface SessionData {
     steps: McpToolCall[]; // This list might be updated with refined steps
     instruction: string | null;
     latestSnapshot: string | null; // Renamed from latestSnapshot for clarity
+    tools: McpToolDefinition[]; // Tools reported by MCP, reused when replanning
+    confirmationPolicy: ConfirmationPolicy; // Which steps the user confirms by hand
+    mode: SessionMode;
+}
+
+// Per-session configuration supplied by the SessionRegistry
+export interface OrchestratorOptions {
+    retryPolicy?: RetryPolicy; // Defaults to DEFAULT_RETRY_POLICY
+    mcpTransport?: McpTransportSetting; // Defaults to 'auto' (see connectMcpTransport)
+    planningPolicy?: PlanningPolicy; // Defaults to DEFAULT_PLANNING_POLICY
+}
+
+// A tool call sent to the MCP server, reported to observers once it has an outcome
+export interface ToolCallRecord {
+    stepIndex: number;            // The FSM's current step (-1 before the first)
+    stepId: string | null;        // null for calls the orchestrator makes on its own (e.g. browser_snapshot)
+    toolName: string;
+    arguments: { [key: string]: any };
+    result: McpToolCallResult | null;
+    error: { code: number | string; message: string; data?: any } | null;
+    startedAt: number;            // Epoch milliseconds
+    durationMs: number;
+}
+
+// Events emitted by the Orchestrator to observers such as the /events SSE route and the run recorder
+export interface OrchestratorEvents {
+    transition: (transition: FsmTransition, context: Readonly<FsmContext>) => void;
+    started: (run: { instruction: string; mode: SessionMode }) => void;
+    toolCall: (call: ToolCallRecord) => void;
+    snapshot: (snapshot: string, stepIndex: number) => void;
+    stepRefined: (stepIndex: number, before: McpToolCall, after: McpToolCall) => void;
+}
+
+// Use declaration merging to type the EventEmitter
+export declare interface Orchestrator {
+    on<K extends keyof OrchestratorEvents>(event: K, listener: OrchestratorEvents[K]): this;
+    off<K extends keyof OrchestratorEvents>(event: K, listener: OrchestratorEvents[K]): this;
+    emit<K extends keyof OrchestratorEvents>(event: K, ...args: Parameters<OrchestratorEvents[K]>): boolean;
 }
 
 // Define the Orchestrator class
-export class Orchestrator {
-    private mcpServerBaseUrl: string;
-    private endpointEs: EventSourceLib.EventSource | null = null;
-    private sessionId: string | null = null;
-    private sseUrl: string | null = null;
+export class Orchestrator extends EventEmitter {
+    private mcpServerBaseUrl: string | null; // null when the MCP server is launched over stdio
+    private readonly mcpTransportSetting: McpTransportSetting;
+    private client: McpClient | null = null; // Connection to the MCP server for the current session
+    private requestAbort: AbortController | null = null; // Cancels the session's MCP requests when it ends
+    private mcpServer: McpInitializeResult | null = null; // Protocol version and capabilities negotiated in initialize
     private session: SessionData | null = null;
-    private rpcIdCounter = 1;
     private dynamicToolMap: { [key: string]: string } = {};
     private confirmationTimerId: NodeJS.Timeout | null = null; // Timer ID management
     private static readonly CONFIRMATION_TIMEOUT_MS = 120000; // 2 minutes
     private pendingSnapshotTimer: NodeJS.Timeout | null = null; // Timer for awaiting snapshot
     private static readonly SNAPSHOT_TIMEOUT_MS = 20000; // 20 seconds
+    private static readonly TOOLS_LIST_TIMEOUT_MS = 20000; // 20 seconds
+    private static readonly STEP_TIMEOUT_MS = 120000; // 2 minutes for a tool call to return
+    private isStarting = false; // True while startSession is initializing MCP and parsing
+    private retryTimerId: NodeJS.Timeout | null = null; // Backoff timer while in RETRY_WAIT
+    private reconnectTimerId: NodeJS.Timeout | null = null; // Backoff timer while in RECONNECTING
+    private serverRestarted = false; // The stdio server restarted: its connection is live but its browser is new
+    private readonly retryPolicy: RetryPolicy;
+    private readonly planningPolicy: PlanningPolicy;
 
-    constructor(mcpServerBaseUrl: string) {
+    constructor(mcpServerBaseUrl: string | null, options: OrchestratorOptions = {}) {
+        super(); // Call EventEmitter constructor
         this.mcpServerBaseUrl = mcpServerBaseUrl;
+        this.retryPolicy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+        this.planningPolicy = options.planningPolicy ?? DEFAULT_PLANNING_POLICY;
+        this.mcpTransportSetting = options.mcpTransport ?? 'auto';
         // Ensure env var default
         if (!('ALWAYS_GET_SNAPSHOT' in process.env)) {
             process.env.ALWAYS_GET_SNAPSHOT = 'false';
@@ -55,294 +127,304 @@ export class Orchestrator {
         // logger.info(`[Orchestrator] Resetting session. Final state: ${finalState ?? 'Unknown'}`);
         console.log(`[Orchestrator] Resetting session. Final state: ${finalState ?? 'Unknown'}`);
         this.clearConfirmationTimer(); // Clear timer on session reset
-        this.endpointEs?.close();
-        this.endpointEs = null;
-        this.sessionId = null;
-        this.sseUrl = null;
+        this.clearRetryTimer();
+        this.clearReconnectTimer();
+        this.serverRestarted = false;
+        this.requestAbort?.abort(); // Settles requests still in flight
+        this.requestAbort = null;
+        this.client?.close();
+        this.client = null;
+        this.mcpServer = null;
         this.session = null; // Crucially, clear the session object
-        this.rpcIdCounter = 1;
+        this.clearPendingSnapshotTimer();
         this.dynamicToolMap = {};
         // TODO: Notify UI about session reset more explicitly if needed
     }
 
     /**
-     * Initializes the connection with the MCP server, fetches tools, and gets a session ID.
-     * (Implementation remains largely the same as before, focuses on setup)
+     * Connects to the MCP server over the configured transport (which runs the initialize handshake),
+     * records the negotiated protocol version and capabilities, and fetches the tools list.
+     * Server notifications are delivered to handleMcpNotification from here on.
+     * @throws An error if the server cannot be reached or does not offer tools.
      */
-    private async initializeMcpSession(): Promise<{ sessionId: string; toolsList: McpToolDefinition[] | undefined }> {
-        if (this.sessionId && this.endpointEs) {
+    private async initializeMcpSession(): Promise<{ sessionId: string | null; toolsList: McpToolDefinition[] | undefined }> {
+        if (this.client) {
             // logger.warn('[Orchestrator] Session already initialized.');
             console.warn('[Orchestrator] Session already initialized.');
             const toolsFromMap = Object.keys(this.dynamicToolMap).map(name => ({ name, inputSchema: {} }));
-            return { sessionId: this.sessionId, toolsList: toolsFromMap.length > 0 ? toolsFromMap : undefined };
-        }
-
-        return new Promise((resolve, reject) => {
-            // logger.info(`[Orchestrator] Establishing endpoint SSE to ${this.mcpServerBaseUrl} for sessionId & tools...`);
-            console.log(`[Orchestrator] Establishing endpoint SSE to ${this.mcpServerBaseUrl} for sessionId & tools...`);
-            let receivedSessionId = false;
-            let receivedToolsList = false;
-            let toolsListResult: McpToolDefinition[] | undefined = undefined;
-            let toolsListReqId: number | null = null;
-            let localSessionId: string | null = null;
-            let localSseUrl: string | null = null;
-
-            const EsConstructor = EventSourceLib.EventSource;
-            this.endpointEs = new EsConstructor(this.mcpServerBaseUrl);
-
-            const checkCompletion = () => {
-                if (receivedSessionId && receivedToolsList) {
-                    // logger.info('[Orchestrator] Received both sessionId and tools/list response.');
-                    console.log('[Orchestrator] Received both sessionId and tools/list response.');
-                    if (timeoutId) clearTimeout(timeoutId);
-                    if (toolsListResult && Array.isArray(toolsListResult)) {
-                        this.dynamicToolMap = toolsListResult.reduce((map, tool) => {
-                            if (tool && typeof tool.name === 'string') { map[tool.name] = tool.name; }
-                            return map;
-                        }, {} as Record<string, string>);
-                        // logger.info('[Orchestrator] Dynamic tool map populated:', this.dynamicToolMap);
-                        console.log('[Orchestrator] Dynamic tool map populated:', this.dynamicToolMap);
-                    } else {
-                        // logger.warn('[Orchestrator] Tools list not available after session init.');
-                        console.warn('[Orchestrator] Tools list not available after session init.');
-                        this.dynamicToolMap = {};
-                    }
-                    resolve({ sessionId: localSessionId!, toolsList: toolsListResult });
-                }
-            };
+            return { sessionId: this.client.transport.sessionId, toolsList: toolsFromMap.length > 0 ? toolsFromMap : undefined };
+        }
 
-            const failSession = (err: any) => {
-                // logger.error({ err: err }, '[Orchestrator] Failed during initial session setup:');
-                console.error('[Orchestrator] Failed during initial session setup:', { err: err });
-                if (timeoutId) clearTimeout(timeoutId);
-                this.endpointEs?.close();
-                this.endpointEs = null;
-                this.sessionId = null;
-                this.sseUrl = null;
-                this.dynamicToolMap = {};
-                reject(err);
-            };
+        // logger.info(`[Orchestrator] Connecting to MCP server at ${this.mcpServerBaseUrl ?? '(local process)'} (transport: ${this.mcpTransportSetting})...`);
+        console.log(`[Orchestrator] Connecting to MCP server at ${this.mcpServerBaseUrl ?? '(local process)'} (transport: ${this.mcpTransportSetting})...`);
+        let client: McpClient | null = null;
+        try {
+            const transport = await connectMcpTransport(this.mcpServerBaseUrl, this.mcpTransportSetting);
+            client = this.attachClient(transport);
+            this.requestAbort = new AbortController();
+            // logger.info(`[Orchestrator] Obtained sessionId: ${transport.sessionId}`);
+            console.log(`[Orchestrator] Obtained sessionId: ${transport.sessionId} (${transport.kind} transport)`);
 
-            const timeoutId = setTimeout(() => failSession(new Error('Timeout waiting for sessionId and/or tools/list response')), 20000);
-
-            if (!this.endpointEs) return failSession('Endpoint EventSource is null before addEventListener');
-
-            this.endpointEs.addEventListener('endpoint', (ev) => {
-                 if (receivedSessionId) return;
-                 try {
-                    const dataStr = (ev as any).data as string;
-                    if (typeof dataStr === 'string' && dataStr.startsWith('/sse?sessionId=')) {
-                        const sessionId = dataStr.split('sessionId=')[1]?.trim();
-                        if (sessionId) {
-                            // logger.info(`[Orchestrator] Obtained sessionId: ${sessionId}`);
-                            console.log(`[Orchestrator] Obtained sessionId: ${sessionId}`);
-                            localSessionId = sessionId;
-                            localSseUrl = `${this.mcpServerBaseUrl}${dataStr}`;
-                            this.sessionId = localSessionId;
-                            this.sseUrl = localSseUrl;
-                            receivedSessionId = true;
-
-                            // --- Attach General Message Handler for MCP Responses ---
-                            // logger.info(`[Orchestrator] Attaching general message handler to ${localSseUrl}`);
-                            console.log(`[Orchestrator] Attaching general message handler to ${localSseUrl}`);
-                            this.endpointEs!.addEventListener('message', (msgEvent) => {
-                                try {
-                                    const msgData = JSON.parse((msgEvent as any).data);
-                                    // logger.info(`[Orchestrator] Received SSE message:`, JSON.stringify(msgData));
-                                    console.log(`[Orchestrator] Received SSE message:`, JSON.stringify(msgData));
-
-                                    if (msgData.jsonrpc === '2.0' && msgData.id !== undefined) {
-                                        // It's a JSON-RPC response related to a step execution
-                                        const isError = this.isJsonRpcError(msgData);
-                                        const responsePayload = {
-                                            stepId: msgData.id,
-                                            snapshot: undefined as string | undefined,
-                                            error: isError ? msgData.error : null,
-                                        };
-
-                                        if (!isError && this.isJsonRpcSuccess(msgData)) {
-                                            const result = msgData.result;
-                                             // Check if MCP result indicates an operational error
-                                            if (result?.isError === true) {
-                                                // logger.error({ err: result.content }, `[Orchestrator] Step Execution Error (ID: ${msgData.id}):`);
-                                                console.error(`[Orchestrator] Step Execution Error (ID: ${msgData.id}):`, { err: result.content });
-                                                responsePayload.error = { message: result.content || 'Step failed with isError=true', code: -32000 }; // Use generic code
-                                            } else {
-                                                // Look for snapshot embedded in 'text' type content
-                                                const textContentItem = result?.content?.find((item: any) => item.type === 'text');
-                                                if (textContentItem && textContentItem.text?.includes('- Page Snapshot')) {
-                                                    responsePayload.snapshot = textContentItem.text;
-                                                    // logger.info('[Orchestrator] Found snapshot in MCP response.');
-                                                    console.log('[Orchestrator] Found snapshot in MCP response.');
-                                                } else {
-                                                     // Set to undefined if not found, aligning with type
-                                                     responsePayload.snapshot = undefined; 
-                                                     // logger.info('[Orchestrator] No snapshot found in MCP response text.');
-                                                     console.log('[Orchestrator] No snapshot found in MCP response text.');
-                                                }
-                                            }
-                                        } else if (isError) {
-                                             // logger.error({ err: msgData.error }, `[Orchestrator] Received JSON-RPC Error (ID: ${msgData.id}):`);
-                                             console.error(`[Orchestrator] Received JSON-RPC Error (ID: ${msgData.id}):`, { err: msgData.error });
-                                        }
-
-                                        // Dispatch MCP_RESPONSE_RECEIVED to FSM
-                                        // Check if session and FSM still exist before dispatching
-                                        if (this.session?.fsm) {
-                                             // logger.info(`[Orchestrator] Dispatching MCP_RESPONSE_RECEIVED to FSM for ID: ${msgData.id}`);
-                                             console.log(`[Orchestrator] Dispatching MCP_RESPONSE_RECEIVED to FSM for ID: ${msgData.id}`);
-                                             this.session.fsm.dispatch(OrchestratorEvent.MCP_RESPONSE_RECEIVED, responsePayload);
-                                        } else {
-                                             // logger.warn(`[Orchestrator] Received MCP response (ID: ${msgData.id}) but no active session/FSM to dispatch to.`);
-                                             console.warn(`[Orchestrator] Received MCP response (ID: ${msgData.id}) but no active session/FSM to dispatch to.`);
-                                        }
-
-                                    } else {
-                                        // logger.warn('[Orchestrator] Received non-JSON-RPC SSE message or message without ID:', msgData);
-                                        console.warn('[Orchestrator] Received non-JSON-RPC SSE message or message without ID:', msgData);
-                                    }
-                                } catch (parseError: any) {
-                                    // logger.error({ err: parseError, data: (msgEvent as any).data }, '[Orchestrator] Error parsing SSE message data:');
-                                    console.error('[Orchestrator] Error parsing SSE message data:', { err: parseError, data: (msgEvent as any).data });
-                                }
-                            });
-                            // --- End General Message Handler ---
-
-                            // Immediately request tools list
-                            toolsListReqId = this.rpcIdCounter++;
-                            // logger.info(`[Orchestrator] Sending tools/list request (ID: ${toolsListReqId}) via POST to ${localSseUrl}...`);
-                            console.log(`[Orchestrator] Sending tools/list request (ID: ${toolsListReqId}) via POST to ${localSseUrl}...`);
-                            axios.post(localSseUrl!, { jsonrpc: '2.0', id: toolsListReqId, method: 'tools/list', params: {} },
-                                { headers: { 'Content-Type': 'application/json' }, timeout: 10000 })
-                                .then(response => {
-                                    if (this.isJsonRpcSuccess(response.data) && response.data.id === toolsListReqId) {
-                                        // logger.info('[Orchestrator] tools/list responded synchronously. Processing result...');
-                                        console.log('[Orchestrator] tools/list responded synchronously. Processing result...');
-                                        toolsListResult = response.data.result?.tools;
-                                        receivedToolsList = true;
-                                        checkCompletion();
-                                    } else if (response.status === 202 || (typeof response.data === 'string' && response.data.toLowerCase().includes('accepted'))) {
-                                        // logger.info(`[Orchestrator] tools/list (ID: ${toolsListReqId}) acknowledged. Waiting on endpointEs stream...`);
-                                        console.log(`[Orchestrator] tools/list (ID: ${toolsListReqId}) acknowledged. Waiting on endpointEs stream...`);
-                                    } else {
-                                        // logger.warn('[Orchestrator] Unexpected sync response for tools/list:', response.data);
-                                        console.warn('[Orchestrator] Unexpected sync response for tools/list:', response.data);
-                                        receivedToolsList = true; checkCompletion();
-                                    }
-                                })
-                                .catch(postError => {
-                                    // logger.error({ err: postError }, '[Orchestrator] CRITICAL: Failed to POST tools/list request:');
-                                    console.error('[Orchestrator] CRITICAL: Failed to POST tools/list request:', { err: postError });
-                                    failSession(postError);
-                                });
-                            checkCompletion(); // Check if session ID was already received
-                        }
-                     }
-                 } catch (parseErr) {
-                      // logger.error({ err: parseErr }, '[Orchestrator] Error parsing endpoint event:');
-                      console.error('[Orchestrator] Error parsing endpoint event:', { err: parseErr });
-                 }
-            });
+            this.recordMcpServer(client);
+            if (!this.mcpServer?.capabilities.tools) {
+                throw new Error(`MCP server ${this.describeMcpServer()} does not offer tools.`);
+            }
 
-            if (!this.endpointEs) return failSession('Endpoint EventSource is null before onmessage');
-            this.endpointEs.onmessage = (ev) => {
-                // Handle async tools/list response specifically
-                // logger.debug('[initializeMcpSession] Received message on endpointEs:', ev.data);
-                console.debug('[initializeMcpSession] Received message on endpointEs:', ev.data);
-                try {
-                    const msg = JSON.parse(ev.data);
-                    if (!receivedToolsList && toolsListReqId !== null && this.isJsonRpcSuccess(msg) && msg.id === toolsListReqId) {
-                        // logger.info('[Orchestrator] Received async tools/list response via endpointEs.');
-                        console.log('[Orchestrator] Received async tools/list response via endpointEs.');
-                        toolsListResult = msg.result?.tools;
-                        receivedToolsList = true;
-                        checkCompletion();
-                    } else if (!receivedToolsList && toolsListReqId !== null && this.isJsonRpcError(msg) && msg.id === toolsListReqId) {
-                        // logger.error({ err: msg.error }, '[Orchestrator] Received async tools/list error via endpointEs:');
-                        console.error('[Orchestrator] Received async tools/list error via endpointEs:', { err: msg.error });
-                        toolsListResult = undefined; receivedToolsList = true; checkCompletion();
-                    }
-                } catch (e) {
-                     // logger.warn('[initializeMcpSession] Failed to parse message on endpointEs:', ev.data, e);
-                     console.warn('[initializeMcpSession] Failed to parse message on endpointEs:', ev.data, e);
-                }
-            };
+            const toolsListResult = await this.requestToolsList();
+            this.applyToolsList(toolsListResult);
+            return { sessionId: transport.sessionId, toolsList: toolsListResult };
+        } catch (err) {
+            // logger.error({ err: err }, '[Orchestrator] Failed during initial session setup:');
+            console.error('[Orchestrator] Failed during initial session setup:', { err: err });
+            client?.close();
+            this.client = null;
+            this.requestAbort = null;
+            this.mcpServer = null;
+            this.dynamicToolMap = {};
+            throw err;
+        }
+    }
 
-            if (!this.endpointEs) return failSession('Endpoint EventSource is null before onerror');
-            this.endpointEs.onerror = (err) => failSession(err);
-        });
+    /** Wraps a connected transport in the session's McpClient and subscribes to its events. */
+    private attachClient(transport: McpTransport): McpClient {
+        const client = new McpClient(transport);
+        this.client = client;
+        client.on('notification', (msg) => this.handleMcpNotification(msg));
+        transport.on('error', (err) => this.handleTransportError(client, err));
+        transport.on('restart', () => this.handleTransportRestart(client));
+        return client;
     }
 
-    // --- JSON-RPC Type Guards (Unchanged) ---
-    private isJsonRpcSuccess(response: any): response is { jsonrpc: '2.0'; id: number | string; result: any } { 
-        // Added return statement to fix linter error
-        return response && response.jsonrpc === '2.0' && response.id !== undefined && response.result !== undefined && response.error === undefined; 
+    /** Stores what the server negotiated in initialize. */
+    private recordMcpServer(client: McpClient): void {
+        this.mcpServer = client.transport.initializeResult;
+        // logger.info(`[Orchestrator] MCP server ${this.describeMcpServer()} negotiated protocol ${this.mcpServer?.protocolVersion}`, this.mcpServer?.capabilities);
+        console.log(`[Orchestrator] MCP server ${this.describeMcpServer()} negotiated protocol ${this.mcpServer?.protocolVersion}, capabilities:`, JSON.stringify(this.mcpServer?.capabilities ?? {}));
+    }
+
+    private describeMcpServer(): string {
+        const info = this.mcpServer?.serverInfo;
+        return info ? `${info.name} ${info.version}` : '(unnamed)';
+    }
+
+    /**
+     * Makes a tools/list result the current tool set: rebuilds dynamicToolMap and, for a running
+     * session, the tool list handed to the LLM when replanning.
+     */
+    private applyToolsList(toolsListResult: McpToolDefinition[] | undefined): void {
+        if (toolsListResult && Array.isArray(toolsListResult)) {
+            this.dynamicToolMap = toolsListResult.reduce((map, tool) => {
+                if (tool && typeof tool.name === 'string') { map[tool.name] = tool.name; }
+                return map;
+            }, {} as Record<string, string>);
+            // logger.info('[Orchestrator] Dynamic tool map populated:', this.dynamicToolMap);
+            console.log('[Orchestrator] Dynamic tool map populated:', this.dynamicToolMap);
+            if (this.session) {
+                this.session.tools = toolsListResult;
+            }
+        } else {
+            // logger.warn('[Orchestrator] Tools list not available after session init.');
+            console.warn('[Orchestrator] Tools list not available after session init.');
+            this.dynamicToolMap = {};
+        }
+    }
+
+    /** Handles notifications/tools/list_changed: fetches the new tool set and applies it. */
+    private async refreshToolsList(): Promise<void> {
+        // logger.info('[Orchestrator] MCP tool list changed. Refreshing tools...');
+        console.log('[Orchestrator] MCP tool list changed. Refreshing tools...');
+        try {
+            const toolsListResult = await this.requestToolsList();
+            if (toolsListResult) {
+                this.applyToolsList(toolsListResult);
+            }
+        } catch (err) {
+            // logger.error({ err }, '[Orchestrator] Failed to refresh the tools list:');
+            console.error('[Orchestrator] Failed to refresh the tools list:', { err });
+        }
+    }
+
+    /**
+     * Fetches the server's tools.
+     * @returns The tools reported by the server, or undefined if it answered with an error.
+     * @throws An error if the request cannot be sent or no response arrives in time.
+     */
+    private async requestToolsList(): Promise<McpToolDefinition[] | undefined> {
+        if (!this.client) {
+            throw new Error('MCP transport is not connected.');
+        }
+        // logger.info('[Orchestrator] Sending tools/list request...');
+        console.log('[Orchestrator] Sending tools/list request...');
+        try {
+            const tools = await this.client.listTools({ timeoutMs: Orchestrator.TOOLS_LIST_TIMEOUT_MS, signal: this.requestAbort?.signal });
+            // logger.info('[Orchestrator] Received tools/list response.');
+            console.log('[Orchestrator] Received tools/list response.');
+            return tools;
+        } catch (err) {
+            if (err instanceof McpRequestError) {
+                // logger.error({ err }, '[Orchestrator] Received tools/list error:');
+                console.error('[Orchestrator] Received tools/list error:', { err });
+                return undefined;
+            }
+            throw err;
+        }
+    }
+
+    /** Entry point for every notification the MCP server sends. */
+    private handleMcpNotification(msgData: JsonRpcMessage): void {
+        if (msgData.method === 'notifications/tools/list_changed') {
+            this.refreshToolsList();
+        } else {
+            // logger.info(`[Orchestrator] Ignoring MCP notification ${msgData.method}.`);
+            console.log(`[Orchestrator] Ignoring MCP notification ${msgData.method}.`);
+        }
+    }
+
+    /**
+     * The MCP server was restarted (stdio transport) and lost its browser. The client has already
+     * failed the requests that were in flight; the session goes to RECONNECTING, which restores the
+     * page on the new browser instead of treating the interrupted step as failed.
+     */
+    private handleTransportRestart(client: McpClient): void {
+        if (this.client !== client) return;
+        // logger.warn('[Orchestrator] MCP server restarted.');
+        console.warn('[Orchestrator] MCP server restarted.');
+        this.recordMcpServer(client); // The new process negotiated afresh
+        this.serverRestarted = true;
+        this.session?.fsm.dispatch(OrchestratorEvent.CONNECTION_LOST, { error: { message: 'MCP server restarted' } });
+    }
+
+    /**
+     * The MCP connection failed mid-session. Requests in flight will not be answered, so they are failed;
+     * a running session goes to RECONNECTING (see attemptReconnect), otherwise the connection is dropped.
+     */
+    private handleTransportError(client: McpClient, err: Error): void {
+        // logger.error({ err }, '[Orchestrator] MCP transport error:');
+        console.error('[Orchestrator] MCP transport error:', { err });
+        if (this.client !== client) return; // A connection from an earlier session
+        client.failPending(new Error(`MCP connection lost: ${err.message}`));
+        const fsm = this.session?.fsm;
+        fsm?.dispatch(OrchestratorEvent.CONNECTION_LOST, { error: { message: `MCP connection lost: ${err.message}` } });
+        if (fsm?.getCurrentState() !== OrchestratorState.RECONNECTING) {
+            this.client = null;
+            client.close();
+        }
+    }
+
+    /**
+     * Converts a tool call result into the payload expected by MCP_RESPONSE_RECEIVED.
+     */
+    private buildStepResponsePayload(stepId: string, result: McpToolCallResult): { stepId: string; snapshot?: string; error: any } {
+        const responsePayload = {
+            stepId,
+            snapshot: undefined as string | undefined,
+            error: null as any,
+        };
+
+        // Check if MCP result indicates an operational error
+        if (result?.isError === true) {
+            // logger.error({ err: result.content }, `[Orchestrator] Step Execution Error (ID: ${stepId}):`);
+            console.error(`[Orchestrator] Step Execution Error (ID: ${stepId}):`, { err: result.content });
+            responsePayload.error = { message: result.content || 'Step failed with isError=true', code: -32000 }; // Use generic code
+        } else {
+            responsePayload.snapshot = this.extractSnapshotText(result);
+            if (responsePayload.snapshot) {
+                // logger.info('[Orchestrator] Found snapshot in MCP response.');
+                console.log('[Orchestrator] Found snapshot in MCP response.');
+            } else {
+                // logger.info('[Orchestrator] No snapshot found in MCP response text.');
+                console.log('[Orchestrator] No snapshot found in MCP response text.');
+            }
+        }
+        return responsePayload;
     }
-    private isJsonRpcError(response: any): response is { jsonrpc: '2.0'; id: number | string | null; error: { code: number; message: string; data?: any } } { 
-        // Added return statement to fix linter error
-        return response && response.jsonrpc === '2.0' && response.id !== undefined && response.error !== undefined;
+
+    /** Looks for a page snapshot embedded in the 'text' content of a tool result. */
+    private extractSnapshotText(result: McpToolCallResult | undefined): string | undefined {
+        const textContentItem = result?.content?.find((item: any) => item.type === 'text');
+        if (textContentItem && isPageSnapshot(textContentItem.text)) {
+            return textContentItem.text;
+        }
+        return undefined;
     }
 
 
     /**
-     * Sends a step execution request to the MCP server. Does not wait for completion,
-     * relies on the SSE handler to receive the result and dispatch to FSM.
+     * Calls the step's tool on the MCP server and dispatches the outcome to the FSM once it arrives:
+     * MCP_RESPONSE_RECEIVED for a result or JSON-RPC error, STEP_FAILED if the call timed out or could
+     * not be delivered. Outcomes for a step the session has since moved past are dropped.
      * @param stepIndex The index of the step being executed.
      * @param step The step object (McpToolCall) to execute.
      */
     private async executeStep(stepIndex: number, step: McpToolCall): Promise<void> {
-        if (!this.sessionId || !this.sseUrl) {
+        const fsm = this.session?.fsm;
+        const stepId = step.tool_call_id ?? `step_${stepIndex}`;
+        if (!this.client || !fsm) {
             // logger.error(`[Orchestrator] Cannot execute step ${stepIndex + 1}: Session not initialized.`);
             console.error(`[Orchestrator] Cannot execute step ${stepIndex + 1}: Session not initialized.`);
             // Dispatch failure immediately to FSM
-            this.session?.fsm.dispatch(OrchestratorEvent.STEP_FAILED, {
-                stepId: step.tool_call_id ?? `step_${stepIndex}`,
+            fsm?.dispatch(OrchestratorEvent.STEP_FAILED, {
+                stepId,
                 error: { code: -32002, message: 'Session not initialized' }
             });
             return;
         }
 
-        const requestId = this.rpcIdCounter++; // Use internal counter for request ID
-        // Associate request ID with the step if needed for tracking, but MCP uses its own flow
-        const rpcRequest = {
-            jsonrpc: '2.0',
-            id: requestId,
-            method: 'tools/call',
-            params: {
-                name: step.tool_name,
-                arguments: step.arguments
-            }
-        };
-
-        // logger.info(`[Orchestrator] Sending step ${stepIndex + 1} (Request ID: ${requestId}): ${step.tool_name}`, rpcRequest.params);
-        console.log(`[Orchestrator] Sending step ${stepIndex + 1} (Request ID: ${requestId}): ${step.tool_name}`, rpcRequest.params);
+        // logger.info(`[Orchestrator] Sending step ${stepIndex + 1} (${stepId}): ${step.tool_name}`, step.arguments);
+        console.log(`[Orchestrator] Sending step ${stepIndex + 1} (${stepId}): ${step.tool_name}`, step.arguments);
+        this.setupSnapshotTimer();
 
+        let responsePayload: { stepId: string; snapshot?: string; error: any } | null = null;
+        let failure: { code: number | string; message: string } | null = null;
+        let result: McpToolCallResult | null = null;
+        const startedAt = Date.now();
         try {
-            const response = await axios.post(this.sseUrl, rpcRequest, {
-                headers: { 'Content-Type': 'application/json' },
-                timeout: 15000 // Timeout for the POST acknowledgment only
+            result = await this.client.callTool(step.tool_name, step.arguments, {
+                timeoutMs: Orchestrator.STEP_TIMEOUT_MS,
+                signal: this.requestAbort?.signal,
             });
-
-            if (response.status >= 200 && response.status < 300) {
-                console.log(`[Orchestrator] Step ${stepIndex + 1} (Request ID: ${requestId}) acknowledged by MCP (Status: ${response.status}). Waiting for SSE response.`);
-                this.setupSnapshotTimer();
+            responsePayload = this.buildStepResponsePayload(stepId, result);
+        } catch (error: any) {
+            if (error instanceof McpCancelledError) {
+                console.log(`[Orchestrator] Step ${stepIndex + 1} (${stepId}) was cancelled with its session.`);
+                return;
+            }
+            if (error instanceof McpRequestError) {
+                // logger.error({ err: error }, `[Orchestrator] Received JSON-RPC Error for step ${stepIndex + 1} (${stepId}):`);
+                console.error(`[Orchestrator] Received JSON-RPC Error for step ${stepIndex + 1} (${stepId}):`, { err: error });
+                responsePayload = { stepId, error: { code: error.code, message: error.message, data: error.data } };
             } else {
-                // Immediate failure based on POST response
-                // logger.warn(`[Orchestrator] Unexpected acknowledgment status for step ${stepIndex + 1} (Request ID: ${requestId}): ${response.status}. Dispatching STEP_FAILED.`);
-                console.warn(`[Orchestrator] Unexpected acknowledgment status for step ${stepIndex + 1} (Request ID: ${requestId}): ${response.status}. Dispatching STEP_FAILED.`);
-                this.session?.fsm.dispatch(OrchestratorEvent.STEP_FAILED, {
-                    stepId: requestId,
-                    error: { code: -32004, message: `Unexpected MCP acknowledgment: ${response.status}` }
-                });
+                // logger.error({ err: error }, `[Orchestrator] Step ${stepIndex + 1} (${stepId}) did not complete:`);
+                console.error(`[Orchestrator] Step ${stepIndex + 1} (${stepId}) did not complete:`, { err: error });
+                failure = error instanceof McpTimeoutError
+                    ? { code: 'TIMEOUT', message: error.message }
+                    : { code: -32004, message: `Failed to execute command: ${error.message}` };
             }
-        } catch (error: any) {
-            // logger.error({ err: error }, `[Orchestrator] Failed to POST step ${stepIndex + 1} (Request ID: ${requestId}) execution request:`);
-            console.error(`[Orchestrator] Failed to POST step ${stepIndex + 1} (Request ID: ${requestId}) execution request:`, { err: error });
-            this.session?.fsm.dispatch(OrchestratorEvent.STEP_FAILED, {
-                stepId: requestId,
-                error: { code: -32004, message: `Failed to send command: ${error.message}` }
-            });
         }
+        this.emit('toolCall', {
+            stepIndex, stepId, toolName: step.tool_name, arguments: step.arguments,
+            result, error: failure ?? responsePayload?.error ?? null,
+            startedAt, durationMs: Date.now() - startedAt,
+        });
+
+        const context = fsm.getContext();
+        if (this.session?.fsm !== fsm || fsm.getCurrentState() !== OrchestratorState.EXECUTE || context.currentStepIndex !== stepIndex) {
+            // logger.warn(`[Orchestrator] Dropping late outcome for step ${stepIndex + 1}; FSM is at step ${context.currentStepIndex} in ${fsm.getCurrentState()}.`);
+            console.warn(`[Orchestrator] Dropping late outcome for step ${stepIndex + 1}; FSM is at step ${context.currentStepIndex} in ${fsm.getCurrentState()}.`);
+            return;
+        }
+        this.clearPendingSnapshotTimer();
+
+        if (failure) {
+            fsm.dispatch(OrchestratorEvent.STEP_FAILED, { stepId, error: failure });
+            return;
+        }
+        if (responsePayload?.snapshot) {
+            this.rememberSnapshot(responsePayload.snapshot);
+        }
+        // logger.info(`[Orchestrator] Dispatching MCP_RESPONSE_RECEIVED to FSM for step ${stepIndex + 1} (${stepId})`);
+        console.log(`[Orchestrator] Dispatching MCP_RESPONSE_RECEIVED to FSM for step ${stepIndex + 1} (${stepId})`);
+        fsm.dispatch(OrchestratorEvent.MCP_RESPONSE_RECEIVED, responsePayload!);
     }
 
     /**
@@ -357,10 +439,10 @@ export class Orchestrator {
         // logger.debug('[Orchestrator] FSM Context:', context); // Uncomment for detailed context logging
 
         // --- Manage Confirmation Timer ---
-        if (newState === OrchestratorState.WAIT_CONFIRM) {
+        if (newState === OrchestratorState.WAIT_CONFIRM || newState === OrchestratorState.WAIT_REPLAN_CONFIRM) {
             this.startConfirmationTimer();
         } else {
-            // Clear timer if entering any state other than WAIT_CONFIRM
+            // Clear timer if entering any state that is not waiting on the user
             this.clearConfirmationTimer();
         }
         // --- End Timer Management ---
@@ -372,6 +454,12 @@ export class Orchestrator {
                 // Reset might have already happened in FSM transition, or do final cleanup here.
                 // Ensure timer is cleared if not already.
                 this.clearConfirmationTimer();
+                // Returning to IDLE after a run (completed, rejected or cancelled) ends the session,
+                // so release the MCP connection. The initial IDLE notification fires before
+                // this.session is assigned and must not tear down the freshly opened connection.
+                if (this.session) {
+                    this.resetSession(OrchestratorState.IDLE);
+                }
                 break;
 
             case OrchestratorState.WAIT_CONFIRM:
@@ -396,10 +484,8 @@ export class Orchestrator {
                 if (this.session && context.currentStepIndex >= 0 && context.currentStepIndex < context.totalSteps) {
                     const stepToExecute = this.session.steps[context.currentStepIndex];
                     if (stepToExecute) {
-                        // Call executeStep (fire-and-forget style, wait for SSE)
+                        // executeStep awaits the tool result and dispatches it to the FSM itself
                         this.executeStep(context.currentStepIndex, stepToExecute);
-                        // FSM should ideally wait for MCP_RESPONSE_RECEIVED event now.
-                        // Consider adding WAIT_MCP_RESPONSE state if needed for clearer flow.
                     } else {
                          // logger.error(`[Orchestrator] Cannot execute step: Step at index ${context.currentStepIndex} not found in session data.`);
                          console.error(`[Orchestrator] Cannot execute step: Step at index ${context.currentStepIndex} not found in session data.`);
@@ -416,7 +502,7 @@ export class Orchestrator {
                 // This state can be added to FSM if we want explicit waiting period after sending command to MCP
                 // logger.info(`[Orchestrator] Waiting for MCP response/snapshot for step ${context.currentStepIndex + 1}.`);
                 console.log(`[Orchestrator] Waiting for MCP response/snapshot for step ${context.currentStepIndex + 1}.`);
-                // No action needed here; waiting for SSE handler to dispatch MCP_RESPONSE_RECEIVED
+                // No action needed here; executeStep dispatches MCP_RESPONSE_RECEIVED when the tool call returns
                 break;
 
             case OrchestratorState.WAIT_LLM_RESPONSE:
@@ -430,27 +516,8 @@ export class Orchestrator {
                      const stepToRefine = this.session.steps[context.currentStepIndex];
                      const snapshot = context.latestSnapshot;
                      try {
-                         // Construct the 'Call' object for the refinement function
-                         const callToRefine: Call = {
-                            type: 'call',
-                            id: Date.now(), // Use timestamp for ID (number)
-                            method: stepToRefine.tool_name,
-                            params: stepToRefine.arguments
-                         };
-                         // logger.info(`[Orchestrator] Calling refineStepArgumentsWithSnapshot with snapshot (length: ${snapshot.length}) and step:`, callToRefine);
-                         console.log(`[Orchestrator] Calling refineStepArgumentsWithSnapshot with snapshot (length: ${snapshot.length}) and step:`, callToRefine);
-
-                         // Call the refinement function (ensure it exists and works)
-                         const refinedCall = await refineStepArgumentsWithSnapshot(callToRefine, snapshot);
-
-                         // Map the refined Call back to McpToolCall structure
-                         const refinedMcpStep: McpToolCall = {
-                            tool_name: refinedCall.method,
-                            arguments: refinedCall.params as { [key: string]: any; },
-                            tool_call_id: stepToRefine.tool_call_id // Preserve original ID if possible
-                         };
-                         // logger.info(`[Orchestrator] LLM refinement successful. Refined step:`, refinedMcpStep);
-                         console.log(`[Orchestrator] LLM refinement successful. Refined step:`, refinedMcpStep);
+                         const refinedMcpStep = await this.refineStep(stepToRefine, snapshot);
+                         this.emit('stepRefined', context.currentStepIndex, stepToRefine, refinedMcpStep);
                          // Dispatch success event with the refined step
                          this.session.fsm.dispatch(OrchestratorEvent.LLM_RESPONSE_RECEIVED, { refinedStep: refinedMcpStep });
                      } catch (refinementError: any) {
@@ -466,6 +533,51 @@ export class Orchestrator {
                  }
                  break;
 
+            case OrchestratorState.RETRY_WAIT: {
+                const delayMs = computeRetryDelay(this.retryPolicy, context.retryCount);
+                // logger.warn(`[Orchestrator] Step ${context.currentStepIndex + 1} failed (${context.lastErrorCode}). Retry ${context.retryCount} in ${delayMs}ms.`);
+                console.warn(`[Orchestrator] Step ${context.currentStepIndex + 1} failed (${context.lastErrorCode}). Retry ${context.retryCount} in ${delayMs}ms.`);
+                this.clearRetryTimer();
+                this.retryTimerId = setTimeout(() => {
+                    this.retryTimerId = null;
+                    this.retryCurrentStep(context.currentStepIndex).catch(err => {
+                        console.error('[Orchestrator] Failed to prepare step retry:', err);
+                        this.session?.fsm.dispatch(OrchestratorEvent.RETRY_STEP);
+                    });
+                }, delayMs);
+                break;
+            }
+
+            case OrchestratorState.REPLAN:
+                // logger.warn(`[Orchestrator] Step ${context.currentStepIndex + 1} failed after retries. Asking LLM to replan.`);
+                console.warn(`[Orchestrator] Step ${context.currentStepIndex + 1} failed after retries. Asking LLM to replan.`);
+                await this.replanFailedStep(context.currentStepIndex, context.lastError);
+                break;
+
+            case OrchestratorState.WAIT_REPLAN_CONFIRM:
+                // logger.info(`[Orchestrator] Waiting for user to accept ${context.proposedSteps?.length ?? 0} replanned steps.`);
+                console.log(`[Orchestrator] Waiting for user to accept ${context.proposedSteps?.length ?? 0} replanned steps.`);
+                // UI observes this state via the events stream and displays context.proposedSteps
+                break;
+
+            case OrchestratorState.RECONNECTING:
+                // logger.warn('[Orchestrator] MCP connection lost. Reconnecting...');
+                console.warn('[Orchestrator] MCP connection lost. Reconnecting...');
+                this.scheduleReconnect(1);
+                break;
+
+            case OrchestratorState.PLAN_NEXT_CHUNK:
+                if (this.session?.mode === 'agent') {
+                    // logger.info(`[Orchestrator] ${context.totalSteps} actions done. Asking LLM for the next action.`);
+                    console.log(`[Orchestrator] ${context.totalSteps} actions done. Asking LLM for the next action.`);
+                    await this.planNextAgentAction();
+                    break;
+                }
+                // logger.info(`[Orchestrator] Steps 1-${context.totalSteps} done. Asking LLM for the next chunk.`);
+                console.log(`[Orchestrator] Steps 1-${context.totalSteps} done. Asking LLM for the next chunk.`);
+                await this.planNextStepsChunk();
+                break;
+
             case OrchestratorState.ERROR:
                 // logger.error(`[Orchestrator] Session entered ERROR state. Last error:`, context.lastError ?? 'Unknown error');
                 console.error(`[Orchestrator] Session entered ERROR state. Last error:`, context.lastError ?? 'Unknown error');
@@ -485,79 +597,178 @@ export class Orchestrator {
     /**
      * Starts a new session, parses the instruction, and prepares the FSM.
      * @param instruction The natural language instruction from the user.
-     * @returns A promise that resolves with the initial list of parsed steps.
+     * @param confirmationPolicy Which steps wait for the user's confirmation; every step by default.
+     * @param mode 'plan' (default) parses the instruction into steps; 'agent' skips parsing and lets the
+     *             LLM choose one action at a time from the current page (see SessionMode).
+     * @returns A promise that resolves with the initial list of parsed steps (empty in agent mode).
      * @throws An error if session initialization or parsing fails.
      */
-    public async startSession(instruction: string): Promise<{ steps: McpToolCall[] }> {
-        if (this.session) {
-            // logger.warn('[Orchestrator] Session already active. Resetting before starting new one.');
-            console.warn('[Orchestrator] Session already active. Resetting before starting new one.');
-            this.resetSession(); // Reset existing session first
-        }
-
-        // logger.info(`[Orchestrator] Starting new session for instruction: "${instruction}"`);
-        console.log(`[Orchestrator] Starting new session for instruction: "${instruction}"`);
-
+    public async startSession(instruction: string, confirmationPolicy: ConfirmationPolicy = DEFAULT_CONFIRMATION_POLICY, mode: SessionMode = 'plan'): Promise<{ steps: McpToolCall[] }> {
+        this.isStarting = true;
         try {
-            // 1. Initialize connection with MCP to get session ID and tools list
-            const { sessionId, toolsList } = await this.initializeMcpSession();
-            // logger.info(`[Orchestrator] MCP Session initialized. Session ID: ${sessionId}`);
-            console.log(`[Orchestrator] MCP Session initialized. Session ID: ${sessionId}`);
-
-            if (!toolsList || toolsList.length === 0) {
-                 // logger.error('[Orchestrator] Failed to retrieve tools list from MCP.');
-                 console.error('[Orchestrator] Failed to retrieve tools list from MCP.');
-                 throw new Error('Failed to retrieve tools list from MCP.');
-            }
+            const session = await this.openSession(instruction, confirmationPolicy, mode);
+            const { fsm } = session;
 
-            // 2. Create and setup the FSM instance with the update handler
-            const fsm = new OrchestratorFsm((newState, context) => {
-                // Use a bound method to handle async updates and catch errors
-                this.handleFsmUpdate(newState, context).catch(err => {
-                    // logger.error({ err }, "[Orchestrator] CRITICAL Error in async handleFsmUpdate execution:");
-                    console.error("[Orchestrator] CRITICAL Error in async handleFsmUpdate execution:", { err });
-                    // Ensure session reset happens even if handleFsmUpdate fails
-                    this.resetSession(OrchestratorState.ERROR);
-                });
-            });
-
-            // 3. Initialize session data object
-            this.session = {
-                fsm,
-                steps: [], // Steps populated after parsing
-                instruction,
-                latestSnapshot: null, // Initialize snapshot
-            };
+            if (mode === 'agent') {
+                // Nothing is planned up front: the FSM goes straight to PLAN_NEXT_CHUNK for the first action
+                // logger.info('[Orchestrator] Agent mode. Skipping instruction parsing.');
+                console.log('[Orchestrator] Agent mode. Skipping instruction parsing.');
+                const steps = session.steps;
+                fsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps, planComplete: false });
+                return { steps };
+            }
 
             // 4. Parse the instruction using the fetched tools
             // logger.info('[Orchestrator] Parsing instruction...');
             console.log('[Orchestrator] Parsing instruction...');
             // Ensure parser does NOT add initial snapshot anymore
-            const parsedSteps = await parseInstruction(instruction, toolsList);
+            const { chunkSize, maxTotalSteps, incremental } = this.planningPolicy;
+            const { steps: parsedSteps, complete } = await parseInstructionPlan(instruction, session.tools, Math.min(chunkSize, maxTotalSteps));
             // logger.info(`[Orchestrator] Instruction parsed into ${parsedSteps.length} steps.`);
             console.log(`[Orchestrator] Instruction parsed into ${parsedSteps.length} steps.`);
+            if (!complete) {
+                // logger.warn(`[Orchestrator] The plan does not cover the whole instruction. ${incremental ? 'The rest is planned once these steps have run.' : 'The rest is dropped (PLANNING_INCREMENTAL=false).'}`);
+                console.warn(`[Orchestrator] The plan does not cover the whole instruction. ${incremental ? 'The rest is planned once these steps have run.' : 'The rest is dropped (PLANNING_INCREMENTAL=false).'}`);
+            }
             // logger.debug('[Orchestrator] Parsed Steps:', JSON.stringify(parsedSteps, null, 2)); // Verbose
 
             // 5. Update session steps and dispatch PARSING_COMPLETE to FSM
             // Ensure steps have unique IDs if parser doesn't provide them
-            this.session.steps = parsedSteps.map((step, index) => ({
+            session.steps = parsedSteps.map((step, index) => ({
                  ...step,
                  tool_call_id: step.tool_call_id || `step_${index}_${Date.now()}` // Assign unique ID
             }));
 
             // Dispatch event to FSM to kick off the process
-            fsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps: this.session.steps });
+            // Keep a reference: the session is reset below when there is nothing to execute.
+            const steps = session.steps;
+            fsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps, planComplete: complete || !incremental });
+            this.endSessionIfIdle(fsm);
 
             // 6. Return the initial parsed steps to the caller (server.ts)
             // Note: Filtering snapshot steps happens in server.ts before sending to UI
-            return { steps: this.session.steps };
+            return { steps };
 
         } catch (error: any) {
             // logger.error({ err: error }, '[Orchestrator] Failed to start session or parse instruction.');
             console.error('[Orchestrator] Failed to start session or parse instruction.', { err: error });
             this.resetSession(OrchestratorState.ERROR); // Ensure reset on any failure during startup
             throw new Error(`Session initialization failed: ${error.message}`); // Re-throw for server.ts
+        } finally {
+            this.isStarting = false;
+        }
+    }
+
+    /**
+     * Closes a session whose plan has nothing to execute. PARSING_COMPLETE without steps leaves the FSM
+     * in IDLE, and since the state did not change no transition reaches handleFsmUpdate to reset it.
+     */
+    private endSessionIfIdle(fsm: OrchestratorFsm): void {
+        if (fsm.getCurrentState() === OrchestratorState.IDLE) {
+            // logger.info('[Orchestrator] Nothing to execute. Ending the session.');
+            console.log('[Orchestrator] Nothing to execute. Ending the session.');
+            this.resetSession(OrchestratorState.IDLE);
+        }
+    }
+
+    /**
+     * Starts a new session that runs the given steps instead of parsing the instruction (e.g. a saved
+     * workflow or an imported recording). Steps with `<UNKNOWN>` arguments are resolved against the
+     * page when they come up; steps that do not match their tool's input schema carry
+     * `validation_errors` and must be edited before they can be confirmed.
+     * @param instruction What the steps do, shown and recorded like a parsed instruction.
+     * @param steps The steps to run, copied with fresh tool_call_ids.
+     * @returns A promise that resolves with the session's steps.
+     * @throws An error if session initialization fails.
+     */
+    public async startSessionWithSteps(instruction: string, steps: McpToolCall[], confirmationPolicy: ConfirmationPolicy = DEFAULT_CONFIRMATION_POLICY): Promise<{ steps: McpToolCall[] }> {
+        this.isStarting = true;
+        try {
+            const session = await this.openSession(instruction, confirmationPolicy, 'plan');
+            // logger.info(`[Orchestrator] Running ${steps.length} given steps. Skipping instruction parsing.`);
+            console.log(`[Orchestrator] Running ${steps.length} given steps. Skipping instruction parsing.`);
+            // Given steps are not repaired; steps that do not match their tool's schema wait for an edit
+            const sessionSteps = steps.map((step, index) => {
+                 const { validation_errors, ...rest } = step;
+                 const problems = validateStep(step, session.tools);
+                 return {
+                     ...rest,
+                     arguments: { ...step.arguments },
+                     tool_call_id: `step_${index}_${Date.now()}`,
+                     ...(problems.length > 0 ? { validation_errors: problems } : {}),
+                 };
+            });
+            session.steps = sessionSteps;
+            session.fsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps: sessionSteps });
+            this.endSessionIfIdle(session.fsm);
+            return { steps: sessionSteps };
+
+        } catch (error: any) {
+            // logger.error({ err: error }, '[Orchestrator] Failed to start session with given steps.');
+            console.error('[Orchestrator] Failed to start session with given steps.', { err: error });
+            this.resetSession(OrchestratorState.ERROR);
+            throw new Error(`Session initialization failed: ${error.message}`);
+        } finally {
+            this.isStarting = false;
+        }
+    }
+
+    /**
+     * Resets any active session, opens an MCP session and sets up the FSM and session data for a new
+     * session. Callers dispatch PARSING_COMPLETE with the session's steps once they have them.
+     * @returns The new session's data.
+     * @throws An error if the MCP session cannot be initialized or lists no tools.
+     */
+    private async openSession(instruction: string, confirmationPolicy: ConfirmationPolicy, mode: SessionMode): Promise<SessionData> {
+        if (this.session) {
+            // logger.warn('[Orchestrator] Session already active. Resetting before starting new one.');
+            console.warn('[Orchestrator] Session already active. Resetting before starting new one.');
+            this.resetSession(); // Reset existing session first
+        }
+
+        // logger.info(`[Orchestrator] Starting new session for instruction: "${instruction}"`);
+        console.log(`[Orchestrator] Starting new ${mode} session for instruction: "${instruction}"`);
+
+        // 1. Initialize connection with MCP to get session ID and tools list
+        const { sessionId, toolsList } = await this.initializeMcpSession();
+        // logger.info(`[Orchestrator] MCP Session initialized. Session ID: ${sessionId}`);
+        console.log(`[Orchestrator] MCP Session initialized. Session ID: ${sessionId}`);
+
+        if (!toolsList || toolsList.length === 0) {
+             // logger.error('[Orchestrator] Failed to retrieve tools list from MCP.');
+             console.error('[Orchestrator] Failed to retrieve tools list from MCP.');
+             throw new Error('Failed to retrieve tools list from MCP.');
         }
+
+        // 2. Create and setup the FSM instance with the update handler
+        const fsm = new OrchestratorFsm((newState, context, transition) => {
+            // Push the transition to observers (e.g. SSE status stream) before acting on it
+            this.emit('transition', transition, context);
+            // A plan edit that kept the state needs no action, only the notification above;
+            // an auto-approved step that keeps the FSM in EXECUTE still has to run
+            if (transition.previousState === newState && !transition.autoApprovedBy) return;
+            // Use a bound method to handle async updates and catch errors
+            this.handleFsmUpdate(newState, context).catch(err => {
+                // logger.error({ err }, "[Orchestrator] CRITICAL Error in async handleFsmUpdate execution:");
+                console.error("[Orchestrator] CRITICAL Error in async handleFsmUpdate execution:", { err });
+                // Ensure session reset happens even if handleFsmUpdate fails
+                this.resetSession(OrchestratorState.ERROR);
+            });
+        }, this.retryPolicy, confirmationPolicy);
+
+        // 3. Initialize session data object
+        const session: SessionData = {
+            fsm,
+            steps: [], // Steps populated after parsing
+            instruction,
+            latestSnapshot: null, // Initialize snapshot
+            tools: toolsList,
+            confirmationPolicy,
+            mode,
+        };
+        this.session = session;
+        this.emit('started', { instruction, mode });
+        return session;
     }
 
      // --- Timer Management ---
@@ -600,32 +811,412 @@ export class Orchestrator {
         }
     }
 
-    private async requestSnapshot(): Promise<void> {
-        if (!this.sseUrl) return;
-        const snapshotReqId = this.rpcIdCounter++;
-        const snapshotRequest = {
-            jsonrpc: '2.0',
-            id: snapshotReqId,
-            method: 'tools/call',
-            params: { name: 'browser_snapshot', arguments: {} }
+    /**
+     * Requests a fresh browser_snapshot from MCP and stores it as the session's latest snapshot.
+     * @returns The snapshot text, or null if none arrived within SNAPSHOT_TIMEOUT_MS.
+     */
+    private async requestSnapshot(): Promise<string | null> {
+        if (!this.client) return null;
+        console.log('[Orchestrator] Sending browser_snapshot request');
+        const stepIndex = this.session?.fsm.getContext().currentStepIndex ?? -1;
+        const startedAt = Date.now();
+        try {
+            const result = await this.client.callTool('browser_snapshot', {}, {
+                timeoutMs: Orchestrator.SNAPSHOT_TIMEOUT_MS,
+                signal: this.requestAbort?.signal,
+            });
+            this.emit('toolCall', {
+                stepIndex, stepId: null, toolName: 'browser_snapshot', arguments: {},
+                result, error: null, startedAt, durationMs: Date.now() - startedAt,
+            });
+            const snapshot = result.isError ? undefined : this.extractSnapshotText(result);
+            if (snapshot && this.session) {
+                // logger.info('[Orchestrator] Stored snapshot.');
+                console.log('[Orchestrator] Stored snapshot.');
+                this.rememberSnapshot(snapshot);
+            } else {
+                console.warn('[Orchestrator] Snapshot request returned no snapshot.');
+            }
+            return snapshot ?? null;
+        } catch (err: any) {
+            if (!(err instanceof McpCancelledError)) {
+                console.warn('[Orchestrator] browser_snapshot request failed:', err?.message ?? err);
+                this.emit('toolCall', {
+                    stepIndex, stepId: null, toolName: 'browser_snapshot', arguments: {},
+                    result: null, error: { code: err?.code ?? -32004, message: err?.message ?? String(err) },
+                    startedAt, durationMs: Date.now() - startedAt,
+                });
+            }
+            return null;
+        }
+    }
+
+    /** Keeps a snapshot as the session's latest and reports it to observers. */
+    private rememberSnapshot(snapshot: string): void {
+        if (!this.session) return;
+        this.session.latestSnapshot = snapshot;
+        this.emit('snapshot', snapshot, this.session.fsm.getContext().currentStepIndex);
+    }
+
+    /**
+     * Resolves `<UNKNOWN>` arguments of a step against a page snapshot using the LLM, then checks the
+     * result against the tool's input schema (with one repair round, see validateAndRepairSteps).
+     * @returns The refined step, keeping the original tool_call_id.
+     */
+    private async refineStep(stepToRefine: McpToolCall, snapshot: string): Promise<McpToolCall> {
+        // Construct the 'Call' object for the refinement function
+        const callToRefine: Call = {
+           type: 'call',
+           id: Date.now(), // Use timestamp for ID (number)
+           method: stepToRefine.tool_name,
+           params: stepToRefine.arguments
+        };
+        // logger.info(`[Orchestrator] Calling refineStepArgumentsWithSnapshot with snapshot (length: ${snapshot.length}) and step:`, callToRefine);
+        console.log(`[Orchestrator] Calling refineStepArgumentsWithSnapshot with snapshot (length: ${snapshot.length}) and step:`, callToRefine);
+
+        // Call the refinement function (ensure it exists and works)
+        const refinedCall = await refineStepArgumentsWithSnapshot(callToRefine, snapshot, stepToRefine.description);
+
+        // Map the refined Call back to McpToolCall structure
+        const refinedMcpStep: McpToolCall = {
+           ...stepToRefine, // Keep the description, source span and confidence
+           tool_name: refinedCall.method,
+           arguments: refinedCall.params as { [key: string]: any; },
+           tool_call_id: stepToRefine.tool_call_id // Preserve original ID if possible
         };
-        console.log(`[Orchestrator] Sending browser_snapshot request (ID: ${snapshotReqId})`);
+        // logger.info(`[Orchestrator] LLM refinement successful. Refined step:`, refinedMcpStep);
+        console.log(`[Orchestrator] LLM refinement successful. Refined step:`, refinedMcpStep);
+        const [checkedStep] = await validateAndRepairSteps([refinedMcpStep], {
+            instruction: this.session?.instruction ?? '',
+            tools: this.session?.tools ?? [],
+            site: 'refine',
+            snapshot,
+        });
+        return checkedStep ?? refinedMcpStep;
+    }
+
+    /**
+     * Runs when the retry backoff for the current step has elapsed. For steps that target an element
+     * by `ref`, the ref may have gone stale, so (if the policy allows) a fresh snapshot is taken and the
+     * ref is re-resolved before dispatching RETRY_STEP.
+     * @param stepIndex The index of the step being retried.
+     */
+    private async retryCurrentStep(stepIndex: number): Promise<void> {
+        const fsm = this.session?.fsm;
+        if (!this.session || !fsm || fsm.getCurrentState() !== OrchestratorState.RETRY_WAIT) {
+            console.log('[Orchestrator] Retry timer fired but session is no longer waiting to retry. Ignoring.');
+            return;
+        }
+
+        const step = this.session.steps[stepIndex];
+        let refinedStep: McpToolCall | undefined;
+        if (this.retryPolicy.refreshSnapshotOnRefRetry && step && 'ref' in step.arguments) {
+            // logger.info(`[Orchestrator] Refreshing snapshot to re-resolve ref for step ${stepIndex + 1} before retry.`);
+            console.log(`[Orchestrator] Refreshing snapshot to re-resolve ref for step ${stepIndex + 1} before retry.`);
+            const snapshot = await this.requestSnapshot();
+            if (snapshot) {
+                try {
+                    refinedStep = await this.refineStep({ ...step, arguments: { ...step.arguments, ref: '<UNKNOWN>' } }, snapshot);
+                } catch (err) {
+                    console.warn(`[Orchestrator] Could not re-resolve ref for step ${stepIndex + 1}. Retrying with original arguments.`, err);
+                }
+            }
+        }
+
+        // The session may have been cancelled while we were waiting on MCP/LLM
+        if (this.session?.fsm === fsm && fsm.getCurrentState() === OrchestratorState.RETRY_WAIT) {
+            fsm.dispatch(OrchestratorEvent.RETRY_STEP, { refinedStep });
+        }
+    }
+
+    /**
+     * Runs when the current step has exhausted its retries. Takes a fresh snapshot of the page and asks
+     * the LLM for replacement steps that finish the instruction from there, then dispatches
+     * REPLAN_PROPOSED (or REPLAN_FAILED) so the user can review the proposal.
+     * @param stepIndex The index of the step that failed.
+     * @param error The last error reported for that step.
+     */
+    private async replanFailedStep(stepIndex: number, error: any): Promise<void> {
+        const session = this.session;
+        if (!session) return;
+        const fsm = session.fsm;
+
+        const snapshot = (await this.requestSnapshot()) ?? session.latestSnapshot;
+        let payload: { steps?: McpToolCall[]; planComplete?: boolean; snapshot?: string; error?: any };
+        // The replacement counts against the session's step limit like any chunk
+        const { chunkSize, maxTotalSteps, incremental } = this.planningPolicy;
+        const maxSteps = Math.max(1, Math.min(chunkSize, maxTotalSteps - stepIndex));
         try {
-            await axios.post(this.sseUrl, snapshotRequest, { headers: { 'Content-Type': 'application/json' }, timeout: 15000 });
-        } catch (err) {
-            console.error('[Orchestrator] Error sending browser_snapshot request:', err);
+            const { steps: proposedSteps, complete } = await replanRemainingSteps({
+                instruction: session.instruction ?? '',
+                completedSteps: session.steps.slice(0, stepIndex).filter(step => step.tool_name !== 'browser_snapshot'),
+                failedStep: session.steps[stepIndex],
+                error,
+                snapshot,
+                tools: session.tools,
+                maxSteps,
+            });
+            if (!complete) {
+                // logger.warn(`[Orchestrator] The replan does not cover the whole instruction. ${incremental ? 'The rest is planned once these steps have run.' : 'The rest is dropped (PLANNING_INCREMENTAL=false).'}`);
+                console.warn(`[Orchestrator] The replan does not cover the whole instruction. ${incremental ? 'The rest is planned once these steps have run.' : 'The rest is dropped (PLANNING_INCREMENTAL=false).'}`);
+            }
+            payload = { steps: proposedSteps, planComplete: complete || !incremental, snapshot: snapshot ?? undefined };
+        } catch (replanError: any) {
+            // logger.error({ err: replanError }, `[Orchestrator] Replanning failed for step ${stepIndex + 1}.`);
+            console.error(`[Orchestrator] Replanning failed for step ${stepIndex + 1}.`, { err: replanError });
+            payload = { error: `Replanning failed: ${replanError.message || replanError}` };
+        }
+
+        // The session may have been cancelled while we were waiting on MCP/LLM
+        if (this.session?.fsm !== fsm || fsm.getCurrentState() !== OrchestratorState.REPLAN) {
+            console.log('[Orchestrator] Session is no longer replanning. Discarding replan result.');
+            return;
+        }
+        if (payload.steps && payload.steps.length > 0) {
+            fsm.dispatch(OrchestratorEvent.REPLAN_PROPOSED, payload);
+        } else {
+            fsm.dispatch(OrchestratorEvent.REPLAN_FAILED, { error: payload.error ?? error });
+        }
+    }
+
+    /**
+     * Plans the next chunk of an incrementally planned instruction from the current page and hands it
+     * to the FSM. Fails the session once PlanningPolicy.maxTotalSteps steps have been planned.
+     */
+    private async planNextStepsChunk(): Promise<void> {
+        const session = this.session;
+        if (!session) return;
+        const fsm = session.fsm;
+
+        const budget = this.planningPolicy.maxTotalSteps - session.steps.length;
+        if (budget <= 0) {
+            // logger.warn(`[Orchestrator] Step limit (${this.planningPolicy.maxTotalSteps}) reached before the instruction was complete.`);
+            console.warn(`[Orchestrator] Step limit (${this.planningPolicy.maxTotalSteps}) reached before the instruction was complete.`);
+            fsm.dispatch(OrchestratorEvent.CHUNK_FAILED, {
+                error: `Reached the limit of ${this.planningPolicy.maxTotalSteps} steps (MAX_TOTAL_STEPS) before the instruction was complete.`,
+            });
+            return;
+        }
+
+        const snapshot = (await this.requestSnapshot()) ?? session.latestSnapshot;
+        let payload: { steps?: McpToolCall[]; planComplete?: boolean; snapshot?: string; error?: any };
+        try {
+            const chunk = await planNextChunk({
+                instruction: session.instruction ?? '',
+                completedSteps: session.steps.filter(step => step.tool_name !== 'browser_snapshot'),
+                snapshot,
+                tools: session.tools,
+                maxSteps: Math.min(this.planningPolicy.chunkSize, budget),
+            });
+            const firstIndex = session.steps.length;
+            payload = {
+                steps: chunk.steps.map((step, index) => ({
+                    ...step,
+                    tool_call_id: step.tool_call_id || `step_${firstIndex + index}_${Date.now()}`
+                })),
+                planComplete: chunk.complete,
+                snapshot: snapshot ?? undefined,
+            };
+        } catch (planError: any) {
+            // logger.error({ err: planError }, '[Orchestrator] Planning the next chunk failed.');
+            console.error('[Orchestrator] Planning the next chunk failed.', { err: planError });
+            payload = { error: `Planning the next steps failed: ${planError.message || planError}` };
+        }
+
+        // The session may have been cancelled while we were waiting on MCP/LLM
+        if (this.session?.fsm !== fsm || fsm.getCurrentState() !== OrchestratorState.PLAN_NEXT_CHUNK) {
+            console.log('[Orchestrator] Session is no longer planning. Discarding the planned chunk.');
+            return;
+        }
+        fsm.dispatch(payload.steps ? OrchestratorEvent.CHUNK_PLANNED : OrchestratorEvent.CHUNK_FAILED, payload);
+    }
+
+    /**
+     * Agent mode: asks the LLM for the single next action from the current page and the actions so far,
+     * and hands it to the FSM as a one-step chunk. The session ends when the LLM calls `done`, and fails
+     * once PlanningPolicy.maxTotalSteps actions have been taken.
+     */
+    private async planNextAgentAction(): Promise<void> {
+        const session = this.session;
+        if (!session) return;
+        const fsm = session.fsm;
+
+        if (session.steps.length >= this.planningPolicy.maxTotalSteps) {
+            // logger.warn(`[Orchestrator] Step limit (${this.planningPolicy.maxTotalSteps}) reached before the agent was done.`);
+            console.warn(`[Orchestrator] Step limit (${this.planningPolicy.maxTotalSteps}) reached before the agent was done.`);
+            fsm.dispatch(OrchestratorEvent.CHUNK_FAILED, {
+                error: `Reached the limit of ${this.planningPolicy.maxTotalSteps} steps (MAX_TOTAL_STEPS) before the agent was done.`,
+            });
+            return;
+        }
+
+        const snapshot = (await this.requestSnapshot()) ?? session.latestSnapshot;
+        let payload: { steps?: McpToolCall[]; planComplete?: boolean; summary?: string; snapshot?: string; error?: any };
+        try {
+            const action = await planNextAction({
+                goal: session.instruction ?? '',
+                history: session.steps.filter(step => step.tool_name !== 'browser_snapshot'),
+                snapshot,
+                tools: session.tools,
+            });
+            if (!action) {
+                payload = { error: 'The agent did not propose a next action.' };
+            } else if (action.done) {
+                payload = { steps: [], planComplete: true, summary: action.summary };
+            } else {
+                payload = {
+                    steps: [{ ...action.step, tool_call_id: action.step.tool_call_id || `step_${session.steps.length}_${Date.now()}` }],
+                    planComplete: false,
+                    snapshot: snapshot ?? undefined,
+                };
+            }
+        } catch (planError: any) {
+            // logger.error({ err: planError }, '[Orchestrator] Choosing the next action failed.');
+            console.error('[Orchestrator] Choosing the next action failed.', { err: planError });
+            payload = { error: `Choosing the next action failed: ${planError.message || planError}` };
+        }
+
+        // The session may have been cancelled while we were waiting on MCP/LLM
+        if (this.session?.fsm !== fsm || fsm.getCurrentState() !== OrchestratorState.PLAN_NEXT_CHUNK) {
+            console.log('[Orchestrator] Session is no longer planning. Discarding the next action.');
+            return;
+        }
+        fsm.dispatch(payload.steps ? OrchestratorEvent.CHUNK_PLANNED : OrchestratorEvent.CHUNK_FAILED, payload);
+    }
+
+    private clearRetryTimer() {
+        if (this.retryTimerId) {
+            clearTimeout(this.retryTimerId);
+            this.retryTimerId = null;
+        }
+    }
+
+    private scheduleReconnect(attempt: number): void {
+        const delayMs = computeRetryDelay(this.retryPolicy, attempt);
+        // logger.info(`[Orchestrator] Reconnect attempt ${attempt}/${this.retryPolicy.maxReconnects} in ${delayMs}ms.`);
+        console.log(`[Orchestrator] Reconnect attempt ${attempt}/${this.retryPolicy.maxReconnects} in ${delayMs}ms.`);
+        this.clearReconnectTimer();
+        this.reconnectTimerId = setTimeout(() => {
+            this.reconnectTimerId = null;
+            this.attemptReconnect(attempt).catch(err => {
+                console.error('[Orchestrator] Unexpected error while reconnecting:', err);
+                this.session?.fsm.dispatch(OrchestratorEvent.RECONNECT_FAILED, { error: `Reconnect failed: ${err?.message ?? err}` });
+            });
+        }, delayMs);
+    }
+
+    private clearReconnectTimer() {
+        if (this.reconnectTimerId) {
+            clearTimeout(this.reconnectTimerId);
+            this.reconnectTimerId = null;
         }
     }
 
+    /**
+     * Runs when a reconnect backoff has elapsed. Re-binds to the same MCP session if the transport can
+     * resume it (the browser is untouched). Otherwise a new connection, and with it a new browser, is
+     * opened and the navigation steps before the current step are replayed so the page matches where the
+     * session left off. Dispatches RECONNECTED, schedules the next attempt, or dispatches RECONNECT_FAILED
+     * once RetryPolicy.maxReconnects attempts have failed.
+     * @param attempt The 1-based reconnect attempt number.
+     */
+    private async attemptReconnect(attempt: number): Promise<void> {
+        const fsm = this.session?.fsm;
+        const stillReconnecting = () => !!fsm && this.session?.fsm === fsm && fsm.getCurrentState() === OrchestratorState.RECONNECTING;
+        if (!stillReconnecting()) {
+            console.log('[Orchestrator] Reconnect timer fired but session is no longer reconnecting. Ignoring.');
+            return;
+        }
+
+        let snapshot: string | undefined;
+        try {
+            let client = this.client;
+            if (client && this.serverRestarted) {
+                // logger.info('[Orchestrator] MCP server was restarted. Restoring the page in its new browser.');
+                console.log('[Orchestrator] MCP server was restarted. Restoring the page in its new browser.');
+                this.serverRestarted = false;
+                snapshot = await this.replayNavigation(client, fsm!.getContext().currentStepIndex);
+            } else if (client && await client.transport.resume()) {
+                // logger.info(`[Orchestrator] Re-bound to MCP session ${client.transport.sessionId}.`);
+                console.log(`[Orchestrator] Re-bound to MCP session ${client.transport.sessionId}.`);
+            } else {
+                this.client = null;
+                client?.close();
+                const transport = await connectMcpTransport(this.mcpServerBaseUrl, this.mcpTransportSetting);
+                if (!stillReconnecting()) {
+                    transport.close();
+                    return;
+                }
+                client = this.attachClient(transport);
+                this.recordMcpServer(client);
+                // logger.info(`[Orchestrator] Opened new MCP session ${transport.sessionId}. Restoring the page.`);
+                console.log(`[Orchestrator] Opened new MCP session ${transport.sessionId}. Restoring the page.`);
+                this.applyToolsList(await this.requestToolsList());
+                snapshot = await this.replayNavigation(client, fsm!.getContext().currentStepIndex);
+            }
+        } catch (err: any) {
+            // logger.warn({ err }, `[Orchestrator] Reconnect attempt ${attempt} failed.`);
+            console.warn(`[Orchestrator] Reconnect attempt ${attempt} failed:`, err?.message ?? err);
+            if (!stillReconnecting()) return;
+            if (attempt < this.retryPolicy.maxReconnects) {
+                this.scheduleReconnect(attempt + 1);
+            } else {
+                fsm!.dispatch(OrchestratorEvent.RECONNECT_FAILED, {
+                    error: `Could not reconnect to the MCP server after ${attempt} attempts: ${err?.message ?? err}`
+                });
+            }
+            return;
+        }
+
+        if (stillReconnecting()) {
+            if (snapshot) {
+                this.rememberSnapshot(snapshot);
+            }
+            fsm!.dispatch(OrchestratorEvent.RECONNECTED, { snapshot });
+        }
+    }
+
+    /**
+     * Re-runs the browser_navigate steps before `stepIndex` in a new browser.
+     * @returns The page snapshot returned by the last navigation, if any.
+     * @throws An error if a navigation fails.
+     */
+    private async replayNavigation(client: McpClient, stepIndex: number): Promise<string | undefined> {
+        const navigations = (this.session?.steps ?? []).slice(0, Math.max(0, stepIndex)).filter(step => step.tool_name === 'browser_navigate');
+        let snapshot: string | undefined;
+        for (const step of navigations) {
+            // logger.info(`[Orchestrator] Replaying navigation to ${step.arguments.url}`);
+            console.log(`[Orchestrator] Replaying navigation to ${step.arguments.url}`);
+            const result = await client.callTool(step.tool_name, step.arguments, {
+                timeoutMs: Orchestrator.STEP_TIMEOUT_MS,
+                signal: this.requestAbort?.signal,
+            });
+            if (result.isError) {
+                throw new Error(`Replaying navigation to ${step.arguments.url} failed.`);
+            }
+            snapshot = this.extractSnapshotText(result) ?? snapshot;
+        }
+        return snapshot;
+    }
+
     // --- Public Methods for Server Interaction (Interfaces remain the same) ---
 
-    /** Handles user confirmation by dispatching CONFIRM_STEP to the FSM. */
+    /**
+     * Handles user confirmation by dispatching CONFIRM_STEP to the FSM.
+     * @throws PlanEditError ('invalid') if the step awaiting confirmation still has validation errors.
+     */
     public handleConfirmStep(): void {
         if (!this.session) {
             // logger.warn('[Orchestrator] Cannot confirm step: No active session.');
             console.warn('[Orchestrator] Cannot confirm step: No active session.');
             throw new Error('No active session to confirm.'); // Let server handle error response
         }
+        const problems = this.session.fsm.getContext().stepToConfirm?.validation_errors;
+        if (problems && problems.length > 0) {
+            // logger.warn('[Orchestrator] Cannot confirm step: its arguments do not match the tool\'s input schema.');
+            console.warn('[Orchestrator] Cannot confirm step: its arguments do not match the tool\'s input schema.');
+            throw new PlanEditError('The step does not match its tool\'s input schema. Edit it before confirming.', 'invalid', problems);
+        }
         // logger.info('[Orchestrator] Dispatching CONFIRM_STEP to FSM.');
         console.log('[Orchestrator] Dispatching CONFIRM_STEP to FSM.');
         this.session.fsm.dispatch(OrchestratorEvent.CONFIRM_STEP);
@@ -643,6 +1234,64 @@ export class Orchestrator {
         this.session.fsm.dispatch(OrchestratorEvent.REJECT_STEP);
     }
 
+    /** Handles acceptance of the replanned steps by dispatching ACCEPT_REPLAN to the FSM. */
+    public handleAcceptReplan(): void {
+        if (!this.session) {
+            // logger.warn('[Orchestrator] Cannot accept replan: No active session.');
+            console.warn('[Orchestrator] Cannot accept replan: No active session.');
+            throw new Error('No active session to accept a replan for.');
+        }
+        if (this.session.fsm.getCurrentState() !== OrchestratorState.WAIT_REPLAN_CONFIRM) {
+            throw new Error('Session is not waiting for a replan confirmation.');
+        }
+        // logger.info('[Orchestrator] Dispatching ACCEPT_REPLAN to FSM.');
+        console.log('[Orchestrator] Dispatching ACCEPT_REPLAN to FSM.');
+        this.session.fsm.dispatch(OrchestratorEvent.ACCEPT_REPLAN);
+    }
+
+    /** Handles rejection of the replanned steps by dispatching REJECT_REPLAN to the FSM, ending the session. */
+    public handleRejectReplan(): void {
+        if (!this.session) {
+            // logger.warn('[Orchestrator] Cannot reject replan: No active session.');
+            console.warn('[Orchestrator] Cannot reject replan: No active session.');
+            return;
+        }
+        // logger.info('[Orchestrator] Dispatching REJECT_REPLAN to FSM.');
+        console.log('[Orchestrator] Dispatching REJECT_REPLAN to FSM.');
+        this.session.fsm.dispatch(OrchestratorEvent.REJECT_REPLAN);
+    }
+
+    /**
+     * Applies a user edit to the steps that have not started yet and dispatches PLAN_UPDATED.
+     * Edited and inserted steps are validated against their tool's input schema from `tools/list`.
+     * @returns The updated steps.
+     * @throws PlanEditError if there is no session, the edit is invalid or it touches steps that already started.
+     */
+    public editPlan(edit: PlanEdit): McpToolCall[] {
+        if (!this.session) {
+            // logger.warn('[Orchestrator] Cannot edit plan: No active session.');
+            console.warn('[Orchestrator] Cannot edit plan: No active session.');
+            throw new PlanEditError('No active session to edit.', 'locked');
+        }
+        const fsm = this.session.fsm;
+        const steps = applyPlanEdit(this.session.steps, fsm.getFirstEditableStepIndex(), edit, this.session.tools);
+        // logger.info(`[Orchestrator] Applying plan edit (${edit.type}). Dispatching PLAN_UPDATED to FSM.`);
+        console.log(`[Orchestrator] Applying plan edit (${edit.type}). Dispatching PLAN_UPDATED to FSM.`);
+        fsm.dispatch(OrchestratorEvent.PLAN_UPDATED, { steps });
+        return fsm.getContext().steps;
+    }
+
+    /** The tools the MCP server offers to the current session (empty without a session). */
+    public getTools(): McpToolDefinition[] {
+        return this.session?.tools ?? [];
+    }
+
+    /** The latest page snapshot of the current session, parsed (null before the first snapshot). */
+    public getPageSnapshot(): AriaSnapshot | null {
+        const snapshot = this.session?.latestSnapshot;
+        return snapshot ? parseAriaSnapshot(snapshot) : null;
+    }
+
     /** Handles user cancellation by dispatching CANCEL_SESSION to the FSM. */
     public handleCancelSession(): void {
         if (!this.session) {
@@ -655,22 +1304,37 @@ export class Orchestrator {
         this.session.fsm.dispatch(OrchestratorEvent.CANCEL_SESSION);
     }
 
-    /** Returns the current status (state and context) for the UI. */
-    public getStatus(): { state: OrchestratorState; context: Readonly<FsmContext> } {
+    /**
+     * Returns the current status for the UI: FSM state and context, plus what the MCP server
+     * negotiated (null until a session has connected).
+     */
+    public getStatus(): { state: OrchestratorState; context: Readonly<FsmContext>; mcp: McpInitializeResult | null; confirmationPolicy: ConfirmationPolicy; mode: SessionMode } {
         if (!this.session || !this.session.fsm) {
             // Return default IDLE state if no session
              const idleContext: FsmContext = {
                 retryCount: 0, currentStepIndex: -1, totalSteps: 0,
-                steps: [], latestSnapshot: null, stepToConfirm: null, lastError: null
+                steps: [], latestSnapshot: null, stepToConfirm: null, lastError: null, lastErrorCode: null,
+                proposedSteps: null, replanCount: 0, startingHost: null, planComplete: true
             };
-            return { state: OrchestratorState.IDLE, context: idleContext };
+            return { state: OrchestratorState.IDLE, context: idleContext, mcp: this.mcpServer, confirmationPolicy: DEFAULT_CONFIRMATION_POLICY, mode: 'plan' };
         }
         // Return current state and context from the active FSM
-        return { state: this.session.fsm.getCurrentState(), context: this.session.fsm.getContext() };
+        return {
+            state: this.session.fsm.getCurrentState(),
+            context: this.session.fsm.getContext(),
+            mcp: this.mcpServer,
+            confirmationPolicy: this.session.confirmationPolicy,
+            mode: this.session.mode,
+        };
     }
 
     // --- Getters (If needed) ---
     public get currentSessionId(): string | null {
-        return this.sessionId;
+        return this.client?.transport.sessionId ?? null;
+    }
+
+    /** True while the session is starting up or running; false once it has ended or failed. */
+    public get isActive(): boolean {
+        return this.isStarting || this.session !== null;
     }
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+// backend/src/orchestrator/SessionRegistry.ts
+import { randomUUID } from 'crypto';
+import { Orchestrator, OrchestratorOptions } from './Orchestrator';
+
+/**
+ * Thrown when a new session is requested while the configured number of
+ * concurrent sessions is already running.
+ */
+export class SessionLimitError extends Error {
+    constructor(public readonly limit: number) {
+        super(`Maximum number of concurrent sessions (${limit}) reached.`);
+        this.name = 'SessionLimitError';
+    }
+}
+
+// Sessions allowed at once when MAX_CONCURRENT_SESSIONS is not set
+export const DEFAULT_MAX_CONCURRENT_SESSIONS = 5;
+
+/**
+ * Reads the concurrent session cap from MAX_CONCURRENT_SESSIONS, falling back to
+ * DEFAULT_MAX_CONCURRENT_SESSIONS (with a warning) when it is not a positive integer.
+ */
+export function loadMaxConcurrentSessionsFromEnv(env: NodeJS.ProcessEnv = process.env): number {
+    const raw = env.MAX_CONCURRENT_SESSIONS;
+    if (raw === undefined || raw.trim() === '') return DEFAULT_MAX_CONCURRENT_SESSIONS;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 1) {
+        console.warn(`[SessionRegistry] Ignoring invalid MAX_CONCURRENT_SESSIONS="${raw}". Using ${DEFAULT_MAX_CONCURRENT_SESSIONS}.`);
+        return DEFAULT_MAX_CONCURRENT_SESSIONS;
+    }
+    return value;
+}
+
+/**
+ * Keeps one Orchestrator per automation session so several users can drive
+ * the same backend at once. Each Orchestrator owns its own FSM, MCP SSE
+ * connection, RPC id counter, timers and tool map.
+ */
+export class SessionRegistry {
+    private sessions = new Map<string, Orchestrator>();
+
+    constructor(
+        private readonly mcpServerBaseUrl: string | null, // null: launch the MCP server over stdio
+        private readonly maxConcurrentSessions: number,
+        private readonly orchestratorOptions: OrchestratorOptions = {}
+    ) {}
+
+    /**
+     * Creates a new Orchestrator under a fresh session id.
+     * Sessions that have already ended are pruned first so they don't count against the cap.
+     * @throws SessionLimitError if the concurrent session cap is reached.
+     */
+    public create(): { id: string; orchestrator: Orchestrator } {
+        this.pruneEndedSessions();
+
+        if (this.sessions.size >= this.maxConcurrentSessions) {
+            console.warn(`[SessionRegistry] Refusing new session: ${this.sessions.size}/${this.maxConcurrentSessions} active.`);
+            throw new SessionLimitError(this.maxConcurrentSessions);
+        }
+
+        const id = randomUUID();
+        const orchestrator = new Orchestrator(this.mcpServerBaseUrl, this.orchestratorOptions);
+        this.sessions.set(id, orchestrator);
+        console.log(`[SessionRegistry] Created session ${id} (${this.sessions.size}/${this.maxConcurrentSessions} active).`);
+        return { id, orchestrator };
+    }
+
+    /** Returns the Orchestrator for a session id, if it is still registered. */
+    public get(id: string): Orchestrator | undefined {
+        return this.sessions.get(id);
+    }
+
+    /** Removes a session from the registry, cancelling it first if it is still running. */
+    public remove(id: string): void {
+        const orchestrator = this.sessions.get(id);
+        if (!orchestrator) return;
+        if (orchestrator.isActive) {
+            orchestrator.handleCancelSession();
+        }
+        this.sessions.delete(id);
+        console.log(`[SessionRegistry] Removed session ${id}.`);
+    }
+
+    /** Number of sessions currently registered. */
+    public get size(): number {
+        return this.sessions.size;
+    }
+
+    private pruneEndedSessions(): void {
+        for (const [id, orchestrator] of this.sessions) {
+            if (!orchestrator.isActive) {
+                console.log(`[SessionRegistry] Pruning ended session ${id}.`);
+                this.sessions.delete(id);
+            }
+        }
+    }
+}
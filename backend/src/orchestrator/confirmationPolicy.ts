@@ -0,0 +1,214 @@
+// backend/src/orchestrator/confirmationPolicy.ts
+import type { McpToolCall } from './Orchestrator';
+
+/**
+ * Which steps of a session the user confirms by hand:
+ * 'all' (every step), 'none' (no step) or 'rules' (decided per step by `rules`).
+ */
+export type ConfirmationMode = 'all' | 'none' | 'rules';
+
+/**
+ * A condition on a step. A rule matches when every condition it sets holds; in 'rules' mode the
+ * first matching rule decides, and steps no rule matches follow the policy's `defaultAction`.
+ */
+export interface ConfirmationRule {
+    name: string;                 // Recorded on the steps the rule approves, e.g. "read-only snapshots"
+    action?: 'confirm' | 'approve'; // What a match means; defaults to 'confirm'
+    tool?: string;                // Exact tool name, e.g. 'browser_type'
+    elementPattern?: string;      // Case-insensitive regex on the step's `element` argument, e.g. 'buy|delete|submit' (see MAX_ELEMENT_PATTERN_LENGTH)
+    offStartingDomain?: boolean;  // Navigations to a host other than the one the plan starts on
+}
+
+export interface ConfirmationPolicy {
+    mode: ConfirmationMode;
+    rules: ConfirmationRule[]; // Only used in 'rules' mode
+    defaultAction?: 'confirm' | 'approve'; // 'rules' mode: what happens to steps no rule matches; defaults to 'confirm'
+}
+
+// Element patterns come from clients and run against every step, so they are kept short and simple
+export const MAX_ELEMENT_PATTERN_LENGTH = 200;
+
+// A repeated group that itself repeats, e.g. (a+)+ or (\w*x)*: the usual shape of catastrophic backtracking
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)[+*{]/;
+
+// Element patterns compiled once, when the policy is parsed (or on first use for policies built in code)
+const compiledPatterns = new WeakMap<ConfirmationRule, RegExp>();
+
+// spec.md: every step is confirmed by the user
+export const DEFAULT_CONFIRMATION_POLICY: ConfirmationPolicy = { mode: 'all', rules: [] };
+
+// Recorded as `auto_approved_by` when no rule decides (mode 'none', or defaultAction 'approve')
+export const APPROVED_BY_MODE_NONE = 'mode:none';
+export const APPROVED_BY_DEFAULT = 'default';
+
+/** Whether a step needs the user's confirmation, and if not, what approved it. */
+export type ConfirmationDecision =
+    | { confirm: true; rule: string | null }      // Rule that asked for confirmation, if any
+    | { confirm: false; approvedBy: string };     // Rule name, APPROVED_BY_MODE_NONE or APPROVED_BY_DEFAULT
+
+/**
+ * Thrown when a confirmation policy supplied by a client is malformed.
+ */
+export class ConfirmationPolicyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfirmationPolicyError';
+    }
+}
+
+/**
+ * Checks a confirmation policy received in a request body.
+ * @param raw The `confirmationPolicy` field; undefined selects DEFAULT_CONFIRMATION_POLICY.
+ * @throws ConfirmationPolicyError describing the first problem found.
+ */
+export function parseConfirmationPolicy(raw: unknown): ConfirmationPolicy {
+    if (raw === undefined || raw === null) {
+        return DEFAULT_CONFIRMATION_POLICY;
+    }
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new ConfirmationPolicyError('confirmationPolicy must be an object.');
+    }
+    const { mode, rules = [], defaultAction } = raw as { mode?: unknown; rules?: unknown; defaultAction?: unknown };
+    if (mode !== 'all' && mode !== 'none' && mode !== 'rules') {
+        throw new ConfirmationPolicyError(`confirmationPolicy.mode must be 'all', 'none' or 'rules'.`);
+    }
+    if (!Array.isArray(rules)) {
+        throw new ConfirmationPolicyError('confirmationPolicy.rules must be an array.');
+    }
+    if (defaultAction !== undefined && defaultAction !== 'confirm' && defaultAction !== 'approve') {
+        throw new ConfirmationPolicyError(`confirmationPolicy.defaultAction must be 'confirm' or 'approve'.`);
+    }
+    return {
+        mode,
+        rules: rules.map((rule, index) => parseRule(rule, `confirmationPolicy.rules[${index}]`)),
+        ...(defaultAction !== undefined && { defaultAction }),
+    };
+}
+
+function parseRule(raw: unknown, path: string): ConfirmationRule {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new ConfirmationPolicyError(`${path} must be an object.`);
+    }
+    const { name, action, tool, elementPattern, offStartingDomain } = raw as { [key: string]: unknown };
+    if (typeof name !== 'string' || !name.trim()) {
+        throw new ConfirmationPolicyError(`${path}.name must be a non-empty string.`);
+    }
+    if (action !== undefined && action !== 'confirm' && action !== 'approve') {
+        throw new ConfirmationPolicyError(`${path}.action must be 'confirm' or 'approve'.`);
+    }
+    if (tool !== undefined && typeof tool !== 'string') {
+        throw new ConfirmationPolicyError(`${path}.tool must be a string.`);
+    }
+    let pattern: RegExp | null = null;
+    if (elementPattern !== undefined) {
+        if (typeof elementPattern !== 'string') {
+            throw new ConfirmationPolicyError(`${path}.elementPattern must be a string.`);
+        }
+        if (elementPattern.length > MAX_ELEMENT_PATTERN_LENGTH) {
+            throw new ConfirmationPolicyError(`${path}.elementPattern must be at most ${MAX_ELEMENT_PATTERN_LENGTH} characters.`);
+        }
+        if (NESTED_QUANTIFIER.test(elementPattern)) {
+            throw new ConfirmationPolicyError(`${path}.elementPattern must not repeat a group that itself repeats (e.g. (a+)+).`);
+        }
+        try {
+            pattern = new RegExp(elementPattern, 'i');
+        } catch (error: any) {
+            throw new ConfirmationPolicyError(`${path}.elementPattern is not a valid regular expression: ${error.message}`);
+        }
+    }
+    if (offStartingDomain !== undefined && typeof offStartingDomain !== 'boolean') {
+        throw new ConfirmationPolicyError(`${path}.offStartingDomain must be a boolean.`);
+    }
+    if (tool === undefined && elementPattern === undefined && !offStartingDomain) {
+        throw new ConfirmationPolicyError(`${path} must set at least one of tool, elementPattern or offStartingDomain.`);
+    }
+    const rule: ConfirmationRule = {
+        name: name.trim(),
+        ...(action !== undefined && { action }),
+        ...(tool !== undefined && { tool }),
+        ...(elementPattern !== undefined && { elementPattern }),
+        ...(offStartingDomain !== undefined && { offStartingDomain }),
+    };
+    if (pattern) compiledPatterns.set(rule, pattern);
+    return rule;
+}
+
+function elementPatternOf(rule: ConfirmationRule & { elementPattern: string }): RegExp {
+    let pattern = compiledPatterns.get(rule);
+    if (!pattern) {
+        pattern = new RegExp(rule.elementPattern, 'i');
+        compiledPatterns.set(rule, pattern);
+    }
+    return pattern;
+}
+
+/**
+ * Host the plan starts on: that of its first navigation, without a leading "www.".
+ * @returns null if the plan never navigates (or the URL cannot be parsed).
+ */
+export function startingHostOf(steps: McpToolCall[]): string | null {
+    const firstNavigation = steps.find(step => step.tool_name === 'browser_navigate');
+    return firstNavigation ? hostOf(firstNavigation.arguments?.url) : null;
+}
+
+function hostOf(url: unknown): string | null {
+    if (typeof url !== 'string') return null;
+    try {
+        return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+        return null;
+    }
+}
+
+function ruleMatches(rule: ConfirmationRule, step: McpToolCall, startingHost: string | null): boolean {
+    if (rule.tool !== undefined && step.tool_name !== rule.tool) {
+        return false;
+    }
+    if (rule.elementPattern !== undefined) {
+        const element = step.arguments?.element;
+        if (typeof element !== 'string' || !elementPatternOf(rule as ConfirmationRule & { elementPattern: string }).test(element)) {
+            return false;
+        }
+    }
+    if (rule.offStartingDomain) {
+        if (step.tool_name !== 'browser_navigate') {
+            return false;
+        }
+        // A URL that cannot be parsed, or a plan without a starting host, counts as leaving the domain
+        const host = hostOf(step.arguments?.url);
+        if (host !== null && host === startingHost) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Decides whether a step must wait for the user's confirmation under a policy.
+ * Steps with schema problems (`validation_errors`) are always confirmed, since they cannot run as they are.
+ *
+ * @param startingHost The host the plan starts on (see startingHostOf), for `offStartingDomain` rules.
+ */
+export function decideConfirmation(step: McpToolCall, policy: ConfirmationPolicy, startingHost: string | null): ConfirmationDecision {
+    if (step.validation_errors && step.validation_errors.length > 0) {
+        return { confirm: true, rule: null };
+    }
+    switch (policy.mode) {
+        case 'all':
+            return { confirm: true, rule: null };
+        case 'none':
+            return { confirm: false, approvedBy: APPROVED_BY_MODE_NONE };
+        case 'rules': {
+            const rule = policy.rules.find(candidate => ruleMatches(candidate, step, startingHost));
+            if (!rule) {
+                // Fails closed: unmatched steps run unasked only when the client opted into it
+                return policy.defaultAction === 'approve'
+                    ? { confirm: false, approvedBy: APPROVED_BY_DEFAULT }
+                    : { confirm: true, rule: null };
+            }
+            return rule.action === 'approve'
+                ? { confirm: false, approvedBy: rule.name }
+                : { confirm: true, rule: rule.name };
+        }
+    }
+}
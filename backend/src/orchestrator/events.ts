@@ -1,5 +1,10 @@
 import { OrchestratorEvent, OrchestratorState, FsmContext, MAX_RETRIES } from './fsm';
 
+/**
+ * Error codes the orchestrator distinguishes for MCP tool failures (see spec.md error handling).
+ */
+export type McpErrorCode = 'ELEMENT_NOT_FOUND' | 'TIMEOUT' | 'EXECUTION_ERROR';
+
 // --- Assumed MCP Payload Structures ---
 // These might need adjustment based on the actual Playwright-MCP implementation.
 
@@ -19,7 +24,7 @@ interface McpResultPayload {
 interface McpErrorPayload {
     type: 'ERROR';
     tool_call_id: string; // ID of the tool call that failed
-    code: 'ELEMENT_NOT_FOUND' | 'TIMEOUT' | 'EXECUTION_ERROR' | string; // Error codes (add more as needed)
+    code: McpErrorCode | string; // Error codes (add more as needed)
     message: string;
 }
 
@@ -2,6 +2,9 @@
 
 // import logger from '../utils/logger';
 import { McpToolCall } from './Orchestrator'; // Import McpToolCall type if defined in Orchestrator
+import type { McpErrorCode } from './events';
+import { RetryPolicy, DEFAULT_RETRY_POLICY, classifyMcpError } from './retryPolicy';
+import { ConfirmationPolicy, DEFAULT_CONFIRMATION_POLICY, decideConfirmation, startingHostOf } from './confirmationPolicy';
 
 /**
  * Defines the possible states of the orchestration process.
@@ -12,6 +15,11 @@ export enum OrchestratorState {
     EXECUTE = 'EXECUTE',           // User confirmed step, triggering execution via Orchestrator.
     WAIT_MCP_RESPONSE = 'WAIT_MCP_RESPONSE', // Step sent to MCP, waiting for snapshot/result via SSE.
     WAIT_LLM_RESPONSE = 'WAIT_LLM_RESPONSE', // Waiting for LLM to refine the next step based on snapshot.
+    RETRY_WAIT = 'RETRY_WAIT',     // Step failed with a retryable error; waiting out the backoff delay.
+    REPLAN = 'REPLAN',             // Step ran out of retries; asking the LLM for replacement steps.
+    WAIT_REPLAN_CONFIRM = 'WAIT_REPLAN_CONFIRM', // Replacement steps proposed, waiting for user confirmation.
+    RECONNECTING = 'RECONNECTING', // MCP connection lost; re-establishing it before continuing.
+    PLAN_NEXT_CHUNK = 'PLAN_NEXT_CHUNK', // Planned steps ran but the instruction is not done; asking the LLM for the next chunk (or, in agent mode, the next action).
     ERROR = 'ERROR',               // An unrecoverable error occurred.
 }
 
@@ -27,6 +35,17 @@ export enum OrchestratorEvent {
     LLM_RESPONSE_RECEIVED = 'LLM_RESPONSE_RECEIVED', // LLM successfully refined the next step.
     LLM_RESPONSE_FAILED = 'LLM_RESPONSE_FAILED',   // LLM failed to refine the step.
     STEP_FAILED = 'STEP_FAILED',                 // Step execution failed (reported by MCP or Orchestrator).
+    RETRY_STEP = 'RETRY_STEP',                   // Backoff elapsed; re-execute the current step (optionally re-refined).
+    REPLAN_PROPOSED = 'REPLAN_PROPOSED',         // LLM proposed replacement steps for the failed step and the rest of the plan.
+    REPLAN_FAILED = 'REPLAN_FAILED',             // LLM could not propose replacement steps.
+    ACCEPT_REPLAN = 'ACCEPT_REPLAN',             // User accepted the proposed replacement steps.
+    REJECT_REPLAN = 'REJECT_REPLAN',             // User rejected the proposed replacement steps.
+    CONNECTION_LOST = 'CONNECTION_LOST',         // The MCP connection dropped mid-session.
+    RECONNECTED = 'RECONNECTED',                 // The MCP connection was re-established (and the browser restored).
+    RECONNECT_FAILED = 'RECONNECT_FAILED',       // The MCP connection could not be re-established.
+    PLAN_UPDATED = 'PLAN_UPDATED',               // The user edited the steps that have not started yet.
+    CHUNK_PLANNED = 'CHUNK_PLANNED',             // LLM planned the next chunk of steps (none if the task is complete, with an optional result summary).
+    CHUNK_FAILED = 'CHUNK_FAILED',               // The next chunk could not be planned (LLM error or step limit reached).
     CANCEL_SESSION = 'CANCEL_SESSION',           // User manually stopped the session or UI closed.
     RESET = 'RESET',                             // Event to reset the machine from an ERROR state.
 }
@@ -40,10 +59,28 @@ export interface FsmContext {
     latestSnapshot: string | null; // Stores the most recent snapshot from MCP
     stepToConfirm: McpToolCall | null; // Stores the step (original or refined) waiting for confirmation
     lastError: any | null; // Store last error details
+    lastErrorCode: McpErrorCode | null; // Classification of lastError for step failures
+    proposedSteps: McpToolCall[] | null; // Replacement tail proposed by the LLM, waiting for confirmation
+    replanCount: number; // Replans accepted or attempted in this session
+    startingHost: string | null; // Host of the plan's first navigation, for offStartingDomain confirmation rules
+    planComplete: boolean; // false while the steps planned so far do not cover the whole instruction (incremental planning)
+}
+
+/**
+ * Describes a single FSM transition as reported to the state update listener.
+ */
+export interface FsmTransition {
+    previousState: OrchestratorState | null; // null for the initial notification on construction
+    state: OrchestratorState;
+    event: OrchestratorEvent | null; // Event that caused the transition (null on construction)
+    stepIndex: number;
+    lastError: any | null;
+    autoApprovedBy: string | null; // Set when the step entering EXECUTE skipped WAIT_CONFIRM (see ConfirmationPolicy)
+    summary: string | null; // Result reported by the LLM when it declared the task complete (agent mode)
 }
 
 // Configuration constants
-export const MAX_RETRIES = 0; // Max retries *per step*
+export const MAX_RETRIES = 0; // Max retries for LLM refinement of a step (step execution retries follow the RetryPolicy)
 
 /**
  * Represents the FSM with its state and context.
@@ -51,8 +88,15 @@ export const MAX_RETRIES = 0; // Max retries *per step*
 export class OrchestratorFsm {
     private currentState: OrchestratorState;
     private context: FsmContext;
+    private stateBeforeReconnect: OrchestratorState | null = null; // Where RECONNECTED resumes
+    private autoApprovedBy: string | null = null; // What approved a step during the current dispatch
+    private completionSummary: string | null = null; // Result summary received during the current dispatch
 
-    constructor(private readonly onStateUpdate?: (newState: OrchestratorState, context: FsmContext) => void) {
+    constructor(
+        private readonly onStateUpdate?: (newState: OrchestratorState, context: FsmContext, transition: FsmTransition) => void,
+        private readonly retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+        private readonly confirmationPolicy: ConfirmationPolicy = DEFAULT_CONFIRMATION_POLICY
+    ) {
         this.currentState = OrchestratorState.IDLE;
         this.context = this.resetContext();
         // logger.info('[FSM] Initialized.');
@@ -69,13 +113,27 @@ export class OrchestratorFsm {
             latestSnapshot: null,
             stepToConfirm: null,
             lastError: null,
+            lastErrorCode: null,
+            proposedSteps: null,
+            replanCount: 0,
+            startingHost: null,
+            planComplete: true,
         };
     }
 
-    private notifyStateUpdate() {
+    private notifyStateUpdate(previousState: OrchestratorState | null = null, event: OrchestratorEvent | null = null) {
         if (this.onStateUpdate) {
+            const transition: FsmTransition = {
+                previousState,
+                state: this.currentState,
+                event,
+                stepIndex: this.context.currentStepIndex,
+                lastError: this.context.lastError,
+                autoApprovedBy: this.autoApprovedBy,
+                summary: this.completionSummary,
+            };
             // Provide a copy to prevent external mutation
-            this.onStateUpdate(this.currentState, { ...this.context });
+            this.onStateUpdate(this.currentState, { ...this.context }, transition);
         }
         // Reduced logging verbosity for context unless debugging
         // logger.info(`[FSM] State: ${this.currentState}, CurrentStep: ${this.context.currentStepIndex}`); 
@@ -90,17 +148,29 @@ export class OrchestratorFsm {
      */
     public dispatch(
         event: OrchestratorEvent,
-        payload?: { steps?: McpToolCall[]; snapshot?: string; refinedStep?: McpToolCall; error?: any; reason?: string; stepId?: number | string; }
+        payload?: { steps?: McpToolCall[]; planComplete?: boolean; summary?: string; snapshot?: string | undefined; refinedStep?: McpToolCall | undefined; error?: any; reason?: string; stepId?: number | string; }
     ): void {
         const previousState = this.currentState;
         // logger.info(`[FSM Dispatch] Event: ${event}, State: ${previousState}, StepIdx: ${this.context.currentStepIndex}`);
         console.log(`[FSM Dispatch] Event: ${event}, State: ${previousState}, StepIdx: ${this.context.currentStepIndex}`);
+        this.autoApprovedBy = null;
+        this.completionSummary = null;
 
         // --- Reset retry count when moving to a new step processing phase ---
         // This might happen on PARSING_COMPLETE or when advancing after MCP_RESPONSE_RECEIVED
         // We'll handle it explicitly within the transitions.
 
         // --- State Transition Logic --- 
+        // The MCP connection can drop in any running state; RECONNECTING itself ignores the event below
+        if (event === OrchestratorEvent.CONNECTION_LOST) {
+            this.handleConnectionLost(payload?.error);
+        }
+        // Plan edits keep the state (unless the step awaiting confirmation changed) but must still reach listeners
+        let planUpdated = false;
+        if (event === OrchestratorEvent.PLAN_UPDATED && payload?.steps) {
+            planUpdated = this.handlePlanUpdated(payload.steps);
+        }
+
         switch (this.currentState) {
             case OrchestratorState.IDLE:
                 if (event === OrchestratorEvent.PARSING_COMPLETE && payload?.steps) {
@@ -113,6 +183,10 @@ export class OrchestratorFsm {
                     this.context.stepToConfirm = null;
                     this.context.lastError = null;
                     this.context.retryCount = 0;
+                    this.context.proposedSteps = null;
+                    this.context.replanCount = 0;
+                    this.context.startingHost = startingHostOf(payload.steps);
+                    this.context.planComplete = payload.planComplete ?? true;
 
                     const firstExecutableIndex = this.findNextExecutableStep(this.context.currentStepIndex);
 
@@ -120,8 +194,12 @@ export class OrchestratorFsm {
                         // logger.info(`[FSM Dispatch] Preparing first step ${firstExecutableIndex} for confirmation.`);
                         console.log(`[FSM Dispatch] Preparing first step ${firstExecutableIndex} for confirmation.`);
                         this.context.currentStepIndex = firstExecutableIndex;
-                        this.context.stepToConfirm = this.context.steps[firstExecutableIndex];
-                        this.currentState = OrchestratorState.WAIT_CONFIRM;
+                        this.awaitConfirmation(this.context.steps[firstExecutableIndex]!);
+                    } else if (!this.context.planComplete) {
+                        // Nothing planned up front (agent mode): the first steps are planned from the page
+                        // logger.info('[FSM Dispatch] No steps planned yet. Entering PLAN_NEXT_CHUNK.');
+                        console.log('[FSM Dispatch] No steps planned yet. Entering PLAN_NEXT_CHUNK.');
+                        this.currentState = OrchestratorState.PLAN_NEXT_CHUNK;
                     } else {
                         // logger.info('[FSM Dispatch] No executable steps found after parsing. Session complete? Returning to IDLE.');
                         console.log('[FSM Dispatch] No executable steps found after parsing. Session complete? Returning to IDLE.');
@@ -167,70 +245,16 @@ export class OrchestratorFsm {
                     if (payload?.error) {
                         // logger.error({ error: payload.error }, '[FSM Dispatch] MCP reported execution error.');
                         console.error('[FSM Dispatch] MCP reported execution error.', { error: payload.error });
-                        this.context.lastError = payload.error;
-                        if (this.context.retryCount < MAX_RETRIES) {
-                            this.context.retryCount++;
-                            // logger.warn(`[FSM Dispatch] Retrying step ${this.context.currentStepIndex} (Attempt ${this.context.retryCount}). Re-entering EXECUTE.`);
-                            console.warn(`[FSM Dispatch] Retrying step ${this.context.currentStepIndex} (Attempt ${this.context.retryCount}). Re-entering EXECUTE.`);
-                            this.currentState = OrchestratorState.EXECUTE;
-                        } else {
-                            // logger.error('[FSM Dispatch] Max retries reached for MCP error. Entering ERROR state.');
-                            console.error('[FSM Dispatch] Max retries reached for MCP error. Entering ERROR state.');
-                            this.currentState = OrchestratorState.ERROR;
-                        }
+                        this.handleStepFailure(payload.error);
                     } else {
                         // logger.info(`[FSM Dispatch] Step ${this.context.currentStepIndex} execution successful. Processing next step.`);
                         console.log(`[FSM Dispatch] Step ${this.context.currentStepIndex} execution successful. Processing next step.`);
-                        const nextExecutableIndex = this.findNextExecutableStep(this.context.currentStepIndex);
-
-                        if (nextExecutableIndex !== -1) {
-                            // logger.info(`[FSM Dispatch] Found next executable step index: ${nextExecutableIndex}`);
-                            console.log(`[FSM Dispatch] Found next executable step index: ${nextExecutableIndex}`);
-                            this.context.currentStepIndex = nextExecutableIndex; // Advance index
-                            this.context.retryCount = 0; // Reset retries for the new step/refinement
-                            const nextStep = this.context.steps[this.context.currentStepIndex];
-                            
-                            const needsRefinement = this.checkRefinementNeeded(nextStep);
-                            const snapshotAvailable = !!this.context.latestSnapshot;
-
-                            if (needsRefinement) {
-                                if (snapshotAvailable) {
-                                    // logger.info(`[FSM Dispatch] Step ${this.context.currentStepIndex} requires refinement. Entering WAIT_LLM_RESPONSE.`);
-                                    console.log(`[FSM Dispatch] Step ${this.context.currentStepIndex} requires refinement. Entering WAIT_LLM_RESPONSE.`);
-                                    this.currentState = OrchestratorState.WAIT_LLM_RESPONSE;
-                                } else {
-                                    // logger.error(`[FSM Dispatch] Step ${this.context.currentStepIndex} needs refinement, but no snapshot available. Entering ERROR.`);
-                                    console.error(`[FSM Dispatch] Step ${this.context.currentStepIndex} needs refinement, but no snapshot available. Entering ERROR.`);
-                                    this.context.lastError = 'Refinement required but snapshot missing';
-                                    this.currentState = OrchestratorState.ERROR;
-                                }
-                            } else {
-                                // logger.info(`[FSM Dispatch] Step ${this.context.currentStepIndex} does not need refinement. Preparing for confirmation.`);
-                                console.log(`[FSM Dispatch] Step ${this.context.currentStepIndex} does not need refinement. Preparing for confirmation.`);
-                                this.context.stepToConfirm = nextStep;
-                                this.currentState = OrchestratorState.WAIT_CONFIRM;
-                            }
-                        } else {
-                            // logger.info('[FSM Dispatch] No more executable steps found. Session complete. Entering IDLE.');
-                            console.log('[FSM Dispatch] No more executable steps found. Session complete. Entering IDLE.');
-                            this.currentState = OrchestratorState.IDLE;
-                            this.context = this.resetContext();
-                        }
+                        this.prepareNextStep(this.context.currentStepIndex);
                     }
                 } else if (event === OrchestratorEvent.STEP_FAILED) {
                      // logger.error({ error: payload?.error, stepId: payload?.stepId }, '[FSM Dispatch] Orchestrator reported step failure during EXECUTE.');
                      console.error('[FSM Dispatch] Orchestrator reported step failure during EXECUTE.', { error: payload?.error, stepId: payload?.stepId });
-                     this.context.lastError = payload?.error || 'Step execution failed';
-                     if (this.context.retryCount < MAX_RETRIES) {
-                        this.context.retryCount++;
-                        // logger.warn(`[FSM Dispatch] Retrying step ${this.context.currentStepIndex} (Attempt ${this.context.retryCount}). Re-entering EXECUTE.`);
-                        console.warn(`[FSM Dispatch] Retrying step ${this.context.currentStepIndex} (Attempt ${this.context.retryCount}). Re-entering EXECUTE.`);
-                        this.currentState = OrchestratorState.EXECUTE;
-                    } else {
-                        // logger.error('[FSM Dispatch] Max retries reached for Orchestrator failure. Entering ERROR state.');
-                        console.error('[FSM Dispatch] Max retries reached for Orchestrator failure. Entering ERROR state.');
-                        this.currentState = OrchestratorState.ERROR;
-                    }
+                     this.handleStepFailure(payload?.error || 'Step execution failed');
                 } else if (event === OrchestratorEvent.CANCEL_SESSION) {
                      // logger.info('[FSM Dispatch] Session cancelled during EXECUTE. Entering IDLE.');
                      console.log('[FSM Dispatch] Session cancelled during EXECUTE. Entering IDLE.');
@@ -244,9 +268,8 @@ export class OrchestratorFsm {
                     // logger.info(`[FSM Dispatch] LLM refinement successful for step ${this.context.currentStepIndex}. Preparing confirmation.`);
                     console.log(`[FSM Dispatch] LLM refinement successful for step ${this.context.currentStepIndex}. Preparing confirmation.`);
                     this.context.steps[this.context.currentStepIndex] = payload.refinedStep;
-                    this.context.stepToConfirm = payload.refinedStep;
                     this.context.retryCount = 0;
-                    this.currentState = OrchestratorState.WAIT_CONFIRM;
+                    this.awaitConfirmation(payload.refinedStep);
                 } else if (event === OrchestratorEvent.LLM_RESPONSE_FAILED) {
                     // logger.error({ error: payload?.error }, `[FSM Dispatch] LLM refinement failed for step ${this.context.currentStepIndex}.`);
                     console.error(`[FSM Dispatch] LLM refinement failed for step ${this.context.currentStepIndex}.`, { error: payload?.error });
@@ -269,6 +292,136 @@ export class OrchestratorFsm {
                 }
                 break;
 
+            case OrchestratorState.RETRY_WAIT:
+                if (event === OrchestratorEvent.RETRY_STEP) {
+                    if (payload?.refinedStep) {
+                        // logger.info(`[FSM Dispatch] Retrying step ${this.context.currentStepIndex} with re-refined arguments.`);
+                        console.log(`[FSM Dispatch] Retrying step ${this.context.currentStepIndex} with re-refined arguments.`);
+                        this.context.steps[this.context.currentStepIndex] = payload.refinedStep;
+                    }
+                    // logger.info(`[FSM Dispatch] Backoff elapsed. Re-entering EXECUTE for step ${this.context.currentStepIndex} (Attempt ${this.context.retryCount}).`);
+                    console.log(`[FSM Dispatch] Backoff elapsed. Re-entering EXECUTE for step ${this.context.currentStepIndex} (Attempt ${this.context.retryCount}).`);
+                    this.currentState = OrchestratorState.EXECUTE;
+                } else if (event === OrchestratorEvent.CANCEL_SESSION) {
+                    // logger.info('[FSM Dispatch] Session cancelled while waiting to retry. Entering IDLE.');
+                    console.log('[FSM Dispatch] Session cancelled while waiting to retry. Entering IDLE.');
+                    this.currentState = OrchestratorState.IDLE;
+                    this.context = this.resetContext();
+                }
+                break;
+
+            case OrchestratorState.REPLAN:
+                if (event === OrchestratorEvent.REPLAN_PROPOSED && payload?.steps && payload.steps.length > 0) {
+                    // logger.info(`[FSM Dispatch] LLM proposed ${payload.steps.length} replacement steps from step ${this.context.currentStepIndex}. Waiting for confirmation.`);
+                    console.log(`[FSM Dispatch] LLM proposed ${payload.steps.length} replacement steps from step ${this.context.currentStepIndex}. Waiting for confirmation.`);
+                    this.context.proposedSteps = payload.steps;
+                    this.context.latestSnapshot = payload.snapshot ?? this.context.latestSnapshot;
+                    // A cut replan leaves the rest of the instruction to incremental planning (rejecting resets the context)
+                    if (payload.planComplete === false) {
+                        this.context.planComplete = false;
+                    }
+                    this.currentState = OrchestratorState.WAIT_REPLAN_CONFIRM;
+                } else if (event === OrchestratorEvent.REPLAN_PROPOSED || event === OrchestratorEvent.REPLAN_FAILED) {
+                    // logger.error({ error: payload?.error }, '[FSM Dispatch] Replanning failed. Entering ERROR state.');
+                    console.error('[FSM Dispatch] Replanning failed. Entering ERROR state.', { error: payload?.error });
+                    this.context.lastError = payload?.error || this.context.lastError || 'Replanning produced no steps';
+                    this.currentState = OrchestratorState.ERROR;
+                } else if (event === OrchestratorEvent.CANCEL_SESSION) {
+                    // logger.info('[FSM Dispatch] Session cancelled while replanning. Entering IDLE.');
+                    console.log('[FSM Dispatch] Session cancelled while replanning. Entering IDLE.');
+                    this.currentState = OrchestratorState.IDLE;
+                    this.context = this.resetContext();
+                }
+                break;
+
+            case OrchestratorState.WAIT_REPLAN_CONFIRM:
+                if (event === OrchestratorEvent.ACCEPT_REPLAN && this.context.proposedSteps) {
+                    const failedIndex = this.context.currentStepIndex;
+                    // logger.info(`[FSM Dispatch] User accepted replan. Replacing steps from index ${failedIndex}.`);
+                    console.log(`[FSM Dispatch] User accepted replan. Replacing steps from index ${failedIndex}.`);
+                    // Splice in place: the Orchestrator's session shares this array
+                    this.context.steps.splice(failedIndex, this.context.steps.length - failedIndex, ...this.context.proposedSteps);
+                    this.context.totalSteps = this.context.steps.length;
+                    this.context.proposedSteps = null;
+                    this.context.lastError = null;
+                    this.context.lastErrorCode = null;
+                    this.prepareNextStep(failedIndex - 1);
+                } else if (event === OrchestratorEvent.REJECT_REPLAN || event === OrchestratorEvent.CANCEL_SESSION) {
+                    // logger.info(`[FSM Dispatch] Replan rejected/cancelled. Entering IDLE.`);
+                    console.log(`[FSM Dispatch] Replan rejected/cancelled. Entering IDLE.`);
+                    this.currentState = OrchestratorState.IDLE;
+                    this.context = this.resetContext();
+                }
+                break;
+
+            case OrchestratorState.RECONNECTING:
+                if (event === OrchestratorEvent.RECONNECTED) {
+                    const resumeState = this.stateBeforeReconnect;
+                    this.stateBeforeReconnect = null;
+                    this.context.lastError = null;
+                    this.context.latestSnapshot = payload?.snapshot ?? this.context.latestSnapshot; // From the restored page
+                    if (resumeState === OrchestratorState.WAIT_REPLAN_CONFIRM && this.context.proposedSteps) {
+                        // logger.info('[FSM Dispatch] Reconnected. Returning to the replan proposal.');
+                        console.log('[FSM Dispatch] Reconnected. Returning to the replan proposal.');
+                        this.currentState = OrchestratorState.WAIT_REPLAN_CONFIRM;
+                    } else if (resumeState === OrchestratorState.PLAN_NEXT_CHUNK) {
+                        // Every planned step ran, so planning simply starts over from the restored page
+                        // logger.info('[FSM Dispatch] Reconnected. Planning the next chunk again.');
+                        console.log('[FSM Dispatch] Reconnected. Planning the next chunk again.');
+                        this.currentState = OrchestratorState.PLAN_NEXT_CHUNK;
+                    } else {
+                        // Whether an interrupted step ran is unknown, so it is prepared (and confirmed, whatever the policy) again
+                        // logger.info(`[FSM Dispatch] Reconnected. Preparing step ${this.context.currentStepIndex} again.`);
+                        console.log(`[FSM Dispatch] Reconnected. Preparing step ${this.context.currentStepIndex} again.`);
+                        this.context.proposedSteps = null;
+                        this.prepareNextStep(this.context.currentStepIndex - 1, false);
+                    }
+                } else if (event === OrchestratorEvent.RECONNECT_FAILED) {
+                    // logger.error({ error: payload?.error }, '[FSM Dispatch] Could not reconnect to MCP. Entering ERROR state.');
+                    console.error('[FSM Dispatch] Could not reconnect to MCP. Entering ERROR state.', { error: payload?.error });
+                    this.stateBeforeReconnect = null;
+                    this.context.lastError = payload?.error || 'MCP connection lost';
+                    this.currentState = OrchestratorState.ERROR;
+                } else if (event === OrchestratorEvent.CANCEL_SESSION) {
+                    // logger.info('[FSM Dispatch] Session cancelled while reconnecting. Entering IDLE.');
+                    console.log('[FSM Dispatch] Session cancelled while reconnecting. Entering IDLE.');
+                    this.stateBeforeReconnect = null;
+                    this.currentState = OrchestratorState.IDLE;
+                    this.context = this.resetContext();
+                }
+                break;
+
+            case OrchestratorState.PLAN_NEXT_CHUNK:
+                if (event === OrchestratorEvent.CHUNK_PLANNED && payload?.steps && payload.steps.length > 0) {
+                    const firstNewIndex = this.context.steps.length;
+                    // logger.info(`[FSM Dispatch] Next chunk planned: ${payload.steps.length} steps from index ${firstNewIndex}.`);
+                    console.log(`[FSM Dispatch] Next chunk planned: ${payload.steps.length} steps from index ${firstNewIndex}.`);
+                    // Append in place: the Orchestrator's session shares this array
+                    this.context.steps.push(...payload.steps);
+                    this.context.totalSteps = this.context.steps.length;
+                    this.context.planComplete = payload.planComplete ?? true;
+                    this.context.latestSnapshot = payload.snapshot ?? this.context.latestSnapshot;
+                    this.context.startingHost = this.context.startingHost ?? startingHostOf(this.context.steps);
+                    this.prepareNextStep(firstNewIndex - 1);
+                } else if (event === OrchestratorEvent.CHUNK_PLANNED) {
+                    // logger.info('[FSM Dispatch] LLM declared the task complete. Session complete. Entering IDLE.');
+                    console.log('[FSM Dispatch] LLM declared the task complete. Session complete. Entering IDLE.', payload?.summary ?? '');
+                    this.completionSummary = payload?.summary ?? null;
+                    this.currentState = OrchestratorState.IDLE;
+                    this.context = this.resetContext();
+                } else if (event === OrchestratorEvent.CHUNK_FAILED) {
+                    // logger.error({ error: payload?.error }, '[FSM Dispatch] Could not plan the next chunk. Entering ERROR state.');
+                    console.error('[FSM Dispatch] Could not plan the next chunk. Entering ERROR state.', { error: payload?.error });
+                    this.context.lastError = payload?.error || 'Planning the next steps failed';
+                    this.currentState = OrchestratorState.ERROR;
+                } else if (event === OrchestratorEvent.CANCEL_SESSION) {
+                    // logger.info('[FSM Dispatch] Session cancelled while planning the next chunk. Entering IDLE.');
+                    console.log('[FSM Dispatch] Session cancelled while planning the next chunk. Entering IDLE.');
+                    this.currentState = OrchestratorState.IDLE;
+                    this.context = this.resetContext();
+                }
+                break;
+
             case OrchestratorState.ERROR:
                 if (event === OrchestratorEvent.RESET || event === OrchestratorEvent.CANCEL_SESSION) {
                     // logger.info(`[FSM Dispatch] Resetting from ERROR state due to ${event}. Entering IDLE.`);
@@ -283,17 +436,189 @@ export class OrchestratorFsm {
                 console.warn(`Unhandled state in dispatch: ${this.currentState}`);
         }
 
-        // Notify Orchestrator if state changed
-        if (this.currentState !== previousState) {
+        // Notify Orchestrator if state changed (or the plan did, or a step was approved without leaving EXECUTE)
+        if (this.currentState !== previousState || planUpdated || this.autoApprovedBy !== null) {
             // logger.info(`[FSM Dispatch] Completed state transition: ${previousState} -> ${this.currentState}`);
             console.log(`[FSM Dispatch] Completed state transition: ${previousState} -> ${this.currentState}`);
-            this.notifyStateUpdate();
+            this.notifyStateUpdate(previousState, event);
         } else {
              // logger.info(`[FSM Dispatch] Event ${event} did not cause state change from ${previousState}.`);
              console.log(`[FSM Dispatch] Event ${event} did not cause state change from ${previousState}.`);
         }
     }
 
+    /**
+     * Advances to the next executable step after `afterIndex` and enters the state that prepares it:
+     * WAIT_LLM_RESPONSE if it has `<UNKNOWN>` arguments, WAIT_CONFIRM (or EXECUTE, see awaitConfirmation)
+     * otherwise. When no steps remain: PLAN_NEXT_CHUNK if the plan does not cover the instruction yet, IDLE otherwise.
+     * @param afterIndex The index of the last processed step. Search starts *after* this index.
+     * @param allowAutoApproval false to ask the user whatever the confirmation policy says.
+     */
+    private prepareNextStep(afterIndex: number, allowAutoApproval = true): void {
+        const nextExecutableIndex = this.findNextExecutableStep(afterIndex);
+
+        if (nextExecutableIndex !== -1) {
+            // logger.info(`[FSM Dispatch] Found next executable step index: ${nextExecutableIndex}`);
+            console.log(`[FSM Dispatch] Found next executable step index: ${nextExecutableIndex}`);
+            this.context.currentStepIndex = nextExecutableIndex; // Advance index
+            this.context.retryCount = 0; // Reset retries for the new step/refinement
+            const nextStep = this.context.steps[this.context.currentStepIndex];
+            
+            const needsRefinement = this.checkRefinementNeeded(nextStep);
+            const snapshotAvailable = !!this.context.latestSnapshot;
+
+            if (needsRefinement) {
+                if (snapshotAvailable) {
+                    // logger.info(`[FSM Dispatch] Step ${this.context.currentStepIndex} requires refinement. Entering WAIT_LLM_RESPONSE.`);
+                    console.log(`[FSM Dispatch] Step ${this.context.currentStepIndex} requires refinement. Entering WAIT_LLM_RESPONSE.`);
+                    this.currentState = OrchestratorState.WAIT_LLM_RESPONSE;
+                } else {
+                    // logger.error(`[FSM Dispatch] Step ${this.context.currentStepIndex} needs refinement, but no snapshot available. Entering ERROR.`);
+                    console.error(`[FSM Dispatch] Step ${this.context.currentStepIndex} needs refinement, but no snapshot available. Entering ERROR.`);
+                    this.context.lastError = 'Refinement required but snapshot missing';
+                    this.currentState = OrchestratorState.ERROR;
+                }
+            } else {
+                // logger.info(`[FSM Dispatch] Step ${this.context.currentStepIndex} does not need refinement. Preparing for confirmation.`);
+                console.log(`[FSM Dispatch] Step ${this.context.currentStepIndex} does not need refinement. Preparing for confirmation.`);
+                this.awaitConfirmation(nextStep!, allowAutoApproval);
+            }
+        } else if (!this.context.planComplete) {
+            // logger.info('[FSM Dispatch] Planned steps are done but the instruction is not. Entering PLAN_NEXT_CHUNK.');
+            console.log('[FSM Dispatch] Planned steps are done but the instruction is not. Entering PLAN_NEXT_CHUNK.');
+            this.context.stepToConfirm = null;
+            this.currentState = OrchestratorState.PLAN_NEXT_CHUNK;
+        } else {
+            // logger.info('[FSM Dispatch] No more executable steps found. Session complete. Entering IDLE.');
+            console.log('[FSM Dispatch] No more executable steps found. Session complete. Entering IDLE.');
+            this.currentState = OrchestratorState.IDLE;
+            this.context = this.resetContext();
+        }
+    }
+
+    /**
+     * Hands the current step to the user (WAIT_CONFIRM), or straight to EXECUTE when the session's
+     * confirmation policy approves it. An approved step records what approved it in `auto_approved_by`.
+     * @param step The step at `currentStepIndex`, ready to run.
+     * @param allowAutoApproval false to ask the user whatever the policy says.
+     */
+    private awaitConfirmation(step: McpToolCall, allowAutoApproval = true): void {
+        const decision = allowAutoApproval
+            ? decideConfirmation(step, this.confirmationPolicy, this.context.startingHost)
+            : { confirm: true as const, rule: null };
+        if (decision.confirm) {
+            if (decision.rule) {
+                // logger.info(`[FSM Dispatch] Step ${this.context.currentStepIndex} matches confirmation rule '${decision.rule}'.`);
+                console.log(`[FSM Dispatch] Step ${this.context.currentStepIndex} matches confirmation rule '${decision.rule}'.`);
+            }
+            this.context.stepToConfirm = step;
+            this.currentState = OrchestratorState.WAIT_CONFIRM;
+            return;
+        }
+        // logger.info(`[FSM Dispatch] Step ${this.context.currentStepIndex} auto-approved by '${decision.approvedBy}'. Entering EXECUTE.`);
+        console.log(`[FSM Dispatch] Step ${this.context.currentStepIndex} auto-approved by '${decision.approvedBy}'. Entering EXECUTE.`);
+        // Replace in place: the Orchestrator's session shares this array
+        this.context.steps[this.context.currentStepIndex] = { ...step, auto_approved_by: decision.approvedBy };
+        this.context.stepToConfirm = null;
+        this.context.retryCount = 0;
+        this.autoApprovedBy = decision.approvedBy;
+        this.currentState = OrchestratorState.EXECUTE;
+    }
+
+    /**
+     * Index of the first step the user may still edit: the step awaiting confirmation in WAIT_CONFIRM,
+     * otherwise the step after the one running. Returns -1 when the plan is locked: no session is
+     * running, or a replan is about to replace the remaining steps.
+     */
+    public getFirstEditableStepIndex(): number {
+        switch (this.currentState) {
+            case OrchestratorState.WAIT_CONFIRM:
+                return this.context.currentStepIndex;
+            case OrchestratorState.EXECUTE:
+            case OrchestratorState.WAIT_MCP_RESPONSE:
+            case OrchestratorState.WAIT_LLM_RESPONSE:
+            case OrchestratorState.RETRY_WAIT:
+            case OrchestratorState.RECONNECTING:
+                return this.context.currentStepIndex + 1;
+            default:
+                return -1;
+        }
+    }
+
+    /**
+     * Replaces the plan with an edited one. Steps before the first editable one must be unchanged.
+     * In WAIT_CONFIRM the step awaiting confirmation is prepared again, since it may have been edited,
+     * moved or deleted; deleting every remaining step ends the session.
+     * @returns true if the plan was replaced.
+     */
+    private handlePlanUpdated(steps: McpToolCall[]): boolean {
+        const firstEditable = this.getFirstEditableStepIndex();
+        const prefixKept = firstEditable !== -1 && steps.length >= firstEditable
+            && this.context.steps.slice(0, firstEditable).every((step, index) => steps[index]?.tool_call_id === step.tool_call_id);
+        if (!prefixKept) {
+            // logger.warn(`[FSM Dispatch] Ignoring plan update in ${this.currentState}: it changes steps that already started.`);
+            console.warn(`[FSM Dispatch] Ignoring plan update in ${this.currentState}: it changes steps that already started.`);
+            return false;
+        }
+        // logger.info(`[FSM Dispatch] Plan updated: ${steps.length} steps (was ${this.context.totalSteps}).`);
+        console.log(`[FSM Dispatch] Plan updated: ${steps.length} steps (was ${this.context.totalSteps}).`);
+        // Replace in place: the Orchestrator's session shares this array
+        this.context.steps.splice(0, this.context.steps.length, ...steps);
+        this.context.totalSteps = this.context.steps.length;
+        if (this.currentState === OrchestratorState.WAIT_CONFIRM) {
+            this.context.stepToConfirm = null;
+            this.prepareNextStep(this.context.currentStepIndex - 1);
+        }
+        return true;
+    }
+
+    /**
+     * Moves a running session to RECONNECTING, remembering where to resume. Sessions that are idle,
+     * failed or already reconnecting are left alone.
+     * @param error What the transport reported.
+     */
+    private handleConnectionLost(error: any): void {
+        if (this.currentState === OrchestratorState.IDLE || this.currentState === OrchestratorState.ERROR
+            || this.currentState === OrchestratorState.RECONNECTING) {
+            return;
+        }
+        // logger.warn({ error }, `[FSM Dispatch] MCP connection lost in ${this.currentState}. Entering RECONNECTING.`);
+        console.warn(`[FSM Dispatch] MCP connection lost in ${this.currentState}. Entering RECONNECTING.`, { error });
+        this.stateBeforeReconnect = this.currentState;
+        this.context.stepToConfirm = null;
+        this.context.lastError = error ?? 'MCP connection lost';
+        this.currentState = OrchestratorState.RECONNECTING;
+    }
+
+    /**
+     * Records a failed execution of the current step and decides, based on the retry policy
+     * for the classified error code, whether to wait and retry, replan the remaining steps or give up.
+     * @param error The error reported by MCP or the Orchestrator.
+     */
+    private handleStepFailure(error: any): void {
+        const code = classifyMcpError(error);
+        const maxRetries = this.retryPolicy.maxRetries[code];
+        this.context.lastError = error;
+        this.context.lastErrorCode = code;
+
+        if (this.context.retryCount < maxRetries) {
+            this.context.retryCount++;
+            // logger.warn(`[FSM Dispatch] ${code}: retrying step ${this.context.currentStepIndex} (Attempt ${this.context.retryCount}/${maxRetries}). Entering RETRY_WAIT.`);
+            console.warn(`[FSM Dispatch] ${code}: retrying step ${this.context.currentStepIndex} (Attempt ${this.context.retryCount}/${maxRetries}). Entering RETRY_WAIT.`);
+            this.currentState = OrchestratorState.RETRY_WAIT;
+        } else if (this.context.replanCount < this.retryPolicy.maxReplans) {
+            this.context.replanCount++;
+            this.context.retryCount = 0;
+            // logger.warn(`[FSM Dispatch] ${code}: max retries (${maxRetries}) reached. Replanning (${this.context.replanCount}/${this.retryPolicy.maxReplans}). Entering REPLAN.`);
+            console.warn(`[FSM Dispatch] ${code}: max retries (${maxRetries}) reached. Replanning (${this.context.replanCount}/${this.retryPolicy.maxReplans}). Entering REPLAN.`);
+            this.currentState = OrchestratorState.REPLAN;
+        } else {
+            // logger.error(`[FSM Dispatch] ${code}: max retries (${maxRetries}) reached. Entering ERROR state.`);
+            console.error(`[FSM Dispatch] ${code}: max retries (${maxRetries}) reached. Entering ERROR state.`);
+            this.currentState = OrchestratorState.ERROR;
+        }
+    }
+
     /**
      * Finds the index of the next step in the list that is executable (not browser_snapshot).
      * Starts searching from the index *after* the given `currentIndex`.
@@ -0,0 +1,145 @@
+// backend/src/orchestrator/planEditor.ts
+import { randomUUID } from 'crypto';
+import type { McpToolCall } from './Orchestrator';
+import { McpToolDefinition } from '../types/mcp';
+import { validateToolArguments } from '../mcp/toolSchema';
+import { defaultStepDescription } from '../parser/stepAnnotations';
+
+/**
+ * Thrown when a plan edit cannot be applied: the edit is malformed or fails the tool's input schema
+ * ('invalid'), names a step that does not exist ('not_found'), or touches a step that has already
+ * run or a session that cannot be edited right now ('locked').
+ */
+export class PlanEditError extends Error {
+    constructor(
+        message: string,
+        public readonly reason: 'invalid' | 'not_found' | 'locked',
+        public readonly problems: string[] = []
+    ) {
+        super(message);
+        this.name = 'PlanEditError';
+    }
+}
+
+// Fields of a step the user may change; omitted fields keep their value
+export interface StepChanges {
+    tool_name?: string;
+    arguments?: { [key: string]: any };
+    description?: string;
+}
+
+// A step written by the user
+export interface NewStep {
+    tool_name: string;
+    arguments: { [key: string]: any };
+    description?: string;
+}
+
+/** One change to the pending part of a plan. Steps are addressed by tool_call_id. */
+export type PlanEdit =
+    | { type: 'update'; stepId: string; changes: StepChanges }   // Edit arguments and/or swap the tool
+    | { type: 'insert'; step: NewStep; beforeStepId?: string }   // Insert before a step, or append
+    | { type: 'delete'; stepId: string }
+    | { type: 'move'; stepId: string; beforeStepId?: string };   // Move before a step, or to the end
+
+/**
+ * Checks that a tool exists and that the arguments satisfy its input schema.
+ * @throws PlanEditError ('invalid') listing every problem found.
+ */
+export function checkStepAgainstTools(toolName: string, args: unknown, tools: McpToolDefinition[]): void {
+    const tool = tools.find(candidate => candidate.name === toolName);
+    if (!tool) {
+        throw new PlanEditError(`Unknown tool '${toolName}'.`, 'invalid');
+    }
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+        throw new PlanEditError('Step arguments must be an object.', 'invalid');
+    }
+    const problems = validateToolArguments(tool, args);
+    if (problems.length > 0) {
+        throw new PlanEditError(`Arguments do not match the input schema of '${toolName}'.`, 'invalid', problems);
+    }
+}
+
+/**
+ * Applies one edit to a plan and returns the new list of steps; the input list is not modified.
+ * Only steps from `firstEditableIndex` on may change, and every changed or inserted step is
+ * validated against its tool's input schema.
+ *
+ * @param steps The session's current steps.
+ * @param firstEditableIndex Index of the first step that has not started running, or -1 if the plan is locked.
+ * @param tools The tools reported by `tools/list` for the session.
+ * @throws PlanEditError if the edit cannot be applied.
+ */
+export function applyPlanEdit(steps: McpToolCall[], firstEditableIndex: number, edit: PlanEdit, tools: McpToolDefinition[]): McpToolCall[] {
+    if (firstEditableIndex === -1) {
+        throw new PlanEditError('The plan cannot be edited in the session\'s current state.', 'locked');
+    }
+
+    // Resolves a step id to its index, refusing steps that already ran or are running
+    const indexOfEditable = (stepId: string): number => {
+        const index = steps.findIndex(step => step.tool_call_id === stepId);
+        if (index === -1) {
+            throw new PlanEditError(`Step '${stepId}' not found.`, 'not_found');
+        }
+        if (index < firstEditableIndex) {
+            throw new PlanEditError(`Step '${stepId}' has already started and can no longer be changed.`, 'locked');
+        }
+        return index;
+    };
+    // Where to insert before `beforeStepId`, or the end of the plan
+    const insertionIndex = (plan: McpToolCall[], beforeStepId: string | undefined): number => {
+        if (beforeStepId === undefined) return plan.length;
+        indexOfEditable(beforeStepId);
+        return plan.findIndex(step => step.tool_call_id === beforeStepId);
+    };
+
+    const next = [...steps];
+    switch (edit.type) {
+        case 'update': {
+            const index = indexOfEditable(edit.stepId);
+            const current = steps[index]!;
+            const toolName = edit.changes.tool_name ?? current.tool_name;
+            const args = edit.changes.arguments ?? current.arguments;
+            checkStepAgainstTools(toolName, args, tools);
+
+            const updated: McpToolCall = { ...current, tool_name: toolName, arguments: args };
+            delete updated.validation_errors; // Checked above
+            if (edit.changes.tool_name !== undefined || edit.changes.arguments !== undefined) {
+                // The parser's description and confidence were about the old call
+                delete updated.confidence;
+                updated.description = defaultStepDescription(updated);
+            }
+            if (edit.changes.description?.trim()) {
+                updated.description = edit.changes.description.trim();
+            }
+            next[index] = updated;
+            return next;
+        }
+        case 'insert': {
+            checkStepAgainstTools(edit.step.tool_name, edit.step.arguments, tools);
+            const step: McpToolCall = {
+                tool_call_id: `user_${randomUUID()}`,
+                tool_name: edit.step.tool_name,
+                arguments: edit.step.arguments,
+            };
+            step.description = edit.step.description?.trim() || defaultStepDescription(step);
+            next.splice(Math.max(insertionIndex(next, edit.beforeStepId), firstEditableIndex), 0, step);
+            return next;
+        }
+        case 'delete':
+            next.splice(indexOfEditable(edit.stepId), 1);
+            return next;
+        case 'move': {
+            const [moved] = next.splice(indexOfEditable(edit.stepId), 1);
+            if (edit.beforeStepId === edit.stepId) {
+                throw new PlanEditError('A step cannot be moved before itself.', 'invalid');
+            }
+            next.splice(insertionIndex(next, edit.beforeStepId), 0, moved!);
+            return next;
+        }
+        default: {
+            const _exhaustiveCheck: never = edit;
+            throw new PlanEditError(`Unknown plan edit: ${JSON.stringify(_exhaustiveCheck)}`, 'invalid');
+        }
+    }
+}
@@ -0,0 +1,44 @@
+// backend/src/orchestrator/planningPolicy.ts
+
+/**
+ * How an instruction is turned into steps.
+ * With `incremental` planning the parser's first chunk may stop short of the whole instruction; once
+ * it has run, the LLM plans the next chunk from the current page, until it declares the task complete.
+ * Without it, the plan is cut to `chunkSize` steps and whatever did not fit is dropped (with a warning).
+ */
+export interface PlanningPolicy {
+    incremental: boolean;
+    chunkSize: number;     // Most steps planned in one LLM call (the first plan, each further chunk, a replan)
+    maxTotalSteps: number; // Hard limit on the steps of one session, across all chunks
+}
+
+export const DEFAULT_PLANNING_POLICY: PlanningPolicy = {
+    incremental: true,
+    chunkSize: 10,
+    maxTotalSteps: 50,
+};
+
+/**
+ * Builds a planning policy from environment variables, falling back to DEFAULT_PLANNING_POLICY:
+ * PLANNING_INCREMENTAL ('true'/'false'), PLANNING_CHUNK_SIZE and MAX_TOTAL_STEPS.
+ */
+export function loadPlanningPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): PlanningPolicy {
+    const positiveInt = (name: string, fallback: number): number => {
+        const raw = env[name];
+        if (raw === undefined || raw.trim() === '') return fallback;
+        const value = Number(raw);
+        if (!Number.isInteger(value) || value < 1) {
+            console.warn(`[planningPolicy] Ignoring invalid ${name}="${raw}". Using ${fallback}.`);
+            return fallback;
+        }
+        return value;
+    };
+
+    return {
+        incremental: env.PLANNING_INCREMENTAL !== undefined
+            ? env.PLANNING_INCREMENTAL === 'true'
+            : DEFAULT_PLANNING_POLICY.incremental,
+        chunkSize: positiveInt('PLANNING_CHUNK_SIZE', DEFAULT_PLANNING_POLICY.chunkSize),
+        maxTotalSteps: positiveInt('MAX_TOTAL_STEPS', DEFAULT_PLANNING_POLICY.maxTotalSteps),
+    };
+}
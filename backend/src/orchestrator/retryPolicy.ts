@@ -0,0 +1,123 @@
+// backend/src/orchestrator/retryPolicy.ts
+import type { McpErrorCode } from './events';
+
+export const MCP_ERROR_CODES: readonly McpErrorCode[] = ['ELEMENT_NOT_FOUND', 'TIMEOUT', 'EXECUTION_ERROR'];
+
+/**
+ * How failed step executions are retried.
+ * Retries are counted per step; the delay before attempt N grows exponentially
+ * from `baseDelayMs` by `backoffFactor`, capped at `maxDelayMs`, with +/- `jitterRatio` randomization.
+ */
+export interface RetryPolicy {
+    maxRetries: Record<McpErrorCode, number>; // Retries allowed per error code (0 = fail immediately)
+    baseDelayMs: number;
+    backoffFactor: number;
+    maxDelayMs: number;
+    jitterRatio: number; // 0..1, fraction of the delay that is randomized
+    refreshSnapshotOnRefRetry: boolean; // Re-snapshot and re-resolve `ref` arguments before retrying
+    maxReplans: number; // LLM replans allowed per session once a step runs out of retries (0 = fail immediately)
+    maxReconnects: number; // Attempts to restore a lost MCP connection (same backoff as retries; 0 = fail immediately)
+}
+
+// spec.md: element-not-found and timeouts are retried twice, then the session halts
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: {
+        ELEMENT_NOT_FOUND: 2,
+        TIMEOUT: 2,
+        EXECUTION_ERROR: 0,
+    },
+    baseDelayMs: 1000,
+    backoffFactor: 2,
+    maxDelayMs: 10000,
+    jitterRatio: 0.2,
+    refreshSnapshotOnRefRetry: true,
+    maxReplans: 1,
+    maxReconnects: 5,
+};
+
+/**
+ * Builds a retry policy from environment variables, falling back to DEFAULT_RETRY_POLICY:
+ * RETRY_MAX_ELEMENT_NOT_FOUND, RETRY_MAX_TIMEOUT, RETRY_MAX_EXECUTION_ERROR, RETRY_BASE_DELAY_MS,
+ * RETRY_BACKOFF_FACTOR, RETRY_MAX_DELAY_MS, RETRY_JITTER_RATIO, RETRY_REFRESH_SNAPSHOT ('true'/'false')
+ * RETRY_MAX_REPLANS and RETRY_MAX_RECONNECTS.
+ */
+export function loadRetryPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): RetryPolicy {
+    const num = (name: string, fallback: number): number => {
+        const raw = env[name];
+        if (raw === undefined || raw.trim() === '') return fallback;
+        const value = Number(raw);
+        if (!Number.isFinite(value) || value < 0) {
+            console.warn(`[retryPolicy] Ignoring invalid ${name}="${raw}". Using ${fallback}.`);
+            return fallback;
+        }
+        return value;
+    };
+
+    return {
+        maxRetries: {
+            ELEMENT_NOT_FOUND: num('RETRY_MAX_ELEMENT_NOT_FOUND', DEFAULT_RETRY_POLICY.maxRetries.ELEMENT_NOT_FOUND),
+            TIMEOUT: num('RETRY_MAX_TIMEOUT', DEFAULT_RETRY_POLICY.maxRetries.TIMEOUT),
+            EXECUTION_ERROR: num('RETRY_MAX_EXECUTION_ERROR', DEFAULT_RETRY_POLICY.maxRetries.EXECUTION_ERROR),
+        },
+        baseDelayMs: num('RETRY_BASE_DELAY_MS', DEFAULT_RETRY_POLICY.baseDelayMs),
+        backoffFactor: num('RETRY_BACKOFF_FACTOR', DEFAULT_RETRY_POLICY.backoffFactor),
+        maxDelayMs: num('RETRY_MAX_DELAY_MS', DEFAULT_RETRY_POLICY.maxDelayMs),
+        jitterRatio: Math.min(1, num('RETRY_JITTER_RATIO', DEFAULT_RETRY_POLICY.jitterRatio)),
+        refreshSnapshotOnRefRetry: env.RETRY_REFRESH_SNAPSHOT !== undefined
+            ? env.RETRY_REFRESH_SNAPSHOT === 'true'
+            : DEFAULT_RETRY_POLICY.refreshSnapshotOnRefRetry,
+        maxReplans: num('RETRY_MAX_REPLANS', DEFAULT_RETRY_POLICY.maxReplans),
+        maxReconnects: num('RETRY_MAX_RECONNECTS', DEFAULT_RETRY_POLICY.maxReconnects),
+    };
+}
+
+/**
+ * Computes the delay before a retry (or reconnect) attempt.
+ * @param policy The retry policy.
+ * @param attempt The 1-based retry attempt number.
+ * @param random Random source in [0, 1), injectable for tests.
+ * @returns Delay in milliseconds (never negative).
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+    const exponential = policy.baseDelayMs * Math.pow(policy.backoffFactor, Math.max(0, attempt - 1));
+    const capped = Math.min(policy.maxDelayMs, exponential);
+    const jitter = capped * policy.jitterRatio * (random() * 2 - 1);
+    return Math.max(0, Math.round(capped + jitter));
+}
+
+/**
+ * Classifies an error reported for a step into one of the MCP error codes handled by `handleMcpError`.
+ * Playwright-MCP reports failures as free text (JSON-RPC error message or `isError` result content),
+ * so the code is inferred from the message unless the error already carries a known code.
+ *
+ * @param error The error stored by the FSM (JSON-RPC error object, MCP content array, string, ...).
+ * @returns The matching McpErrorCode; anything unrecognised is an EXECUTION_ERROR.
+ */
+export function classifyMcpError(error: any): McpErrorCode {
+    if (error && typeof error === 'object' && MCP_ERROR_CODES.includes(error.code)) {
+        return error.code;
+    }
+
+    const message = errorMessageText(error);
+    if (/timed?\s?out/i.test(message)) {
+        return 'TIMEOUT';
+    }
+    if (/not found|no (such )?element|unable to (find|locate)|could not (find|locate)|did not match|stale ref|ref .* not/i.test(message)) {
+        return 'ELEMENT_NOT_FOUND';
+    }
+    return 'EXECUTION_ERROR';
+}
+
+// Flattens the different error shapes seen from MCP into a single string for classification
+function errorMessageText(error: any): string {
+    if (error === null || error === undefined) return '';
+    if (typeof error === 'string') return error;
+    if (Array.isArray(error)) {
+        // MCP tool result content: [{ type: 'text', text: '...' }]
+        return error.map(item => (typeof item === 'string' ? item : item?.text ?? '')).join(' ');
+    }
+    if (typeof error === 'object') {
+        return errorMessageText(error.message ?? '');
+    }
+    return String(error);
+}
@@ -0,0 +1,126 @@
+// backend/src/parser/nextAction.ts
+import { resolveLlm } from '../llm/providers';
+import type { McpToolCall } from '../orchestrator/Orchestrator';
+import { McpToolDefinition } from '../types/mcp';
+import { loadSnapshotTokenBudget } from '../llm/config';
+import { estimateTokens } from '../llm/tokens';
+import { compressSnapshot } from '../snapshot/compress';
+import { withStepAnnotations, annotateSteps } from './stepAnnotations';
+import { validateAndRepairSteps } from './repairSteps';
+
+// Offered next to the MCP tools; the agent calls it to end the session with a result
+export const DONE_TOOL: McpToolDefinition = {
+    name: 'done',
+    description: 'Finish the task. Call this once the goal is reached (or cannot be reached), with a short summary of the result for the user.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            summary: { type: 'string', description: 'What was done and what was found, in one or two sentences' },
+        },
+        required: ['summary'],
+    },
+};
+
+/**
+ * Everything the LLM needs to choose the next action in agentic mode.
+ */
+export interface NextActionRequest {
+    goal: string;                 // The user's instruction
+    history: McpToolCall[];       // Actions already executed, in order
+    snapshot: string | null;      // The current page snapshot, if one could be taken
+    tools: McpToolDefinition[];   // MCP tools available to the session
+}
+
+/** The agent's decision: one more action, or the end of the task with a summary. */
+export type NextAction =
+    | { done: false; step: McpToolCall }
+    | { done: true; summary: string };
+
+/**
+ * Asks the LLM for the single next tool call towards the goal, given the actions so far and the
+ * current page, or for the `done` pseudo-tool once the goal is reached. The proposed call is checked
+ * against its tool's input schema with one repair round.
+ *
+ * @returns The next action; null if the LLM answered without a usable tool call.
+ * @throws An error if the LLM call fails.
+ */
+export async function planNextAction(request: NextActionRequest): Promise<NextAction | null> {
+    const { goal, history, snapshot, tools } = request;
+    if (tools.length === 0) {
+        console.warn('[nextAction] No MCP tools available. Cannot choose an action.');
+        return null;
+    }
+    const allowedToolNames = new Set(tools.map(t => t.name));
+
+    const historyText = history.length > 0
+        ? history.map((step, index) => `${index + 1}. ${step.description ?? step.tool_name} (${step.tool_name} ${JSON.stringify(step.arguments)})`).join('\n')
+        : '(none yet)';
+    // Snapshots over the parse budget are compressed around the goal
+    const { provider, model } = resolveLlm('parse');
+    const countTokens = (text: string) => estimateTokens(text, provider.name);
+    const snapshotText = snapshot
+        ? compressSnapshot(snapshot, { query: goal, maxTokens: loadSnapshotTokenBudget('parse'), countTokens })
+        : '(no snapshot available)';
+
+    const systemPrompt = `You are a web automation agent working towards a goal one action at a time.
+After each action you see the resulting page and choose the next one.
+
+CRITICAL RULES:
+1. Generate EXACTLY ONE tool call: the single next action towards the goal from the current page.
+2. Use element descriptions and refs that appear in the snapshot.
+3. When the goal is reached, or cannot be reached, call done with a short summary of the result instead.
+4. Do not repeat an action from the history unless the page shows it did not work.
+5. Use ONLY the exact tool names provided in the available tools list.
+6. DO NOT include any explanatory text, ONLY generate the tool call.
+7. On every tool call except done, fill in _description (what the step does, in plain words), _source_text (the exact words of the goal it serves) and _confidence (0 to 1).`;
+
+    const userPrompt = `Goal:
+"${goal}"
+
+Actions so far:
+${historyText}
+
+Current page snapshot:
+\`\`\`
+${snapshotText}
+\`\`\`
+
+Choose the next action.`;
+
+    console.log(`[nextAction] Calling ${provider.name} (${model}) for the next action (${history.length} actions so far)...`);
+    const response = await provider.complete({
+        model,
+        maxTokens: 1000,
+        system: systemPrompt,
+        messages: [{ role: 'user', content: userPrompt }],
+        tools: [...withStepAnnotations(tools), DONE_TOOL],
+        toolChoice: 'any'
+    });
+
+    const doneCall = response.toolCalls.find(call => call.name === DONE_TOOL.name);
+    if (doneCall) {
+        const summary = typeof doneCall.input?.summary === 'string' && doneCall.input.summary.trim()
+            ? doneCall.input.summary.trim()
+            : 'The agent finished without a summary.';
+        console.log(`[nextAction] Agent is done: ${summary}`);
+        return { done: true, summary };
+    }
+
+    const [call, ...ignored] = response.toolCalls.filter(candidate => {
+        if (!allowedToolNames.has(candidate.name)) {
+            console.warn(`[nextAction] LLM chose a tool name ("${candidate.name}") that was not in the allowed list. Skipping.`);
+            return false;
+        }
+        return true;
+    });
+    if (!call) {
+        console.warn('[nextAction] The LLM returned no usable tool call.');
+        return null;
+    }
+    if (ignored.length > 0) {
+        console.warn(`[nextAction] LLM returned ${ignored.length + 1} tool calls; keeping only the first.`);
+    }
+    const [step] = await validateAndRepairSteps(annotateSteps(goal, [call]), { instruction: goal, tools, site: 'parse', snapshot });
+    console.log('[nextAction] Next action:', JSON.stringify(step));
+    return { done: false, step: step! };
+}
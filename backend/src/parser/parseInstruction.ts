@@ -1,14 +1,11 @@
 // backend/src/parser/parseInstruction.ts
 // import Anthropic from '@anthropic-ai/sdk';
-import { anthropic, testAnthropicApiKey } from '../llm/anthropicClient'; // Import shared client
-
-// Define the structure for an MCP tool call based on spec.md
-// We might need to refine this based on actual Playwright-MCP requirements
-interface McpToolCall {
-    tool_name: string; // Use string, actual names come from mcpTools
-    arguments: { [key: string]: any };
-    tool_call_id?: string; // Added for potential OpenAI response mapping
-}
+import { resolveLlm } from '../llm/providers';
+import type { McpToolCall } from '../orchestrator/Orchestrator';
+import { withStepAnnotations, annotateSteps } from './stepAnnotations';
+import { validateAndRepairSteps } from './repairSteps';
+import { TASK_COMPLETE_TOOL } from './planNextChunk';
+
 
 // Debug log for the API key (redacting most of it for security)
 const apiKey = process.env.ANTHROPIC_API_KEY || '';
@@ -39,178 +36,153 @@ if (openaiApiKey) {
 // // Function to test if the API key is valid - MOVED TO anthropicClient.ts
 // async function testAnthropicApiKey(): Promise<boolean> { ... }
 
+// The steps planned for an instruction, and whether they cover all of it
+export interface ParsedPlan {
+    steps: McpToolCall[];
+    complete: boolean; // The LLM called task_complete (or planned nothing) and no steps beyond `maxSteps` were cut off
+}
+
+/**
+ * Parses a natural language instruction into a sequence of MCP tool calls. See parseInstructionPlan.
+ * @returns The steps only; steps beyond `maxSteps` are dropped.
+ */
+export async function parseInstruction(
+    instruction: string,
+    mcpTools?: { name: string; description?: string; inputSchema: any }[],
+    maxSteps: number = 10
+): Promise<McpToolCall[]> {
+    return (await parseInstructionPlan(instruction, mcpTools, maxSteps)).steps;
+}
+
 /**
  * Parses a natural language instruction into a sequence of MCP tool calls
- * using Anthropic Claude's tool calling feature.
+ * using the tool calling feature of the LLM configured for the 'parse' call site.
  *
  * @param instruction The natural language instruction from the user.
  * @param mcpTools An optional array of MCP tools to use instead of the default tools.
- * @returns A promise that resolves to a list of MCP tool calls.
+ * @param maxSteps Most steps to plan. The LLM plans the first chunk of a longer instruction and calls
+ *                 `task_complete` when its steps finish the instruction; a plan that is cut at `maxSteps`
+ *                 is incomplete whatever the LLM declared.
+ * @returns A promise that resolves to the plan: MCP tool calls, each with a description, the span of
+ *          the instruction it came from and a confidence score (see stepAnnotations). Calls that do not
+ *          match their tool's input schema after one repair round carry `validation_errors`.
+ *          Failures resolve to an empty, complete plan.
  */
-export async function parseInstruction(
+export async function parseInstructionPlan(
     instruction: string,
-    mcpTools?: { name: string; description?: string; inputSchema: any }[]
-): Promise<McpToolCall[]> {
-    // Test API key validity first (using imported function)
-    const isApiKeyValid = await testAnthropicApiKey();
-    if (!isApiKeyValid) {
-        console.error('[parseInstruction] Cannot proceed with invalid Anthropic API key');
-        return [];
+    mcpTools?: { name: string; description?: string; inputSchema: any }[],
+    maxSteps: number = 10
+): Promise<ParsedPlan> {
+    const { provider, model } = resolveLlm('parse');
+
+    // Test API key validity first
+    const isProviderAvailable = await provider.isAvailable();
+    if (!isProviderAvailable) {
+        console.error(`[parseInstruction] Cannot proceed: LLM provider '${provider.name}' is not available (check its API key/configuration)`);
+        return { steps: [], complete: true };
     }
 
     // Derive tools from the provided mcpTools list
-    const tools = (mcpTools && mcpTools.length > 0) ?
-        mcpTools.map(t => ({
-            name: t.name,
-            description: t.description || `Execute the ${t.name} tool.`,
-            input_schema: t.inputSchema || { type: 'object', properties: {} }
-        })) : [];
+    const tools = mcpTools ?? [];
 
     // If no tools are available from the MCP server, we cannot fulfill the request.
     if (tools.length === 0) {
         console.warn('[parseInstruction] No MCP tools provided or available. Cannot parse instruction.');
         // Optionally, could return a specific error message or indicator to the orchestrator/UI
-        return [];
+        return { steps: [], complete: true };
     }
 
     // Keep track of the names of the tools actually sent to the API
     const allowedToolNames = new Set(tools.map(t => t.name));
 
     try {
-        console.log(`[parseInstruction] Calling Anthropic Claude with instruction: "${instruction}" and tools:`, JSON.stringify(Array.from(allowedToolNames)));
-
-        // Define a list of models to try in order of preference
-        const modelOptions = [
-            'claude-3-opus-20240229',  // Try a standard model name
-            // 'claude-3-7-sonnet-20250129',  // Commented out the specific model
-            // 'claude-3-haiku',           // Commented out other models
-            // 'claude-3-opus',
-            // 'claude-3-sonnet',
-            // 'claude-instant-1.2',
-            // 'claude-2.0'
-        ];
-        
-        let lastError: any = null;
-        let response: any = null;
-        
-        // Try each model in sequence until one works
-        for (const model of modelOptions) {
-            try {
-                console.log(`[parseInstruction] Attempting to use model: ${model}`);
-                response = await anthropic.messages.create({
-                    model: model,
-                    max_tokens: 4000,
-                    system: `You are a web automation assistant specialized in converting natural language instructions into a sequence of precise tool calls.
+        console.log(`[parseInstruction] Calling ${provider.name} (${model}) with instruction: "${instruction}" and tools:`, JSON.stringify(Array.from(allowedToolNames)));
+
+        const response = await provider.complete({
+            model,
+            maxTokens: 4000,
+            system: `You are a web automation assistant specialized in converting natural language instructions into a sequence of precise tool calls.
 
 CRITICAL RULES:
 1. For EACH action in the user's instruction, generate a SEPARATE tool call.
 2. If the user asks to perform an action multiple times (e.g., "click button twice"), create a separate tool call for EACH instance.
 3. Always break down complex tasks into individual steps, never combine actions.
 4. Preserve the sequential order of actions exactly as specified.
-5. Use ONLY the exact tool names provided in the available tools list.
-6. DO NOT include any explanatory text, ONLY generate tool calls.`,
-                    messages: [
-                        { 
-                            role: 'user', 
-                            content: `Here is a web automation task that needs to be broken down into sequential tool calls:
+5. Plan at most ${maxSteps} tool calls. If the instruction needs more, plan only its first ${maxSteps} steps; the rest is planned later from the page those steps lead to.
+6. If your tool calls carry out the WHOLE instruction, also call task_complete. Do not call it when part of the instruction is left for later.
+7. Use ONLY the exact tool names provided in the available tools list.
+8. DO NOT include any explanatory text, ONLY generate tool calls.
+9. On every tool call, fill in _description (what the step does, in plain words), _source_text (the exact words of the instruction it comes from) and _confidence (0 to 1).`,
+            messages: [
+                { 
+                    role: 'user', 
+                    content: `Here is a web automation task that needs to be broken down into sequential tool calls:
 
 "${instruction}"
 
-Please convert this into a series of individual tool calls, making sure to create a separate tool call for each distinct action.`
-                        }
-                    ],
-                    // @ts-expect-error - Linter incorrectly flags 'tools' despite it being correct per SDK usage for tool calling
-                    tools: tools,
-                    tool_choice: { type: "any" }
-                });
-                
-                // If we got here, the model worked
-                console.log(`[parseInstruction] Successfully used model: ${model}`);
-                break;
-                
-            } catch (err: any) {
-                lastError = err;
-                console.error(`[parseInstruction] Failed with model ${model}:`, err.message || err);
-                // Continue to the next model
-            }
-        }
-        
-        // If all models failed, throw the last error
-        if (!response) {
-            console.error('[parseInstruction] All models failed. Last error:', lastError);
-            throw lastError || new Error('All Anthropic models failed');
-        }
+Please convert this into a series of individual tool calls, making sure to create a separate tool call for each distinct action, and call task_complete if they finish the task.`
+                }
+            ],
+            tools: [...withStepAnnotations(tools), TASK_COMPLETE_TOOL],
+            toolChoice: 'any'
+        });
 
         // Debug logging of the complete response
-        console.log('[parseInstruction] Complete Anthropic response:', JSON.stringify(response, null, 2));
-        console.log('[parseInstruction] Response content length:', response.content.length);
-        
-        // Define types for response content
-        type ContentItem = {
-            type: string;
-            id?: string;
-            name?: string;
-            input?: any;
-            text?: string;
-        };
-        
-        response.content.forEach((item: ContentItem, index: number) => {
-            console.log(`[parseInstruction] Content item ${index} type:`, item.type);
-            if (item.type === 'tool_use') {
-                console.log(`[parseInstruction] Tool use: name=${item.name}, id=${item.id}`);
-                console.log(`[parseInstruction] Tool input:`, JSON.stringify(item.input, null, 2));
-            } else if (item.type === 'text') {
-                console.log(`[parseInstruction] Text content: "${item.text?.substring(0, 100)}${item.text && item.text.length > 100 ? '...' : ''}"`);
-            }
+        console.log(`[parseInstruction] Complete ${provider.name} response:`, JSON.stringify(response.raw, null, 2));
+        response.toolCalls.forEach((call, index) => {
+            console.log(`[parseInstruction] Tool call ${index}: name=${call.name}, id=${call.id}`);
+            console.log(`[parseInstruction] Tool input:`, JSON.stringify(call.input, null, 2));
         });
 
-        // Extract tool calls from the response
-        const toolCalls = response.content
-            .filter((content: ContentItem) => content.type === 'tool_use')
-            .map((content: ContentItem) => {
-                if (content.type !== 'tool_use') return null;
-                
-                // Validate that the returned tool name is in the allowed list
-                if (!content.name || !allowedToolNames.has(content.name)) {
-                    console.warn(`Claude returned a tool name ("${content.name}") that was not in the allowed list. Skipping.`);
-                    return null;
-                }
-                
-                return {
-                    tool_call_id: content.id || `claude-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
-                    tool_name: content.name,
-                    arguments: content.input
-                } as McpToolCall;
-            })
-            .filter((call: McpToolCall | null): call is McpToolCall => call !== null);
+        // Keep only calls to tools that were offered, then turn them into annotated steps
+        const declaredComplete = response.toolCalls.some(call => call.name === TASK_COMPLETE_TOOL.name);
+        const offeredCalls = response.toolCalls.filter(call => {
+            if (call.name === TASK_COMPLETE_TOOL.name) return false;
+            // Validate that the returned tool name is in the allowed list
+            if (!allowedToolNames.has(call.name)) {
+                console.warn(`The LLM returned a tool name ("${call.name}") that was not in the allowed list. Skipping.`);
+                return false;
+            }
+            return true;
+        });
+        const toolCalls = annotateSteps(instruction, offeredCalls);
 
         // Log the number of tool calls extracted
         console.log(`[parseInstruction] Extracted ${toolCalls.length} tool calls from the response.`);
         
-        // If no tool calls were found but there's text content, Claude might be describing the steps instead of using tools
-        if (toolCalls.length === 0 && response.content.some((content: ContentItem) => content.type === 'text')) {
-            console.warn('[parseInstruction] Claude returned text instead of tool calls. This may indicate it did not understand the task.');
+        // If no tool calls were found but there's text content, the model might be describing the steps instead of using tools
+        if (toolCalls.length === 0 && response.text) {
+            console.warn('[parseInstruction] The LLM returned text instead of tool calls. This may indicate it did not understand the task.');
             // Future improvement: Could implement a fallback to parse text instructions
         }
 
         // Use the result directly
         let finalCalls = toolCalls;
 
-        if (finalCalls.length > 10) {
-            console.warn(`Parser generated ${finalCalls.length} steps, truncating to 10.`);
-            finalCalls = finalCalls.slice(0, 10);
+        // The LLM says whether its plan covers the whole instruction; a plan cut at maxSteps never does
+        const truncated = finalCalls.length > maxSteps;
+        if (truncated) {
+            console.warn(`Parser generated ${finalCalls.length} steps, truncating to ${maxSteps}.`);
+            finalCalls = finalCalls.slice(0, maxSteps);
+        }
+        const complete = finalCalls.length === 0 || (declaredComplete && !truncated);
+        if (!complete && !truncated) {
+            console.log(`[parseInstruction] The LLM planned the first ${finalCalls.length} steps; the rest of the instruction is still to plan.`);
         }
 
+        // Check every call against its tool's input schema; invalid ones get one repair round
+        finalCalls = await validateAndRepairSteps(finalCalls, { instruction, tools, site: 'parse' });
+
         console.log('[parseInstruction] Successfully parsed calls:', JSON.stringify(finalCalls, null, 2));
-        return finalCalls;
+        return { steps: finalCalls, complete };
 
     } catch (error) {
-        // Enhanced error handling for Anthropic API errors
-        console.error("Error during Anthropic Claude API call:", error);
+        // Enhanced error handling for LLM API errors
+        console.error(`Error during ${provider.name} API call:`, error);
         
         // Log specific details if it's an API error
         if (error && typeof error === 'object' && 'status' in error) {
-            console.error(`[parseInstruction] Anthropic API error status: ${(error as any).status}`);
+            console.error(`[parseInstruction] ${provider.name} API error status: ${(error as any).status}`);
             console.error(`[parseInstruction] Error type: ${(error as any).error?.error?.type}`);
             console.error(`[parseInstruction] Error message: ${(error as any).error?.error?.message}`);
             
@@ -222,8 +194,8 @@ Please convert this into a series of individual tool calls, making sure to creat
             }
         }
         
-        // Return empty array to indicate failure
-        return [];
+        // Return an empty plan to indicate failure
+        return { steps: [], complete: true };
     }
 }
 
@@ -0,0 +1,130 @@
+// backend/src/parser/planNextChunk.ts
+import { resolveLlm } from '../llm/providers';
+import type { McpToolCall } from '../orchestrator/Orchestrator';
+import { McpToolDefinition } from '../types/mcp';
+import { loadSnapshotTokenBudget } from '../llm/config';
+import { estimateTokens } from '../llm/tokens';
+import { compressSnapshot } from '../snapshot/compress';
+import { withStepAnnotations, annotateSteps } from './stepAnnotations';
+import { validateAndRepairSteps } from './repairSteps';
+
+// Offered next to the MCP tools so the LLM can say that nothing is left to do
+export const TASK_COMPLETE_TOOL: McpToolDefinition = {
+    name: 'task_complete',
+    description: 'Declare that the instruction is fully carried out by the completed steps plus the steps proposed in this answer.',
+    inputSchema: { type: 'object', properties: {} },
+};
+
+/**
+ * Everything the LLM needs to plan the next chunk of a long instruction.
+ */
+export interface NextChunkRequest {
+    instruction: string;            // The user's original instruction
+    completedSteps: McpToolCall[];  // Steps that already executed successfully, in order
+    snapshot: string | null;        // The current page snapshot, if one could be taken
+    tools: McpToolDefinition[];     // MCP tools available to the session
+    maxSteps: number;               // Most steps to plan in this chunk
+}
+
+export interface PlannedChunk {
+    steps: McpToolCall[];
+    complete: boolean; // The LLM declared the task complete (or had nothing left to plan)
+}
+
+/**
+ * Part of the instruction after the furthest source span of the completed steps, without a leading
+ * "and"/"then", or the whole instruction if no completed step knows where it came from.
+ */
+export function remainingInstruction(instruction: string, completedSteps: McpToolCall[]): string {
+    const coveredUpTo = Math.max(0, ...completedSteps.map(step => step.source_span?.end ?? 0));
+    const rest = instruction.slice(coveredUpTo).replace(/^[\s,.;]*((and|then)\s+)*/i, '').trim();
+    return coveredUpTo > 0 && rest ? rest : instruction;
+}
+
+/**
+ * Asks the LLM for the next chunk of steps once the previous chunk has run, using the part of the
+ * instruction still to do and the current page. The chunk keeps going from the browser's current
+ * state; the LLM calls `task_complete` when nothing is left after it.
+ *
+ * @returns The next steps (at most `maxSteps`, checked against their tools' input schemas with one
+ *          repair round) and whether the task is then complete. An answer without steps counts as complete.
+ * @throws An error if the LLM call fails.
+ */
+export async function planNextChunk(request: NextChunkRequest): Promise<PlannedChunk> {
+    const { instruction, completedSteps, snapshot, tools, maxSteps } = request;
+    if (tools.length === 0) {
+        console.warn('[planNextChunk] No MCP tools available. Cannot plan.');
+        return { steps: [], complete: true };
+    }
+    const allowedToolNames = new Set(tools.map(t => t.name));
+
+    const completedText = completedSteps.length > 0
+        ? completedSteps.map((step, index) => `${index + 1}. ${step.description ?? step.tool_name} (${step.tool_name} ${JSON.stringify(step.arguments)})`).join('\n')
+        : '(none)';
+    const remaining = remainingInstruction(instruction, completedSteps);
+    // Snapshots over the parse budget are compressed around the part of the instruction still to do
+    const { provider, model } = resolveLlm('parse');
+    const countTokens = (text: string) => estimateTokens(text, provider.name);
+    const snapshotText = snapshot
+        ? compressSnapshot(snapshot, { query: remaining, maxTokens: loadSnapshotTokenBudget('parse'), countTokens })
+        : '(no snapshot available)';
+
+    const systemPrompt = `You are a web automation assistant carrying out a long instruction a few steps at a time.
+The browser is open on the page described by the snapshot. Steps that already completed must NOT be repeated.
+
+CRITICAL RULES:
+1. Propose the next tool calls (at most ${maxSteps}) that continue the instruction from the current page.
+2. Generate a SEPARATE tool call for each action, in order.
+3. Use element descriptions and refs that appear in the snapshot. Use "<UNKNOWN>" for a ref that will only exist after earlier steps run.
+4. If the completed steps plus the ones you propose finish the instruction, also call task_complete. If nothing is left to do, call ONLY task_complete.
+5. Use ONLY the exact tool names provided in the available tools list.
+6. DO NOT include any explanatory text, ONLY generate tool calls.
+7. On every tool call, fill in _description (what the step does, in plain words), _source_text (the exact words of the original instruction it serves) and _confidence (0 to 1).`;
+
+    const userPrompt = `Original instruction:
+"${instruction}"
+
+Still to do:
+"${remaining}"
+
+Completed steps:
+${completedText}
+
+Current page snapshot:
+\`\`\`
+${snapshotText}
+\`\`\`
+
+Propose the next tool calls.`;
+
+    console.log(`[planNextChunk] Calling ${provider.name} (${model}) for the next chunk (${completedSteps.length} steps completed)...`);
+    const response = await provider.complete({
+        model,
+        maxTokens: 4000,
+        system: systemPrompt,
+        messages: [{ role: 'user', content: userPrompt }],
+        tools: [...withStepAnnotations(tools), TASK_COMPLETE_TOOL],
+        toolChoice: 'any'
+    });
+
+    const declaredComplete = response.toolCalls.some(call => call.name === TASK_COMPLETE_TOOL.name);
+    const steps = annotateSteps(instruction, response.toolCalls.filter(call => {
+        if (call.name === TASK_COMPLETE_TOOL.name) return false;
+        if (!allowedToolNames.has(call.name)) {
+            console.warn(`[planNextChunk] LLM proposed a tool name ("${call.name}") that was not in the allowed list. Skipping.`);
+            return false;
+        }
+        return true;
+    }));
+
+    if (steps.length > maxSteps) {
+        console.warn(`[planNextChunk] LLM planned ${steps.length} steps, keeping the first ${maxSteps}; the rest is planned with the next chunk.`);
+    }
+    const chunk = steps.slice(0, maxSteps);
+    const complete = chunk.length === 0 || (declaredComplete && steps.length <= maxSteps);
+    console.log(`[planNextChunk] Planned ${chunk.length} steps${complete ? ' (task complete)' : ''}.`);
+    return {
+        steps: await validateAndRepairSteps(chunk, { instruction, tools, site: 'parse', snapshot }),
+        complete,
+    };
+}
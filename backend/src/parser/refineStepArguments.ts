@@ -1,31 +1,25 @@
 import { Call } from '../types/mcp'; // Assuming Call type is defined here
-import { anthropic } from '../llm/anthropicClient'; // Import shared client
-import Anthropic from '@anthropic-ai/sdk'; // Import types if needed
-
-// Placeholder for the actual LLM client (e.g., Anthropic)
-// import anthropic from './anthropicClient'; // Example import
-
-// Helper function to truncate potentially large snapshots for the prompt
-function truncateSnapshot(snapshot: string, maxLength: number = 10000): string {
-    if (snapshot.length > maxLength) {
-        // Try to truncate intelligently, maybe keep start and end?
-        const halfLength = Math.floor(maxLength / 2) - 10; // Leave space for ellipsis
-        return `${snapshot.substring(0, halfLength)}... (truncated) ...${snapshot.substring(snapshot.length - halfLength)}`;
-    }
-    return snapshot;
-}
+import { resolveLlm } from '../llm/providers';
+import { loadSnapshotTokenBudget } from '../llm/config';
+import { estimateTokens } from '../llm/tokens';
+import { parseAriaSnapshot, listInteractiveElements, formatAriaNode } from '../snapshot/ariaSnapshot';
+import { compressSnapshot } from '../snapshot/compress';
 
 /**
  * Refines the arguments of a tool call using a provided snapshot via an LLM call.
  *
  * @param callToRefine The original Call object with potentially placeholder arguments.
- * @param snapshot The page snapshot content (likely HTML or structured text).
+ * @param snapshot The page snapshot content (likely HTML or structured text). Large snapshots are
+ *                 compressed around the elements that match the step (see snapshot/compress.ts) to fit
+ *                 the refine call site's snapshot token budget (LLM_REFINE_SNAPSHOT_TOKENS).
+ * @param stepDescription The step's description, used with its arguments to pick the relevant elements.
  * @returns A Promise resolving to a new Call object with refined arguments.
  * @throws An error if the refinement process fails or LLM response is unusable.
  */
 export async function refineStepArgumentsWithSnapshot(
     callToRefine: Call,
-    snapshot: string
+    snapshot: string,
+    stepDescription?: string
 ): Promise<Call> {
     console.log('[refineStepArguments] Received call to refine:', callToRefine);
     // Only log length or a small part of the snapshot to avoid huge logs
@@ -42,7 +36,21 @@ export async function refineStepArgumentsWithSnapshot(
         return { ...callToRefine, params: originalParams }; // Return original if no refinement needed
     }
 
-    const truncatedSnap = truncateSnapshot(snapshot); // Limit snapshot size for the prompt
+    // Limit snapshot size for the prompt, measured in tokens of the provider the prompt goes to
+    const { provider, model } = resolveLlm('refine');
+    const countTokens = (text: string) => estimateTokens(text, provider.name);
+    const snapshotBudget = loadSnapshotTokenBudget('refine');
+    // The elements a step can act on, listed whole if they take up at most a quarter of the budget
+    const interactiveElements = listInteractiveElements(parseAriaSnapshot(snapshot)).map(node => `- ${formatAriaNode(node)}`);
+    let elementsText = interactiveElements.length > 0 ? `\n\nInteractive elements on the page:\n${interactiveElements.join('\n')}` : '';
+    if (countTokens(elementsText) > snapshotBudget / 4) {
+        elementsText = '';
+    }
+    const query = [stepDescription ?? '', callToRefine.method, ...Object.values(originalParams).map(value => typeof value === 'string' ? value : JSON.stringify(value))].join(' ');
+    const truncatedSnap = compressSnapshot(snapshot, { query, maxTokens: snapshotBudget - countTokens(elementsText), countTokens });
+    if (truncatedSnap !== snapshot) {
+        console.log(`[refineStepArguments] Compressed the snapshot from ${countTokens(snapshot)} to ${countTokens(truncatedSnap)} tokens (budget ${snapshotBudget}).`);
+    }
 
     // --- LLM Call Implementation ---
     // 1. Construct the prompt
@@ -52,28 +60,28 @@ export async function refineStepArgumentsWithSnapshot(
     //    - Instruct the LLM to output *only* the refined JSON arguments object.
     const systemPrompt = `You are an expert assistant analyzing web page snapshots to determine the correct arguments for web automation tool calls.\nGiven a tool call with potentially unknown arguments (marked as "<UNKNOWN>") and a snapshot of the relevant web page, your task is to analyze the snapshot and replace the "<UNKNOWN>" values with the correct values found in the snapshot.\n\nOutput ONLY the refined JSON object for the 'params' (arguments) of the tool call. Do not include any other text, explanations, or markdown formatting.`;
 
-    const userPrompt = `Tool call to refine:\nTool Name: ${callToRefine.method}\nOriginal Arguments: ${JSON.stringify(originalParams, null, 2)}\n\nWeb Page Snapshot (HTML/Content):\n\`\`\`\n${truncatedSnap}\n\`\`\`\n\nBased on the snapshot, determine the correct values for any "<UNKNOWN>" arguments in the original arguments object.\nOutput ONLY the refined JSON arguments object. For example, if the original arguments were {"selector": "<UNKNOWN>", "text": "hello"} and the snapshot indicated the correct selector is "#login-button", you should output:\n{"selector": "#login-button", "text": "hello"}\nIf an argument cannot be determined from the snapshot, retain its original value or omit it if appropriate based on the tool's function (but prioritize filling unknowns).`;
+    const userPrompt = `Tool call to refine:\nTool Name: ${callToRefine.method}\nOriginal Arguments: ${JSON.stringify(originalParams, null, 2)}\n\nWeb Page Snapshot (HTML/Content):\n\`\`\`\n${truncatedSnap}\n\`\`\`${elementsText}\n\nBased on the snapshot, determine the correct values for any "<UNKNOWN>" arguments in the original arguments object.\nOutput ONLY the refined JSON arguments object. For example, if the original arguments were {"selector": "<UNKNOWN>", "text": "hello"} and the snapshot indicated the correct selector is "#login-button", you should output:\n{"selector": "#login-button", "text": "hello"}\nIf an argument cannot be determined from the snapshot, retain its original value or omit it if appropriate based on the tool's function (but prioritize filling unknowns).`;
 
     try {
-        console.log(`[refineStepArguments] Calling Anthropic to refine arguments for ${callToRefine.method}...`);
+        console.log(`[refineStepArguments] Calling ${provider.name} (${model}) to refine arguments for ${callToRefine.method}...`);
         // 2. Make the API call
-        const response = await anthropic.messages.create({
-            // Use a capable model like Opus or Sonnet for better analysis
-            model: 'claude-3-opus-20240229', // Or claude-3-5-sonnet-20240620
-            max_tokens: 500, // Adjust as needed, should be enough for JSON args
+        const response = await provider.complete({
+            // Use a capable model for better analysis (configured via LLM_REFINE_MODEL / LLM_MODEL)
+            model,
+            maxTokens: 500, // Adjust as needed, should be enough for JSON args
             system: systemPrompt,
             messages: [{ role: 'user', content: userPrompt }],
             temperature: 0.2, // Lower temperature for more deterministic JSON output
         });
 
-        console.log('[refineStepArguments] Received Anthropic response.');
+        console.log(`[refineStepArguments] Received ${provider.name} response.`);
 
         // 3. Parse the response
-        if (!response.content || response.content.length === 0 || response.content[0].type !== 'text') {
+        if (!response.text) {
             throw new Error('LLM response did not contain text content.');
         }
 
-        const llmOutput = response.content[0].text.trim();
+        const llmOutput = response.text.trim();
         console.log('[refineStepArguments] Raw LLM output:', llmOutput);
 
         let refinedParams: { [key: string]: any };
@@ -0,0 +1,123 @@
+// backend/src/parser/repairSteps.ts
+import { resolveLlm } from '../llm/providers';
+import { LlmCallSite, loadSnapshotTokenBudget } from '../llm/config';
+import type { McpToolCall } from '../orchestrator/Orchestrator';
+import { McpToolDefinition } from '../types/mcp';
+import { validateToolArguments } from '../mcp/toolSchema';
+import { estimateTokens } from '../llm/tokens';
+import { compressSnapshot } from '../snapshot/compress';
+import { withStepAnnotations, annotateSteps } from './stepAnnotations';
+
+export interface RepairOptions {
+    instruction: string;           // The user's instruction, for context and source spans
+    tools: McpToolDefinition[];    // Tools reported by `tools/list`; their input schemas are the contract
+    site: LlmCallSite;             // Call site whose LLM produced the steps and repairs them
+    snapshot?: string | null;      // Current page snapshot, when the steps target the page as it is now
+}
+
+/**
+ * Checks a step against its tool's input schema.
+ * @returns One message per problem; empty if the step is valid.
+ */
+export function validateStep(step: McpToolCall, tools: McpToolDefinition[]): string[] {
+    const tool = tools.find(candidate => candidate.name === step.tool_name);
+    if (!tool) {
+        return [`Unknown tool '${step.tool_name}'`];
+    }
+    return validateToolArguments(tool, step.arguments);
+}
+
+/**
+ * Validates steps against their tools' input schemas. Invalid steps are sent back to the LLM once,
+ * with the problems found, for corrected calls; each correction keeps the step's tool_call_id.
+ * Steps that are still invalid afterwards carry their problems in `validation_errors`, so the
+ * reviewer sees them and cannot confirm the step until it is fixed.
+ *
+ * @returns The steps, in the same order, repaired where possible. Never rejects: if the repair call
+ *          fails, the problems are recorded on the steps instead.
+ */
+export async function validateAndRepairSteps(steps: McpToolCall[], options: RepairOptions): Promise<McpToolCall[]> {
+    const checked = steps.map(step => ({ step, problems: validateStep(step, options.tools) }));
+    const invalid = checked.filter(entry => entry.problems.length > 0);
+    if (invalid.length === 0) {
+        return steps.map(withoutValidationErrors);
+    }
+
+    console.warn(`[repairSteps] ${invalid.length} of ${steps.length} steps do not match their tool's input schema. Asking the LLM to repair them.`);
+    let repairs: McpToolCall[] = [];
+    try {
+        repairs = await requestRepairs(invalid, options);
+    } catch (error: any) {
+        console.error('[repairSteps] Repair call failed:', error?.message ?? error);
+    }
+
+    return checked.map(entry => {
+        if (entry.problems.length === 0) {
+            return withoutValidationErrors(entry.step);
+        }
+        const repair = repairs[invalid.indexOf(entry)];
+        const candidate: McpToolCall = repair
+            ? { ...repair, tool_call_id: entry.step.tool_call_id, source_span: repair.source_span ?? entry.step.source_span }
+            : entry.step;
+        const problems = validateStep(candidate, options.tools);
+        if (problems.length === 0) {
+            console.log(`[repairSteps] Repaired step ${entry.step.tool_call_id} (${candidate.tool_name}).`);
+            return withoutValidationErrors(candidate);
+        }
+        console.warn(`[repairSteps] Step ${entry.step.tool_call_id} is still invalid:`, problems);
+        // Keep the original call when the repair did not help, with the problems the parser's call had
+        return { ...entry.step, validation_errors: entry.problems };
+    });
+}
+
+function withoutValidationErrors(step: McpToolCall): McpToolCall {
+    if (!step.validation_errors) return step;
+    const { validation_errors: _cleared, ...rest } = step;
+    return rest;
+}
+
+// Asks the LLM for one corrected tool call per invalid step, in order
+async function requestRepairs(invalid: { step: McpToolCall; problems: string[] }[], options: RepairOptions): Promise<McpToolCall[]> {
+    const { instruction, tools, site, snapshot } = options;
+    const invalidText = invalid.map(({ step, problems }, index) =>
+        `${index + 1}. ${step.tool_name} ${JSON.stringify(step.arguments)}\n   Problems: ${problems.join('; ')}`
+    ).join('\n');
+    // Snapshots over the call site's budget are compressed around the calls being repaired
+    const { provider, model } = resolveLlm(site);
+    const countTokens = (text: string) => estimateTokens(text, provider.name);
+    const snapshotText = snapshot
+        ? `\n\nCurrent page snapshot:\n\`\`\`\n${compressSnapshot(snapshot, { query: invalidText, maxTokens: loadSnapshotTokenBudget(site), countTokens })}\n\`\`\``
+        : '';
+
+    const systemPrompt = `You are a web automation assistant fixing tool calls that do not match their tool's input schema.
+
+CRITICAL RULES:
+1. Return exactly ONE corrected tool call for EACH invalid call listed, in the same order.
+2. Keep the intent of each call; change only what is needed to satisfy the tool's input schema.
+3. Use "<UNKNOWN>" for an element ref that cannot be known yet.
+4. Use ONLY the exact tool names provided in the available tools list.
+5. DO NOT include any explanatory text, ONLY generate tool calls.
+6. On every tool call, fill in _description (what the step does, in plain words), _source_text (the exact words of the instruction it comes from) and _confidence (0 to 1).`;
+
+    const userPrompt = `Original instruction:
+"${instruction}"
+
+Invalid tool calls:
+${invalidText}${snapshotText}
+
+Return the corrected tool calls.`;
+
+    console.log(`[repairSteps] Calling ${provider.name} (${model}) to repair ${invalid.length} steps...`);
+    const response = await provider.complete({
+        model,
+        maxTokens: 2000,
+        system: systemPrompt,
+        messages: [{ role: 'user', content: userPrompt }],
+        tools: withStepAnnotations(tools),
+        toolChoice: 'any'
+    });
+
+    // Not filtered by tool name: corrections pair with the invalid steps by position, and a call to an
+    // unknown tool simply fails validation again
+    return annotateSteps(instruction, response.toolCalls);
+}
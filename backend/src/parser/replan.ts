@@ -0,0 +1,133 @@
+// backend/src/parser/replan.ts
+import { resolveLlm } from '../llm/providers';
+import type { McpToolCall } from '../orchestrator/Orchestrator';
+import { loadSnapshotTokenBudget } from '../llm/config';
+import { estimateTokens } from '../llm/tokens';
+import { compressSnapshot } from '../snapshot/compress';
+import { withStepAnnotations, annotateSteps } from './stepAnnotations';
+import { validateAndRepairSteps } from './repairSteps';
+
+/**
+ * Everything the LLM needs to know to recover from a step that failed after all its retries.
+ */
+export interface ReplanRequest {
+    instruction: string;              // The user's original instruction
+    completedSteps: McpToolCall[];    // Steps that already executed successfully, in order
+    failedStep: McpToolCall;          // The step that could not be executed
+    error: any;                       // The last error reported for the failed step
+    snapshot: string | null;          // The most recent page snapshot, if one could be taken
+    tools: { name: string; description?: string; inputSchema: any }[]; // MCP tools available to the session
+    maxSteps: number;                 // Most replacement steps to keep (see PlanningPolicy)
+}
+
+export interface ReplanResult {
+    steps: McpToolCall[];
+    complete: boolean; // false when the LLM proposed more than `maxSteps` steps and the rest was cut off
+}
+
+// Flattens the different error shapes seen from MCP into readable text for the prompt
+function describeError(error: any): string {
+    if (!error) return 'Unknown error';
+    if (typeof error === 'string') return error;
+    const message = error.message ?? error;
+    if (Array.isArray(message)) {
+        return message.map((item: any) => (typeof item === 'string' ? item : item?.text ?? '')).join(' ');
+    }
+    return typeof message === 'string' ? message : JSON.stringify(message);
+}
+
+function describeStep(step: McpToolCall): string {
+    const summary = `${step.tool_name} ${JSON.stringify(step.arguments)}`;
+    return step.description ? `${step.description} (${summary})` : summary;
+}
+
+/**
+ * Asks the LLM for a replacement tail of steps after a step failed. The replacement starts at the
+ * failed step and must finish the original instruction from the browser's current state, so it is
+ * run against the same MCP session without repeating completed steps.
+ *
+ * @param request The instruction, progress so far, failure details and latest snapshot.
+ * @returns A promise resolving to the proposed steps (possibly empty if the LLM found no way forward), at
+ *          most `maxSteps` of them, and whether they cover the rest of the instruction. Steps that still
+ *          fail their tool's input schema after one repair round carry `validation_errors`.
+ * @throws An error if the LLM call fails.
+ */
+export async function replanRemainingSteps(request: ReplanRequest): Promise<ReplanResult> {
+    const { instruction, completedSteps, failedStep, error, snapshot, maxSteps } = request;
+
+    const tools = request.tools;
+    if (tools.length === 0) {
+        console.warn('[replan] No MCP tools available. Cannot replan.');
+        return { steps: [], complete: true };
+    }
+    const allowedToolNames = new Set(tools.map(t => t.name));
+
+    const completedText = completedSteps.length > 0
+        ? completedSteps.map((step, index) => `${index + 1}. ${describeStep(step)}`).join('\n')
+        : '(none)';
+    // Snapshots over the replan budget are compressed around the failed step and the instruction
+    const { provider, model } = resolveLlm('replan');
+    const countTokens = (text: string) => estimateTokens(text, provider.name);
+    const snapshotText = snapshot
+        ? compressSnapshot(snapshot, { query: `${describeStep(failedStep)} ${instruction}`, maxTokens: loadSnapshotTokenBudget('replan'), countTokens })
+        : '(no snapshot available)';
+
+    const systemPrompt = `You are a web automation assistant recovering from a failed step.
+The browser is still open on the page described by the snapshot. Steps that already completed must NOT be repeated.
+
+CRITICAL RULES:
+1. Propose the tool calls (at most ${maxSteps}) needed to finish the user's original instruction from the current page, starting with a replacement for the failed step.
+2. Generate a SEPARATE tool call for each action, in order.
+3. Use element descriptions and refs that appear in the snapshot. Use "<UNKNOWN>" for a ref that will only exist after earlier steps run.
+4. Use ONLY the exact tool names provided in the available tools list.
+5. DO NOT include any explanatory text, ONLY generate tool calls.
+6. On every tool call, fill in _description (what the step does, in plain words), _source_text (the exact words of the original instruction it serves) and _confidence (0 to 1).`;
+
+    const userPrompt = `Original instruction:
+"${instruction}"
+
+Completed steps:
+${completedText}
+
+Failed step:
+${describeStep(failedStep)}
+
+Error:
+${describeError(error)}
+
+Current page snapshot:
+\`\`\`
+${snapshotText}
+\`\`\`
+
+Propose the replacement tool calls that complete the instruction.`;
+
+    console.log(`[replan] Calling ${provider.name} (${model}) to replan after failed step ${failedStep.tool_name} (${completedSteps.length} steps completed)...`);
+    const response = await provider.complete({
+        model,
+        maxTokens: 4000,
+        system: systemPrompt,
+        messages: [{ role: 'user', content: userPrompt }],
+        tools: withStepAnnotations(tools),
+        toolChoice: 'any'
+    });
+
+    const proposedSteps: McpToolCall[] = annotateSteps(instruction, response.toolCalls.filter(call => {
+        if (!allowedToolNames.has(call.name)) {
+            console.warn(`[replan] LLM proposed a tool name ("${call.name}") that was not in the allowed list. Skipping.`);
+            return false;
+        }
+        return true;
+    }));
+
+    console.log(`[replan] LLM proposed ${proposedSteps.length} replacement steps:`, JSON.stringify(proposedSteps, null, 2));
+    // Same cap and schema check (with one repair round) as the other plans
+    const complete = proposedSteps.length <= maxSteps;
+    if (!complete) {
+        console.warn(`[replan] LLM proposed ${proposedSteps.length} steps, keeping the first ${maxSteps}.`);
+    }
+    return {
+        steps: await validateAndRepairSteps(proposedSteps.slice(0, maxSteps), { instruction, tools, site: 'replan', snapshot }),
+        complete,
+    };
+}
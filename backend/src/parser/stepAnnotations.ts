@@ -0,0 +1,136 @@
+// backend/src/parser/stepAnnotations.ts
+import type { McpToolCall, SourceSpan } from '../orchestrator/Orchestrator';
+import type { LlmToolCall } from '../llm/LlmProvider';
+
+// Extra arguments the LLM fills in on every tool call; stripped before the call is sent to MCP
+const DESCRIPTION_ARG = '_description';
+const SOURCE_TEXT_ARG = '_source_text';
+const CONFIDENCE_ARG = '_confidence';
+
+const ANNOTATION_PROPERTIES = {
+    [DESCRIPTION_ARG]: {
+        type: 'string',
+        description: `Short imperative description of this step for the person reviewing it, naming the element in plain words (e.g. "Click the 'Espresso' product card").`
+    },
+    [SOURCE_TEXT_ARG]: {
+        type: 'string',
+        description: 'The words of the user instruction this step comes from, copied exactly.'
+    },
+    [CONFIDENCE_ARG]: {
+        type: 'number',
+        minimum: 0,
+        maximum: 1,
+        description: 'How confident you are (0 to 1) that this step is what the user asked for.'
+    },
+};
+
+/**
+ * Adds the annotation arguments (_description, _source_text, _confidence) to each tool's input schema,
+ * so the LLM explains every step it proposes in the same tool call.
+ */
+export function withStepAnnotations<T extends { inputSchema: any }>(tools: T[]): T[] {
+    return tools.map(tool => {
+        const schema = tool.inputSchema && typeof tool.inputSchema === 'object' ? tool.inputSchema : {};
+        return {
+            ...tool,
+            inputSchema: {
+                ...schema,
+                type: 'object',
+                properties: { ...(schema.properties ?? {}), ...ANNOTATION_PROPERTIES },
+                required: [...(schema.required ?? []), DESCRIPTION_ARG, SOURCE_TEXT_ARG, CONFIDENCE_ARG],
+            },
+        };
+    });
+}
+
+/**
+ * Finds the part of the instruction a step came from. Exact matches win over case-insensitive ones,
+ * and matches after the previous step's span win over earlier ones, so repeated phrases ("click Next
+ * twice") map to successive occurrences.
+ */
+export function locateSourceSpan(instruction: string, sourceText: string, searchFrom = 0): SourceSpan | undefined {
+    const needle = sourceText.trim();
+    if (!needle) return undefined;
+    const lowerInstruction = instruction.toLowerCase();
+    const lowerNeedle = needle.toLowerCase();
+    const candidates = [
+        instruction.indexOf(needle, searchFrom),
+        lowerInstruction.indexOf(lowerNeedle, searchFrom),
+        instruction.indexOf(needle),
+        lowerInstruction.indexOf(lowerNeedle),
+    ];
+    const start = candidates.find(index => index !== -1);
+    if (start === undefined) return undefined;
+    const end = start + needle.length;
+    return { start, end, text: instruction.slice(start, end) };
+}
+
+function quoted(value: unknown): string {
+    return `'${String(value)}'`;
+}
+
+/** Describes a step from its tool name and arguments, for tool calls the LLM left undescribed. */
+export function defaultStepDescription(step: Pick<McpToolCall, 'tool_name' | 'arguments'>): string {
+    const args = step.arguments ?? {};
+    const target = args.element ? quoted(args.element) : 'the element';
+    switch (step.tool_name) {
+        case 'browser_navigate':
+            return `Go to ${args.url}`;
+        case 'browser_navigate_back':
+            return 'Go back to the previous page';
+        case 'browser_click':
+            return `Click ${target}`;
+        case 'browser_hover':
+            return `Hover over ${target}`;
+        case 'browser_type':
+            return `Type ${quoted(args.text)} into ${target}${args.submit ? ' and submit' : ''}`;
+        case 'browser_select_option':
+            return `Select ${(Array.isArray(args.values) ? args.values : [args.values]).map(quoted).join(', ')} in ${target}`;
+        case 'browser_press_key':
+            return `Press ${args.key}`;
+        case 'browser_snapshot':
+            return 'Capture the page';
+        case 'browser_wait_for':
+            if (args.text) return `Wait for ${quoted(args.text)} to appear`;
+            if (args.textGone) return `Wait for ${quoted(args.textGone)} to disappear`;
+            return `Wait ${args.time} seconds`;
+        default: {
+            const name = step.tool_name.replace(/^browser_/, '').replace(/_/g, ' ');
+            const details = Object.entries(args).map(([key, value]) => `${key}=${JSON.stringify(value)}`).join(', ');
+            return details ? `${name} (${details})` : name;
+        }
+    }
+}
+
+/**
+ * Turns the LLM's tool calls into steps: strips the annotation arguments, resolves each step's
+ * source text to a span of the instruction and clamps its confidence to [0, 1]. Steps without a
+ * description get one derived from their arguments.
+ */
+export function annotateSteps(instruction: string, calls: LlmToolCall[]): McpToolCall[] {
+    let searchFrom = 0;
+    return calls.map(call => {
+        const {
+            [DESCRIPTION_ARG]: description,
+            [SOURCE_TEXT_ARG]: sourceText,
+            [CONFIDENCE_ARG]: confidence,
+            ...args
+        } = call.input ?? {};
+
+        const step: McpToolCall = { tool_call_id: call.id, tool_name: call.name, arguments: args };
+        step.description = typeof description === 'string' && description.trim()
+            ? description.trim()
+            : defaultStepDescription(step);
+
+        const span = typeof sourceText === 'string' ? locateSourceSpan(instruction, sourceText, searchFrom) : undefined;
+        if (span) {
+            step.source_span = span;
+            searchFrom = span.end;
+        }
+
+        if (typeof confidence === 'number' && Number.isFinite(confidence)) {
+            step.confidence = Math.min(1, Math.max(0, confidence));
+        }
+        return step;
+    });
+}
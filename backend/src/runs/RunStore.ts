@@ -0,0 +1,214 @@
+// backend/src/runs/RunStore.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import type { McpToolCall, SessionMode } from '../orchestrator/Orchestrator';
+
+export type RunStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+/** What happened during a run, in the order it happened. */
+export type RunEventKind = 'transition' | 'toolCall' | 'snapshot' | 'refinement';
+
+export interface RunEvent {
+    kind: RunEventKind;
+    at: number;                // Epoch milliseconds
+    stepIndex: number | null;  // The step the event belongs to, if any
+    data: any;                 // Kind-specific payload (see RunRecorder)
+}
+
+export interface RunSummary {
+    id: string; // The session id
+    instruction: string;
+    mode: SessionMode;
+    status: RunStatus;
+    error: string | null;
+    startedAt: number;
+    endedAt: number | null;
+    stepCount: number;
+    workflowId: string | null;                           // Set for runs of a saved workflow
+    variables: { [name: string]: string | number } | null; // The values the workflow's placeholders were given
+}
+
+export interface RunTranscript extends RunSummary {
+    plan: McpToolCall[];   // The steps as first parsed
+    steps: McpToolCall[];  // The steps as they stood when the run ended (refined, replanned, edited...)
+    events: RunEvent[];
+}
+
+/** Options for listing runs, newest first. */
+export interface RunListOptions {
+    limit?: number;     // Default 50
+    offset?: number;
+    status?: RunStatus;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS runs (
+    id TEXT PRIMARY KEY,
+    instruction TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    status TEXT NOT NULL,
+    error TEXT,
+    started_at INTEGER NOT NULL,
+    ended_at INTEGER,
+    plan TEXT NOT NULL DEFAULT '[]',
+    steps TEXT NOT NULL DEFAULT '[]',
+    workflow_id TEXT,
+    variables TEXT
+);
+CREATE INDEX IF NOT EXISTS runs_started_at ON runs (started_at);
+CREATE TABLE IF NOT EXISTS run_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    at INTEGER NOT NULL,
+    step_index INTEGER,
+    data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS run_events_run_id ON run_events (run_id, id);
+`;
+
+// Columns added after the runs table was first released, created in older databases on open
+const ADDED_RUN_COLUMNS: { [column: string]: string } = {
+    workflow_id: 'TEXT',
+    variables: 'TEXT',
+};
+
+interface RunRow {
+    id: string;
+    instruction: string;
+    mode: SessionMode;
+    status: RunStatus;
+    error: string | null;
+    started_at: number;
+    ended_at: number | null;
+    plan: string;
+    steps: string;
+    workflow_id: string | null;
+    variables: string | null;
+}
+
+function toSummary(row: RunRow): RunSummary {
+    return {
+        id: row.id,
+        instruction: row.instruction,
+        mode: row.mode,
+        status: row.status,
+        error: row.error,
+        startedAt: row.started_at,
+        endedAt: row.ended_at,
+        stepCount: (JSON.parse(row.steps) as McpToolCall[]).length,
+        workflowId: row.workflow_id,
+        variables: row.variables === null ? null : JSON.parse(row.variables),
+    };
+}
+
+/**
+ * Keeps the history of automation sessions ("runs") in an embedded SQLite database so a run can be
+ * inspected after its session has ended: the instruction, the plan, and a transcript of FSM transitions,
+ * tool calls with their requests and responses, snapshots and refinements, each timestamped.
+ * Writes are synchronous (better-sqlite3) and small, so they are made as events happen.
+ */
+export class RunStore {
+    private readonly db: Database.Database;
+
+    /** @param filePath The database file, created if missing; ':memory:' for a throwaway store. */
+    constructor(filePath: string) {
+        if (filePath !== ':memory:') {
+            fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+        }
+        this.db = new Database(filePath);
+        this.db.pragma('journal_mode = WAL');
+        this.db.pragma('foreign_keys = ON');
+        this.db.exec(SCHEMA);
+        const columns = (this.db.prepare('PRAGMA table_info(runs)').all() as { name: string }[]).map(column => column.name);
+        for (const [column, type] of Object.entries(ADDED_RUN_COLUMNS)) {
+            if (!columns.includes(column)) {
+                this.db.exec(`ALTER TABLE runs ADD COLUMN ${column} ${type}`);
+            }
+        }
+    }
+
+    /** Records the start of a run. Starting a run id that already exists replaces it. */
+    public startRun(id: string, instruction: string, mode: SessionMode, at: number = Date.now()): void {
+        this.db.prepare('DELETE FROM runs WHERE id = ?').run(id);
+        this.db.prepare('INSERT INTO runs (id, instruction, mode, status, started_at) VALUES (?, ?, ?, ?, ?)')
+            .run(id, instruction, mode, 'running', at);
+    }
+
+    /** Stores the steps the instruction was parsed into, which are also the run's current steps. */
+    public recordPlan(id: string, steps: McpToolCall[]): void {
+        const json = JSON.stringify(steps);
+        this.db.prepare('UPDATE runs SET plan = ?, steps = ? WHERE id = ?').run(json, json, id);
+    }
+
+    /** Marks a run as a run of a saved workflow, with the values its variables were given. */
+    public recordWorkflow(id: string, workflowId: string, variables: { [name: string]: string | number }): void {
+        this.db.prepare('UPDATE runs SET workflow_id = ?, variables = ? WHERE id = ?').run(workflowId, JSON.stringify(variables), id);
+    }
+
+    /** Stores the run's current steps. */
+    public recordSteps(id: string, steps: McpToolCall[]): void {
+        this.db.prepare('UPDATE runs SET steps = ? WHERE id = ?').run(JSON.stringify(steps), id);
+    }
+
+    /** Appends an event to the run's transcript. Events for unknown runs are ignored. */
+    public recordEvent(id: string, event: RunEvent): void {
+        this.db.prepare(`INSERT INTO run_events (run_id, kind, at, step_index, data)
+            SELECT ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM runs WHERE id = ?)`)
+            .run(id, event.kind, event.at, event.stepIndex, JSON.stringify(event.data ?? null), id);
+    }
+
+    /** Marks a running run as ended. Runs that already ended keep their outcome. */
+    public finishRun(id: string, status: Exclude<RunStatus, 'running'>, error: string | null = null, at: number = Date.now()): void {
+        this.db.prepare(`UPDATE runs SET status = ?, error = ?, ended_at = ? WHERE id = ? AND status = 'running'`)
+            .run(status, error, at, id);
+    }
+
+    /** Lists runs, newest first. */
+    public listRuns(options: RunListOptions = {}): RunSummary[] {
+        const limit = Math.max(1, Math.min(options.limit ?? 50, 500));
+        const offset = Math.max(0, options.offset ?? 0);
+        const rows = options.status
+            ? this.db.prepare('SELECT * FROM runs WHERE status = ? ORDER BY started_at DESC, rowid DESC LIMIT ? OFFSET ?').all(options.status, limit, offset)
+            : this.db.prepare('SELECT * FROM runs ORDER BY started_at DESC, rowid DESC LIMIT ? OFFSET ?').all(limit, offset);
+        return (rows as RunRow[]).map(toSummary);
+    }
+
+    /** A run with its plan and full transcript, or null if there is no such run. */
+    public getRun(id: string): RunTranscript | null {
+        const row = this.db.prepare('SELECT * FROM runs WHERE id = ?').get(id) as RunRow | undefined;
+        if (!row) return null;
+        const events = this.db.prepare('SELECT kind, at, step_index, data FROM run_events WHERE run_id = ? ORDER BY id').all(id) as
+            { kind: RunEventKind; at: number; step_index: number | null; data: string }[];
+        return {
+            ...toSummary(row),
+            plan: JSON.parse(row.plan),
+            steps: JSON.parse(row.steps),
+            events: events.map(event => ({ kind: event.kind, at: event.at, stepIndex: event.step_index, data: JSON.parse(event.data) })),
+        };
+    }
+
+    public close(): void {
+        this.db.close();
+    }
+}
+
+/**
+ * The database file configured by RUN_STORE_PATH (default runs.sqlite in the working directory),
+ * which also holds saved workflows.
+ * @returns The path, or null when RUN_STORE_PATH is 'off'.
+ */
+export function loadRunStorePath(env: NodeJS.ProcessEnv = process.env): string | null {
+    const setting = env.RUN_STORE_PATH?.trim() || 'runs.sqlite';
+    return setting.toLowerCase() === 'off' ? null : setting;
+}
+
+/**
+ * Opens the run store configured by RUN_STORE_PATH (see loadRunStorePath).
+ * @returns The store, or null when RUN_STORE_PATH is 'off'.
+ */
+export function openRunStoreFromEnv(env: NodeJS.ProcessEnv = process.env): RunStore | null {
+    const filePath = loadRunStorePath(env);
+    return filePath ? new RunStore(filePath) : null;
+}
@@ -0,0 +1,104 @@
+// backend/src/runs/runRecorder.ts
+import type { OrchestratorEvents } from '../orchestrator/Orchestrator';
+import { OrchestratorEvent, OrchestratorState } from '../orchestrator/fsm';
+import { RunStatus, RunStore } from './RunStore';
+
+// Events after which a session that returns to IDLE was stopped rather than finished
+const STOPPING_EVENTS = new Set<OrchestratorEvent | null>([
+    OrchestratorEvent.CANCEL_SESSION, OrchestratorEvent.REJECT_STEP, OrchestratorEvent.REJECT_REPLAN,
+]);
+
+// The part of an Orchestrator the recorder listens to
+export interface RunSource {
+    on<K extends keyof OrchestratorEvents>(event: K, listener: OrchestratorEvents[K]): unknown;
+    off<K extends keyof OrchestratorEvents>(event: K, listener: OrchestratorEvents[K]): unknown;
+}
+
+function errorText(error: any): string | null {
+    if (error === null || error === undefined) return null;
+    if (typeof error === 'string') return error;
+    return error.message ?? JSON.stringify(error);
+}
+
+/**
+ * Records one session of an Orchestrator as a run in the store: its start, the parsed plan, every FSM
+ * transition, tool call, snapshot and refinement, and how it ended. Stops listening once the run has ended.
+ *
+ * @param runId The session id the run is stored under.
+ * @returns A function that stops recording early.
+ */
+export function recordRun(store: RunStore, runId: string, orchestrator: RunSource): () => void {
+    let started = false;
+
+    // A failing store must not take the session down with it
+    const safely = <A extends any[]>(listener: (...args: A) => void) => (...args: A) => {
+        try {
+            listener(...args);
+        } catch (err: any) {
+            console.error(`[RunRecorder] Failed to record run ${runId}:`, err?.message ?? err);
+        }
+    };
+
+    const onStarted: OrchestratorEvents['started'] = safely(({ instruction, mode }) => {
+        store.startRun(runId, instruction, mode);
+        started = true;
+    });
+
+    const onTransition: OrchestratorEvents['transition'] = safely((transition, context) => {
+        if (!started) return;
+        const at = Date.now();
+        store.recordEvent(runId, {
+            kind: 'transition',
+            at,
+            stepIndex: transition.stepIndex,
+            data: { ...transition, lastError: errorText(transition.lastError) },
+        });
+        if (transition.event === OrchestratorEvent.PARSING_COMPLETE) {
+            store.recordPlan(runId, [...context.steps]);
+        } else if (context.steps.length > 0) {
+            // Steps change as they are refined, replanned, edited or auto-approved; the FSM clears them on IDLE
+            store.recordSteps(runId, [...context.steps]);
+        }
+
+        // Any event that leads to IDLE or ERROR ends the session
+        const ended = transition.event !== null
+            && (transition.state === OrchestratorState.IDLE || transition.state === OrchestratorState.ERROR);
+        if (ended) {
+            const status: Exclude<RunStatus, 'running'> = transition.state === OrchestratorState.ERROR
+                ? 'failed'
+                : STOPPING_EVENTS.has(transition.event) ? 'cancelled' : 'completed';
+            store.finishRun(runId, status, errorText(transition.lastError ?? context.lastError), at);
+            stop();
+        }
+    });
+
+    const onToolCall: OrchestratorEvents['toolCall'] = safely(call => {
+        if (!started) return;
+        store.recordEvent(runId, { kind: 'toolCall', at: call.startedAt, stepIndex: call.stepIndex, data: call });
+    });
+
+    const onSnapshot: OrchestratorEvents['snapshot'] = safely((snapshot, stepIndex) => {
+        if (!started) return;
+        store.recordEvent(runId, { kind: 'snapshot', at: Date.now(), stepIndex, data: { snapshot } });
+    });
+
+    const onStepRefined: OrchestratorEvents['stepRefined'] = safely((stepIndex, before, after) => {
+        if (!started) return;
+        store.recordEvent(runId, { kind: 'refinement', at: Date.now(), stepIndex, data: { before: before.arguments, after: after.arguments } });
+    });
+
+    const stop = () => {
+        orchestrator.off('started', onStarted);
+        orchestrator.off('transition', onTransition);
+        orchestrator.off('toolCall', onToolCall);
+        orchestrator.off('snapshot', onSnapshot);
+        orchestrator.off('stepRefined', onStepRefined);
+    };
+
+    orchestrator.on('started', onStarted);
+    orchestrator.on('transition', onTransition);
+    orchestrator.on('toolCall', onToolCall);
+    orchestrator.on('snapshot', onSnapshot);
+    orchestrator.on('stepRefined', onStepRefined);
+    return stop;
+}
@@ -1,8 +1,21 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
-import { Orchestrator } from './orchestrator/Orchestrator';
-import { OrchestratorState } from './orchestrator/fsm';
-import { OrchestratorEvent } from './orchestrator/fsm';
+import { Orchestrator, SessionMode } from './orchestrator/Orchestrator';
+import { FsmContext, FsmTransition } from './orchestrator/fsm';
+import { loadRetryPolicyFromEnv } from './orchestrator/retryPolicy';
+import { loadPlanningPolicyFromEnv } from './orchestrator/planningPolicy';
+import { SessionRegistry, SessionLimitError, loadMaxConcurrentSessionsFromEnv } from './orchestrator/SessionRegistry';
+import { PlanEdit, PlanEditError } from './orchestrator/planEditor';
+import { ConfirmationPolicy, ConfirmationPolicyError, parseConfirmationPolicy } from './orchestrator/confirmationPolicy';
+import { listInteractiveElements } from './snapshot/ariaSnapshot';
+import { RunStatus, openRunStoreFromEnv } from './runs/RunStore';
+import { recordRun } from './runs/runRecorder';
+import { exportPlaywrightSpec } from './export/playwrightSpec';
+import { WorkflowError, checkWorkflowSteps, openWorkflowStoreFromEnv } from './workflows/WorkflowStore';
+import { workflowFromRun } from './workflows/fromRun';
+import { WorkflowVariables, applyVariables, fillTemplate, validateVariables } from './workflows/template';
+import { RecordingFormat, RecordingImportError, importRecording } from './import/recording';
+import { loadMcpTransportSetting, loadMcpStdioCommand } from './mcp/transport';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -10,18 +23,30 @@ const PORT = process.env.PORT || 3000;
 // --- Environment Variables --- 
 // const MCP_SERVER_WS_URL = process.env.MCP_SERVER_WS; // Get MCP URL from environment
 // const MCP_SERVER_SSE_URL = process.env.MCP_SERVER_SSE_URL; // Get MCP SSE URL from environment
-const MCP_SERVER_BASE_URL = process.env.MCP_SERVER_BASE_URL; // Get MCP base URL from environment
+const MCP_SERVER_BASE_URL = process.env.MCP_SERVER_BASE_URL || null; // Get MCP base URL from environment
+const MCP_TRANSPORT = loadMcpTransportSetting(); // MCP_TRANSPORT: auto (default), sse, streamable-http or stdio
 
+// Without a URL the backend launches the MCP server itself over stdio (MCP_TRANSPORT auto or stdio)
 // if (!MCP_SERVER_WS_URL) {
-if (!MCP_SERVER_BASE_URL) {
+if (!MCP_SERVER_BASE_URL && (MCP_TRANSPORT === 'sse' || MCP_TRANSPORT === 'streamable-http')) {
     // console.error('Error: MCP_SERVER_WS environment variable is not set.');
-    console.error('Error: MCP_SERVER_BASE_URL environment variable is not set.');
+    console.error(`Error: MCP_SERVER_BASE_URL environment variable is not set (required for MCP_TRANSPORT=${MCP_TRANSPORT}).`);
     process.exit(1); // Exit if MCP URL is missing
 }
 
-// --- Instantiate Orchestrator (Singleton for simplicity) ---
-// const orchestrator = new Orchestrator(MCP_SERVER_WS_URL);
-const orchestrator = new Orchestrator(MCP_SERVER_BASE_URL); // Pass base URL
+// Upper bound on sessions running at the same time (each one holds its own MCP connection/browser)
+const MAX_CONCURRENT_SESSIONS = loadMaxConcurrentSessionsFromEnv();
+
+// --- Session Registry (one Orchestrator per session) ---
+const sessions = new SessionRegistry(MCP_SERVER_BASE_URL, MAX_CONCURRENT_SESSIONS, {
+    retryPolicy: loadRetryPolicyFromEnv(),
+    mcpTransport: MCP_TRANSPORT,
+    planningPolicy: loadPlanningPolicyFromEnv(),
+});
+
+// --- Run history (SQLite file at RUN_STORE_PATH, or off) ---
+const runStore = openRunStoreFromEnv();
+const workflowStore = openWorkflowStoreFromEnv();
 
 // --- Middleware ---
 // Enable CORS for all origins (adjust for production if needed)
@@ -38,6 +63,52 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 
 // --- Routes ---
 
+/**
+ * Looks up the session named by the `:id` route parameter.
+ * Sends a 404 and returns undefined if the session is unknown or has been pruned.
+ */
+function findSession(req: Request, res: Response): Orchestrator | undefined {
+  const orchestrator = sessions.get(req.params.id);
+  if (!orchestrator) {
+    console.warn(`Unknown session id: ${req.params.id}`);
+    res.status(404).json({ error: `Session '${req.params.id}' not found` });
+  }
+  return orchestrator;
+}
+
+/**
+ * Creates a session for `route` and starts recording it in the run history (if enabled).
+ * Sends a 429 (or 500) and returns undefined if no session can be created.
+ */
+function createSession(res: Response, route: string): { sessionId: string; orchestrator: Orchestrator; stopRecording: (() => void) | null } | undefined {
+  let sessionId: string;
+  let orchestrator: Orchestrator;
+  try {
+    ({ id: sessionId, orchestrator } = sessions.create());
+  } catch (error: any) {
+    if (error instanceof SessionLimitError) {
+      console.warn(`Rejecting ${route}: concurrent session limit reached.`);
+      res.status(429).json({ error: 'Too many concurrent sessions', details: error.message });
+      return undefined;
+    }
+    console.error('Error creating session', { err: error });
+    res.status(500).json({ error: 'Failed to create session', details: error.message });
+    return undefined;
+  }
+  const stopRecording = runStore ? recordRun(runStore, sessionId, orchestrator) : null;
+  return { sessionId, orchestrator, stopRecording };
+}
+
+/**
+ * Prepares FSM context for the UI: browser_snapshot steps are internal and never shown.
+ */
+function toUiContext(context: Readonly<FsmContext>): FsmContext {
+  return {
+    ...context,
+    steps: context.steps.filter(step => step.tool_name !== 'browser_snapshot')
+  };
+}
+
 // Root route for basic health check
 app.get('/', (req: Request, res: Response) => {
   res.status(200).json({ message: 'Backend server is running' });
@@ -53,36 +124,70 @@ app.post('/api/parse', async (req: Request, res: Response) => {
     return res.status(400).json({ error: 'Missing or invalid \'instruction\' in request body' });
   }
 
+  // Optional: which steps the user confirms by hand (see confirmationPolicy.ts); every step by default
+  let confirmationPolicy: ConfirmationPolicy;
+  try {
+    confirmationPolicy = parseConfirmationPolicy(req.body.confirmationPolicy);
+  } catch (error: any) {
+    if (error instanceof ConfirmationPolicyError) {
+      console.warn(`Invalid request to /api/parse: ${error.message}`);
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  // Optional: 'plan' (default) parses the instruction up front, 'agent' chooses one action at a time
+  const mode: SessionMode = req.body.mode ?? 'plan';
+  if (mode !== 'plan' && mode !== 'agent') {
+    console.warn(`Invalid request to /api/parse: unknown mode ${JSON.stringify(req.body.mode)}.`);
+    return res.status(400).json({ error: 'Invalid \'mode\': expected "plan" or "agent"' });
+  }
+
   // logger.info(`Received instruction to parse and start session: "${instruction}"`);
   console.log(`Received instruction to parse and start session: "${instruction}"`);
 
+  const created = createSession(res, '/api/parse');
+  if (!created) return;
+  const { sessionId, orchestrator, stopRecording } = created;
+
   try {
     // Call orchestrator to start the session and parse
-    const result = await orchestrator.startSession(instruction);
+    const result = await orchestrator.startSession(instruction, confirmationPolicy, mode);
     // Return the parsed steps for the UI to display in the modal
     // logger.info('Session started and instruction parsed successfully.');
     console.log('Session started and instruction parsed successfully.');
+    if (mode === 'plan' && result.steps.length === 0) {
+      // The parser found no steps (or the LLM was unavailable); the orchestrator has already closed the session
+      runStore?.finishRun(sessionId, 'failed', 'The instruction could not be parsed into any steps');
+      stopRecording?.();
+      sessions.remove(sessionId);
+    }
     // Filter out browser_snapshot steps before sending to UI
     const filteredSteps = result.steps.filter(step => step.tool_name !== 'browser_snapshot');
-    res.status(200).json({ steps: filteredSteps }); 
+    res.status(200).json({ sessionId, mode, steps: filteredSteps }); 
 
   } catch (error: any) {
     // logger.error({ err: error, instruction }, 'Error during instruction parsing/session start');
     console.error('Error during instruction parsing/session start', { err: error, instruction });
+    runStore?.finishRun(sessionId, 'failed', error.message);
+    sessions.remove(sessionId);
     // Determine appropriate status code based on error type if needed
     res.status(500).json({ error: 'Failed to parse instruction or start session', details: error.message });
   }
 });
 
 // API route for confirming a step
-app.post('/api/confirm', (req: Request, res: Response) => {
+app.post('/api/sessions/:id/confirm', (req: Request, res: Response) => {
+    const orchestrator = findSession(req, res);
+    if (!orchestrator) return;
+
     const { stepId } = req.body;
 
     if (!stepId || typeof stepId !== 'string') {
         // return res.status(400).json({ error: 'Missing or invalid \'stepId\' in request body' });
         // For now, let's proceed even without stepId as FSM doesn't strictly need it
         // logger.warn("[/api/confirm] Received confirmation without a stepId.");
-        console.warn("[/api/confirm] Received confirmation without a stepId.");
+        console.warn("[/api/sessions/:id/confirm] Received confirmation without a stepId.");
     }
 
     try {
@@ -92,6 +197,10 @@ app.post('/api/confirm', (req: Request, res: Response) => {
         console.log('Step confirmation processed.');
         res.status(202).json({ message: 'Confirmation received, processing.' }); 
     } catch (error: any) {
+        if (error instanceof PlanEditError) {
+            console.warn(`Refused confirmation: ${error.message}`, error.problems);
+            return res.status(409).json({ error: error.message, problems: error.problems });
+        }
         // logger.error({ err: error }, 'Error confirming step');
         console.error('Error confirming step', { err: error });
         res.status(500).json({ error: 'Failed to confirm step', details: error.message });
@@ -99,7 +208,10 @@ app.post('/api/confirm', (req: Request, res: Response) => {
 });
 
 // API route for rejecting the current step sequence
-app.post('/api/reject', (req: Request, res: Response) => {
+app.post('/api/sessions/:id/reject', (req: Request, res: Response) => {
+    const orchestrator = findSession(req, res);
+    if (!orchestrator) return;
+
     try {
         // orchestrator.rejectSteps();
         orchestrator.handleRejectStep(); // Use the new public method
@@ -113,8 +225,113 @@ app.post('/api/reject', (req: Request, res: Response) => {
     }
 });
 
+// API route for accepting the replacement steps proposed after a failed step
+app.post('/api/sessions/:id/replan/accept', (req: Request, res: Response) => {
+    const orchestrator = findSession(req, res);
+    if (!orchestrator) return;
+
+    try {
+        orchestrator.handleAcceptReplan();
+        // logger.info('Replan accepted.');
+        console.log('Replan accepted.');
+        res.status(202).json({ message: 'Replan accepted, continuing.' });
+    } catch (error: any) {
+        // logger.error({ err: error }, 'Error accepting replan');
+        console.error('Error accepting replan', { err: error });
+        res.status(409).json({ error: 'Failed to accept replan', details: error.message });
+    }
+});
+
+// API route for rejecting the proposed replacement steps (ends the session)
+app.post('/api/sessions/:id/replan/reject', (req: Request, res: Response) => {
+    const orchestrator = findSession(req, res);
+    if (!orchestrator) return;
+
+    try {
+        orchestrator.handleRejectReplan();
+        // logger.info('Replan rejected.');
+        console.log('Replan rejected.');
+        res.status(200).json({ message: 'Replan rejected. Session ended.' });
+    } catch (error: any) {
+        // logger.error({ err: error }, 'Error rejecting replan');
+        console.error('Error rejecting replan', { err: error });
+        res.status(500).json({ error: 'Failed to reject replan', details: error.message });
+    }
+});
+
+// HTTP status for each reason a plan edit can be refused
+const PLAN_EDIT_STATUS: Record<PlanEditError['reason'], number> = { invalid: 400, not_found: 404, locked: 409 };
+
+/**
+ * Applies a plan edit to the session named by `:id` and responds with the updated steps
+ * (without browser_snapshot steps). Refused edits get 400/404/409 with the schema problems, if any.
+ */
+function handlePlanEdit(req: Request, res: Response, edit: PlanEdit) {
+    const orchestrator = findSession(req, res);
+    if (!orchestrator) return;
+
+    try {
+        const steps = orchestrator.editPlan(edit);
+        // logger.info(`Plan edit (${edit.type}) applied.`);
+        console.log(`Plan edit (${edit.type}) applied.`);
+        res.status(200).json({ steps: steps.filter(step => step.tool_name !== 'browser_snapshot') });
+    } catch (error: any) {
+        if (error instanceof PlanEditError) {
+            console.warn(`Refused plan edit (${edit.type}): ${error.message}`, error.problems);
+            return res.status(PLAN_EDIT_STATUS[error.reason]).json({ error: error.message, problems: error.problems });
+        }
+        // logger.error({ err: error }, 'Error editing plan');
+        console.error('Error editing plan', { err: error });
+        res.status(500).json({ error: 'Failed to edit plan', details: error.message });
+    }
+}
+
+// API route listing the MCP tools (with input schemas) available for editing steps
+app.get('/api/sessions/:id/tools', (req: Request, res: Response) => {
+    const orchestrator = findSession(req, res);
+    if (!orchestrator) return;
+    res.status(200).json({ tools: orchestrator.getTools() });
+});
+
+// API route listing the elements of the latest page snapshot that steps can act on
+app.get('/api/sessions/:id/elements', (req: Request, res: Response) => {
+    const orchestrator = findSession(req, res);
+    if (!orchestrator) return;
+    const snapshot = orchestrator.getPageSnapshot();
+    const elements = snapshot ? listInteractiveElements(snapshot).map(({ role, name, ref, states }) => ({ role, name, ref, states })) : [];
+    res.status(200).json({ url: snapshot?.url ?? null, title: snapshot?.title ?? null, elements });
+});
+
+// API route for editing a pending step: its arguments, its tool or its description
+app.patch('/api/sessions/:id/steps/:stepId', (req: Request, res: Response) => {
+    const { tool_name, arguments: args, description } = req.body ?? {};
+    handlePlanEdit(req, res, { type: 'update', stepId: req.params.stepId, changes: { tool_name, arguments: args, description } });
+});
+
+// API route for inserting a step before `beforeStepId`, or at the end of the plan
+app.post('/api/sessions/:id/steps', (req: Request, res: Response) => {
+    const { tool_name, arguments: args, description, beforeStepId } = req.body ?? {};
+    if (!tool_name || typeof tool_name !== 'string') {
+        return res.status(400).json({ error: 'Missing or invalid \'tool_name\' in request body' });
+    }
+    handlePlanEdit(req, res, { type: 'insert', step: { tool_name, arguments: args ?? {}, description }, beforeStepId });
+});
+
+// API route for deleting a pending step
+app.delete('/api/sessions/:id/steps/:stepId', (req: Request, res: Response) => {
+    handlePlanEdit(req, res, { type: 'delete', stepId: req.params.stepId });
+});
+
+// API route for moving a pending step before `beforeStepId`, or to the end of the plan
+app.post('/api/sessions/:id/steps/:stepId/move', (req: Request, res: Response) => {
+    handlePlanEdit(req, res, { type: 'move', stepId: req.params.stepId, beforeStepId: req.body?.beforeStepId });
+});
+
 // API route for cancelling the session (e.g., Stop button)
-app.post('/api/cancel', (req: Request, res: Response) => {
+app.post('/api/sessions/:id/cancel', (req: Request, res: Response) => {
+    const orchestrator = findSession(req, res);
+    if (!orchestrator) return;
+
      try {
         // orchestrator.cancelSession();
         orchestrator.handleCancelSession(); // Use the new public method
@@ -129,19 +346,18 @@ app.post('/api/cancel', (req: Request, res: Response) => {
 });
 
 // API route to get the current orchestrator status (for polling by UI)
-app.get('/api/status', (req: Request, res: Response) => {
+app.get('/api/sessions/:id/status', (req: Request, res: Response) => {
+    const orchestrator = findSession(req, res);
+    if (!orchestrator) return;
+
     try {
         const status = orchestrator.getStatus(); // Use the new public method
         // logger.info('Status retrieved successfully.');
         console.log('Status retrieved successfully.');
         // Filter out browser_snapshot steps from the context before sending to UI
-        const filteredContextSteps = status.context.steps.filter(step => step.tool_name !== 'browser_snapshot');
         const filteredStatus = {
             ...status,
-            context: {
-                ...status.context,
-                steps: filteredContextSteps
-            }
+            context: toUiContext(status.context)
         };
         res.status(200).json(filteredStatus);
     } catch (error: any) {
@@ -151,6 +367,272 @@ app.get('/api/status', (req: Request, res: Response) => {
     }
 });
 
+// API route streaming every FSM transition of a session as Server-Sent Events
+app.get('/api/sessions/:id/events', (req: Request, res: Response) => {
+    const orchestrator = findSession(req, res);
+    if (!orchestrator) return;
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+    });
+
+    const send = (transition: FsmTransition, context: Readonly<FsmContext>) => {
+        res.write(`data: ${JSON.stringify({ ...transition, context: toUiContext(context) })}\n\n`);
+    };
+
+    // Start the stream with the current state so late subscribers don't miss it
+    const status = orchestrator.getStatus();
+    send({
+        previousState: null,
+        state: status.state,
+        event: null,
+        stepIndex: status.context.currentStepIndex,
+        lastError: status.context.lastError,
+        autoApprovedBy: null,
+        summary: null,
+    }, status.context);
+
+    let heartbeatId: NodeJS.Timeout | null = null;
+    const close = () => {
+        if (heartbeatId) clearInterval(heartbeatId);
+        orchestrator.off('transition', onTransition);
+        res.end();
+    };
+    const onTransition = (transition: FsmTransition, context: Readonly<FsmContext>) => {
+        send(transition, context);
+        // The orchestrator resets after the transition that ends the session; close the stream once it has
+        setImmediate(() => {
+            if (!orchestrator.isActive) {
+                console.log(`[/api/sessions/${req.params.id}/events] Session ended. Closing stream.`);
+                close();
+            }
+        });
+    };
+
+    if (!orchestrator.isActive) {
+        close();
+        return;
+    }
+
+    orchestrator.on('transition', onTransition);
+    // Comment lines keep proxies from closing an idle stream
+    heartbeatId = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+    req.on('close', close);
+});
+
+// API route listing past and running sessions, newest first (?limit, ?offset, ?status)
+app.get('/api/runs', (req: Request, res: Response) => {
+    if (!runStore) {
+        return res.status(404).json({ error: 'Run history is disabled (RUN_STORE_PATH=off)' });
+    }
+    const status = typeof req.query.status === 'string' ? req.query.status as RunStatus : undefined;
+    if (status && !['running', 'completed', 'cancelled', 'failed'].includes(status)) {
+        return res.status(400).json({ error: `Unknown run status '${status}'` });
+    }
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : undefined;
+    const offset = req.query.offset ? parseInt(String(req.query.offset), 10) : undefined;
+    res.status(200).json({ runs: runStore.listRuns({ limit: limit || undefined, offset: offset || undefined, status }) });
+});
+
+// API route returning one run with its plan and transcript (transitions, tool calls, snapshots, refinements)
+app.get('/api/runs/:id', (req: Request, res: Response) => {
+    if (!runStore) {
+        return res.status(404).json({ error: 'Run history is disabled (RUN_STORE_PATH=off)' });
+    }
+    const run = runStore.getRun(req.params.id);
+    if (!run) {
+        return res.status(404).json({ error: `Run '${req.params.id}' not found` });
+    }
+    res.status(200).json(run);
+});
+
+// API route exporting a completed run as a standalone @playwright/test spec file
+app.get('/api/runs/:id/playwright', (req: Request, res: Response) => {
+    if (!runStore) {
+        return res.status(404).json({ error: 'Run history is disabled (RUN_STORE_PATH=off)' });
+    }
+    const run = runStore.getRun(req.params.id);
+    if (!run) {
+        return res.status(404).json({ error: `Run '${req.params.id}' not found` });
+    }
+    if (run.status !== 'completed') {
+        return res.status(409).json({ error: `Only completed runs can be exported; run '${run.id}' is ${run.status}` });
+    }
+    res.status(200)
+        .type('application/typescript')
+        .attachment(`run-${run.id.slice(0, 8)}.spec.ts`)
+        .send(exportPlaywrightSpec(run));
+});
+
+// Workflows share the run history's database; both are off with RUN_STORE_PATH=off
+function requireWorkflowStore(res: Response) {
+    if (!workflowStore) {
+        res.status(404).json({ error: 'Workflows are disabled (RUN_STORE_PATH=off)' });
+    }
+    return workflowStore;
+}
+
+// HTTP status for each reason a workflow request can be refused
+const WORKFLOW_ERROR_STATUS: Record<WorkflowError['reason'], number> = { invalid: 400, not_found: 404, conflict: 409 };
+
+/**
+ * API route saving a named workflow, either from the steps of a completed run ({ name, runId, variables? },
+ * where variables maps placeholder names to values of the run they replace) or as written
+ * ({ name, instruction, steps }, with `{{name}}` placeholders).
+ */
+app.post('/api/workflows', (req: Request, res: Response) => {
+    const store = requireWorkflowStore(res);
+    if (!store) return;
+    const { name, runId, instruction } = req.body;
+    if (typeof name !== 'string' || (typeof runId !== 'string' && typeof instruction !== 'string')) {
+        return res.status(400).json({ error: 'Expected \'name\' and either \'runId\' or \'instruction\' and \'steps\' in request body' });
+    }
+    try {
+        let workflow;
+        if (typeof runId === 'string') {
+            const run = runStore?.getRun(runId);
+            if (!run) {
+                throw new WorkflowError(`Run '${runId}' not found`, 'not_found');
+            }
+            const template = workflowFromRun(run, req.body.variables ?? {});
+            workflow = store.saveWorkflow(name, template.instruction, template.steps, run.id);
+        } else {
+            workflow = store.saveWorkflow(name, instruction, checkWorkflowSteps(req.body.steps));
+        }
+        // logger.info(`Saved workflow '${workflow.name}' (${workflow.id}) with variables [${workflow.variables.join(', ')}].`);
+        console.log(`Saved workflow '${workflow.name}' (${workflow.id}) with variables [${workflow.variables.join(', ')}].`);
+        res.status(201).json(workflow);
+    } catch (error: any) {
+        if (error instanceof WorkflowError) {
+            console.warn(`Refused to save workflow: ${error.message}`, error.problems);
+            return res.status(WORKFLOW_ERROR_STATUS[error.reason]).json({ error: error.message, problems: error.problems });
+        }
+        console.error('Error saving workflow', { err: error });
+        res.status(500).json({ error: 'Failed to save workflow', details: error.message });
+    }
+});
+
+// API route listing saved workflows by name
+app.get('/api/workflows', (req: Request, res: Response) => {
+    const store = requireWorkflowStore(res);
+    if (!store) return;
+    res.status(200).json({ workflows: store.listWorkflows() });
+});
+
+// API route returning one workflow with its steps
+app.get('/api/workflows/:id', (req: Request, res: Response) => {
+    const store = requireWorkflowStore(res);
+    if (!store) return;
+    const workflow = store.getWorkflow(req.params.id);
+    if (!workflow) {
+        return res.status(404).json({ error: `Workflow '${req.params.id}' not found` });
+    }
+    res.status(200).json(workflow);
+});
+
+// API route deleting a workflow
+app.delete('/api/workflows/:id', (req: Request, res: Response) => {
+    const store = requireWorkflowStore(res);
+    if (!store) return;
+    if (!store.deleteWorkflow(req.params.id)) {
+        return res.status(404).json({ error: `Workflow '${req.params.id}' not found` });
+    }
+    res.status(204).end();
+});
+
+// API route starting a session that runs a workflow's steps without parsing ({ variables, confirmationPolicy? })
+app.post('/api/workflows/:id/run', async (req: Request, res: Response) => {
+    const store = requireWorkflowStore(res);
+    if (!store) return;
+    const workflow = store.getWorkflow(req.params.id);
+    if (!workflow) {
+        return res.status(404).json({ error: `Workflow '${req.params.id}' not found` });
+    }
+
+    const problems = validateVariables(workflow.variables, req.body?.variables);
+    if (problems.length > 0) {
+        console.warn(`Refused to run workflow '${workflow.name}': invalid variables`, problems);
+        return res.status(400).json({ error: 'Invalid workflow variables', problems });
+    }
+    const variables: WorkflowVariables = req.body?.variables ?? {};
+
+    let confirmationPolicy: ConfirmationPolicy;
+    try {
+        confirmationPolicy = parseConfirmationPolicy(req.body?.confirmationPolicy);
+    } catch (error: any) {
+        if (error instanceof ConfirmationPolicyError) {
+            console.warn(`Invalid request to /api/workflows/:id/run: ${error.message}`);
+            return res.status(400).json({ error: error.message });
+        }
+        throw error;
+    }
+
+    // logger.info(`Running workflow '${workflow.name}' (${workflow.stepCount} steps).`);
+    console.log(`Running workflow '${workflow.name}' (${workflow.stepCount} steps).`);
+    const created = createSession(res, '/api/workflows/:id/run');
+    if (!created) return;
+    const { sessionId, orchestrator } = created;
+
+    try {
+        const result = await orchestrator.startSessionWithSteps(
+            fillTemplate(workflow.instruction, variables), applyVariables(workflow.steps, variables), confirmationPolicy);
+        runStore?.recordWorkflow(sessionId, workflow.id, variables);
+        const filteredSteps = result.steps.filter(step => step.tool_name !== 'browser_snapshot');
+        res.status(200).json({ sessionId, mode: 'plan', workflowId: workflow.id, steps: filteredSteps });
+    } catch (error: any) {
+        console.error('Error starting workflow session', { err: error, workflowId: workflow.id });
+        runStore?.finishRun(sessionId, 'failed', error.message);
+        sessions.remove(sessionId);
+        res.status(500).json({ error: 'Failed to start workflow session', details: error.message });
+    }
+});
+
+// Import a Playwright codegen script or a Chrome DevTools Recorder JSON export and run it as a plan
+const RECORDING_FORMATS: RecordingFormat[] = ['playwright', 'chrome-recorder'];
+
+app.post('/api/import', async (req: Request, res: Response) => {
+    const { source, format } = req.body ?? {};
+    if (typeof source !== 'string' || !source.trim()) {
+        return res.status(400).json({ error: 'Request body must include a non-empty "source" string' });
+    }
+    if (format !== undefined && !RECORDING_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `"format" must be one of: ${RECORDING_FORMATS.join(', ')}` });
+    }
+
+    let confirmationPolicy: ConfirmationPolicy;
+    let plan: ReturnType<typeof importRecording>;
+    try {
+        confirmationPolicy = parseConfirmationPolicy(req.body?.confirmationPolicy);
+        plan = importRecording(source, format);
+    } catch (error: any) {
+        if (error instanceof ConfirmationPolicyError || error instanceof RecordingImportError) {
+            console.warn(`Invalid request to /api/import: ${error.message}`);
+            return res.status(400).json({ error: error.message, problems: error instanceof RecordingImportError ? error.problems : [] });
+        }
+        throw error;
+    }
+
+    // logger.info(`Importing a ${plan.format} recording (${plan.steps.length} steps, ${plan.warnings.length} left out).`);
+    console.log(`Importing a ${plan.format} recording (${plan.steps.length} steps, ${plan.warnings.length} left out).`);
+    const created = createSession(res, '/api/import');
+    if (!created) return;
+    const { sessionId, orchestrator } = created;
+
+    try {
+        const result = await orchestrator.startSessionWithSteps(plan.instruction, plan.steps, confirmationPolicy);
+        // Filter out browser_snapshot steps before sending to UI
+        const filteredSteps = result.steps.filter(step => step.tool_name !== 'browser_snapshot');
+        res.status(200).json({ sessionId, mode: 'plan', format: plan.format, warnings: plan.warnings, steps: filteredSteps });
+    } catch (error: any) {
+        console.error('Error starting imported session', { err: error, format: plan.format });
+        runStore?.finishRun(sessionId, 'failed', error.message);
+        sessions.remove(sessionId);
+        res.status(500).json({ error: 'Failed to start imported session', details: error.message });
+    }
+});
+
 // --- Error Handling Middleware (optional but recommended) ---
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
   // logger.error({ err: err }, 'Unhandled error');
@@ -158,11 +640,19 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
   res.status(500).json({ error: 'Internal Server Error' });
 });
 
-// --- Start Server ---
-app.listen(PORT, () => {
+// --- Start Server (only when run directly; tests import the app and its registry) ---
+export { app, sessions };
+
+if (require.main === module) app.listen(PORT, () => {
   // logger.info(`Backend server listening on port ${PORT}`);
   console.log(`Backend server listening on port ${PORT}`);
   // logger.info(`Connecting to MCP Server at: ${MCP_SERVER_WS_URL}`);
   // logger.info(`Connecting to MCP Server (Base URL for calls: ${MCP_SERVER_BASE_URL})`); // Update log message
-  console.log(`Connecting to MCP Server (Base URL for calls: ${MCP_SERVER_BASE_URL})`);
+  if (MCP_SERVER_BASE_URL && MCP_TRANSPORT !== 'stdio') {
+    console.log(`Connecting to MCP Server (Base URL for calls: ${MCP_SERVER_BASE_URL}, transport: ${MCP_TRANSPORT})`);
+  } else {
+    const { command, args } = loadMcpStdioCommand();
+    console.log(`Launching an MCP server per session over stdio: ${command} ${args.join(' ')}`);
+  }
+  console.log(`Allowing up to ${MAX_CONCURRENT_SESSIONS} concurrent sessions`);
 }); 
\ No newline at end of file
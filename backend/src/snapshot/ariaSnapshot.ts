@@ -0,0 +1,207 @@
+// backend/src/snapshot/ariaSnapshot.ts
+
+/**
+ * One element of a Playwright-MCP accessibility snapshot, e.g. `- button "Add to cart" [ref=e12]`.
+ */
+export interface AriaNode {
+    role: string;                                  // ARIA role, or 'text' for a plain text line
+    name: string;                                  // Accessible name; empty if the element has none
+    ref: string | null;                            // The `[ref=...]` handle MCP tools take, if any
+    states: { [state: string]: string | true };    // Other bracketed attributes: [checked], [level=2], [cursor=pointer]...
+    text: string | null;                           // Inline value after the colon (text content, input value)
+    props: { [prop: string]: string };             // Child properties such as `- /url: /cart`, keyed without the slash
+    children: AriaNode[];
+}
+
+/**
+ * A parsed snapshot: the page it was taken on and its element tree.
+ */
+export interface AriaSnapshot {
+    url: string | null;
+    title: string | null;
+    nodes: AriaNode[]; // Top-level elements, in document order
+}
+
+// Roles a user can act on (click, type, select...)
+const INTERACTIVE_ROLES = new Set([
+    'button', 'link', 'textbox', 'searchbox', 'checkbox', 'radio', 'switch', 'combobox', 'listbox', 'option',
+    'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab', 'slider', 'spinbutton', 'treeitem',
+]);
+
+/** Whether a tool result text carries a page snapshot (Playwright-MCP prefixes it with "- Page Snapshot"). */
+export function isPageSnapshot(text: string | null | undefined): boolean {
+    return !!text && text.includes('- Page Snapshot');
+}
+
+// Reads a YAML scalar that may be single- or double-quoted
+function unquote(value: string): string {
+    if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+        return value.slice(1, -1).replace(/''/g, "'");
+    }
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value.slice(1, -1);
+        }
+    }
+    return value;
+}
+
+// Splits a list item into its key (`role "name" [attrs]`) and what follows the colon, honouring quotes
+function splitItem(item: string): { key: string; value: string | null } {
+    if (item.startsWith("'")) {
+        // The whole key is quoted when it contains YAML special characters: 'link "a: b" [ref=e1]': value
+        let end = 1;
+        while (end < item.length) {
+            if (item[end] === "'" && item[end + 1] === "'") { end += 2; continue; }
+            if (item[end] === "'") break;
+            end++;
+        }
+        const key = unquote(item.slice(0, end + 1));
+        const rest = item.slice(end + 1).trim();
+        return { key, value: rest.startsWith(':') ? rest.slice(1).trim() : null };
+    }
+    let inName = false;
+    for (let i = 0; i < item.length; i++) {
+        const char = item[i];
+        if (char === '\\' && inName) { i++; continue; }
+        if (char === '"') inName = !inName;
+        if (char === ':' && !inName && (i === item.length - 1 || item[i + 1] === ' ')) {
+            return { key: item.slice(0, i).trim(), value: item.slice(i + 1).trim() };
+        }
+    }
+    return { key: item.trim(), value: null };
+}
+
+// Parses `role "name" [ref=e1] [checked]` into a node without children
+function parseKey(key: string): AriaNode {
+    const node: AriaNode = { role: '', name: '', ref: null, states: {}, text: null, props: {}, children: [] };
+    const roleMatch = key.match(/^[^\s"[]+/);
+    node.role = roleMatch ? roleMatch[0] : key;
+    let rest = key.slice(node.role.length).trim();
+
+    if (rest.startsWith('"')) {
+        let end = 1;
+        while (end < rest.length && rest[end] !== '"') {
+            end += rest[end] === '\\' ? 2 : 1;
+        }
+        node.name = unquote(rest.slice(0, end + 1));
+        rest = rest.slice(end + 1).trim();
+    }
+
+    const attributePattern = /\[([^\]]*)\]/g;
+    let attributeMatch: RegExpExecArray | null;
+    while ((attributeMatch = attributePattern.exec(rest)) !== null) {
+        const attribute = attributeMatch[1];
+        const separator = attribute.indexOf('=');
+        if (separator === -1) {
+            node.states[attribute] = true;
+        } else if (attribute.slice(0, separator) === 'ref') {
+            node.ref = attribute.slice(separator + 1);
+        } else {
+            node.states[attribute.slice(0, separator)] = attribute.slice(separator + 1);
+        }
+    }
+    return node;
+}
+
+// Picks the YAML lines out of an MCP tool result; bare YAML is returned as is
+function snapshotLines(text: string): { url: string | null; title: string | null; lines: string[] } {
+    const allLines = text.split(/\r?\n/);
+    const header = (label: string) => {
+        const line = allLines.find(candidate => candidate.startsWith(`- ${label}:`));
+        return line ? line.slice(label.length + 3).trim() || null : null;
+    };
+    const start = allLines.findIndex(line => line.trim().startsWith('- Page Snapshot'));
+    let lines = start === -1 ? allLines : allLines.slice(start + 1);
+    if (lines[0]?.trim().startsWith('```')) {
+        const fenceEnd = lines.findIndex((line, index) => index > 0 && line.trim().startsWith('```'));
+        lines = lines.slice(1, fenceEnd === -1 ? undefined : fenceEnd);
+    }
+    return { url: header('Page URL'), title: header('Page Title'), lines };
+}
+
+/**
+ * Parses Playwright-MCP's YAML-like accessibility snapshot into a tree of elements. Accepts either the
+ * text of a tool result (with its "- Page URL"/"- Page Title" header and fenced YAML) or the YAML alone.
+ * Lines that are not list items are skipped, so unexpected input yields a partial tree rather than an error.
+ */
+export function parseAriaSnapshot(text: string): AriaSnapshot {
+    const { url, title, lines } = snapshotLines(text);
+    const nodes: AriaNode[] = [];
+    const stack: { indent: number; node: AriaNode }[] = [];
+
+    for (const line of lines) {
+        const match = line.match(/^(\s*)- (.*)$/);
+        if (!match) continue;
+        const indent = match[1].length;
+        const { key, value } = splitItem(match[2].trim());
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+            stack.pop();
+        }
+        const parent = stack.length > 0 ? stack[stack.length - 1].node : null;
+
+        // `- /url: /cart` describes the parent element rather than being one
+        if (key.startsWith('/')) {
+            if (parent) parent.props[key.slice(1)] = unquote(value ?? '');
+            continue;
+        }
+
+        const node = parseKey(key);
+        if (value) node.text = unquote(value);
+        (parent ? parent.children : nodes).push(node);
+        stack.push({ indent, node });
+    }
+    return { url, title, nodes };
+}
+
+/** All elements of the snapshot, depth first in document order. */
+export function flattenAriaTree(snapshot: AriaSnapshot): AriaNode[] {
+    const result: AriaNode[] = [];
+    const visit = (node: AriaNode) => {
+        result.push(node);
+        node.children.forEach(visit);
+    };
+    snapshot.nodes.forEach(visit);
+    return result;
+}
+
+/** Maps every ref in the snapshot to its element. */
+export function buildRefIndex(snapshot: AriaSnapshot): Map<string, AriaNode> {
+    const index = new Map<string, AriaNode>();
+    for (const node of flattenAriaTree(snapshot)) {
+        if (node.ref) index.set(node.ref, node);
+    }
+    return index;
+}
+
+/** The element with the given ref, or null if the snapshot has none (e.g. the ref went stale). */
+export function findByRef(snapshot: AriaSnapshot, ref: string): AriaNode | null {
+    return buildRefIndex(snapshot).get(ref) ?? null;
+}
+
+/**
+ * Elements with the given role and, optionally, a matching accessible name. Like Playwright's
+ * getByRole, a string name matches case-insensitively as a substring; use a RegExp for anything stricter.
+ */
+export function findByRole(snapshot: AriaSnapshot, role: string, name?: string | RegExp): AriaNode[] {
+    return flattenAriaTree(snapshot).filter(node => {
+        if (node.role !== role) return false;
+        if (name === undefined) return true;
+        return typeof name === 'string' ? node.name.toLowerCase().includes(name.toLowerCase()) : name.test(node.name);
+    });
+}
+
+/** Elements a step can act on: those with a ref and an interactive role or a pointer cursor. */
+export function listInteractiveElements(snapshot: AriaSnapshot): AriaNode[] {
+    return flattenAriaTree(snapshot).filter(node =>
+        node.ref !== null && (INTERACTIVE_ROLES.has(node.role) || node.states.cursor === 'pointer'));
+}
+
+/** One-line description of an element in snapshot syntax, e.g. `button "Checkout" [ref=e40]`. */
+export function formatAriaNode(node: AriaNode): string {
+    const name = node.name ? ` ${JSON.stringify(node.name)}` : '';
+    const ref = node.ref ? ` [ref=${node.ref}]` : '';
+    return `${node.role}${name}${ref}`;
+}
@@ -0,0 +1,162 @@
+// backend/src/snapshot/compress.ts
+import { AriaNode, AriaSnapshot, parseAriaSnapshot } from './ariaSnapshot';
+
+export interface SnapshotCompressionOptions {
+    query: string;                          // What the prompt is about, e.g. a step's description and arguments
+    maxTokens: number;                      // Budget for the returned text
+    countTokens: (text: string) => number;  // Token count for the provider the prompt goes to
+}
+
+// Words that say nothing about which element a step targets
+const STOP_WORDS = new Set(['the', 'an', 'and', 'or', 'to', 'of', 'on', 'in', 'for', 'with', 'into', 'at', 'by', 'from', 'unknown', 'browser']);
+
+// Most relevant nodes tried before giving up on fitting more into the budget
+const MAX_CANDIDATES = 50;
+
+function terms(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+function nodeTerms(node: AriaNode): Set<string> {
+    const text = [node.role, node.name, node.text ?? '', node.ref ?? '', ...Object.values(node.props)].join(' ');
+    return new Set(terms(text));
+}
+
+// `role "name" [state] [ref=e1]: text`, the way Playwright-MCP writes an element
+function renderLine(node: AriaNode): string {
+    let line = node.role;
+    if (node.name) line += ` ${JSON.stringify(node.name)}`;
+    for (const [state, value] of Object.entries(node.states)) {
+        line += value === true ? ` [${state}]` : ` [${state}=${value}]`;
+    }
+    if (node.ref) line += ` [ref=${node.ref}]`;
+    if (node.text !== null) line += `: ${node.text}`;
+    return line;
+}
+
+function countDescendants(nodes: AriaNode[], roles: Map<string, number>): number {
+    let count = 0;
+    for (const node of nodes) {
+        roles.set(node.role, (roles.get(node.role) ?? 0) + 1);
+        count += 1 + countDescendants(node.children, roles);
+    }
+    return count;
+}
+
+// One line standing in for elements that were left out, naming their most common roles
+function summaryLine(nodes: AriaNode[]): string {
+    const roles = new Map<string, number>();
+    const count = countDescendants(nodes, roles);
+    const topRoles = Array.from(roles.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([role, roleCount]) => `${roleCount} ${role}`);
+    return `... ${count} more element${count === 1 ? '' : 's'} (${topRoles.join(', ')}${roles.size > 3 ? ', ...' : ''})`;
+}
+
+function render(nodes: AriaNode[], kept: Set<AriaNode>, indent: string, out: string[]): void {
+    let skipped: AriaNode[] = [];
+    const flushSkipped = () => {
+        if (skipped.length > 0) out.push(`${indent}- ${summaryLine(skipped)}`);
+        skipped = [];
+    };
+    for (const node of nodes) {
+        if (!kept.has(node)) {
+            skipped.push(node);
+            continue;
+        }
+        flushSkipped();
+        const hasContent = node.children.length > 0 || Object.keys(node.props).length > 0;
+        out.push(`${indent}- ${renderLine(node)}${hasContent && node.text === null ? ':' : ''}`);
+        for (const [prop, value] of Object.entries(node.props)) {
+            out.push(`${indent}  - /${prop}: ${value}`);
+        }
+        render(node.children, kept, `${indent}  `, out);
+    }
+    flushSkipped();
+}
+
+function renderSnapshot(snapshot: AriaSnapshot, kept: Set<AriaNode>): string {
+    const out: string[] = [];
+    if (snapshot.url) out.push(`- Page URL: ${snapshot.url}`);
+    if (snapshot.title) out.push(`- Page Title: ${snapshot.title}`);
+    render(snapshot.nodes, kept, '', out);
+    return out.join('\n');
+}
+
+// Cuts text that is still over budget (e.g. a snapshot that could not be parsed)
+function cutToBudget(text: string, options: SnapshotCompressionOptions): string {
+    if (options.countTokens(text) <= options.maxTokens) {
+        return text;
+    }
+    const marker = '\n... (truncated)';
+    let length = text.length;
+    while (length > 0 && options.countTokens(text.slice(0, length) + marker) > options.maxTokens) {
+        length = Math.floor(length * 0.9);
+    }
+    return text.slice(0, length) + marker;
+}
+
+/**
+ * Shrinks a page snapshot to fit a token budget, keeping what matters for the query. Elements are
+ * scored by the query words they share (rare words weigh more, so a ref or a product name beats
+ * "button"); the best ones are kept together with their ancestors and siblings, best first, for as
+ * long as the result fits. Everything else collapses into "... N more elements" summary lines.
+ *
+ * @returns The snapshot unchanged if it already fits, otherwise its compressed rendering.
+ */
+export function compressSnapshot(snapshot: string, options: SnapshotCompressionOptions): string {
+    if (options.countTokens(snapshot) <= options.maxTokens) {
+        return snapshot;
+    }
+    const parsed = parseAriaSnapshot(snapshot);
+    if (parsed.nodes.length === 0) {
+        return cutToBudget(snapshot, options);
+    }
+
+    const parents = new Map<AriaNode, AriaNode | null>();
+    const allNodes: AriaNode[] = [];
+    const visit = (node: AriaNode, parent: AriaNode | null) => {
+        parents.set(node, parent);
+        allNodes.push(node);
+        node.children.forEach(child => visit(child, node));
+    };
+    parsed.nodes.forEach(node => visit(node, null));
+
+    // Inverse document frequency of each word over the page's elements
+    const termsByNode = new Map(allNodes.map(node => [node, nodeTerms(node)] as [AriaNode, Set<string>]));
+    const documentFrequency = new Map<string, number>();
+    termsByNode.forEach(nodeTermSet => nodeTermSet.forEach(term => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)));
+    const queryTerms = new Set(terms(options.query));
+    const score = (node: AriaNode) => {
+        let total = 0;
+        queryTerms.forEach(term => {
+            if (termsByNode.get(node)!.has(term)) total += Math.log(1 + allNodes.length / documentFrequency.get(term)!);
+        });
+        return total;
+    };
+    const candidates = allNodes
+        .map(node => ({ node, score: score(node) }))
+        .filter(candidate => candidate.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_CANDIDATES);
+
+    // The top level always stays, as the outline of the page
+    let kept = new Set<AriaNode>(parsed.nodes);
+    let best = renderSnapshot(parsed, kept);
+    for (const { node } of candidates) {
+        const next = new Set(kept);
+        for (let current: AriaNode | null = node; current; current = parents.get(current) ?? null) {
+            next.add(current);
+        }
+        const parent = parents.get(node);
+        (parent ? parent.children : parsed.nodes).forEach(sibling => next.add(sibling));
+        const rendered = renderSnapshot(parsed, next);
+        if (options.countTokens(rendered) > options.maxTokens) {
+            continue; // A later, smaller neighbourhood may still fit
+        }
+        kept = next;
+        best = rendered;
+    }
+    return cutToBudget(best, options);
+}
@@ -42,4 +42,64 @@ export interface Event {
 /**
  * Union type for all possible MCP messages.
  */
-export type McpMessage = Call | Result | Error | Event; 
\ No newline at end of file
+export type McpMessage = Call | Result | Error | Event; 
+/**
+ * Capabilities an MCP server declares in its initialize response.
+ * Only the parts the orchestrator acts on are typed; the rest is passed through as-is.
+ */
+export interface McpServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: {};
+  [capability: string]: unknown;
+}
+
+/**
+ * The result of the MCP initialize handshake: the negotiated protocol version and what the server offers.
+ */
+export interface McpInitializeResult {
+  protocolVersion: string;
+  capabilities: McpServerCapabilities;
+  serverInfo?: { name: string; version: string };
+  instructions?: string; // Optional usage hints from the server
+}
+
+/**
+ * A tool offered by an MCP server (an entry of the tools/list result).
+ */
+export interface McpToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema: any; // Ideally, use a more specific JSON schema type
+}
+
+/**
+ * A resource offered by an MCP server (an entry of the resources/list result).
+ */
+export interface McpResourceDefinition {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * One content item of a tool result. Playwright-MCP answers with 'text' items; images carry base64 data.
+ */
+export interface McpContent {
+  type: 'text' | 'image' | 'audio' | 'resource' | string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * The result of tools/call. `isError` marks a tool that ran but failed (as opposed to a JSON-RPC error).
+ */
+export interface McpToolCallResult {
+  content: McpContent[];
+  isError?: boolean;
+  [key: string]: unknown;
+}
@@ -0,0 +1,172 @@
+// backend/src/workflows/WorkflowStore.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import type { McpToolCall } from '../orchestrator/Orchestrator';
+import { loadRunStorePath } from '../runs/RunStore';
+import { templateVariables } from './template';
+
+/**
+ * Thrown when a workflow cannot be saved, found or run: the request, its source run or its variables
+ * are unusable ('invalid'), the workflow or run does not exist ('not_found'), or the name is taken ('conflict').
+ */
+export class WorkflowError extends Error {
+    constructor(
+        message: string,
+        public readonly reason: 'invalid' | 'not_found' | 'conflict',
+        public readonly problems: string[] = []
+    ) {
+        super(message);
+        this.name = 'WorkflowError';
+    }
+}
+
+export interface WorkflowSummary {
+    id: string;
+    name: string;
+    instruction: string;         // The instruction of the run the workflow was saved from, with placeholders
+    sourceRunId: string | null;
+    createdAt: number;
+    stepCount: number;
+    variables: string[];         // Names of the `{{name}}` placeholders a run must give values for
+}
+
+export interface Workflow extends WorkflowSummary {
+    steps: McpToolCall[];        // Ready to replay: element refs are `<UNKNOWN>` (see workflowFromRun)
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS workflows (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    instruction TEXT NOT NULL,
+    source_run_id TEXT,
+    created_at INTEGER NOT NULL,
+    steps TEXT NOT NULL
+);
+`;
+
+interface WorkflowRow {
+    id: string;
+    name: string;
+    instruction: string;
+    source_run_id: string | null;
+    created_at: number;
+    steps: string;
+}
+
+function toWorkflow(row: WorkflowRow): Workflow {
+    const steps = JSON.parse(row.steps) as McpToolCall[];
+    return {
+        id: row.id,
+        name: row.name,
+        instruction: row.instruction,
+        sourceRunId: row.source_run_id,
+        createdAt: row.created_at,
+        stepCount: steps.length,
+        variables: templateVariables(row.instruction, steps),
+        steps,
+    };
+}
+
+/**
+ * Checks the steps of a workflow written by hand: each needs a `tool_name` and an `arguments` object.
+ * @returns Copies of the steps without run-specific fields (ids, auto-approvals, schema problems).
+ * @throws WorkflowError ('invalid') with the problems found.
+ */
+export function checkWorkflowSteps(steps: unknown): McpToolCall[] {
+    if (!Array.isArray(steps)) {
+        throw new WorkflowError('Expected \'steps\' to be an array of tool calls', 'invalid');
+    }
+    const problems: string[] = [];
+    steps.forEach((step, index) => {
+        if (typeof step?.tool_name !== 'string' || !step.tool_name) {
+            problems.push(`Step ${index + 1} needs a 'tool_name'`);
+        }
+        if (typeof step?.arguments !== 'object' || step.arguments === null || Array.isArray(step.arguments)) {
+            problems.push(`Step ${index + 1} needs an 'arguments' object`);
+        }
+    });
+    if (problems.length > 0) {
+        throw new WorkflowError('Invalid workflow steps', 'invalid', problems);
+    }
+    return steps.map(({ tool_name, arguments: args, description }) => ({
+        tool_name,
+        arguments: args,
+        ...(typeof description === 'string' ? { description } : {}),
+    }));
+}
+
+/**
+ * Keeps named workflows (step lists saved from successful runs, or written by hand) in SQLite, next to
+ * the run history, so the same steps can be run again without parsing the instruction. Steps and
+ * instruction may hold `{{name}}` placeholders that each run fills in (see template.ts).
+ */
+export class WorkflowStore {
+    private readonly db: Database.Database;
+
+    /** @param filePath The database file, created if missing; ':memory:' for a throwaway store. */
+    constructor(filePath: string) {
+        if (filePath !== ':memory:') {
+            fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+        }
+        this.db = new Database(filePath);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(SCHEMA);
+    }
+
+    /**
+     * Saves a workflow under a new id.
+     * @throws WorkflowError ('invalid') without a name or steps, ('conflict') if the name is taken.
+     */
+    public saveWorkflow(name: string, instruction: string, steps: McpToolCall[], sourceRunId: string | null = null, at: number = Date.now()): Workflow {
+        const trimmedName = name.trim();
+        if (!trimmedName) {
+            throw new WorkflowError('A workflow needs a name', 'invalid');
+        }
+        if (steps.length === 0) {
+            throw new WorkflowError('A workflow needs at least one step', 'invalid');
+        }
+        if (this.db.prepare('SELECT 1 FROM workflows WHERE name = ?').get(trimmedName)) {
+            throw new WorkflowError(`A workflow named '${trimmedName}' already exists`, 'conflict');
+        }
+        const id = randomUUID();
+        this.db.prepare('INSERT INTO workflows (id, name, instruction, source_run_id, created_at, steps) VALUES (?, ?, ?, ?, ?, ?)')
+            .run(id, trimmedName, instruction, sourceRunId, at, JSON.stringify(steps));
+        return this.getWorkflow(id)!;
+    }
+
+    /** Lists workflows by name. */
+    public listWorkflows(): WorkflowSummary[] {
+        const rows = this.db.prepare('SELECT * FROM workflows ORDER BY name').all() as WorkflowRow[];
+        return rows.map(row => {
+            const { steps, ...summary } = toWorkflow(row);
+            return summary;
+        });
+    }
+
+    /** A workflow with its steps, or null if there is no such workflow. */
+    public getWorkflow(id: string): Workflow | null {
+        const row = this.db.prepare('SELECT * FROM workflows WHERE id = ?').get(id) as WorkflowRow | undefined;
+        return row ? toWorkflow(row) : null;
+    }
+
+    /** @returns false if there was no such workflow. */
+    public deleteWorkflow(id: string): boolean {
+        return this.db.prepare('DELETE FROM workflows WHERE id = ?').run(id).changes > 0;
+    }
+
+    public close(): void {
+        this.db.close();
+    }
+}
+
+/**
+ * Opens the workflow store, which shares the run history's database (RUN_STORE_PATH).
+ * @returns The store, or null when RUN_STORE_PATH is 'off'.
+ */
+export function openWorkflowStoreFromEnv(env: NodeJS.ProcessEnv = process.env): WorkflowStore | null {
+    const filePath = loadRunStorePath(env);
+    return filePath ? new WorkflowStore(filePath) : null;
+}
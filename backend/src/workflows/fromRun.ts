@@ -0,0 +1,60 @@
+// backend/src/workflows/fromRun.ts
+import type { McpToolCall } from '../orchestrator/Orchestrator';
+import type { RunTranscript } from '../runs/RunStore';
+import { WorkflowError } from './WorkflowStore';
+import { WorkflowVariables, isVariableName, parameterize, parameterizeSteps, templateVariables } from './template';
+
+// Arguments holding element refs of the page a step ran on (browser_drag has one per end)
+const REF_ARGUMENTS = new Set(['ref', 'startRef', 'endRef']);
+
+/**
+ * Turns a completed run into a workflow's instruction and steps. The steps are taken as they ended up
+ * (refined, edited, replanned), minus what only applied to that run (auto-approvals, schema problems).
+ * Arguments that only hold for the page the run saw go back to `<UNKNOWN>`, so they are resolved
+ * against a fresh snapshot when the workflow runs: every element ref, and every argument the parsed plan
+ * left `<UNKNOWN>`.
+ *
+ * @param variables Values of the run to turn into `{{name}}` placeholders, e.g. { item: 'Espresso' }.
+ * @throws WorkflowError ('invalid') if the run did not complete or has no steps, or a value is unusable.
+ */
+export function workflowFromRun(run: RunTranscript, variables: WorkflowVariables = {}): { instruction: string; steps: McpToolCall[] } {
+    if (run.status !== 'completed') {
+        throw new WorkflowError(`Only completed runs can be saved as workflows; run '${run.id}' is ${run.status}`, 'invalid');
+    }
+    const planned = new Map(run.plan.map(step => [step.tool_call_id, step] as [string | undefined, McpToolCall]));
+    const steps = run.steps.map(step => {
+        const { auto_approved_by, validation_errors, tool_call_id, ...rest } = step;
+        const plannedArguments = planned.get(tool_call_id)?.arguments ?? {};
+        const args: { [key: string]: any } = {};
+        for (const [name, value] of Object.entries(step.arguments)) {
+            args[name] = REF_ARGUMENTS.has(name) || plannedArguments[name] === '<UNKNOWN>' ? '<UNKNOWN>' : value;
+        }
+        return { ...rest, arguments: args };
+    });
+    if (steps.length === 0) {
+        throw new WorkflowError(`Run '${run.id}' has no steps to save`, 'invalid');
+    }
+
+    const problems: string[] = [];
+    for (const [name, value] of Object.entries(variables)) {
+        if (!isVariableName(name)) {
+            problems.push(`'${name}' is not a valid variable name (letters, digits and _, not starting with a digit)`);
+        } else if ((typeof value !== 'string' && typeof value !== 'number') || String(value) === '') {
+            problems.push(`Variable '${name}' must be a non-empty string or a number`);
+        }
+    }
+    if (problems.length === 0) {
+        const instruction = parameterize(run.instruction, variables);
+        const templateSteps = parameterizeSteps(steps, variables);
+        const used = templateVariables(instruction, templateSteps);
+        for (const [name, value] of Object.entries(variables)) {
+            if (!used.includes(name)) {
+                problems.push(`The value of variable '${name}' (${JSON.stringify(value)}) does not appear in the run`);
+            }
+        }
+        if (problems.length === 0) {
+            return { instruction, steps: templateSteps };
+        }
+    }
+    throw new WorkflowError('Invalid workflow variables', 'invalid', problems);
+}
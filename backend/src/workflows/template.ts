@@ -0,0 +1,150 @@
+// backend/src/workflows/template.ts
+import type { McpToolCall } from '../orchestrator/Orchestrator';
+
+/** Values for a workflow's `{{name}}` placeholders. */
+export type WorkflowVariables = { [name: string]: string | number };
+
+// `{{item}}` or `{{ item }}`; names are identifiers
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}$/;
+
+/** True for names a placeholder can use: letters, digits and _, not starting with a digit. */
+export function isVariableName(name: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+}
+
+function hasValue(variables: WorkflowVariables, name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(variables, name);
+}
+
+function placeholdersIn(text: string, names: string[]): void {
+    const pattern = new RegExp(PLACEHOLDER.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        if (!names.includes(match[1])) names.push(match[1]);
+    }
+}
+
+// Copies an argument value with every string in it (nested objects and arrays included) mapped,
+// and every number too when `mapNumber` is given
+function mapStrings(value: any, map: (text: string) => any, mapNumber: (num: number) => any = num => num): any {
+    if (typeof value === 'string') {
+        return map(value);
+    }
+    if (typeof value === 'number') {
+        return mapNumber(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => mapStrings(item, map, mapNumber));
+    }
+    if (value !== null && typeof value === 'object') {
+        const mapped: { [key: string]: any } = {};
+        for (const [key, item] of Object.entries(value)) mapped[key] = mapStrings(item, map, mapNumber);
+        return mapped;
+    }
+    return value;
+}
+
+// Copies steps with their descriptions and argument strings (and numbers, with `mapNumber`) mapped
+function mapStepStrings(
+    steps: McpToolCall[],
+    mapDescription: (text: string) => string,
+    mapArgument: (text: string) => any,
+    mapNumber?: (num: number) => any
+): McpToolCall[] {
+    return steps.map(step => ({
+        ...step,
+        ...(step.description !== undefined ? { description: mapDescription(step.description) } : {}),
+        arguments: mapStrings(step.arguments, mapArgument, mapNumber),
+    }));
+}
+
+/**
+ * Lists the variables a workflow uses, in order of first use: placeholders in its instruction,
+ * its steps' descriptions and any string in their arguments (`url`, `text`, `element`...).
+ */
+export function templateVariables(instruction: string, steps: McpToolCall[]): string[] {
+    const names: string[] = [];
+    placeholdersIn(instruction, names);
+    for (const step of steps) {
+        if (step.description) placeholdersIn(step.description, names);
+        mapStrings(step.arguments, text => placeholdersIn(text, names));
+    }
+    return names;
+}
+
+/**
+ * Checks the values given for a run against the variables the workflow uses.
+ * @param provided The request's variables map (anything; only string and number values are accepted).
+ * @returns The problems found (missing, unknown or non-text values); empty when the values are usable.
+ */
+export function validateVariables(required: string[], provided: unknown): string[] {
+    if (provided === undefined || provided === null) {
+        provided = {};
+    }
+    if (typeof provided !== 'object' || Array.isArray(provided)) {
+        return ['variables must be an object mapping names to values'];
+    }
+    const values = provided as { [name: string]: unknown };
+    const problems: string[] = [];
+    for (const name of required) {
+        if (!Object.prototype.hasOwnProperty.call(values, name)) {
+            problems.push(`Missing variable '${name}'`);
+        } else if (typeof values[name] !== 'string' && typeof values[name] !== 'number') {
+            problems.push(`Variable '${name}' must be a string or a number`);
+        }
+    }
+    for (const name of Object.keys(values)) {
+        if (!required.includes(name)) {
+            problems.push(`Unknown variable '${name}'`);
+        }
+    }
+    return problems;
+}
+
+/** Replaces the placeholders in a text; placeholders without a value are left as they are. */
+export function fillTemplate(text: string, variables: WorkflowVariables): string {
+    return text.replace(new RegExp(PLACEHOLDER.source, 'g'), (placeholder, name: string) =>
+        hasValue(variables, name) ? String(variables[name]) : placeholder);
+}
+
+/**
+ * Substitutes the variables into copies of the steps' arguments and descriptions. An argument that is
+ * a single placeholder takes the variable's value as is, so `{{quantity}}` can become a number.
+ */
+export function applyVariables(steps: McpToolCall[], variables: WorkflowVariables): McpToolCall[] {
+    return mapStepStrings(steps, text => fillTemplate(text, variables), text => {
+        const whole = WHOLE_PLACEHOLDER.exec(text);
+        return whole && hasValue(variables, whole[1]) ? variables[whole[1]] : fillTemplate(text, variables);
+    });
+}
+
+/**
+ * The inverse of fillTemplate, for saving a run as a template: replaces each literal value in a text
+ * with its `{{name}}` placeholder, longest values first so one value inside another is not split.
+ * Only whole tokens are replaced: a value next to a letter, digit or _ is part of another word, so
+ * `2` is left alone in `/v2/cart` and `12 cups`.
+ */
+export function parameterize(text: string, values: WorkflowVariables): string {
+    const entries = Object.entries(values)
+        .map(([name, value]) => [name, String(value)] as [string, string])
+        .filter(([, value]) => value.length > 0)
+        .sort((a, b) => b[1].length - a[1].length);
+    if (entries.length === 0) return text;
+    const escaped = entries.map(([, value]) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const pattern = new RegExp(`(^|\\W)(${escaped.join('|')})(?!\\w)`, 'g');
+    return text.replace(pattern, (_match, before: string, literal: string) =>
+        `${before}{{${entries.find(([, value]) => value === literal)![0]}}}`);
+}
+
+/**
+ * Applies parameterize to the steps' descriptions and every string in their arguments. A number
+ * argument equal to a variable's value becomes that placeholder (filled back in as a number).
+ */
+export function parameterizeSteps(steps: McpToolCall[], values: WorkflowVariables): McpToolCall[] {
+    const numberNames = new Map(Object.entries(values).map(([name, value]) => [String(value), name] as [string, string]));
+    return mapStepStrings(steps, text => parameterize(text, values), text => parameterize(text, values), num => {
+        const name = numberNames.get(String(num));
+        return name !== undefined ? `{{${name}}}` : num;
+    });
+}
@@ -0,0 +1,119 @@
+import {
+    parseAriaSnapshot, buildRefIndex, findByRef, findByRole, listInteractiveElements, formatAriaNode, isPageSnapshot,
+} from '../src/snapshot/ariaSnapshot';
+import { compressSnapshot } from '../src/snapshot/compress';
+
+// A tool result as Playwright-MCP returns it after a navigation
+const TOOL_RESULT = [
+    '- Ran Playwright code:',
+    '```js',
+    "await page.goto('https://coffee-cart.app/');",
+    '```',
+    '',
+    '- Page URL: https://coffee-cart.app/',
+    '- Page Title: Coffee cart',
+    '- Page Snapshot',
+    '```yaml',
+    '- banner [ref=e2]:',
+    '  - navigation [ref=e3]:',
+    '    - link "menu page" [ref=e4] [cursor=pointer]:',
+    '      - /url: /',
+    '    - link "cart page" [ref=e5] [cursor=pointer]:',
+    '      - /url: /cart',
+    '- heading "Espresso $10.00" [level=4] [ref=e11]',
+    '- listitem [ref=e12] [cursor=pointer]: Espresso cup',
+    '- checkbox "Promotion" [checked] [ref=e20]',
+    '- textbox "Name" [ref=e21]: Ada',
+    "- 'button \"Total: $0.00\" [ref=e40]'",
+    '- text: Free shipping',
+    '```',
+].join('\n');
+
+describe('ARIA snapshot', () => {
+
+    it('should parse the page header and the element tree', () => {
+        const snapshot = parseAriaSnapshot(TOOL_RESULT);
+
+        expect(snapshot.url).toBe('https://coffee-cart.app/');
+        expect(snapshot.title).toBe('Coffee cart');
+        expect(snapshot.nodes.map(node => node.role)).toEqual(['banner', 'heading', 'listitem', 'checkbox', 'textbox', 'button', 'text']);
+        expect(snapshot.nodes[0].children[0].children[1]).toEqual({
+            role: 'link', name: 'cart page', ref: 'e5', states: { cursor: 'pointer' }, text: null, props: { url: '/cart' }, children: [],
+        });
+        expect(snapshot.nodes[1].states).toEqual({ level: '4' });
+        expect(snapshot.nodes[3].states).toEqual({ checked: true });
+        expect(snapshot.nodes[4].text).toBe('Ada');
+        expect(snapshot.nodes[5]).toMatchObject({ role: 'button', name: 'Total: $0.00', ref: 'e40' });
+        expect(snapshot.nodes[6]).toMatchObject({ role: 'text', name: '', ref: null, text: 'Free shipping' });
+    });
+
+    it('should parse bare snapshot YAML', () => {
+        const snapshot = parseAriaSnapshot('- listitem:\n  - button "Espresso cup" [ref=e12]\n- button "Say \\"hi\\"" [ref=e13]');
+
+        expect(snapshot).toMatchObject({ url: null, title: null });
+        expect(snapshot.nodes[0].children[0]).toMatchObject({ role: 'button', name: 'Espresso cup', ref: 'e12' });
+        expect(snapshot.nodes[1].name).toBe('Say "hi"');
+    });
+
+    it('should index refs and find elements by role and name', () => {
+        const snapshot = parseAriaSnapshot(TOOL_RESULT);
+
+        expect(buildRefIndex(snapshot).size).toBe(9);
+        expect(findByRef(snapshot, 'e21')?.name).toBe('Name');
+        expect(findByRef(snapshot, 'e99')).toBeNull();
+        expect(findByRole(snapshot, 'link').map(node => node.ref)).toEqual(['e4', 'e5']);
+        expect(findByRole(snapshot, 'link', 'CART').map(node => node.ref)).toEqual(['e5']);
+        expect(findByRole(snapshot, 'link', /^menu/).map(node => node.ref)).toEqual(['e4']);
+    });
+
+    it('should list the elements a step can act on', () => {
+        const elements = listInteractiveElements(parseAriaSnapshot(TOOL_RESULT));
+
+        expect(elements.map(formatAriaNode)).toEqual([
+            'link "menu page" [ref=e4]',
+            'link "cart page" [ref=e5]',
+            'listitem [ref=e12]',
+            'checkbox "Promotion" [ref=e20]',
+            'textbox "Name" [ref=e21]',
+            'button "Total: $0.00" [ref=e40]',
+        ]);
+    });
+
+    it('should recognize tool results that carry a snapshot', () => {
+        expect(isPageSnapshot(TOOL_RESULT)).toBe(true);
+        expect(isPageSnapshot('Clicked the button')).toBe(false);
+        expect(isPageSnapshot(undefined)).toBe(false);
+    });
+
+    describe('compressSnapshot', () => {
+
+        // A long product list with the target in the middle, where truncating the middle would drop it
+        const products = Array.from({ length: 200 }, (_, i) => `  - listitem [ref=p${i}]:\n    - heading "Product ${i}" [level=3] [ref=h${i}]\n    - button "Add to cart" [ref=b${i}]`);
+        const BIG_SNAPSHOT = ['- banner [ref=e1]:', '  - link "Home" [ref=e2]', '- list [ref=e3]:', ...products.slice(0, 100),
+            '  - listitem [ref=target]:', '    - heading "Decaf Mocha" [level=3] [ref=e500]', '    - button "Add Decaf Mocha to cart" [ref=e501]',
+            ...products.slice(100), '- contentinfo [ref=e4]'].join('\n');
+        const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+        it('should return a snapshot that fits unchanged', () => {
+            expect(compressSnapshot(TOOL_RESULT, { query: 'anything', maxTokens: 10000, countTokens })).toBe(TOOL_RESULT);
+        });
+
+        it('should keep the elements matching the step with their ancestors and summarize the rest', () => {
+            const compressed = compressSnapshot(BIG_SNAPSHOT, { query: 'Click the add to cart button of the Decaf Mocha', maxTokens: 400, countTokens });
+
+            expect(countTokens(compressed)).toBeLessThanOrEqual(400);
+            expect(compressed).toContain('- list [ref=e3]:');
+            expect(compressed).toContain('  - listitem [ref=target]:');
+            expect(compressed).toContain('    - button "Add Decaf Mocha to cart" [ref=e501]');
+            expect(compressed).toContain('- contentinfo [ref=e4]');
+            expect(compressed).toMatch(/- \.\.\. \d+ more elements \(/);
+        });
+
+        it('should cut text it cannot parse to the budget', () => {
+            const compressed = compressSnapshot('x'.repeat(4000), { query: 'x', maxTokens: 100, countTokens });
+
+            expect(countTokens(compressed)).toBeLessThanOrEqual(100);
+            expect(compressed).toMatch(/\(truncated\)$/);
+        });
+    });
+});
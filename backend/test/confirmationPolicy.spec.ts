@@ -0,0 +1,119 @@
+import {
+    ConfirmationPolicy, ConfirmationPolicyError, MAX_ELEMENT_PATTERN_LENGTH, decideConfirmation, parseConfirmationPolicy, startingHostOf,
+} from '../src/orchestrator/confirmationPolicy';
+import { OrchestratorFsm, OrchestratorState, OrchestratorEvent } from '../src/orchestrator/fsm';
+import { DEFAULT_RETRY_POLICY } from '../src/orchestrator/retryPolicy';
+import { McpToolCall } from '../src/orchestrator/Orchestrator';
+
+const PLAN: McpToolCall[] = [
+    { tool_call_id: 's1', tool_name: 'browser_navigate', arguments: { url: 'https://www.coffee-cart.app/' } },
+    { tool_call_id: 's2', tool_name: 'browser_click', arguments: { element: 'Espresso cup', ref: 'e12' } },
+    { tool_call_id: 's3', tool_name: 'browser_click', arguments: { element: 'Buy now button', ref: 'e40' } },
+];
+
+// The example from the feature request: confirm typing, risky clicks and leaving the site, run the rest
+const RISKY_STEPS: ConfirmationPolicy = {
+    mode: 'rules',
+    defaultAction: 'approve',
+    rules: [
+        { name: 'typing', tool: 'browser_type' },
+        { name: 'risky click', tool: 'browser_click', elementPattern: 'buy|delete|submit' },
+        { name: 'leaves the site', offStartingDomain: true },
+    ],
+};
+
+describe('Confirmation policy', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('decideConfirmation', () => {
+
+        it('should confirm only the steps a rule matches', () => {
+            const host = startingHostOf(PLAN);
+
+            expect(host).toBe('coffee-cart.app');
+            expect(decideConfirmation(PLAN[0]!, RISKY_STEPS, host)).toEqual({ confirm: false, approvedBy: 'default' });
+            expect(decideConfirmation(PLAN[1]!, RISKY_STEPS, host)).toEqual({ confirm: false, approvedBy: 'default' });
+            expect(decideConfirmation(PLAN[2]!, RISKY_STEPS, host)).toEqual({ confirm: true, rule: 'risky click' });
+            expect(decideConfirmation({ tool_name: 'browser_type', arguments: { element: 'Search', ref: 'e3', text: 'decaf' } }, RISKY_STEPS, host))
+                .toEqual({ confirm: true, rule: 'typing' });
+            expect(decideConfirmation({ tool_name: 'browser_navigate', arguments: { url: 'https://example.com/' } }, RISKY_STEPS, host))
+                .toEqual({ confirm: true, rule: 'leaves the site' });
+        });
+
+        it('should confirm steps no rule matches unless the policy approves them by default', () => {
+            const policy: ConfirmationPolicy = { mode: 'rules', rules: RISKY_STEPS.rules };
+
+            expect(decideConfirmation(PLAN[1]!, policy, null)).toEqual({ confirm: true, rule: null });
+            expect(decideConfirmation(PLAN[1]!, { ...policy, defaultAction: 'confirm' }, null)).toEqual({ confirm: true, rule: null });
+            expect(decideConfirmation(PLAN[1]!, RISKY_STEPS, null)).toEqual({ confirm: false, approvedBy: 'default' });
+        });
+
+        it('should let the first matching rule approve a step', () => {
+            const policy: ConfirmationPolicy = { mode: 'rules', rules: [{ name: 'snapshots', tool: 'browser_snapshot', action: 'approve' }, ...RISKY_STEPS.rules] };
+
+            expect(decideConfirmation({ tool_name: 'browser_snapshot', arguments: {} }, policy, null)).toEqual({ confirm: false, approvedBy: 'snapshots' });
+        });
+
+        it('should always confirm steps with schema problems', () => {
+            const step = { ...PLAN[1]!, validation_errors: ['arguments.ref: is required'] };
+
+            expect(decideConfirmation(step, { mode: 'none', rules: [] }, null)).toEqual({ confirm: true, rule: null });
+        });
+    });
+
+    describe('parseConfirmationPolicy', () => {
+
+        it('should default to confirming every step', () => {
+            expect(parseConfirmationPolicy(undefined)).toEqual({ mode: 'all', rules: [] });
+        });
+
+        it('should refuse malformed policies', () => {
+            expect(() => parseConfirmationPolicy({ mode: 'some' })).toThrow(ConfirmationPolicyError);
+            expect(() => parseConfirmationPolicy({ mode: 'rules', rules: [{ name: 'anything' }] })).toThrow(/at least one of/);
+            expect(() => parseConfirmationPolicy({ mode: 'rules', rules: [{ name: 'bad', elementPattern: '(' }] })).toThrow(/not a valid regular expression/);
+            expect(() => parseConfirmationPolicy({ mode: 'rules', defaultAction: 'skip', rules: [] })).toThrow(/defaultAction/);
+        });
+
+        it('should refuse element patterns that are too long or backtrack catastrophically', () => {
+            const rule = (elementPattern: string) => ({ mode: 'rules', rules: [{ name: 'click', elementPattern }] });
+
+            expect(() => parseConfirmationPolicy(rule('a'.repeat(MAX_ELEMENT_PATTERN_LENGTH + 1)))).toThrow(/at most/);
+            expect(() => parseConfirmationPolicy(rule('(a+)+$'))).toThrow(/must not repeat a group/);
+            expect(() => parseConfirmationPolicy(rule('(\\w*x)*'))).toThrow(/must not repeat a group/);
+            expect(parseConfirmationPolicy(rule('(buy|sell)+ now'))).toEqual({ mode: 'rules', rules: [{ name: 'click', elementPattern: '(buy|sell)+ now' }] });
+        });
+    });
+
+    describe('FSM', () => {
+
+        it('should skip WAIT_CONFIRM for approved steps and record what approved them', () => {
+            const onUpdate = jest.fn();
+            const fsm = new OrchestratorFsm(onUpdate, DEFAULT_RETRY_POLICY, RISKY_STEPS);
+
+            fsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps: PLAN.map(step => ({ ...step })) });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.EXECUTE);
+            expect(fsm.getContext().steps[0]!.auto_approved_by).toBe('default');
+
+            onUpdate.mockClear();
+            fsm.dispatch(OrchestratorEvent.MCP_RESPONSE_RECEIVED, {});
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.EXECUTE);
+            expect(onUpdate).toHaveBeenCalledWith(OrchestratorState.EXECUTE, expect.anything(), expect.objectContaining({
+                previousState: OrchestratorState.EXECUTE,
+                autoApprovedBy: 'default',
+                stepIndex: 1,
+            }));
+
+            fsm.dispatch(OrchestratorEvent.MCP_RESPONSE_RECEIVED, {});
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.WAIT_CONFIRM);
+            expect(fsm.getContext().stepToConfirm).toMatchObject({ tool_call_id: 's3' });
+            expect(fsm.getContext().stepToConfirm!.auto_approved_by).toBeUndefined();
+        });
+    });
+});
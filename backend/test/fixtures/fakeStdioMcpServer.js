@@ -0,0 +1,23 @@
+// Minimal MCP server speaking newline-delimited JSON-RPC over stdio, for StdioTransport tests.
+// The "crash" tool makes the process exit without answering.
+const readline = require('readline');
+
+process.stderr.write('fake MCP server started\n');
+const rl = readline.createInterface({ input: process.stdin });
+const reply = (message) => process.stdout.write(JSON.stringify(message) + '\n');
+
+rl.on('line', (line) => {
+    const message = JSON.parse(line);
+    if (message.id === undefined) return; // Notifications
+    switch (message.method) {
+        case 'initialize':
+            return reply({ jsonrpc: '2.0', id: message.id, result: { protocolVersion: '2025-03-26', capabilities: { tools: {} }, serverInfo: { name: 'fake-stdio', version: '0' } } });
+        case 'tools/list':
+            return reply({ jsonrpc: '2.0', id: message.id, result: { tools: [{ name: 'crash', inputSchema: { type: 'object' } }] } });
+        case 'tools/call':
+            if (message.params.name === 'crash') process.exit(3);
+            return reply({ jsonrpc: '2.0', id: message.id, result: { content: [] } });
+        default:
+            return reply({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Method not found' } });
+    }
+});
@@ -0,0 +1,96 @@
+import { RecordingImportError, detectRecordingFormat, importRecording } from '../src/import/recording';
+
+const CODEGEN_SCRIPT = `import { test, expect } from '@playwright/test';
+
+test('Buy a Mocha', async ({ page }) => {
+  await page.goto('https://coffee-cart.app/');
+  await page.getByRole('listitem').filter({ hasText: 'Mocha' }).getByRole('button', { name: 'Add to cart' }).click();
+  await page.getByLabel('Name').fill("O'Brien");
+  await page.getByLabel('Name').press('Enter');
+  await page.locator('#size').selectOption({ label: 'Large' });
+  await page.getByText(/total/i).first().dblclick();
+  await page.mouse.wheel(0, 400);
+  await expect(page.getByText('Thanks for your order')).toBeVisible();
+  await page
+    .getByRole('link', { name: 'Home' })
+    .click();
+});
+`;
+
+const CHROME_RECORDING = JSON.stringify({
+    title: 'Checkout',
+    steps: [
+        { type: 'setViewport', width: 1280, height: 720, deviceScaleFactor: 1, isMobile: false, hasTouch: false, isLandscape: false },
+        { type: 'navigate', url: 'https://coffee-cart.app/', assertedEvents: [{ type: 'navigation', url: 'https://coffee-cart.app/' }] },
+        { type: 'click', selectors: [['aria/Checkout[role="button"]'], ['#checkout'], ['xpath///*[@id="checkout"]']], offsetX: 5, offsetY: 5 },
+        { type: 'change', value: 'Ada', selectors: [['#name'], ['xpath///*[@id="name"]']] },
+        { type: 'change', value: 'Large', selectors: [['aria/Size[role="combobox"]']] },
+        { type: 'keyDown', key: 'Enter' },
+        { type: 'keyUp', key: 'Enter' },
+        { type: 'scroll', x: 0, y: 300 },
+    ],
+});
+
+describe('Recording import', () => {
+    it('should turn a Playwright codegen script into described element steps', () => {
+        expect(detectRecordingFormat(CODEGEN_SCRIPT)).toBe('playwright');
+        const plan = importRecording(CODEGEN_SCRIPT);
+
+        expect(plan.format).toBe('playwright');
+        expect(plan.steps.map(({ tool_name, arguments: args }) => ({ tool_name, args }))).toEqual([
+            { tool_name: 'browser_navigate', args: { url: 'https://coffee-cart.app/' } },
+            { tool_name: 'browser_click', args: { element: 'button "Add to cart" in listitem containing "Mocha"', ref: '<UNKNOWN>' } },
+            { tool_name: 'browser_type', args: { element: 'field labelled "Name"', ref: '<UNKNOWN>', text: "O'Brien", submit: true } },
+            { tool_name: 'browser_select_option', args: { element: 'element matching #size', ref: '<UNKNOWN>', values: ['Large'] } },
+            { tool_name: 'browser_click', args: { element: 'first text /total/', ref: '<UNKNOWN>', doubleClick: true } },
+            { tool_name: 'browser_wait_for', args: { text: 'Thanks for your order' } },
+            { tool_name: 'browser_click', args: { element: 'link "Home"', ref: '<UNKNOWN>' } },
+        ]);
+        expect(plan.steps.every(step => typeof step.description === 'string' && step.description.length > 0)).toBe(true);
+        expect(plan.instruction.startsWith('Buy a Mocha: ')).toBe(true);
+        expect(plan.warnings).toEqual(['Line 10 was left out: the browser tools have no equivalent for await page.mouse.wheel(0, 400);']);
+    });
+
+    it('should only merge Enter into typing when it goes to the field that was filled', () => {
+        const plan = importRecording(`
+  await page.getByLabel('Search').fill('Mocha');
+  await page.keyboard.press('Enter');
+  await page.getByLabel('Name').fill('Ada');
+  await page.getByRole('button', { name: 'Go' }).press('Enter');
+  await page.getByLabel('Name').press('Tab');
+`);
+
+        expect(plan.steps.map(({ tool_name, arguments: args }) => ({ tool_name, args }))).toEqual([
+            { tool_name: 'browser_type', args: { element: 'field labelled "Search"', ref: '<UNKNOWN>', text: 'Mocha', submit: true } },
+            { tool_name: 'browser_type', args: { element: 'field labelled "Name"', ref: '<UNKNOWN>', text: 'Ada' } },
+            { tool_name: 'browser_click', args: { element: 'button "Go"', ref: '<UNKNOWN>' } },
+            { tool_name: 'browser_press_key', args: { key: 'Enter' } },
+            { tool_name: 'browser_click', args: { element: 'field labelled "Name"', ref: '<UNKNOWN>' } },
+            { tool_name: 'browser_press_key', args: { key: 'Tab' } },
+        ]);
+    });
+
+    it('should turn a Chrome Recorder export into steps, leaving out the ones without an equivalent', () => {
+        expect(detectRecordingFormat(CHROME_RECORDING)).toBe('chrome-recorder');
+        const plan = importRecording(CHROME_RECORDING);
+
+        expect(plan.format).toBe('chrome-recorder');
+        expect(plan.steps.map(({ tool_name, arguments: args }) => ({ tool_name, args }))).toEqual([
+            { tool_name: 'browser_resize', args: { width: 1280, height: 720 } },
+            { tool_name: 'browser_navigate', args: { url: 'https://coffee-cart.app/' } },
+            { tool_name: 'browser_click', args: { element: 'button "Checkout"', ref: '<UNKNOWN>' } },
+            { tool_name: 'browser_type', args: { element: 'element matching #name', ref: '<UNKNOWN>', text: 'Ada' } },
+            { tool_name: 'browser_select_option', args: { element: 'combobox "Size"', ref: '<UNKNOWN>', values: ['Large'] } },
+            { tool_name: 'browser_press_key', args: { key: 'Enter' } },
+        ]);
+        expect(plan.instruction.startsWith('Checkout: ')).toBe(true);
+        expect(plan.warnings).toEqual(['Step 8 (scroll) was left out: the browser tools have no equivalent']);
+    });
+
+    it('should reject sources that are neither format or have no runnable steps', () => {
+        expect(() => importRecording('Buy a Mocha')).toThrow(RecordingImportError);
+        expect(() => importRecording(JSON.stringify({ title: 'Empty', steps: [{ type: 'scroll' }] }))).toThrow(
+            expect.objectContaining({ problems: ['Step 1 (scroll) was left out: the browser tools have no equivalent'] }));
+        expect(() => importRecording("await page.goto('https://coffee-cart.app/'")).toThrow(/Line 1 of the script could not be read/);
+    });
+});
@@ -0,0 +1,48 @@
+import { loadLlmConfig, DEFAULT_MODELS, loadSnapshotTokenBudget, DEFAULT_SNAPSHOT_TOKEN_BUDGET } from '../src/llm/config';
+import { estimateTokens } from '../src/llm/tokens';
+
+describe('LLM Config', () => {
+
+    it('should default every call site to Anthropic with the default model', () => {
+        expect(loadLlmConfig('parse', {})).toEqual({ provider: 'anthropic', model: DEFAULT_MODELS.anthropic });
+        expect(loadLlmConfig('refine', {})).toEqual({ provider: 'anthropic', model: DEFAULT_MODELS.anthropic });
+    });
+
+    it('should apply LLM_PROVIDER and LLM_MODEL to all call sites', () => {
+        const env = { LLM_PROVIDER: 'openai', LLM_MODEL: 'gpt-4o-mini' };
+        expect(loadLlmConfig('parse', env)).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+        expect(loadLlmConfig('replan', env)).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+    });
+
+    it('should let a call site override provider and model', () => {
+        const env = { LLM_PROVIDER: 'openai', LLM_MODEL: 'gpt-4o-mini', LLM_REFINE_PROVIDER: 'anthropic' };
+        // LLM_MODEL belongs to the global provider, so the refine site falls back to the Anthropic default
+        expect(loadLlmConfig('refine', env)).toEqual({ provider: 'anthropic', model: DEFAULT_MODELS.anthropic });
+        expect(loadLlmConfig('refine', { ...env, LLM_REFINE_MODEL: 'claude-3-haiku-20240307' }))
+            .toEqual({ provider: 'anthropic', model: 'claude-3-haiku-20240307' });
+        expect(loadLlmConfig('parse', env)).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+    });
+
+    it('should require a model for openai-compatible servers', () => {
+        expect(() => loadLlmConfig('parse', { LLM_PROVIDER: 'openai-compatible' })).toThrow(/LLM_PARSE_MODEL or LLM_MODEL/);
+        expect(loadLlmConfig('parse', { LLM_PROVIDER: 'openai-compatible', LLM_MODEL: 'llama3.1' }))
+            .toEqual({ provider: 'openai-compatible', model: 'llama3.1' });
+    });
+
+    it('should reject unknown providers', () => {
+        expect(() => loadLlmConfig('parse', { LLM_PROVIDER: 'gemini' })).toThrow(/Unknown LLM provider 'gemini'/);
+    });
+
+    it('should read snapshot token budgets per call site', () => {
+        expect(loadSnapshotTokenBudget('refine', {})).toBe(DEFAULT_SNAPSHOT_TOKEN_BUDGET);
+        expect(loadSnapshotTokenBudget('refine', { LLM_SNAPSHOT_TOKENS: '4000', LLM_REFINE_SNAPSHOT_TOKENS: '1000' })).toBe(1000);
+        expect(loadSnapshotTokenBudget('parse', { LLM_SNAPSHOT_TOKENS: '4000', LLM_REFINE_SNAPSHOT_TOKENS: '1000' })).toBe(4000);
+        expect(loadSnapshotTokenBudget('refine', { LLM_REFINE_SNAPSHOT_TOKENS: 'lots' })).toBe(DEFAULT_SNAPSHOT_TOKEN_BUDGET);
+    });
+
+    it('should estimate tokens with each provider\'s ratio', () => {
+        const text = 'x'.repeat(40);
+        expect(estimateTokens(text, 'openai')).toBe(10);
+        expect(estimateTokens(text, 'anthropic')).toBe(12);
+    });
+});
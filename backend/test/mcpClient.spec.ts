@@ -0,0 +1,150 @@
+import { McpClient, McpRequestError, McpTimeoutError, McpCancelledError } from '../src/mcp/client';
+import { JsonRpcMessage, McpTransport, McpTransportKind } from '../src/mcp/transport';
+import { McpInitializeResult } from '../src/types/mcp';
+
+// An in-memory transport: records what the client sends and lets the test play the server
+class FakeTransport extends McpTransport {
+    public readonly kind: McpTransportKind = 'stdio';
+    public readonly sent: JsonRpcMessage[] = [];
+    public negotiated: McpInitializeResult | null = { protocolVersion: '2025-03-26', capabilities: { tools: {} } };
+
+    constructor(private readonly reply?: (message: JsonRpcMessage) => JsonRpcMessage | undefined) {
+        super();
+    }
+
+    public get sessionId(): string | null { return 'fake'; }
+    public get initializeResult(): McpInitializeResult | null { return this.negotiated; }
+    public async connect(): Promise<void> {}
+    public close(): void { this.emit('close'); }
+
+    public async send(message: JsonRpcMessage): Promise<void> {
+        this.sent.push(message);
+        const response = this.reply?.(message);
+        if (response) setImmediate(() => this.deliver(response));
+    }
+
+    public deliver(message: JsonRpcMessage): void {
+        this.emit('message', message);
+    }
+}
+
+describe('McpClient', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should resolve each request with its own response, in any order', async () => {
+        const transport = new FakeTransport();
+        const client = new McpClient(transport);
+
+        const first = client.callTool('browser_click', { ref: 'e1' });
+        const second = client.callTool('browser_snapshot');
+        const [firstId, secondId] = transport.sent.map(message => message.id);
+        expect(transport.sent[0]).toMatchObject({ method: 'tools/call', params: { name: 'browser_click', arguments: { ref: 'e1' } } });
+
+        transport.deliver({ jsonrpc: '2.0', id: secondId, result: { content: [{ type: 'text', text: 'snapshot' }] } });
+        transport.deliver({ jsonrpc: '2.0', id: firstId, result: { content: [{ type: 'text', text: 'clicked' }] } });
+
+        expect((await first).content[0].text).toBe('clicked');
+        expect((await second).content[0].text).toBe('snapshot');
+        expect(client.pendingCount).toBe(0);
+    });
+
+    it('should drop unrelated, late and duplicate responses instead of settling other requests with them', async () => {
+        const transport = new FakeTransport();
+        const client = new McpClient(transport);
+
+        const timedOut = client.callTool('browser_snapshot', {}, { timeoutMs: 10 }).catch(err => err);
+        const [lateId] = transport.sent.map(message => message.id);
+        expect(await timedOut).toBeInstanceOf(McpTimeoutError);
+        const click = client.callTool('browser_click', { ref: 'e1' });
+        const clickId = transport.sent[transport.sent.length - 1].id;
+
+        transport.deliver({ jsonrpc: '2.0', id: lateId, result: { content: [{ type: 'text', text: 'late snapshot' }] } });
+        transport.deliver({ jsonrpc: '2.0', id: 999, result: { content: [{ type: 'text', text: 'stray' }] } });
+        expect(client.pendingCount).toBe(1);
+        transport.deliver({ jsonrpc: '2.0', id: clickId, result: { content: [{ type: 'text', text: 'clicked' }] } });
+        transport.deliver({ jsonrpc: '2.0', id: clickId, result: { content: [{ type: 'text', text: 'clicked again' }] } });
+
+        expect((await click).content[0].text).toBe('clicked');
+        expect(client.pendingCount).toBe(0);
+        expect(console.warn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject with McpRequestError when the server answers with an error', async () => {
+        const transport = new FakeTransport(message => ({ jsonrpc: '2.0', id: message.id, error: { code: -32602, message: 'Unknown tool' } }));
+        const client = new McpClient(transport);
+
+        const error = await client.callTool('nope').catch(err => err);
+        expect(error).toBeInstanceOf(McpRequestError);
+        expect(error).toMatchObject({ method: 'tools/call', code: -32602, message: 'Unknown tool' });
+    });
+
+    it('should time out requests that get no response', async () => {
+        const client = new McpClient(new FakeTransport());
+        await expect(client.listTools({ timeoutMs: 20 })).rejects.toBeInstanceOf(McpTimeoutError);
+        expect(client.pendingCount).toBe(0);
+    });
+
+    it('should cancel a request and tell the server', async () => {
+        const transport = new FakeTransport();
+        const client = new McpClient(transport);
+        const controller = new AbortController();
+
+        const call = client.callTool('browser_wait_for', { time: 60 }, { signal: controller.signal });
+        controller.abort();
+
+        await expect(call).rejects.toBeInstanceOf(McpCancelledError);
+        expect(transport.sent[1]).toEqual({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: transport.sent[0].id, reason: 'Cancelled by client' } });
+        await expect(client.callTool('browser_snapshot', {}, { signal: controller.signal })).rejects.toBeInstanceOf(McpCancelledError);
+    });
+
+    it('should follow pagination cursors when listing tools', async () => {
+        const transport = new FakeTransport(message => ({
+            jsonrpc: '2.0',
+            id: message.id,
+            result: message.params.cursor === 'page-2'
+                ? { tools: [{ name: 'browser_click', inputSchema: {} }] }
+                : { tools: [{ name: 'browser_navigate', inputSchema: {} }], nextCursor: 'page-2' },
+        }));
+        const client = new McpClient(transport);
+
+        expect((await client.listTools()).map(tool => tool.name)).toEqual(['browser_navigate', 'browser_click']);
+    });
+
+    it('should only list resources when the server offers them', async () => {
+        const transport = new FakeTransport(message => ({ jsonrpc: '2.0', id: message.id, result: { resources: [{ uri: 'file:///a', name: 'a' }] } }));
+        const client = new McpClient(transport);
+
+        expect(await client.listResources()).toEqual([]);
+        expect(transport.sent).toHaveLength(0);
+
+        transport.negotiated = { protocolVersion: '2025-03-26', capabilities: { tools: {}, resources: {} } };
+        expect(await client.listResources()).toEqual([{ uri: 'file:///a', name: 'a' }]);
+    });
+
+    it('should fail requests in flight when the server restarts', async () => {
+        const transport = new FakeTransport();
+        const client = new McpClient(transport);
+
+        const call = client.callTool('browser_click', { ref: 'e1' });
+        transport.emit('restart');
+        await expect(call).rejects.toThrow(/restarted/);
+    });
+
+    it('should answer server pings and re-emit notifications', async () => {
+        const transport = new FakeTransport();
+        const client = new McpClient(transport);
+        const notified = new Promise<JsonRpcMessage>(resolve => client.on('notification', resolve));
+
+        transport.deliver({ jsonrpc: '2.0', id: 'srv-1', method: 'ping' });
+        transport.deliver({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+
+        expect(transport.sent).toEqual([{ jsonrpc: '2.0', id: 'srv-1', result: {} }]);
+        expect((await notified).method).toBe('notifications/tools/list_changed');
+    });
+});
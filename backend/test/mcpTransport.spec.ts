@@ -0,0 +1,251 @@
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { connectMcpTransport, streamableHttpEndpoint } from '../src/mcp/connectTransport';
+import { JsonRpcMessage, McpTransport, McpStdioCommand, loadMcpTransportSetting, loadMcpStdioCommand } from '../src/mcp/transport';
+
+const TOOLS = [{ name: 'browser_snapshot', inputSchema: { type: 'object', properties: {} } }];
+
+// A tiny MCP server speaking the legacy SSE transport on / and, optionally, Streamable HTTP on /mcp
+function startServer(options: { streamable: boolean; protocolVersion?: string; jsonToolDelayMs?: number }): Promise<{ url: string; sessionHeaders: (string | undefined)[]; close: () => Promise<void> }> {
+    const sessionHeaders: (string | undefined)[] = [];
+    const sseStreams: http.ServerResponse[] = [];
+
+    const initializeResult = { protocolVersion: options.protocolVersion ?? '2025-03-26', capabilities: { tools: {} }, serverInfo: { name: 'mock', version: '0' } };
+    const answer = (message: any) => ({
+        jsonrpc: '2.0',
+        id: message.id,
+        result: message.method === 'initialize' ? initializeResult
+            : message.method === 'tools/list' ? { tools: TOOLS }
+            : { content: [{ type: 'text', text: 'done' }] },
+    });
+
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            const url = new URL(req.url!, 'http://localhost');
+            if (url.pathname === '/mcp') {
+                if (!options.streamable) {
+                    res.writeHead(404).end('Not found');
+                } else if (req.method === 'POST') {
+                    const message = JSON.parse(body);
+                    sessionHeaders.push(req.headers['mcp-session-id'] as string | undefined);
+                    if (message.method === 'initialize') {
+                        res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'streamable-1' });
+                        res.end(JSON.stringify(answer(message)));
+                    } else if (message.id === undefined) {
+                        res.writeHead(202).end();
+                    } else if (message.method === 'tools/call' && options.jsonToolDelayMs !== undefined) {
+                        // A plain JSON answer: no headers until the tool has finished
+                        setTimeout(() => {
+                            res.writeHead(200, { 'Content-Type': 'application/json' });
+                            res.end(JSON.stringify(answer(message)));
+                        }, options.jsonToolDelayMs);
+                    } else if (message.method === 'tools/call') {
+                        // Tool results come back as a one-event stream
+                        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                        res.end(`event: message\ndata: ${JSON.stringify(answer(message))}\n\n`);
+                    } else {
+                        res.writeHead(200, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify(answer(message)));
+                    }
+                } else if (req.method === 'DELETE') {
+                    res.writeHead(200).end();
+                } else {
+                    res.writeHead(405).end();
+                }
+                return;
+            }
+            if (req.method === 'GET' && url.pathname === '/') {
+                res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+                res.write('event: endpoint\ndata: /sse?sessionId=legacy-1\n\n');
+                sseStreams.push(res);
+                return;
+            }
+            if (req.method === 'POST' && url.pathname === '/sse' && url.searchParams.get('sessionId') === 'legacy-1') {
+                res.writeHead(202).end('Accepted');
+                const message = JSON.parse(body);
+                if (message.id === undefined) return; // notifications/initialized
+                sseStreams.forEach(stream => stream.write(`event: message\ndata: ${JSON.stringify(answer(message))}\n\n`));
+                return;
+            }
+            res.writeHead(404).end();
+        });
+    });
+
+    return new Promise(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({
+                url: `http://127.0.0.1:${port}`,
+                sessionHeaders,
+                close: () => new Promise<void>(done => {
+                    sseStreams.forEach(stream => stream.end());
+                    server.closeAllConnections();
+                    server.close(() => done());
+                }),
+            });
+        });
+    });
+}
+
+function nextMessage(transport: McpTransport): Promise<JsonRpcMessage> {
+    return new Promise(resolve => transport.once('message', resolve));
+}
+
+describe('MCP transports', () => {
+    let transport: McpTransport | null = null;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        transport?.close();
+        transport = null;
+        jest.restoreAllMocks();
+    });
+
+    it('should prefer Streamable HTTP and send the session id on every request', async () => {
+        const server = await startServer({ streamable: true });
+        try {
+            transport = await connectMcpTransport(server.url, 'auto');
+            expect(transport.kind).toBe('streamable-http');
+            expect(transport.sessionId).toBe('streamable-1');
+
+            const listed = nextMessage(transport);
+            await transport.send({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} });
+            expect((await listed).result.tools).toEqual(TOOLS);
+
+            const called = nextMessage(transport);
+            await transport.send({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'browser_snapshot', arguments: {} } });
+            expect(await called).toMatchObject({ id: 2, result: { content: [{ type: 'text', text: 'done' }] } });
+
+            // initialize carries no session; notifications/initialized and both requests do
+            expect(server.sessionHeaders).toEqual([undefined, 'streamable-1', 'streamable-1', 'streamable-1']);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it('should leave tool calls answered with plain JSON to run past the POST acceptance timeout', async () => {
+        const server = await startServer({ streamable: true, jsonToolDelayMs: 200 });
+        try {
+            transport = await connectMcpTransport(server.url, 'streamable-http', { requestTimeoutMs: 50 });
+
+            const called = nextMessage(transport);
+            await transport.send({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'browser_snapshot', arguments: {} } });
+            expect(await called).toMatchObject({ id: 2, result: { content: [{ type: 'text', text: 'done' }] } });
+        } finally {
+            await server.close();
+        }
+    });
+
+    it('should resume a Streamable HTTP session while the server still has it', async () => {
+        const server = await startServer({ streamable: true });
+        transport = await connectMcpTransport(server.url, 'streamable-http');
+        expect(await transport.resume()).toBe(true);
+        expect(server.sessionHeaders[server.sessionHeaders.length - 1]).toBe('streamable-1');
+
+        await server.close();
+        expect(await transport.resume()).toBe(false);
+    });
+
+    it('should fall back to SSE when the server has no /mcp endpoint', async () => {
+        const server = await startServer({ streamable: false });
+        try {
+            transport = await connectMcpTransport(server.url, 'auto');
+            expect(transport.kind).toBe('sse');
+            expect(transport.sessionId).toBe('legacy-1');
+            expect(transport.initializeResult).toEqual({ protocolVersion: '2025-03-26', capabilities: { tools: {} }, serverInfo: { name: 'mock', version: '0' } });
+
+            const listed = nextMessage(transport);
+            await transport.send({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} });
+            expect((await listed).result.tools).toEqual(TOOLS);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it('should reject a server that negotiates an unsupported protocol version', async () => {
+        const server = await startServer({ streamable: false, protocolVersion: '2023-01-01' });
+        try {
+            await expect(connectMcpTransport(server.url, 'sse', { connectTimeoutMs: 2000 })).rejects.toThrow(/protocol version 2023-01-01/);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it('should use only the configured transport', async () => {
+        const server = await startServer({ streamable: false });
+        try {
+            await expect(connectMcpTransport(server.url, 'streamable-http', { connectTimeoutMs: 2000 })).rejects.toThrow(/HTTP 404/);
+        } finally {
+            await server.close();
+        }
+    });
+
+    describe('stdio', () => {
+        const fakeServer = (maxRestarts: number): McpStdioCommand => ({
+            command: process.execPath,
+            args: [path.join(__dirname, 'fixtures', 'fakeStdioMcpServer.js')],
+            maxRestarts,
+        });
+
+        it('should launch the server when no URL is configured', async () => {
+            transport = await connectMcpTransport(null, 'auto', {}, fakeServer(0));
+            expect(transport.kind).toBe('stdio');
+            expect(transport.initializeResult?.serverInfo?.name).toBe('fake-stdio');
+
+            const listed = nextMessage(transport);
+            await transport.send({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} });
+            expect((await listed).result.tools[0].name).toBe('crash');
+        });
+
+        it('should restart the server after a crash', async () => {
+            transport = await connectMcpTransport(null, 'stdio', {}, fakeServer(1));
+            const firstSession = transport.sessionId;
+
+            const restarted = new Promise<void>(resolve => transport!.once('restart', resolve));
+            await transport.send({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'crash', arguments: {} } });
+            await restarted;
+            expect(transport.sessionId).not.toBe(firstSession);
+
+            const listed = nextMessage(transport);
+            await transport.send({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} });
+            expect((await listed).id).toBe(2);
+        });
+
+        it('should report an error once the restart limit is reached', async () => {
+            transport = await connectMcpTransport(null, 'stdio', {}, fakeServer(0));
+
+            const failed = new Promise<Error>(resolve => transport!.once('error', resolve));
+            await transport.send({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'crash', arguments: {} } });
+            expect((await failed).message).toMatch(/restart limit \(0\)/);
+        });
+
+        it('should read the server command from the environment', () => {
+            expect(loadMcpStdioCommand({})).toEqual({ command: 'npx', args: ['@playwright/mcp@latest'], maxRestarts: 3 });
+            expect(loadMcpStdioCommand({ MCP_STDIO_COMMAND: 'node', MCP_STDIO_ARGS: ' cli.js  --headless ', MCP_STDIO_MAX_RESTARTS: '0' }))
+                .toEqual({ command: 'node', args: ['cli.js', '--headless'], maxRestarts: 0 });
+        });
+
+        it('should require a URL for the HTTP transports', async () => {
+            await expect(connectMcpTransport(null, 'sse')).rejects.toThrow(/needs MCP_SERVER_BASE_URL/);
+        });
+    });
+
+    it('should derive the Streamable HTTP endpoint from the server URL', () => {
+        expect(streamableHttpEndpoint('http://localhost:9000')).toBe('http://localhost:9000/mcp');
+        expect(streamableHttpEndpoint('http://localhost:9000/mcp')).toBe('http://localhost:9000/mcp');
+        expect(streamableHttpEndpoint('http://localhost:9000/playwright/')).toBe('http://localhost:9000/playwright/mcp');
+    });
+
+    it('should validate MCP_TRANSPORT', () => {
+        expect(loadMcpTransportSetting({})).toBe('auto');
+        expect(loadMcpTransportSetting({ MCP_TRANSPORT: 'Streamable-HTTP' })).toBe('streamable-http');
+        expect(() => loadMcpTransportSetting({ MCP_TRANSPORT: 'websocket' })).toThrow(/Unknown MCP_TRANSPORT/);
+    });
+});
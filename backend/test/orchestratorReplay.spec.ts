@@ -0,0 +1,119 @@
+import * as path from 'path';
+import { Orchestrator } from '../src/orchestrator/Orchestrator';
+import { FsmTransition, OrchestratorState } from '../src/orchestrator/fsm';
+import { JsonRpcMessage, McpTransport, McpTransportKind } from '../src/mcp/transport';
+import { McpInitializeResult } from '../src/types/mcp';
+import mcpTools from './fixtures/mcpTools.json';
+
+jest.mock('../src/mcp/connectTransport', () => ({
+    connectMcpTransport: jest.fn(async () => new FakeBrowserTransport()),
+}));
+
+// The parser tests' synthetic cassette holds the parse of INSTRUCTION and a refine response for each click
+const CASSETTE_PATH = path.join(__dirname, 'fixtures', 'parser.cassette.json');
+
+const INSTRUCTION = 'Go to the coffee cart demo, add an espresso to the cart and open the checkout';
+
+// What Playwright-MCP answers with after each action: the page as an accessibility snapshot
+const PAGE_SNAPSHOT = `- Page URL: https://coffee-cart.app/
+- Page Snapshot
+\`\`\`yaml
+- heading "Coffee cart" [ref=e3]
+- listitem:
+  - heading "Espresso $10.00" [ref=e11]
+  - button "Espresso cup" [ref=e12]
+- button "Checkout" [ref=e41]
+\`\`\``;
+
+// Plays the browser side: lists the fixture tools and answers every tool call with the page snapshot
+class FakeBrowserTransport extends McpTransport {
+    public static instance: FakeBrowserTransport | null = null;
+    public readonly kind: McpTransportKind = 'stdio';
+    public readonly toolCalls: { name: string; arguments: any }[] = [];
+    public closed = false;
+
+    constructor() {
+        super();
+        FakeBrowserTransport.instance = this;
+    }
+
+    public get sessionId(): string | null { return 'fake-browser'; }
+    public get initializeResult(): McpInitializeResult | null {
+        return { protocolVersion: '2025-03-26', capabilities: { tools: {} }, serverInfo: { name: 'fake-browser', version: '1.0.0' } };
+    }
+    public async connect(): Promise<void> {}
+    public close(): void {
+        this.closed = true;
+        this.emit('close');
+    }
+
+    public async send(message: JsonRpcMessage): Promise<void> {
+        if (message.id === undefined || message.id === null) return; // Notifications
+        let result: any = {};
+        if (message.method === 'tools/list') {
+            result = { tools: mcpTools };
+        } else if (message.method === 'tools/call') {
+            this.toolCalls.push({ name: message.params.name, arguments: message.params.arguments });
+            result = { content: [{ type: 'text', text: PAGE_SNAPSHOT }] };
+        }
+        setImmediate(() => this.emit('message', { jsonrpc: '2.0', id: message.id, result }));
+    }
+}
+
+describe('Orchestrator (cassette replay)', () => {
+    const savedEnv = { ...process.env };
+
+    beforeAll(() => {
+        process.env.LLM_CASSETTE_MODE = 'replay';
+        process.env.LLM_CASSETTE_PATH = CASSETTE_PATH;
+        delete process.env.LLM_PROVIDER;
+        delete process.env.LLM_MODEL;
+    });
+
+    afterAll(() => {
+        process.env = savedEnv;
+    });
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should parse an instruction, resolve each element against the page and run the steps in order', async () => {
+        const orchestrator = new Orchestrator(null, { planningPolicy: { incremental: false, chunkSize: 10, maxTotalSteps: 50 } });
+        const states: OrchestratorState[] = [];
+        const ended = new Promise<FsmTransition>(resolve => orchestrator.on('transition', (transition: FsmTransition) => {
+            states.push(transition.state);
+            const finished = transition.state === OrchestratorState.IDLE || transition.state === OrchestratorState.ERROR;
+            if (finished && transition.event !== null) resolve(transition); // Not the FSM's initial IDLE
+        }));
+
+        const { steps } = await orchestrator.startSession(INSTRUCTION, { mode: 'none', rules: [] });
+        const last = await ended;
+
+        expect(steps.map(step => step.tool_name)).toEqual(['browser_navigate', 'browser_click', 'browser_click']);
+        expect(last.state).toBe(OrchestratorState.IDLE);
+        expect(states).not.toContain(OrchestratorState.ERROR);
+        expect(FakeBrowserTransport.instance!.toolCalls.filter(call => call.name !== 'browser_snapshot')).toEqual([
+            { name: 'browser_navigate', arguments: { url: 'https://coffee-cart.app/' } },
+            { name: 'browser_click', arguments: { element: 'Espresso cup', ref: 'e12' } },
+            { name: 'browser_click', arguments: { element: 'Checkout button', ref: 'e41' } },
+        ]);
+    });
+
+    it('should end the session and close the browser when the plan has no steps', async () => {
+        const orchestrator = new Orchestrator(null, { planningPolicy: { incremental: false, chunkSize: 10, maxTotalSteps: 50 } });
+
+        // The cassette's LLM answers this instruction with text only
+        const { steps } = await orchestrator.startSession('Download the specification document', { mode: 'none', rules: [] });
+
+        expect(steps).toEqual([]);
+        expect(orchestrator.isActive).toBe(false);
+        expect(FakeBrowserTransport.instance!.closed).toBe(true);
+    });
+});
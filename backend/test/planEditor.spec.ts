@@ -0,0 +1,129 @@
+import { validateAgainstSchema, validateToolArguments } from '../src/mcp/toolSchema';
+import { PlanEditError, applyPlanEdit } from '../src/orchestrator/planEditor';
+import { OrchestratorFsm, OrchestratorState, OrchestratorEvent } from '../src/orchestrator/fsm';
+import { McpToolCall } from '../src/orchestrator/Orchestrator';
+import mcpTools from './fixtures/mcpTools.json';
+
+const clickTool = mcpTools.find(tool => tool.name === 'browser_click')!;
+
+const PLAN: McpToolCall[] = [
+    { tool_call_id: 's1', tool_name: 'browser_navigate', arguments: { url: 'https://coffee-cart.app/' } },
+    { tool_call_id: 's2', tool_name: 'browser_click', arguments: { element: 'Espresso cup', ref: 'e12' } },
+    { tool_call_id: 's3', tool_name: 'browser_click', arguments: { element: 'Checkout button', ref: '<UNKNOWN>' } },
+];
+
+describe('Plan editing', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('validateAgainstSchema', () => {
+
+        it('should accept arguments that match the tool schema', () => {
+            expect(validateToolArguments(clickTool, { element: 'Espresso cup', ref: 'e12' })).toEqual([]);
+        });
+
+        it('should report every problem with its path', () => {
+            expect(validateToolArguments(clickTool, { element: 42 })).toEqual([
+                'arguments.ref: is required',
+                'arguments.element: expected string, got integer',
+            ]);
+        });
+
+        it('should check enums, bounds, arrays and closed objects', () => {
+            const schema = {
+                type: 'object',
+                properties: {
+                    button: { enum: ['left', 'right'] },
+                    time: { type: 'number', minimum: 0 },
+                    values: { type: 'array', minItems: 1, items: { type: 'string' } },
+                },
+                additionalProperties: false,
+            };
+
+            expect(validateAgainstSchema({ button: 'middle', time: -1, values: [1], extra: true }, schema)).toEqual([
+                'arguments.button: must be one of "left", "right"',
+                'arguments.time: must be >= 0',
+                'arguments.values[0]: expected string, got integer',
+                'arguments.extra: is not an allowed property',
+            ]);
+            expect(validateAgainstSchema({ values: [] }, schema)).toEqual(['arguments.values: must have at least 1 items']);
+        });
+    });
+
+    describe('applyPlanEdit', () => {
+
+        it('should update arguments and redescribe the step', () => {
+            const steps = applyPlanEdit(PLAN, 1, { type: 'update', stepId: 's2', changes: { arguments: { element: 'Cappuccino cup', ref: 'e14' } } }, mcpTools);
+
+            expect(steps[1]).toEqual({
+                tool_call_id: 's2', tool_name: 'browser_click', arguments: { element: 'Cappuccino cup', ref: 'e14' }, description: "Click 'Cappuccino cup'",
+            });
+            expect(PLAN[1]!.arguments.element).toBe('Espresso cup');
+        });
+
+        it('should refuse arguments that do not match the new tool', () => {
+            const edit = { type: 'update' as const, stepId: 's2', changes: { tool_name: 'browser_type' } };
+
+            expect(() => applyPlanEdit(PLAN, 1, edit, mcpTools)).toThrow(expect.objectContaining({
+                reason: 'invalid',
+                problems: ['arguments.text: is required'],
+            }));
+        });
+
+        it('should insert, move and delete pending steps', () => {
+            let steps = applyPlanEdit(PLAN, 1, { type: 'insert', step: { tool_name: 'browser_snapshot', arguments: {} }, beforeStepId: 's3' }, mcpTools);
+            expect(steps.map(step => step.tool_name)).toEqual(['browser_navigate', 'browser_click', 'browser_snapshot', 'browser_click']);
+            expect(steps[2]!.tool_call_id).toMatch(/^user_/);
+
+            steps = applyPlanEdit(steps, 1, { type: 'move', stepId: 's2' }, mcpTools);
+            expect(steps.map(step => step.tool_call_id)).toEqual(['s1', steps[1]!.tool_call_id, 's3', 's2']);
+
+            steps = applyPlanEdit(steps, 1, { type: 'delete', stepId: 's3' }, mcpTools);
+            expect(steps).toHaveLength(3);
+        });
+
+        it('should refuse to touch steps that already started', () => {
+            expect(() => applyPlanEdit(PLAN, 1, { type: 'delete', stepId: 's1' }, mcpTools)).toThrow(PlanEditError);
+            expect(() => applyPlanEdit(PLAN, 1, { type: 'delete', stepId: 's1' }, mcpTools)).toThrow(expect.objectContaining({ reason: 'locked' }));
+            expect(() => applyPlanEdit(PLAN, -1, { type: 'delete', stepId: 's3' }, mcpTools)).toThrow(/cannot be edited/);
+            expect(() => applyPlanEdit(PLAN, 1, { type: 'delete', stepId: 'nope' }, mcpTools)).toThrow(/not found/);
+        });
+    });
+
+    describe('PLAN_UPDATED', () => {
+
+        it('should prepare the edited step for confirmation again and notify listeners', () => {
+            const onUpdate = jest.fn();
+            const fsm = new OrchestratorFsm(onUpdate);
+            fsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps: [...PLAN] });
+            onUpdate.mockClear();
+
+            const edited = applyPlanEdit(fsm.getContext().steps, fsm.getFirstEditableStepIndex(), { type: 'delete', stepId: 's1' }, mcpTools);
+            fsm.dispatch(OrchestratorEvent.PLAN_UPDATED, { steps: edited });
+
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.WAIT_CONFIRM);
+            expect(fsm.getContext()).toMatchObject({ totalSteps: 2, currentStepIndex: 0, stepToConfirm: { tool_call_id: 's2' } });
+            expect(onUpdate).toHaveBeenCalledWith(OrchestratorState.WAIT_CONFIRM, expect.anything(), expect.objectContaining({
+                previousState: OrchestratorState.WAIT_CONFIRM,
+                event: OrchestratorEvent.PLAN_UPDATED,
+            }));
+        });
+
+        it('should ignore updates that rewrite steps that already started', () => {
+            const fsm = new OrchestratorFsm();
+            fsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps: [...PLAN] });
+            fsm.dispatch(OrchestratorEvent.CONFIRM_STEP);
+
+            fsm.dispatch(OrchestratorEvent.PLAN_UPDATED, { steps: PLAN.slice(1) });
+
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.EXECUTE);
+            expect(fsm.getContext().totalSteps).toBe(3);
+        });
+    });
+});
@@ -0,0 +1,125 @@
+import { DEFAULT_PLANNING_POLICY, loadPlanningPolicyFromEnv } from '../src/orchestrator/planningPolicy';
+import { remainingInstruction } from '../src/parser/planNextChunk';
+import { OrchestratorFsm, OrchestratorState, OrchestratorEvent } from '../src/orchestrator/fsm';
+import { McpToolCall } from '../src/orchestrator/Orchestrator';
+
+const INSTRUCTION = 'Go to the shop, add two coffees and check out';
+
+const FIRST_CHUNK: McpToolCall[] = [
+    { tool_call_id: 's1', tool_name: 'browser_navigate', arguments: { url: 'https://coffee-cart.app/' }, source_span: { start: 0, end: 14, text: 'Go to the shop' } },
+    { tool_call_id: 's2', tool_name: 'browser_click', arguments: { element: 'Espresso cup', ref: 'e12' }, source_span: { start: 16, end: 31, text: 'add two coffees' } },
+];
+
+describe('Planning Policy', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('loadPlanningPolicyFromEnv', () => {
+
+        it('should use defaults when nothing is configured', () => {
+            expect(loadPlanningPolicyFromEnv({})).toEqual(DEFAULT_PLANNING_POLICY);
+        });
+
+        it('should read the settings and ignore invalid values', () => {
+            expect(loadPlanningPolicyFromEnv({ PLANNING_INCREMENTAL: 'false', PLANNING_CHUNK_SIZE: '0', MAX_TOTAL_STEPS: '30' })).toEqual({
+                incremental: false,
+                chunkSize: DEFAULT_PLANNING_POLICY.chunkSize,
+                maxTotalSteps: 30,
+            });
+        });
+    });
+
+    describe('remainingInstruction', () => {
+
+        it('should cut the instruction after the furthest completed source span', () => {
+            expect(remainingInstruction(INSTRUCTION, FIRST_CHUNK)).toBe('check out');
+        });
+
+        it('should keep the whole instruction when no step has a source span', () => {
+            expect(remainingInstruction(INSTRUCTION, [{ tool_name: 'browser_snapshot', arguments: {} }])).toBe(INSTRUCTION);
+        });
+    });
+
+    describe('OrchestratorFsm incremental planning', () => {
+
+        // Runs the first chunk to the end: both steps confirmed and executed
+        function runFirstChunk(fsm: OrchestratorFsm): void {
+            fsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps: FIRST_CHUNK.map(step => ({ ...step })), planComplete: false });
+            for (let i = 0; i < FIRST_CHUNK.length; i++) {
+                fsm.dispatch(OrchestratorEvent.CONFIRM_STEP);
+                fsm.dispatch(OrchestratorEvent.MCP_RESPONSE_RECEIVED, { snapshot: '- button "Checkout" [ref=e40]' });
+            }
+        }
+
+        it('should plan the next chunk once the planned steps ran, until the task is complete', () => {
+            const fsm = new OrchestratorFsm();
+            runFirstChunk(fsm);
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.PLAN_NEXT_CHUNK);
+            expect(fsm.getFirstEditableStepIndex()).toBe(-1);
+
+            fsm.dispatch(OrchestratorEvent.CHUNK_PLANNED, {
+                steps: [{ tool_call_id: 's3', tool_name: 'browser_click', arguments: { element: 'Checkout', ref: 'e40' } }],
+                planComplete: true,
+            });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.WAIT_CONFIRM);
+            expect(fsm.getContext()).toMatchObject({ totalSteps: 3, currentStepIndex: 2, planComplete: true, stepToConfirm: { tool_call_id: 's3' } });
+
+            fsm.dispatch(OrchestratorEvent.CONFIRM_STEP);
+            fsm.dispatch(OrchestratorEvent.MCP_RESPONSE_RECEIVED, {});
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.IDLE);
+        });
+
+        it('should end when the LLM has nothing left to plan and fail when planning fails', () => {
+            const done = new OrchestratorFsm();
+            runFirstChunk(done);
+            done.dispatch(OrchestratorEvent.CHUNK_PLANNED, { steps: [], planComplete: true });
+            expect(done.getCurrentState()).toBe(OrchestratorState.IDLE);
+
+            const failed = new OrchestratorFsm();
+            runFirstChunk(failed);
+            failed.dispatch(OrchestratorEvent.CHUNK_FAILED, { error: 'Reached the limit of 50 steps' });
+            expect(failed.getCurrentState()).toBe(OrchestratorState.ERROR);
+            expect(failed.getContext().lastError).toBe('Reached the limit of 50 steps');
+        });
+
+        it('should plan again after reconnecting instead of repeating the last step', () => {
+            const fsm = new OrchestratorFsm();
+            runFirstChunk(fsm);
+
+            fsm.dispatch(OrchestratorEvent.CONNECTION_LOST, { error: 'socket hang up' });
+            fsm.dispatch(OrchestratorEvent.RECONNECTED, {});
+
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.PLAN_NEXT_CHUNK);
+        });
+    });
+
+    describe('OrchestratorFsm agent mode', () => {
+
+        it('should ask for each action from an empty plan and end with the agent\'s summary', () => {
+            const updates: Array<string | null> = [];
+            const fsm = new OrchestratorFsm((_state, _context, transition) => updates.push(transition.summary));
+            fsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps: [], planComplete: false });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.PLAN_NEXT_CHUNK);
+
+            fsm.dispatch(OrchestratorEvent.CHUNK_PLANNED, { steps: [{ ...FIRST_CHUNK[0] }], planComplete: false });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.WAIT_CONFIRM);
+            expect(fsm.getContext().startingHost).toBe('coffee-cart.app');
+
+            fsm.dispatch(OrchestratorEvent.CONFIRM_STEP);
+            fsm.dispatch(OrchestratorEvent.MCP_RESPONSE_RECEIVED, {});
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.PLAN_NEXT_CHUNK);
+
+            fsm.dispatch(OrchestratorEvent.CHUNK_PLANNED, { steps: [], planComplete: true, summary: 'The shop is open.' });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.IDLE);
+            expect(updates[updates.length - 1]).toBe('The shop is open.');
+            expect(updates.slice(0, -1).every(summary => summary === null)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,91 @@
+import * as ts from 'typescript';
+import { RunStore } from '../src/runs/RunStore';
+import { exportPlaywrightSpec } from '../src/export/playwrightSpec';
+import { McpToolCall, ToolCallRecord } from '../src/orchestrator/Orchestrator';
+
+const HOME_SNAPSHOT = `- Page Snapshot
+\`\`\`yaml
+- banner [ref=e2]:
+  - link "cart (0)" [ref=e5]
+- list [ref=e10]:
+  - listitem [ref=e11]:
+    - button "Add to cart" [ref=e12]
+    - text: Espresso
+  - listitem [ref=e13]:
+    - button "Add to cart" [ref=e14]
+    - text: Mocha
+- textbox "Name" [ref=e20]
+- generic [ref=e30]: Total
+\`\`\``;
+
+const STEPS: McpToolCall[] = [
+    { tool_call_id: 's1', tool_name: 'browser_navigate', arguments: { url: 'https://coffee-cart.app/' }, description: 'Open the shop' },
+    { tool_call_id: 's2', tool_name: 'browser_click', arguments: { element: 'Mocha add to cart button', ref: 'e14' }, description: "Add a Mocha to the cart" },
+    { tool_call_id: 's3', tool_name: 'browser_type', arguments: { element: 'Name field', ref: 'e20', text: "O'Brien", submit: true } },
+    { tool_call_id: 's4', tool_name: 'browser_click', arguments: { element: 'Total', ref: 'e30' } },
+    { tool_call_id: 's5', tool_name: 'browser_click', arguments: { element: 'Checkout button', ref: 'e99' } },
+    { tool_call_id: 's6', tool_name: 'browser_wait_for', arguments: { text: 'Thanks for your order' } },
+];
+
+describe('Playwright export', () => {
+    let store: RunStore;
+
+    beforeEach(() => {
+        store = new RunStore(':memory:');
+    });
+
+    afterEach(() => store.close());
+
+    function recordCall(step: McpToolCall, index: number, at: number, error: ToolCallRecord['error'] = null) {
+        const call: ToolCallRecord = {
+            stepIndex: index, stepId: step.tool_call_id!, toolName: step.tool_name, arguments: step.arguments,
+            result: error ? null : { content: [{ type: 'text', text: 'ok' }] }, error, startedAt: at, durationMs: 10,
+        };
+        store.recordEvent('run-1', { kind: 'toolCall', at, stepIndex: index, data: call });
+    }
+
+    it('should replay successful calls with elements located by role and name instead of refs', () => {
+        store.startRun('run-1', 'Buy a Mocha', 'plan', Date.UTC(2025, 0, 2));
+        store.recordPlan('run-1', STEPS);
+        recordCall(STEPS[0], 0, 1);
+        store.recordEvent('run-1', { kind: 'snapshot', at: 2, stepIndex: 0, data: { snapshot: HOME_SNAPSHOT } });
+        recordCall(STEPS[1], 1, 3, { code: 'TIMEOUT', message: 'Timed out' }); // Retried below
+        recordCall(STEPS[1], 1, 4);
+        STEPS.slice(2).forEach((step, offset) => recordCall(step, offset + 2, 5 + offset));
+        store.recordEvent('run-1', {
+            kind: 'toolCall', at: 20, stepIndex: 5,
+            data: { stepIndex: 5, stepId: null, toolName: 'browser_snapshot', arguments: {}, result: null, error: null, startedAt: 20, durationMs: 5 },
+        });
+        store.finishRun('run-1', 'completed');
+
+        const spec = exportPlaywrightSpec(store.getRun('run-1')!);
+
+        expect(spec).toBe(`import { test, expect } from '@playwright/test';
+
+// Exported from run run-1 (2025-01-02T00:00:00.000Z)
+test('Buy a Mocha', async ({ page }) => {
+  // 1. Open the shop
+  await page.goto('https://coffee-cart.app/');
+
+  // 2. Add a Mocha to the cart
+  await page.getByRole('button', { name: 'Add to cart', exact: true }).nth(1).click();
+
+  // 3. browser_type
+  await page.getByRole('textbox', { name: 'Name', exact: true }).fill('O\\'Brien');
+  await page.getByRole('textbox', { name: 'Name', exact: true }).press('Enter');
+
+  // 4. browser_click
+  await page.getByText('Total', { exact: true }).click();
+
+  // 5. browser_click
+  // Element [ref=e99] was not found in the page snapshot; located by its description
+  await page.getByText('Checkout button').click();
+
+  // 6. browser_wait_for
+  await expect(page.getByText('Thanks for your order').first()).toBeVisible();
+});
+`);
+        const { diagnostics } = ts.transpileModule(spec, { reportDiagnostics: true, compilerOptions: { module: ts.ModuleKind.CommonJS } });
+        expect(diagnostics).toEqual([]);
+    });
+});
@@ -0,0 +1,218 @@
+import {
+    DEFAULT_RETRY_POLICY,
+    RetryPolicy,
+    classifyMcpError,
+    computeRetryDelay,
+    loadRetryPolicyFromEnv,
+} from '../src/orchestrator/retryPolicy';
+import { OrchestratorFsm, OrchestratorState, OrchestratorEvent } from '../src/orchestrator/fsm';
+
+describe('Retry Policy', () => {
+
+    describe('classifyMcpError', () => {
+
+        it('should keep an explicit known error code', () => {
+            expect(classifyMcpError({ code: 'TIMEOUT', message: 'whatever' })).toBe('TIMEOUT');
+        });
+
+        it('should detect element-not-found from MCP isError content', () => {
+            const error = { code: -32000, message: [{ type: 'text', text: 'Error: Element with ref "s1e23" not found' }] };
+            expect(classifyMcpError(error)).toBe('ELEMENT_NOT_FOUND');
+        });
+
+        it('should detect timeouts from the error message', () => {
+            expect(classifyMcpError({ code: -32004, message: 'Failed to send command: timeout of 15000ms exceeded' })).toBe('TIMEOUT');
+            expect(classifyMcpError('Navigation timed out')).toBe('TIMEOUT');
+        });
+
+        it('should fall back to EXECUTION_ERROR', () => {
+            expect(classifyMcpError({ code: -32603, message: 'Internal error' })).toBe('EXECUTION_ERROR');
+            expect(classifyMcpError(null)).toBe('EXECUTION_ERROR');
+        });
+    });
+
+    describe('computeRetryDelay', () => {
+        const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, backoffFactor: 2, maxDelayMs: 5000, jitterRatio: 0 };
+
+        it('should grow exponentially and respect the cap', () => {
+            expect(computeRetryDelay(policy, 1)).toBe(1000);
+            expect(computeRetryDelay(policy, 2)).toBe(2000);
+            expect(computeRetryDelay(policy, 3)).toBe(4000);
+            expect(computeRetryDelay(policy, 4)).toBe(5000);
+        });
+
+        it('should apply jitter within the configured ratio', () => {
+            const jittered = { ...policy, jitterRatio: 0.5 };
+            expect(computeRetryDelay(jittered, 1, () => 0)).toBe(500);
+            expect(computeRetryDelay(jittered, 1, () => 0.5)).toBe(1000);
+            expect(computeRetryDelay(jittered, 1, () => 0.9999)).toBeLessThanOrEqual(1500);
+        });
+    });
+
+    describe('loadRetryPolicyFromEnv', () => {
+
+        it('should use defaults when nothing is configured', () => {
+            expect(loadRetryPolicyFromEnv({})).toEqual(DEFAULT_RETRY_POLICY);
+        });
+
+        it('should read per-code limits and ignore invalid values', () => {
+            const policy = loadRetryPolicyFromEnv({
+                RETRY_MAX_EXECUTION_ERROR: '1',
+                RETRY_BASE_DELAY_MS: 'soon',
+                RETRY_REFRESH_SNAPSHOT: 'false',
+            });
+            expect(policy.maxRetries.EXECUTION_ERROR).toBe(1);
+            expect(policy.baseDelayMs).toBe(DEFAULT_RETRY_POLICY.baseDelayMs);
+            expect(policy.refreshSnapshotOnRefRetry).toBe(false);
+        });
+    });
+
+    describe('OrchestratorFsm retries', () => {
+        const steps = [
+            { tool_call_id: 'a', tool_name: 'browser_navigate', arguments: { url: 'https://coffee-cart.app/' } },
+            { tool_call_id: 'b', tool_name: 'browser_click', arguments: { element: 'Espresso', ref: 's1e5' } },
+        ];
+
+        const noReplan: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxReplans: 0 };
+
+        function fsmAtExecute(policy: RetryPolicy = DEFAULT_RETRY_POLICY): OrchestratorFsm {
+            const fsm = new OrchestratorFsm(undefined, policy);
+            fsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps: steps.map(step => ({ ...step })) });
+            fsm.dispatch(OrchestratorEvent.CONFIRM_STEP);
+            return fsm;
+        }
+
+        beforeEach(() => {
+            jest.spyOn(console, 'log').mockImplementation(() => {});
+            jest.spyOn(console, 'warn').mockImplementation(() => {});
+            jest.spyOn(console, 'error').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should wait and retry element-not-found errors up to the limit', () => {
+            const fsm = fsmAtExecute(noReplan);
+            const notFound = { message: 'Element not found' };
+
+            for (let attempt = 1; attempt <= DEFAULT_RETRY_POLICY.maxRetries.ELEMENT_NOT_FOUND; attempt++) {
+                fsm.dispatch(OrchestratorEvent.MCP_RESPONSE_RECEIVED, { error: notFound });
+                expect(fsm.getCurrentState()).toBe(OrchestratorState.RETRY_WAIT);
+                expect(fsm.getContext().retryCount).toBe(attempt);
+                expect(fsm.getContext().lastErrorCode).toBe('ELEMENT_NOT_FOUND');
+                fsm.dispatch(OrchestratorEvent.RETRY_STEP);
+                expect(fsm.getCurrentState()).toBe(OrchestratorState.EXECUTE);
+            }
+
+            fsm.dispatch(OrchestratorEvent.MCP_RESPONSE_RECEIVED, { error: notFound });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.ERROR);
+        });
+
+        it('should not retry codes configured with zero retries', () => {
+            const fsm = fsmAtExecute(noReplan);
+            fsm.dispatch(OrchestratorEvent.STEP_FAILED, { error: { message: 'Internal error' } });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.ERROR);
+            expect(fsm.getContext().lastErrorCode).toBe('EXECUTION_ERROR');
+        });
+
+        it('should swap in a re-refined step when retrying', () => {
+            const fsm = fsmAtExecute();
+            fsm.dispatch(OrchestratorEvent.MCP_RESPONSE_RECEIVED, { error: { message: 'Request timed out' } });
+            const refinedStep = { tool_call_id: 'a', tool_name: 'browser_navigate', arguments: { url: 'https://coffee-cart.app/cart' } };
+            fsm.dispatch(OrchestratorEvent.RETRY_STEP, { refinedStep });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.EXECUTE);
+            expect(fsm.getContext().steps[0]).toEqual(refinedStep);
+        });
+
+        it('should replan instead of failing once retries are exhausted', () => {
+            const fsm = fsmAtExecute();
+            fsm.dispatch(OrchestratorEvent.STEP_FAILED, { error: { message: 'Internal error' } });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.REPLAN);
+            expect(fsm.getContext().replanCount).toBe(1);
+
+            const proposedSteps = [
+                { tool_call_id: 'r1', tool_name: 'browser_navigate', arguments: { url: 'https://coffee-cart.app/' } },
+                { tool_call_id: 'r2', tool_name: 'browser_click', arguments: { element: 'Espresso', ref: 's2e7' } },
+            ];
+            fsm.dispatch(OrchestratorEvent.REPLAN_PROPOSED, { steps: proposedSteps, snapshot: '- Page Snapshot' });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.WAIT_REPLAN_CONFIRM);
+            expect(fsm.getContext().proposedSteps).toEqual(proposedSteps);
+
+            fsm.dispatch(OrchestratorEvent.ACCEPT_REPLAN);
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.WAIT_CONFIRM);
+            expect(fsm.getContext().steps).toEqual(proposedSteps);
+            expect(fsm.getContext().totalSteps).toBe(2);
+            expect(fsm.getContext().stepToConfirm).toEqual(proposedSteps[0]);
+            expect(fsm.getContext().proposedSteps).toBeNull();
+        });
+
+        it('should leave the rest of a cut replan to incremental planning', () => {
+            const fsm = fsmAtExecute();
+            fsm.dispatch(OrchestratorEvent.STEP_FAILED, { error: { message: 'Internal error' } });
+            expect(fsm.getContext().planComplete).toBe(true);
+
+            fsm.dispatch(OrchestratorEvent.REPLAN_PROPOSED, { steps: [steps[1]], planComplete: false });
+            fsm.dispatch(OrchestratorEvent.ACCEPT_REPLAN);
+            expect(fsm.getContext()).toMatchObject({ planComplete: false, totalSteps: 1 });
+            fsm.dispatch(OrchestratorEvent.CONFIRM_STEP);
+            fsm.dispatch(OrchestratorEvent.MCP_RESPONSE_RECEIVED, {});
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.PLAN_NEXT_CHUNK);
+        });
+
+        it('should fail when the replan budget is used up or the replan is rejected', () => {
+            const fsm = fsmAtExecute();
+            fsm.dispatch(OrchestratorEvent.STEP_FAILED, { error: { message: 'Internal error' } });
+            fsm.dispatch(OrchestratorEvent.REPLAN_PROPOSED, { steps: [steps[1]] });
+            fsm.dispatch(OrchestratorEvent.ACCEPT_REPLAN);
+            fsm.dispatch(OrchestratorEvent.CONFIRM_STEP);
+            fsm.dispatch(OrchestratorEvent.STEP_FAILED, { error: { message: 'Internal error' } });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.ERROR);
+
+            const rejected = fsmAtExecute();
+            rejected.dispatch(OrchestratorEvent.STEP_FAILED, { error: { message: 'Internal error' } });
+            rejected.dispatch(OrchestratorEvent.REPLAN_PROPOSED, { steps: [steps[1]] });
+            rejected.dispatch(OrchestratorEvent.REJECT_REPLAN);
+            expect(rejected.getCurrentState()).toBe(OrchestratorState.IDLE);
+        });
+
+        it('should reconnect and ask to confirm the interrupted step again', () => {
+            const fsm = fsmAtExecute();
+            fsm.dispatch(OrchestratorEvent.CONNECTION_LOST, { error: { message: 'MCP connection lost' } });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.RECONNECTING);
+
+            // Results of the interrupted call no longer apply
+            fsm.dispatch(OrchestratorEvent.STEP_FAILED, { error: { message: 'MCP connection lost' } });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.RECONNECTING);
+
+            fsm.dispatch(OrchestratorEvent.RECONNECTED, { snapshot: '- Page Snapshot' });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.WAIT_CONFIRM);
+            expect(fsm.getContext().currentStepIndex).toBe(0);
+            expect(fsm.getContext().stepToConfirm).toEqual(steps[0]);
+            expect(fsm.getContext().latestSnapshot).toBe('- Page Snapshot');
+            expect(fsm.getContext().lastError).toBeNull();
+        });
+
+        it('should return to a pending replan proposal after reconnecting', () => {
+            const fsm = fsmAtExecute();
+            fsm.dispatch(OrchestratorEvent.STEP_FAILED, { error: { message: 'Internal error' } });
+            fsm.dispatch(OrchestratorEvent.REPLAN_PROPOSED, { steps: [steps[1]] });
+            fsm.dispatch(OrchestratorEvent.CONNECTION_LOST);
+            fsm.dispatch(OrchestratorEvent.RECONNECTED);
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.WAIT_REPLAN_CONFIRM);
+            expect(fsm.getContext().proposedSteps).toEqual([steps[1]]);
+        });
+
+        it('should fail when reconnecting fails and ignore connection loss outside a run', () => {
+            const fsm = fsmAtExecute();
+            fsm.dispatch(OrchestratorEvent.CONNECTION_LOST);
+            fsm.dispatch(OrchestratorEvent.RECONNECT_FAILED, { error: 'Could not reconnect' });
+            expect(fsm.getCurrentState()).toBe(OrchestratorState.ERROR);
+            expect(fsm.getContext().lastError).toBe('Could not reconnect');
+
+            const idle = new OrchestratorFsm(undefined);
+            idle.dispatch(OrchestratorEvent.CONNECTION_LOST);
+            expect(idle.getCurrentState()).toBe(OrchestratorState.IDLE);
+        });
+    });
+});
@@ -0,0 +1,93 @@
+import { EventEmitter } from 'events';
+import { RunStore } from '../src/runs/RunStore';
+import { recordRun } from '../src/runs/runRecorder';
+import { OrchestratorFsm, OrchestratorState, OrchestratorEvent } from '../src/orchestrator/fsm';
+import { McpToolCall } from '../src/orchestrator/Orchestrator';
+
+const STEPS: McpToolCall[] = [
+    { tool_call_id: 's1', tool_name: 'browser_navigate', arguments: { url: 'https://coffee-cart.app/' } },
+    { tool_call_id: 's2', tool_name: 'browser_click', arguments: { element: 'Espresso cup', ref: 'e12' } },
+];
+
+describe('Run Store', () => {
+    let store: RunStore;
+    let orchestrator: EventEmitter;
+    let fsm: OrchestratorFsm;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        store = new RunStore(':memory:');
+        // Stands in for an Orchestrator: forwards FSM transitions the way startSession does
+        orchestrator = new EventEmitter();
+        fsm = new OrchestratorFsm((_state, context, transition) => orchestrator.emit('transition', transition, context));
+    });
+
+    afterEach(() => {
+        store.close();
+        jest.restoreAllMocks();
+    });
+
+    it('should record a run from start to finish', () => {
+        recordRun(store, 'run-1', orchestrator);
+        orchestrator.emit('started', { instruction: 'Buy an espresso', mode: 'plan' });
+        fsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps: STEPS.map(step => ({ ...step })) });
+        for (const [index, step] of STEPS.entries()) {
+            fsm.dispatch(OrchestratorEvent.CONFIRM_STEP);
+            orchestrator.emit('toolCall', {
+                stepIndex: index, stepId: step.tool_call_id, toolName: step.tool_name, arguments: step.arguments,
+                result: { content: [{ type: 'text', text: 'ok' }] }, error: null, startedAt: 1000 + index, durationMs: 42,
+            });
+            orchestrator.emit('snapshot', '- Page Snapshot', index);
+            fsm.dispatch(OrchestratorEvent.MCP_RESPONSE_RECEIVED, {});
+        }
+        expect(fsm.getCurrentState()).toBe(OrchestratorState.IDLE);
+
+        const run = store.getRun('run-1')!;
+        expect(run).toMatchObject({ id: 'run-1', instruction: 'Buy an espresso', mode: 'plan', status: 'completed', error: null, stepCount: 2 });
+        expect(run.endedAt).not.toBeNull();
+        expect(run.plan.map(step => step.tool_call_id)).toEqual(['s1', 's2']);
+        expect(run.events.map(event => event.kind)).toEqual([
+            'transition',                                           // PARSING_COMPLETE -> WAIT_CONFIRM
+            'transition', 'toolCall', 'snapshot', 'transition',     // step 1
+            'transition', 'toolCall', 'snapshot', 'transition',     // step 2, ending in IDLE
+        ]);
+        expect(run.events[2].data).toMatchObject({ toolName: 'browser_navigate', durationMs: 42, result: { content: [{ text: 'ok' }] } });
+        expect(run.events[8].data).toMatchObject({ previousState: OrchestratorState.EXECUTE, state: OrchestratorState.IDLE });
+    });
+
+    it('should tell cancelled and failed runs apart and list runs newest first', () => {
+        recordRun(store, 'cancelled', orchestrator);
+        orchestrator.emit('started', { instruction: 'Buy an espresso', mode: 'plan' });
+        fsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps: STEPS.map(step => ({ ...step })) });
+        fsm.dispatch(OrchestratorEvent.REJECT_STEP);
+
+        const failing = new EventEmitter();
+        const failingFsm = new OrchestratorFsm((_state, context, transition) => failing.emit('transition', transition, context));
+        recordRun(store, 'failed', failing);
+        failing.emit('started', { instruction: 'Find the cheapest mocha', mode: 'agent' });
+        failingFsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps: [], planComplete: false });
+        failingFsm.dispatch(OrchestratorEvent.CHUNK_FAILED, { error: 'Reached the limit of 50 steps' });
+
+        expect(store.getRun('cancelled')?.status).toBe('cancelled');
+        expect(store.getRun('failed')).toMatchObject({ status: 'failed', error: 'Reached the limit of 50 steps', mode: 'agent' });
+        expect(store.listRuns().map(run => run.id)).toEqual(['failed', 'cancelled']);
+        expect(store.listRuns({ status: 'failed' }).map(run => run.id)).toEqual(['failed']);
+        expect(store.getRun('missing')).toBeNull();
+    });
+
+    it('should record nothing before the session started and stop recording once the run ended', () => {
+        recordRun(store, 'run-1', orchestrator);
+        orchestrator.emit('snapshot', '- Page Snapshot', -1);
+        expect(store.listRuns()).toEqual([]);
+
+        orchestrator.emit('started', { instruction: 'Open the shop', mode: 'plan' });
+        fsm.dispatch(OrchestratorEvent.PARSING_COMPLETE, { steps: STEPS.map(step => ({ ...step })) });
+        fsm.dispatch(OrchestratorEvent.CANCEL_SESSION);
+        orchestrator.emit('snapshot', '- Page Snapshot', 0);
+
+        expect(store.getRun('run-1')).toMatchObject({ status: 'cancelled', stepCount: 2 });
+        expect(store.getRun('run-1')!.events.map(event => event.kind)).toEqual(['transition', 'transition']);
+        expect(orchestrator.listenerCount('transition')).toBe(0);
+    });
+});
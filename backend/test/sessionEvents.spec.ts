@@ -0,0 +1,94 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { SessionRegistry } from '../src/orchestrator/SessionRegistry';
+import { FsmContext, FsmTransition, OrchestratorEvent, OrchestratorState } from '../src/orchestrator/fsm';
+
+const CONTEXT: FsmContext = {
+    retryCount: 0, currentStepIndex: 0, totalSteps: 2,
+    steps: [
+        { tool_call_id: 's1', tool_name: 'browser_navigate', arguments: { url: 'https://coffee-cart.app/' } },
+        { tool_call_id: 'snap', tool_name: 'browser_snapshot', arguments: {} },
+    ],
+    latestSnapshot: null, stepToConfirm: null, lastError: null, lastErrorCode: null,
+    proposedSteps: null, replanCount: 0, startingHost: null, planComplete: true,
+};
+
+function transition(previousState: OrchestratorState, state: OrchestratorState, event: OrchestratorEvent): FsmTransition {
+    return { previousState, state, event, stepIndex: 0, lastError: null, autoApprovedBy: null, summary: null };
+}
+
+// The `data:` payloads of an SSE stream, in order
+function frames(body: string): any[] {
+    return body.split('\n\n').filter(frame => frame.startsWith('data: ')).map(frame => JSON.parse(frame.slice(6)));
+}
+
+describe('GET /api/sessions/:id/events', () => {
+    let server: Server;
+    let baseUrl: string;
+    let sessions: SessionRegistry;
+
+    beforeAll(done => {
+        process.env.RUN_STORE_PATH = 'off';
+        const loaded = require('../src/server');
+        sessions = loaded.sessions;
+        server = loaded.app.listen(0, () => {
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            done();
+        });
+    });
+
+    afterAll(done => {
+        delete process.env.RUN_STORE_PATH;
+        server.close(() => done());
+    });
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should answer 404 for sessions that are not registered', async () => {
+        const response = await fetch(`${baseUrl}/api/sessions/no-such-session/events`);
+
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({ error: "Session 'no-such-session' not found" });
+    });
+
+    it("should stream the session's current state and then each of its transitions until it ends", async () => {
+        const { id, orchestrator } = sessions.create();
+        let active = true;
+        jest.spyOn(orchestrator, 'isActive', 'get').mockImplementation(() => active);
+        const other = sessions.create();
+        jest.spyOn(other.orchestrator, 'isActive', 'get').mockReturnValue(true);
+
+        const response = await fetch(`${baseUrl}/api/sessions/${id}/events`);
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toBe('text/event-stream');
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        let body = decoder.decode((await reader.read()).value); // The current state is sent right away
+
+        // Transitions of another session are not routed to this stream
+        other.orchestrator.emit('transition', transition(OrchestratorState.IDLE, OrchestratorState.ERROR, OrchestratorEvent.CANCEL_SESSION), CONTEXT);
+        orchestrator.emit('transition', transition(OrchestratorState.IDLE, OrchestratorState.WAIT_CONFIRM, OrchestratorEvent.PARSING_COMPLETE), CONTEXT);
+        active = false;
+        orchestrator.emit('transition', transition(OrchestratorState.WAIT_CONFIRM, OrchestratorState.IDLE, OrchestratorEvent.CANCEL_SESSION), CONTEXT);
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            body += decoder.decode(chunk.value);
+        }
+
+        const received = frames(body);
+        expect(received.map(frame => [frame.previousState, frame.state, frame.event])).toEqual([
+            [null, OrchestratorState.IDLE, null],
+            [OrchestratorState.IDLE, OrchestratorState.WAIT_CONFIRM, OrchestratorEvent.PARSING_COMPLETE],
+            [OrchestratorState.WAIT_CONFIRM, OrchestratorState.IDLE, OrchestratorEvent.CANCEL_SESSION],
+        ]);
+        // browser_snapshot steps are internal and never shown
+        expect(received[1].context.steps.map((step: any) => step.tool_call_id)).toEqual(['s1']);
+        sessions.remove(other.id);
+    });
+});
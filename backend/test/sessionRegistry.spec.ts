@@ -0,0 +1,108 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { Orchestrator } from '../src/orchestrator/Orchestrator';
+import {
+    DEFAULT_MAX_CONCURRENT_SESSIONS, SessionLimitError, SessionRegistry, loadMaxConcurrentSessionsFromEnv,
+} from '../src/orchestrator/SessionRegistry';
+
+// Sessions count as running between startSession and their end; the spy stands in for that
+function markActive(orchestrator: Orchestrator, active: boolean): void {
+    jest.spyOn(orchestrator, 'isActive', 'get').mockReturnValue(active);
+}
+
+describe('SessionRegistry', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should refuse sessions beyond the cap while the others are running', () => {
+        const registry = new SessionRegistry(null, 2);
+        const first = registry.create();
+        markActive(first.orchestrator, true);
+        const second = registry.create();
+        markActive(second.orchestrator, true);
+
+        expect(first.id).not.toBe(second.id);
+        expect(registry.get(first.id)).toBe(first.orchestrator);
+        expect(() => registry.create()).toThrow(SessionLimitError);
+        expect(registry.size).toBe(2);
+    });
+
+    it('should prune ended sessions so they do not count against the cap', () => {
+        const registry = new SessionRegistry(null, 1);
+        const ended = registry.create();
+        markActive(ended.orchestrator, false);
+
+        const next = registry.create();
+
+        expect(registry.get(ended.id)).toBeUndefined();
+        expect(registry.get(next.id)).toBe(next.orchestrator);
+        expect(registry.size).toBe(1);
+    });
+
+    it('should cancel a running session when it is removed', () => {
+        const registry = new SessionRegistry(null, 1);
+        const { id, orchestrator } = registry.create();
+        markActive(orchestrator, true);
+        const cancel = jest.spyOn(orchestrator, 'handleCancelSession').mockImplementation(() => {});
+
+        registry.remove(id);
+
+        expect(cancel).toHaveBeenCalled();
+        expect(registry.size).toBe(0);
+    });
+
+    it('should read MAX_CONCURRENT_SESSIONS and fall back to the default for invalid values', () => {
+        expect(loadMaxConcurrentSessionsFromEnv({})).toBe(DEFAULT_MAX_CONCURRENT_SESSIONS);
+        expect(loadMaxConcurrentSessionsFromEnv({ MAX_CONCURRENT_SESSIONS: '3' })).toBe(3);
+        for (const invalid of ['abc', '0', '-2', '1.5', ' ']) {
+            expect(loadMaxConcurrentSessionsFromEnv({ MAX_CONCURRENT_SESSIONS: invalid })).toBe(DEFAULT_MAX_CONCURRENT_SESSIONS);
+        }
+    });
+
+    describe('POST /api/parse', () => {
+        let server: Server;
+        let baseUrl: string;
+
+        beforeAll(done => {
+            process.env.MAX_CONCURRENT_SESSIONS = '1';
+            process.env.RUN_STORE_PATH = 'off';
+            const { app } = require('../src/server');
+            server = app.listen(0, () => {
+                baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+                done();
+            });
+        });
+
+        afterAll(done => {
+            delete process.env.MAX_CONCURRENT_SESSIONS;
+            delete process.env.RUN_STORE_PATH;
+            server.close(() => done());
+        });
+
+        it('should answer 429 once the concurrent session cap is reached', async () => {
+            jest.spyOn(Orchestrator.prototype, 'isActive', 'get').mockReturnValue(true);
+            jest.spyOn(Orchestrator.prototype, 'startSession').mockResolvedValue({ steps: [] } as any);
+            const parse = () => fetch(`${baseUrl}/api/parse`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ instruction: 'Open the shop', mode: 'agent' }),
+            });
+
+            const first = await parse();
+            const second = await parse();
+
+            expect(first.status).toBe(200);
+            expect(second.status).toBe(429);
+            expect(await second.json()).toEqual({
+                error: 'Too many concurrent sessions',
+                details: 'Maximum number of concurrent sessions (1) reached.',
+            });
+        });
+    });
+});
@@ -0,0 +1,155 @@
+import { RunStore } from '../src/runs/RunStore';
+import { WorkflowError, WorkflowStore } from '../src/workflows/WorkflowStore';
+import { workflowFromRun } from '../src/workflows/fromRun';
+import { applyVariables, fillTemplate, parameterize, parameterizeSteps, templateVariables, validateVariables } from '../src/workflows/template';
+import { McpToolCall } from '../src/orchestrator/Orchestrator';
+
+const PLAN: McpToolCall[] = [
+    { tool_call_id: 's1', tool_name: 'browser_navigate', arguments: { url: 'https://coffee-cart.app/' }, description: 'Open the shop' },
+    { tool_call_id: 's2', tool_name: 'browser_click', arguments: { element: '<UNKNOWN>', ref: '<UNKNOWN>' }, description: 'Click the Espresso cup' },
+    { tool_call_id: 's3', tool_name: 'browser_type', arguments: { element: 'Name field', ref: 'e7', text: 'Ada' } },
+];
+
+// The steps as the run left them: refined, and the last one auto-approved
+const FINAL_STEPS: McpToolCall[] = [
+    PLAN[0],
+    { ...PLAN[1], arguments: { element: 'Espresso cup', ref: 'e12' } },
+    { ...PLAN[2], auto_approved_by: 'typing' },
+];
+
+describe('Workflows', () => {
+    let runs: RunStore;
+    let workflows: WorkflowStore;
+
+    beforeEach(() => {
+        runs = new RunStore(':memory:');
+        workflows = new WorkflowStore(':memory:');
+        runs.startRun('run-1', 'Buy an espresso as Ada', 'plan');
+        runs.recordPlan('run-1', PLAN);
+        runs.recordSteps('run-1', FINAL_STEPS);
+    });
+
+    afterEach(() => {
+        runs.close();
+        workflows.close();
+    });
+
+    it('should save a completed run\'s final steps with refs and planned unknowns to resolve again', () => {
+        runs.finishRun('run-1', 'completed');
+        const { instruction, steps } = workflowFromRun(runs.getRun('run-1')!);
+        expect(instruction).toBe('Buy an espresso as Ada');
+
+        expect(steps).toEqual([
+            { tool_name: 'browser_navigate', arguments: { url: 'https://coffee-cart.app/' }, description: 'Open the shop' },
+            { tool_name: 'browser_click', arguments: { element: '<UNKNOWN>', ref: '<UNKNOWN>' }, description: 'Click the Espresso cup' },
+            { tool_name: 'browser_type', arguments: { element: 'Name field', ref: '<UNKNOWN>', text: 'Ada' } },
+        ]);
+
+        const saved = workflows.saveWorkflow(' Morning espresso ', 'Buy an espresso as Ada', steps, 'run-1');
+        expect(saved).toMatchObject({ name: 'Morning espresso', sourceRunId: 'run-1', stepCount: 3 });
+        expect(workflows.getWorkflow(saved.id)?.steps).toEqual(steps);
+        expect(workflows.listWorkflows()).toEqual([{
+            id: saved.id, name: 'Morning espresso', instruction: 'Buy an espresso as Ada', sourceRunId: 'run-1', createdAt: saved.createdAt, stepCount: 3, variables: [],
+        }]);
+
+        expect(workflows.deleteWorkflow(saved.id)).toBe(true);
+        expect(workflows.getWorkflow(saved.id)).toBeNull();
+        expect(workflows.deleteWorkflow(saved.id)).toBe(false);
+    });
+
+    it('should reset both refs of a drag step', () => {
+        runs.startRun('run-2', 'Move the Espresso to the cart', 'plan');
+        const drag: McpToolCall = {
+            tool_call_id: 'd1', tool_name: 'browser_drag',
+            arguments: { startElement: 'Espresso cup', startRef: 'e12', endElement: 'Cart', endRef: 'e40' },
+        };
+        runs.recordPlan('run-2', [drag]);
+        runs.recordSteps('run-2', [drag]);
+        runs.finishRun('run-2', 'completed');
+
+        expect(workflowFromRun(runs.getRun('run-2')!).steps).toEqual([{
+            tool_name: 'browser_drag',
+            arguments: { startElement: 'Espresso cup', startRef: '<UNKNOWN>', endElement: 'Cart', endRef: '<UNKNOWN>' },
+        }]);
+    });
+
+    it('should refuse runs that did not complete, empty workflows and taken names', () => {
+        runs.finishRun('run-1', 'cancelled');
+        expect(() => workflowFromRun(runs.getRun('run-1')!)).toThrow(expect.objectContaining({ reason: 'invalid' }));
+
+        expect(() => workflows.saveWorkflow('Empty', 'Nothing', [])).toThrow(WorkflowError);
+        expect(() => workflows.saveWorkflow('  ', 'Open the shop', [PLAN[0]])).toThrow(expect.objectContaining({ reason: 'invalid' }));
+
+        workflows.saveWorkflow('Open the shop', 'Open the shop', [PLAN[0]]);
+        expect(() => workflows.saveWorkflow('Open the shop', 'Open the shop again', [PLAN[0]]))
+            .toThrow(expect.objectContaining({ reason: 'conflict' }));
+    });
+
+    describe('templates', () => {
+        it('should turn values of a run into variables and fill them in for each run', () => {
+            runs.finishRun('run-1', 'completed');
+            const template = workflowFromRun(runs.getRun('run-1')!, { name: 'Ada' });
+            expect(template.instruction).toBe('Buy an espresso as {{name}}');
+            expect(template.steps[2].arguments).toEqual({ element: 'Name field', ref: '<UNKNOWN>', text: '{{name}}' });
+
+            const saved = workflows.saveWorkflow('Espresso for anyone', template.instruction, template.steps, 'run-1');
+            expect(saved.variables).toEqual(['name']);
+            expect(fillTemplate(saved.instruction, { name: 'Grace' })).toBe('Buy an espresso as Grace');
+            expect(applyVariables(saved.steps, { name: 'Grace' })[2].arguments.text).toBe('Grace');
+
+            expect(() => workflowFromRun(runs.getRun('run-1')!, { drink: 'Mocha' }))
+                .toThrow(expect.objectContaining({ problems: ["The value of variable 'drink' (\"Mocha\") does not appear in the run"] }));
+            expect(() => workflowFromRun(runs.getRun('run-1')!, { '2cups': 'Ada' }))
+                .toThrow(expect.objectContaining({ problems: ["'2cups' is not a valid variable name (letters, digits and _, not starting with a digit)"] }));
+        });
+
+        it('should find placeholders anywhere in the steps and check that every variable is given', () => {
+            const steps: McpToolCall[] = [
+                { tool_name: 'browser_navigate', arguments: { url: 'https://coffee-cart.app/?q={{ item }}' } },
+                { tool_name: 'browser_type', arguments: { element: '{{item}} quantity', ref: '<UNKNOWN>', text: '{{quantity}}' }, description: 'Order {{quantity}} {{item}}' },
+                { tool_name: 'browser_select_option', arguments: { element: 'Size', ref: '<UNKNOWN>', values: ['{{size}}'] } },
+            ];
+            expect(templateVariables('Search coffee-cart for {{item}} and add {{quantity}}', steps)).toEqual(['item', 'quantity', 'size']);
+
+            expect(validateVariables(['item', 'quantity', 'size'], { item: 'Mocha', quantity: 2, size: 'L' })).toEqual([]);
+            expect(validateVariables(['item', 'quantity'], { item: ['Mocha'], color: 'red' })).toEqual([
+                "Variable 'item' must be a string or a number", "Missing variable 'quantity'", "Unknown variable 'color'",
+            ]);
+            expect(validateVariables(['item'], 'Mocha')).toEqual(['variables must be an object mapping names to values']);
+
+            const filled = applyVariables(steps, { item: 'Mocha', quantity: 2, size: 'L' });
+            expect(filled.map(step => step.arguments)).toEqual([
+                { url: 'https://coffee-cart.app/?q=Mocha' },
+                { element: 'Mocha quantity', ref: '<UNKNOWN>', text: 2 },
+                { element: 'Size', ref: '<UNKNOWN>', values: ['L'] },
+            ]);
+            expect(filled[1].description).toBe('Order 2 Mocha');
+            expect(steps[1].arguments.text).toBe('{{quantity}}');
+        });
+
+        it('should only turn whole tokens and equal numbers into placeholders', () => {
+            expect(parameterize('Go to https://shop.example/v2/cart and add 2 Mocha', { quantity: 2 }))
+                .toBe('Go to https://shop.example/v2/cart and add {{quantity}} Mocha');
+            expect(parameterize('Add 12 cups, then 2', { quantity: 2 })).toBe('Add 12 cups, then {{quantity}}');
+
+            const steps: McpToolCall[] = [
+                { tool_name: 'browser_navigate', arguments: { url: 'https://shop.example/v2/cart' } },
+                { tool_name: 'browser_select_option', arguments: { element: 'Quantity', ref: '<UNKNOWN>', values: ['2'] } },
+                { tool_name: 'browser_wait_for', arguments: { time: 2 } },
+            ];
+            const template = parameterizeSteps(steps, { quantity: 2 });
+            expect(template.map(step => step.arguments)).toEqual([
+                { url: 'https://shop.example/v2/cart' },
+                { element: 'Quantity', ref: '<UNKNOWN>', values: ['{{quantity}}'] },
+                { time: '{{quantity}}' },
+            ]);
+            expect(applyVariables(template, { quantity: 3 })[2].arguments).toEqual({ time: 3 });
+        });
+
+        it('should record the values a workflow run was given', () => {
+            runs.recordWorkflow('run-1', 'workflow-1', { item: 'Mocha', quantity: 2 });
+            expect(runs.getRun('run-1')).toMatchObject({ workflowId: 'workflow-1', variables: { item: 'Mocha', quantity: 2 } });
+            expect(runs.listRuns()[0]).toMatchObject({ workflowId: 'workflow-1' });
+        });
+    });
+});
@@ -1,20 +1,58 @@
 import React, { useState, useEffect } from 'react';
 import StepReviewModal from './components/StepReviewModal'; // Import the modal
 import StatusHUD from './components/StatusHUD'; // Import StatusHUD
+import ReplanReviewModal from './components/ReplanReviewModal';
+import { PageElement, ToolDefinition } from './components/StepEditor';
+import WorkflowRunner, { WorkflowSummary } from './components/WorkflowRunner';
+import RecordingImport, { RecordingImportResult } from './components/RecordingImport';
 
 // Define step structure (can be imported from backend types if shared)
 interface McpToolCall {
     tool_call_id: string;
     tool_name: string;
     arguments: { [key: string]: any };
+    description?: string; // Human-readable summary from the parser
+    source_span?: { start: number; end: number; text: string }; // Part of the instruction the step came from
+    confidence?: number; // 0 to 1
+    validation_errors?: string[]; // Schema problems left after the repair round; the step can't be confirmed
+    auto_approved_by?: string; // Confirmation-policy rule that ran the step without asking
 }
 
+// Confirmation policies offered on the instruction form (see backend/src/orchestrator/confirmationPolicy.ts)
+type ConfirmationPreset = 'all' | 'risky' | 'none';
+const CONFIRMATION_PRESETS: { [preset in ConfirmationPreset]: { label: string; policy: object } } = {
+  all: { label: 'Every step', policy: { mode: 'all', rules: [] } },
+  risky: {
+    label: 'Only typing, buy/delete/submit clicks and leaving the site',
+    policy: {
+      mode: 'rules',
+      defaultAction: 'approve',
+      rules: [
+        { name: 'typing', tool: 'browser_type' },
+        { name: 'risky click', tool: 'browser_click', elementPattern: 'buy|delete|submit' },
+        { name: 'leaves the site', offStartingDomain: true },
+      ],
+    },
+  },
+  none: { label: 'No steps (run everything)', policy: { mode: 'none', rules: [] } },
+};
+
+// How the backend drives the session (see SessionMode in backend/src/orchestrator/Orchestrator.ts)
+type SessionMode = 'plan' | 'agent';
+const SESSION_MODES: { [mode in SessionMode]: string } = {
+  plan: 'Plan all steps first',
+  agent: 'Agent: decide one action at a time',
+};
+
 // Get the API base URL from environment variables
 // Default to localhost:3000 if not set, which works for docker compose setup
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000';
 
 function App() {
   const [instruction, setInstruction] = useState('');
+  const [confirmationPreset, setConfirmationPreset] = useState<ConfirmationPreset>('all');
+  const [sessionMode, setSessionMode] = useState<SessionMode>('plan');
+  const [agentSummary, setAgentSummary] = useState<string | null>(null); // Result reported by the agent when it is done
   const [isParsing, setIsParsing] = useState(false); // Renamed from isLoading for clarity
   const [parseError, setParseError] = useState<string | null>(null);
   const [isStopping, setIsStopping] = useState(false);
@@ -25,9 +63,25 @@ function App() {
   const [isReviewModalOpen, setIsReviewModalOpen] = useState(false);
   const [currentStepIndex, setCurrentStepIndex] = useState(0); // 0-based index
 
+  // Replacement steps proposed by the backend after a step failed (WAIT_REPLAN_CONFIRM)
+  const [proposedSteps, setProposedSteps] = useState<McpToolCall[]>([]);
+  // MCP tools of the current session, used to edit and insert steps
+  const [tools, setTools] = useState<ToolDefinition[]>([]);
+  // Elements of the latest page snapshot, offered when editing a step's target
+  const [pageElements, setPageElements] = useState<PageElement[]>([]);
+  // Saved workflows offered for running without parsing
+  const [workflows, setWorkflows] = useState<WorkflowSummary[]>([]);
+  // The last session that returned to IDLE, and whether its run completed and can be exported
+  const [finishedRunId, setFinishedRunId] = useState<string | null>(null);
+  const [exportableRunId, setExportableRunId] = useState<string | null>(null);
+  const [isReplanModalOpen, setIsReplanModalOpen] = useState(false);
+
   // TODO: Replace with actual state management (e.g., context, Zustand, Redux)
   // Use strings for state representation in the UI
   const [sessionState, setSessionState] = useState<string>('IDLE');
+  // Id of the backend session created by /api/parse; all other calls are scoped to it
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
 
   const [buttonsDisabled, setButtonsDisabled] = useState(false);
 
@@ -40,8 +94,12 @@ function App() {
     // TODO: Send confirmation to backend/orchestrator
     
     // --- Send confirmation to backend --- 
+    if (!sessionId) {
+      setParseError('No active session to confirm.');
+      return;
+    }
     try {
-      const confirmUrl = `${API_BASE_URL}/api/confirm`;
+      const confirmUrl = `${API_BASE_URL}/api/sessions/${sessionId}/confirm`;
       const response = await fetch(confirmUrl, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -51,7 +109,7 @@ function App() {
       if (!response.ok) {
         // Try to get error details from backend response
         let errorMsg = `Confirmation failed: ${response.status} ${response.statusText}`;
-        try { const errorData = await response.json(); errorMsg = errorData.message || errorMsg; } catch (e) { /* ignore */ }
+        try { const errorData = await response.json(); errorMsg = errorData.message || errorData.error || errorMsg; } catch (e) { /* ignore */ }
         throw new Error(errorMsg);
       }
       
@@ -98,15 +156,85 @@ function App() {
     }
   };
 
-  const handleRejectSteps = () => {
+  const handleRejectSteps = async () => {
     console.log('User rejected steps');
-    // TODO: Send rejection/cancel signal to backend/orchestrator
+    if (sessionId) {
+      try {
+        const rejectUrl = `${API_BASE_URL}/api/sessions/${sessionId}/reject`;
+        await fetch(rejectUrl, { method: 'POST', headers: { 'Content-Type': 'application/json' } });
+      } catch (err) {
+        console.error('Error sending rejection:', err);
+      }
+    }
+    setSessionId(null);
     setIsReviewModalOpen(false);
     setSteps([]); // Clear steps
     setCurrentStepIndex(0);
     setSessionState('IDLE'); // Use string state
   };
 
+  // Sends the user's decision on the proposed replacement steps
+  const sendReplanDecision = async (decision: 'accept' | 'reject') => {
+    if (!sessionId) return;
+    setButtonsDisabled(true);
+    try {
+      const replanUrl = `${API_BASE_URL}/api/sessions/${sessionId}/replan/${decision}`;
+      const response = await fetch(replanUrl, { method: 'POST', headers: { 'Content-Type': 'application/json' } });
+      if (!response.ok) {
+        let errorMsg = `Replan ${decision} failed: ${response.status} ${response.statusText}`;
+        try { const errorData = await response.json(); errorMsg = errorData.details || errorData.error || errorMsg; } catch (e) { /* ignore */ }
+        throw new Error(errorMsg);
+      }
+      setIsReplanModalOpen(false);
+      setProposedSteps([]);
+    } catch (err) {
+      console.error(`Error sending replan ${decision}:`, err);
+      setParseError(err instanceof Error ? err.message : `Failed to ${decision} replan.`);
+      setButtonsDisabled(false);
+    }
+  };
+
+  const handleAcceptReplan = () => sendReplanDecision('accept');
+
+  const handleRejectReplan = async () => {
+    await sendReplanDecision('reject');
+    setSessionId(null);
+    setSteps([]);
+    setCurrentStepIndex(0);
+    setSessionState('IDLE');
+  };
+
+  // Sends a plan edit; resolves with the problems the backend reported, or an empty list once applied
+  const sendPlanEdit = async (method: 'POST' | 'PATCH' | 'DELETE', path: string, body?: object): Promise<string[]> => {
+    if (!sessionId) return ['No active session to edit.'];
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/sessions/${sessionId}/steps${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        const problems: string[] = Array.isArray(data.problems) ? data.problems : [];
+        return [data.error || `Edit failed: ${response.status} ${response.statusText}`, ...problems];
+      }
+      // The events stream carries the same update; applying it here avoids a flicker
+      if (Array.isArray(data.steps)) setSteps(data.steps);
+      return [];
+    } catch (err) {
+      console.error('Error editing plan:', err);
+      return [err instanceof Error ? err.message : 'Failed to edit the plan.'];
+    }
+  };
+
+  const handleUpdateStep = (stepId: string, toolName: string, args: { [key: string]: any }) =>
+    sendPlanEdit('PATCH', `/${encodeURIComponent(stepId)}`, { tool_name: toolName, arguments: args });
+  const handleInsertStep = (toolName: string, args: { [key: string]: any }, beforeStepId?: string) =>
+    sendPlanEdit('POST', '', { tool_name: toolName, arguments: args, beforeStepId });
+  const handleDeleteStep = (stepId: string) => sendPlanEdit('DELETE', `/${encodeURIComponent(stepId)}`);
+  const handleMoveStep = (stepId: string, beforeStepId?: string) =>
+    sendPlanEdit('POST', `/${encodeURIComponent(stepId)}/move`, { beforeStepId });
+
   const handleInputChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => { // Changed input to textarea to match InstructionInput
     setInstruction(event.target.value);
     if (parseError) {
@@ -124,6 +252,8 @@ function App() {
     setIsParsing(true);
     setParseError(null);
     setStopError(null); // Clear previous errors
+    setAgentSummary(null);
+    setFinishedRunId(null);
 
     try {
       const apiUrl = `${API_BASE_URL}/api/parse`;
@@ -131,11 +261,11 @@ function App() {
       const response = await fetch(apiUrl, { // Assuming InstructionInput is merged or this logic lives here now
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ instruction }),
+        body: JSON.stringify({ instruction, mode: sessionMode, confirmationPolicy: CONFIRMATION_PRESETS[confirmationPreset].policy }),
       });
        if (!response.ok) {
         let errorMsg = `Error: ${response.status} ${response.statusText}`;
-         try { const errorData = await response.json(); errorMsg = errorData.message || errorMsg; } catch (e) { /* ignore */ }
+         try { const errorData = await response.json(); errorMsg = errorData.message || errorData.error || errorMsg; } catch (e) { /* ignore */ }
         throw new Error(errorMsg);
       }
       const parsedData = await response.json();
@@ -150,11 +280,18 @@ function App() {
         
         // Original logic inside the IF block:
         if (parsedData && Array.isArray(parsedData.steps) && parsedData.steps.length > 0) { // Check again inside for safety
+            setSessionId(parsedData.sessionId ?? null);
             setSteps(parsedData.steps);
             setCurrentStepIndex(0); // Start review from the first step
             setIsReviewModalOpen(true);
             console.log('Called setIsReviewModalOpen(true)'); // <-- Log state setter call
             setSessionState('WAIT_CONFIRM'); // Use string state
+        } else if (parsedData.mode === 'agent' && parsedData.sessionId) {
+            // Agent mode starts without steps; they arrive one at a time over the status stream
+            setSessionId(parsedData.sessionId);
+            setSteps([]);
+            setCurrentStepIndex(0);
+            setSessionState('PLAN_NEXT_CHUNK');
         } else {
              console.log('Condition NOT met within simplified block: No steps array or empty steps.'); // <-- Log if inner check fails
              setSteps([]);
@@ -180,13 +317,78 @@ function App() {
   };
 
 
+  // Starts a session running a saved workflow with the given variables; resolves with the backend's problems
+  const handleRunWorkflow = async (workflowId: string, variables: { [name: string]: string }): Promise<string[]> => {
+    setParseError(null);
+    setStopError(null);
+    setAgentSummary(null);
+    setFinishedRunId(null);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/workflows/${encodeURIComponent(workflowId)}/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ variables, confirmationPolicy: CONFIRMATION_PRESETS[confirmationPreset].policy }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        if (Array.isArray(data.problems) && data.problems.length > 0) return data.problems;
+        throw new Error(data.error || `Error: ${response.status} ${response.statusText}`);
+      }
+      setSessionId(data.sessionId ?? null);
+      setSteps(Array.isArray(data.steps) ? data.steps : []);
+      setCurrentStepIndex(0);
+      setIsReviewModalOpen(true);
+      setSessionState('WAIT_CONFIRM');
+      return [];
+    } catch (err) {
+      console.error('Running workflow failed:', err);
+      setParseError(err instanceof Error ? err.message : 'Failed to run workflow.');
+      return [];
+    }
+  };
+
+  // Starts a session running the steps of a pasted recording; resolves with the backend's problems and warnings
+  const handleImportRecording = async (source: string): Promise<RecordingImportResult> => {
+    setParseError(null);
+    setStopError(null);
+    setAgentSummary(null);
+    setFinishedRunId(null);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source, confirmationPolicy: CONFIRMATION_PRESETS[confirmationPreset].policy }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        const problems: string[] = Array.isArray(data.problems) ? data.problems : [];
+        return { problems: [data.error || `Error: ${response.status} ${response.statusText}`, ...problems], warnings: [] };
+      }
+      setSessionId(data.sessionId ?? null);
+      setSteps(Array.isArray(data.steps) ? data.steps : []);
+      setCurrentStepIndex(0);
+      setIsReviewModalOpen(true);
+      setSessionState('WAIT_CONFIRM');
+      return { problems: [], warnings: Array.isArray(data.warnings) ? data.warnings : [] };
+    } catch (err) {
+      console.error('Importing recording failed:', err);
+      setParseError(err instanceof Error ? err.message : 'Failed to import recording.');
+      return { problems: [], warnings: [] };
+    }
+  };
+
   const handleStopSession = async () => {
       setIsStopping(true);
       setStopError(null);
       setParseError(null); // Clear other errors
 
+      if (!sessionId) {
+          setIsStopping(false);
+          return; // Nothing to stop
+      }
+
       try {
-          const stopUrl = `${API_BASE_URL}/api/stop`;
+          const stopUrl = `${API_BASE_URL}/api/sessions/${sessionId}/cancel`;
           console.log('[App.tsx] Fetching:', stopUrl); // <-- Log the URL
           const response = await fetch(stopUrl, {
               method: 'POST', // Or 'GET' if the backend expects that
@@ -203,7 +405,12 @@ function App() {
            }
 
            console.log('Stop session request successful');
-           // TODO: Reset relevant UI state (e.g., clear steps, set FSM state to IDLE via parent/context)
+           setSessionId(null);
+           setIsReviewModalOpen(false);
+           setIsReplanModalOpen(false);
+           setProposedSteps([]);
+           setSteps([]);
+           setSessionState('IDLE');
 
       } catch (err) {
           console.error('Failed to stop session:', err);
@@ -214,34 +421,103 @@ function App() {
       }
   };
 
-  const pollStatus = async () => {
-    try {
-      const statusUrl = `${API_BASE_URL}/api/status`;
-      const res = await fetch(statusUrl);
-      if (res.ok) {
-        const data = await res.json();
-        setSessionState(data.state);
-        // Enable buttons only when state is WAIT_CONFIRM
-        const isWaitConfirm = data.state === 'WAIT_CONFIRM';
-        setButtonsDisabled(!isWaitConfirm);
-        if (isWaitConfirm && data.context?.steps?.length > 0) {
-          setIsReviewModalOpen(true);
-        }
-        if (Array.isArray(data.context?.steps)) {
-          setSteps(data.context.steps);
-          setCurrentStepIndex(data.context.currentStepIndex || 0);
-        }
-      }
-    } catch (e) {
-      console.error('Status polling failed', e);
+  // Applies a status update pushed by the backend's SSE stream
+  const applyStatusUpdate = (data: { state: string; lastError?: unknown; summary?: string | null; context?: { steps?: McpToolCall[]; currentStepIndex?: number; proposedSteps?: McpToolCall[] | null } }) => {
+    setSessionState(data.state);
+    if (data.summary) {
+      setAgentSummary(data.summary);
+    }
+    setLastError(data.lastError ? String((data.lastError as { message?: string }).message ?? data.lastError) : null);
+    // Enable buttons only when waiting on the user
+    const isWaitConfirm = data.state === 'WAIT_CONFIRM';
+    const isWaitReplanConfirm = data.state === 'WAIT_REPLAN_CONFIRM';
+    setButtonsDisabled(!isWaitConfirm && !isWaitReplanConfirm);
+    if (isWaitConfirm && (data.context?.steps?.length ?? 0) > 0) {
+      setIsReviewModalOpen(true);
+    }
+    if (isWaitReplanConfirm && data.context?.proposedSteps) {
+      setProposedSteps(data.context.proposedSteps);
+      setIsReviewModalOpen(false);
+      setIsReplanModalOpen(true);
+    } else if (!isWaitReplanConfirm) {
+      setIsReplanModalOpen(false);
+    }
+    if (Array.isArray(data.context?.steps)) {
+      setSteps(data.context.steps);
+      setCurrentStepIndex(data.context.currentStepIndex || 0);
     }
   };
 
   useEffect(() => {
-    const interval = setInterval(pollStatus, 3000);
-    return () => clearInterval(interval);
+    fetch(`${API_BASE_URL}/api/workflows`)
+      .then(response => (response.ok ? response.json() : { workflows: [] }))
+      .then(data => setWorkflows(Array.isArray(data.workflows) ? data.workflows : []))
+      .catch(err => console.error('Failed to load workflows', err));
   }, []);
 
+  // A session that ended in IDLE may have completed; only completed runs can be exported
+  useEffect(() => {
+    setExportableRunId(null);
+    if (!finishedRunId) return;
+    fetch(`${API_BASE_URL}/api/runs/${finishedRunId}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(run => setExportableRunId(run?.status === 'completed' ? finishedRunId : null))
+      .catch(err => console.error('Failed to load run', err));
+  }, [finishedRunId]);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setTools([]);
+      return;
+    }
+    fetch(`${API_BASE_URL}/api/sessions/${sessionId}/tools`)
+      .then(response => (response.ok ? response.json() : { tools: [] }))
+      .then(data => setTools(Array.isArray(data.tools) ? data.tools : []))
+      .catch(err => console.error('Failed to load session tools', err));
+  }, [sessionId]);
+
+  // The page changes as steps run; reload its elements whenever a step waits for review
+  useEffect(() => {
+    if (!sessionId || sessionState !== 'WAIT_CONFIRM') {
+      setPageElements([]);
+      return;
+    }
+    fetch(`${API_BASE_URL}/api/sessions/${sessionId}/elements`)
+      .then(response => (response.ok ? response.json() : { elements: [] }))
+      .then(data => setPageElements(Array.isArray(data.elements) ? data.elements : []))
+      .catch(err => console.error('Failed to load page elements', err));
+  }, [sessionId, sessionState, currentStepIndex]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const eventsUrl = `${API_BASE_URL}/api/sessions/${sessionId}/events`;
+    const eventSource = new EventSource(eventsUrl);
+
+    eventSource.onmessage = (event) => {
+      try {
+        const update = JSON.parse(event.data);
+        applyStatusUpdate(update);
+        // IDLE and ERROR end the session on the backend; stop listening
+        if (update.state === 'IDLE' || update.state === 'ERROR') {
+          if (update.state === 'IDLE') setFinishedRunId(sessionId);
+          eventSource.close();
+          setSessionId(null);
+        }
+      } catch (e) {
+        console.error('Failed to parse status event', e);
+      }
+    };
+    eventSource.onerror = (e) => {
+      // EventSource retries on its own; a CLOSED stream means the session is gone (e.g. 404)
+      if (eventSource.readyState === EventSource.CLOSED) {
+        console.error('Status stream closed', e);
+        setSessionId(null);
+      }
+    };
+
+    return () => eventSource.close();
+  }, [sessionId]);
+
   return (
     <div className="flex flex-col items-center justify-center min-h-screen p-4 bg-gray-50">
       <div className="w-full max-w-2xl bg-white p-8 rounded-lg shadow-md relative"> {/* Added relative for potential absolute positioning of stop button */}
@@ -252,7 +528,7 @@ function App() {
            type="button"
            onClick={handleStopSession}
            className="absolute top-4 right-4 inline-flex items-center justify-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
-           disabled={isStopping}
+           disabled={isStopping || !sessionId}
            aria-label="Stop current session"
          >
             {isStopping ? 'Stopping...' : 'Stop Session'}
@@ -278,6 +554,34 @@ function App() {
              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100"
              disabled={isParsing || isStopping} // Disable textarea while parsing or stopping
            />
+           <label htmlFor="confirmation-select" className="mt-2 block text-sm font-medium text-gray-700">
+             Ask me to confirm:
+           </label>
+           <select
+             id="confirmation-select"
+             value={confirmationPreset}
+             onChange={(event) => setConfirmationPreset(event.target.value as ConfirmationPreset)}
+             className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm disabled:bg-gray-100"
+             disabled={isParsing || isStopping}
+           >
+             {(Object.keys(CONFIRMATION_PRESETS) as ConfirmationPreset[]).map(preset => (
+               <option key={preset} value={preset}>{CONFIRMATION_PRESETS[preset].label}</option>
+             ))}
+           </select>
+           <label htmlFor="mode-select" className="mt-2 block text-sm font-medium text-gray-700">
+             Mode:
+           </label>
+           <select
+             id="mode-select"
+             value={sessionMode}
+             onChange={(event) => setSessionMode(event.target.value as SessionMode)}
+             className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm disabled:bg-gray-100"
+             disabled={isParsing || isStopping}
+           >
+             {(Object.keys(SESSION_MODES) as SessionMode[]).map(mode => (
+               <option key={mode} value={mode}>{SESSION_MODES[mode]}</option>
+             ))}
+           </select>
            {parseError && (
                <p className="mt-1 text-sm text-red-600">{parseError}</p>
            )}
@@ -286,9 +590,23 @@ function App() {
               className="mt-3 w-full inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
               disabled={!instruction.trim() || isParsing || isStopping}
             >
-              {isParsing ? 'Parsing...' : 'Parse Instruction'}
+              {isParsing ? 'Parsing...' : (sessionMode === 'agent' ? 'Start Agent' : 'Parse Instruction')}
             </button>
          </form>
+         <WorkflowRunner workflows={workflows} disabled={!!sessionId || isParsing || isStopping} onRun={handleRunWorkflow} />
+         <RecordingImport disabled={!!sessionId || isParsing || isStopping} onImport={handleImportRecording} />
+         {agentSummary && (
+             <p className="mt-3 rounded-md bg-green-50 px-3 py-2 text-sm text-green-800">Agent result: {agentSummary}</p>
+         )}
+         {exportableRunId && !sessionId && (
+             <a
+               href={`${API_BASE_URL}/api/runs/${exportableRunId}/playwright`}
+               className="mt-3 block text-center text-sm text-indigo-600 hover:underline"
+               download
+             >
+               Export the last run as a Playwright test
+             </a>
+         )}
 
          {/* Integrate StepReviewModal and StatusHUD, passing state */}
          <StepReviewModal
@@ -299,8 +617,25 @@ function App() {
             onAccept={handleAcceptStep}
             onReject={handleRejectSteps}
             buttonsDisabled={buttonsDisabled}
+            tools={tools}
+            elements={pageElements}
+            onUpdateStep={handleUpdateStep}
+            onInsertStep={handleInsertStep}
+            onDeleteStep={handleDeleteStep}
+            onMoveStep={handleMoveStep}
+         />
+         <ReplanReviewModal
+            isOpen={isReplanModalOpen}
+            onOpenChange={setIsReplanModalOpen}
+            failedStep={steps[currentStepIndex] ?? null}
+            failureReason={lastError}
+            proposedSteps={proposedSteps}
+            onAccept={handleAcceptReplan}
+            onReject={handleRejectReplan}
+            buttonsDisabled={buttonsDisabled}
          />
-         <StatusHUD sessionState={sessionState} currentStepIndex={currentStepIndex} totalSteps={steps.length} />
+         <StatusHUD sessionState={sessionState} currentStepIndex={currentStepIndex} totalSteps={steps.length} lastError={lastError}
+            autoApprovedBy={steps[currentStepIndex]?.auto_approved_by} />
       </div>
     </div>
   );
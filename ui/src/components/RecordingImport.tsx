@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button"; // Adjust path if needed
+
+// What the backend reported about an import: problems when it was refused, warnings for left-out steps
+export interface RecordingImportResult {
+  problems: string[];
+  warnings: string[];
+}
+
+interface RecordingImportProps {
+  disabled?: boolean;
+  onImport: (source: string) => Promise<RecordingImportResult>;
+}
+
+/**
+ * Form for running a recorded flow: paste a Playwright codegen script or a Chrome DevTools Recorder
+ * JSON export and its steps are reviewed and run like a parsed plan.
+ */
+function RecordingImport({ disabled = false, onImport }: RecordingImportProps) {
+  const [source, setSource] = useState('');
+  const [result, setResult] = useState<RecordingImportResult>({ problems: [], warnings: [] });
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      setResult(await onImport(source));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4 space-y-2">
+      <label className="block text-sm font-medium text-gray-700">
+        Import a recording:
+        <textarea
+          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-xs disabled:bg-gray-100"
+          rows={5}
+          placeholder="Paste a Playwright codegen script or a Chrome Recorder JSON export"
+          value={source}
+          onChange={(event) => {
+            setSource(event.target.value);
+            setResult({ problems: [], warnings: [] });
+          }}
+          disabled={disabled || isImporting}
+        />
+      </label>
+      {result.problems.length > 0 && (
+        <ul className="list-disc list-inside text-xs text-red-600">
+          {result.problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+      {result.warnings.length > 0 && (
+        <ul className="list-disc list-inside text-xs text-amber-700">
+          {result.warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+      <Button className="w-full" onClick={handleImport} disabled={disabled || isImporting || !source.trim()}>
+        {isImporting ? 'Importing...' : 'Import and Run'}
+      </Button>
+    </div>
+  );
+}
+
+export default RecordingImport;
@@ -0,0 +1,91 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog"; // Adjust path if needed
+import { Button } from "@/components/ui/button"; // Adjust path if needed
+import StepSummary from './StepSummary';
+
+// Re-define or import the step structure
+interface McpToolCall {
+    tool_call_id: string;
+    tool_name: string;
+    arguments: { [key: string]: any };
+    description?: string; // Human-readable summary from the parser
+    source_span?: { start: number; end: number; text: string }; // Part of the instruction the step came from
+    confidence?: number; // 0 to 1
+    validation_errors?: string[]; // Schema problems left after the repair round; the step can't be confirmed
+    auto_approved_by?: string; // Confirmation-policy rule that ran the step without asking
+}
+
+interface ReplanReviewModalProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  failedStep: McpToolCall | null; // The step that failed after all retries
+  failureReason: string | null; // Last error reported for the failed step
+  proposedSteps: McpToolCall[]; // Replacement steps proposed by the LLM
+  onAccept: () => void; // Continue the session with the proposed steps
+  onReject: () => void; // End the session
+  buttonsDisabled?: boolean;
+}
+
+function ReplanReviewModal({
+  isOpen,
+  onOpenChange,
+  failedStep,
+  failureReason,
+  proposedSteps,
+  onAccept,
+  onReject,
+  buttonsDisabled = false,
+}: ReplanReviewModalProps) {
+
+  // Nothing to review until the backend has proposed steps
+  if (proposedSteps.length === 0) {
+      return null;
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle>Step Failed: Review Alternative Plan</DialogTitle>
+          <DialogDescription>
+            A step could not be completed after retrying. The following steps were proposed to finish the instruction
+            in the current browser session.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          {failedStep && (
+            <div className="rounded-md border border-red-200 p-4 bg-red-50">
+                <p className="text-sm font-medium text-red-600">Failed:</p>
+                <StepSummary step={failedStep} tone="failed" />
+                {failureReason && (
+                    <p className="mt-2 text-xs text-red-700">{failureReason}</p>
+                )}
+            </div>
+          )}
+          <div className="rounded-md border p-4 bg-gray-50">
+              <p className="text-sm text-gray-600">Proposed steps:</p>
+              <ol className="mt-1 list-decimal list-inside space-y-2">
+                  {proposedSteps.map((step, index) => (
+                      <li key={step.tool_call_id || index} className="text-sm">
+                          <StepSummary step={step} />
+                      </li>
+                  ))}
+              </ol>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onReject} disabled={buttonsDisabled}>Reject / End Session</Button>
+          <Button onClick={onAccept} disabled={buttonsDisabled}>Accept Plan</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ReplanReviewModal;
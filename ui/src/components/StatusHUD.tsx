@@ -2,15 +2,17 @@ import React from 'react';
 
 // It's good practice to use the same enum/type as the backend if possible,
 // but for now, we'll define the expected states as strings.
-type SessionState = 'IDLE' | 'REVIEW' | 'WAIT_CONFIRM' | 'EXECUTE' | 'ERROR' | string;
+type SessionState = 'IDLE' | 'REVIEW' | 'WAIT_CONFIRM' | 'EXECUTE' | 'WAIT_LLM_RESPONSE' | 'RETRY_WAIT' | 'REPLAN' | 'WAIT_REPLAN_CONFIRM' | 'RECONNECTING' | 'PLAN_NEXT_CHUNK' | 'ERROR' | string;
 
 interface StatusHUDProps {
   sessionState: SessionState;
   currentStepIndex: number; // 0-based index
   totalSteps: number;
+  lastError?: string | null; // Last error reported by the backend, shown in the ERROR state
+  autoApprovedBy?: string; // Confirmation-policy rule that let the current step run without asking
 }
 
-function StatusHUD({ sessionState, currentStepIndex, totalSteps }: StatusHUDProps) {
+function StatusHUD({ sessionState, currentStepIndex, totalSteps, lastError, autoApprovedBy }: StatusHUDProps) {
 
   const getStatusText = (): string => {
     switch (sessionState) {
@@ -21,9 +23,26 @@ function StatusHUD({ sessionState, currentStepIndex, totalSteps }: StatusHUDProp
       case 'WAIT_CONFIRM':
         return `Waiting for confirmation... (Step ${currentStepIndex + 1}/${totalSteps})`;
       case 'EXECUTE':
-        return `Executing step ${currentStepIndex + 1}/${totalSteps}...`;
+        return autoApprovedBy
+          ? `Executing step ${currentStepIndex + 1}/${totalSteps} (auto-approved: ${autoApprovedBy})...`
+          : `Executing step ${currentStepIndex + 1}/${totalSteps}...`;
+      case 'WAIT_LLM_RESPONSE':
+        return `Resolving step ${currentStepIndex + 1}/${totalSteps} from page snapshot...`;
+      case 'RETRY_WAIT':
+        return lastError
+          ? `Step ${currentStepIndex + 1}/${totalSteps} failed (${lastError}). Retrying...`
+          : `Step ${currentStepIndex + 1}/${totalSteps} failed. Retrying...`;
+      case 'REPLAN':
+        return `Step ${currentStepIndex + 1}/${totalSteps} failed. Asking the LLM for an alternative plan...`;
+      case 'WAIT_REPLAN_CONFIRM':
+        return 'Waiting for confirmation of the alternative plan...';
+      case 'RECONNECTING':
+        return 'Connection to the browser lost. Reconnecting...';
+      case 'PLAN_NEXT_CHUNK':
+        // An agent session starts here with no steps yet
+        return totalSteps > 0 ? `Steps 1-${totalSteps} done. Planning the next steps...` : 'Deciding the next action...';
       case 'ERROR':
-        return 'Error occurred. Session halted.';
+        return lastError ? `Error occurred. Session halted: ${lastError}` : 'Error occurred. Session halted.';
       default:
         return `Status: ${sessionState}`;
     }
@@ -39,6 +58,18 @@ function StatusHUD({ sessionState, currentStepIndex, totalSteps }: StatusHUDProp
         return 'bg-yellow-500 text-black'; // Yellow might need black text
       case 'EXECUTE':
         return 'bg-green-500';
+      case 'WAIT_LLM_RESPONSE':
+        return 'bg-blue-500';
+      case 'RETRY_WAIT':
+        return 'bg-orange-500';
+      case 'REPLAN':
+        return 'bg-orange-500';
+      case 'WAIT_REPLAN_CONFIRM':
+        return 'bg-yellow-500 text-black';
+      case 'RECONNECTING':
+        return 'bg-orange-500';
+      case 'PLAN_NEXT_CHUNK':
+        return 'bg-blue-500';
       case 'ERROR':
         return 'bg-red-600';
       default:
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button"; // Adjust path if needed
+
+// An MCP tool as returned by /api/sessions/:id/tools
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema: any;
+}
+
+// An element of the current page as returned by /api/sessions/:id/elements
+export interface PageElement {
+  role: string;
+  name: string;
+  ref: string;
+  states: { [state: string]: string | true };
+}
+
+interface StepEditorProps {
+  tools: ToolDefinition[];
+  elements?: PageElement[]; // Elements of the current page, offered for tools that take a `ref`
+  initialToolName?: string;
+  initialArguments?: { [key: string]: any };
+  saveLabel?: string;
+  // Resolves with the problems the backend found (schema violations etc.); empty when saved
+  onSave: (toolName: string, args: { [key: string]: any }) => Promise<string[]>;
+  onCancel: () => void;
+}
+
+/**
+ * Form for writing a step by hand: pick a tool and edit its arguments as JSON. The backend validates
+ * the arguments against the tool's input schema and any problems are listed under the form. For tools
+ * that take a `ref`, an element of the current page can be picked to fill in `element` and `ref`.
+ */
+function StepEditor({ tools, elements = [], initialToolName, initialArguments = {}, saveLabel = 'Save', onSave, onCancel }: StepEditorProps) {
+  const [toolName, setToolName] = useState(initialToolName ?? tools[0]?.name ?? '');
+  const [argumentsText, setArgumentsText] = useState(JSON.stringify(initialArguments, null, 2));
+  const [problems, setProblems] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedTool = tools.find(tool => tool.name === toolName);
+  const schemaProperties: string[] = Object.keys(selectedTool?.inputSchema?.properties ?? {});
+  const canPickElement = elements.length > 0 && schemaProperties.includes('ref');
+
+  const handlePickElement = (ref: string) => {
+    const picked = elements.find(element => element.ref === ref);
+    if (!picked) return;
+    let args: { [key: string]: any } = {};
+    try { args = JSON.parse(argumentsText || '{}'); } catch (e) { /* replace invalid JSON */ }
+    const element = picked.name ? `${picked.role} "${picked.name}"` : picked.role;
+    setArgumentsText(JSON.stringify({ ...args, element, ref: picked.ref }, null, 2));
+  };
+
+  const handleSave = async () => {
+    let args: any;
+    try {
+      args = JSON.parse(argumentsText || '{}');
+    } catch (e) {
+      setProblems(['Arguments must be valid JSON.']);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      setProblems(await onSave(toolName, args));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-indigo-200 p-3 bg-indigo-50 space-y-2">
+      <label className="block text-xs font-medium text-gray-700">
+        Tool
+        <select
+          className="mt-1 block w-full rounded border border-gray-300 bg-white px-2 py-1 text-sm"
+          value={toolName}
+          onChange={(event) => setToolName(event.target.value)}
+        >
+          {tools.map(tool => (
+            <option key={tool.name} value={tool.name}>{tool.name}</option>
+          ))}
+        </select>
+      </label>
+      {selectedTool?.description && (
+        <p className="text-xs text-gray-500">{selectedTool.description}</p>
+      )}
+      {canPickElement && (
+        <label className="block text-xs font-medium text-gray-700">
+          Page element
+          <select
+            className="mt-1 block w-full rounded border border-gray-300 bg-white px-2 py-1 text-sm"
+            value=""
+            onChange={(event) => handlePickElement(event.target.value)}
+          >
+            <option value="">Pick an element to fill in element and ref...</option>
+            {elements.map(element => (
+              <option key={element.ref} value={element.ref}>{element.role} {element.name && `"${element.name}"`} [{element.ref}]</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label className="block text-xs font-medium text-gray-700">
+        Arguments (JSON){schemaProperties.length > 0 && <span className="font-normal text-gray-500"> — {schemaProperties.join(', ')}</span>}
+        <textarea
+          className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 font-mono text-xs"
+          rows={5}
+          value={argumentsText}
+          onChange={(event) => setArgumentsText(event.target.value)}
+        />
+      </label>
+      {problems.length > 0 && (
+        <ul className="list-disc list-inside text-xs text-red-600">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+        <Button size="sm" onClick={handleSave} disabled={isSaving || !toolName}>{isSaving ? 'Saving...' : saveLabel}</Button>
+      </div>
+    </div>
+  );
+}
+
+export default StepEditor;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -8,12 +8,19 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog"; // Adjust path if needed
 import { Button } from "@/components/ui/button"; // Adjust path if needed
+import StepSummary from './StepSummary';
+import StepEditor, { PageElement, ToolDefinition } from './StepEditor';
 
 // Re-define or import the step structure
 interface McpToolCall {
     tool_call_id: string;
     tool_name: string;
     arguments: { [key: string]: any };
+    description?: string; // Human-readable summary from the parser
+    source_span?: { start: number; end: number; text: string }; // Part of the instruction the step came from
+    confidence?: number; // 0 to 1
+    validation_errors?: string[]; // Schema problems left after the repair round; the step can't be confirmed
+    auto_approved_by?: string; // Confirmation-policy rule that ran the step without asking
 }
 
 interface StepReviewModalProps {
@@ -24,8 +31,18 @@ interface StepReviewModalProps {
   onAccept: (stepId: string) => void; // Callback with the ID of the accepted step
   onReject: () => void; // Callback if the user rejects/cancels
   buttonsDisabled?: boolean; // Disable action buttons when waiting for refinement
+  // Plan editing; each callback resolves with the problems the backend reported (empty on success)
+  tools?: ToolDefinition[]; // Tools the session offers, for swapping or inserting steps
+  elements?: PageElement[]; // Elements of the current page, for picking a step's target
+  onUpdateStep?: (stepId: string, toolName: string, args: { [key: string]: any }) => Promise<string[]>;
+  onInsertStep?: (toolName: string, args: { [key: string]: any }, beforeStepId?: string) => Promise<string[]>;
+  onDeleteStep?: (stepId: string) => Promise<string[]>;
+  onMoveStep?: (stepId: string, beforeStepId?: string) => Promise<string[]>;
 }
 
+// Marks the "add step" form in the editing state
+const NEW_STEP = '__new__';
+
 function StepReviewModal({
   isOpen,
   onOpenChange,
@@ -34,13 +51,27 @@ function StepReviewModal({
   onAccept,
   onReject,
   buttonsDisabled = false,
+  tools = [],
+  elements = [],
+  onUpdateStep,
+  onInsertStep,
+  onDeleteStep,
+  onMoveStep,
 }: StepReviewModalProps) {
+  // Id of the step whose editor is open, NEW_STEP for the "add step" form, or null
+  const [editingStepId, setEditingStepId] = useState<string | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+  const canEdit = !buttonsDisabled && tools.length > 0;
 
   // Ensure the current step index is valid
   const currentStep = (currentStepIndex >= 0 && currentStepIndex < steps.length)
     ? steps[currentStepIndex]
     : null;
 
+  const upcomingSteps = currentStep ? steps.slice(currentStepIndex + 1) : [];
+  // The backend refuses to confirm a step that still fails its tool's input schema
+  const currentStepInvalid = (currentStep?.validation_errors?.length ?? 0) > 0;
+
   const handleAccept = () => {
     if (currentStep) {
       onAccept(currentStep.tool_call_id);
@@ -51,6 +82,29 @@ function StepReviewModal({
     onReject();
   };
 
+  // Closes the editor once an edit went through
+  const closeOnSuccess = (problems: string[]) => {
+    if (problems.length === 0) setEditingStepId(null);
+    return problems;
+  };
+
+  // Runs a list action (move, delete) and shows its problems above the list
+  const runListAction = async (action: Promise<string[]>) => {
+    const problems = await action;
+    setEditError(problems.length > 0 ? problems.join(' ') : null);
+  };
+
+  const renderEditor = (step: McpToolCall) => (
+    <StepEditor
+      tools={tools}
+      elements={elements}
+      initialToolName={step.tool_name}
+      initialArguments={step.arguments}
+      onSave={async (toolName, args) => closeOnSuccess(await (onUpdateStep?.(step.tool_call_id, toolName, args) ?? Promise.resolve([])))}
+      onCancel={() => setEditingStepId(null)}
+    />
+  );
+
   // Prevent rendering if the step index is invalid or no step data
   if (!currentStep) {
       // Optionally log an error or handle this case differently
@@ -64,7 +118,7 @@ function StepReviewModal({
 
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[525px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Confirm Step {currentStepIndex + 1} of {steps.length}</DialogTitle>
           <DialogDescription>
@@ -73,30 +127,69 @@ function StepReviewModal({
         </DialogHeader>
         <div className="grid gap-4 py-4">
           {/* Display current step details */}
-          <div className="rounded-md border p-4 bg-gray-50">
-              <p className="text-sm font-medium text-gray-800">
-                  Action: <span className="font-bold text-indigo-600">{currentStep.tool_name}</span>
-              </p>
-              <p className="mt-2 text-sm text-gray-600">Arguments:</p>
-              <pre className="mt-1 p-2 bg-gray-100 rounded text-xs text-gray-700 overflow-x-auto">
-                  {JSON.stringify(currentStep.arguments, null, 2)}
-              </pre>
-          </div>
-          {/* Optional: Display upcoming steps for context? */}
-          {/* {steps.length > currentStepIndex + 1 && (
-              <div className="mt-4">
-                  <p className="text-xs text-gray-500">Upcoming steps:</p>
-                   <ul className="list-disc list-inside text-xs text-gray-400">
-                       {steps.slice(currentStepIndex + 1).map((step, index) => (
-                           <li key={step.tool_call_id || index}>{step.tool_name}</li>
-                       ))}
-                   </ul>
-              </div>
-          )} */}
+          {editingStepId === currentStep.tool_call_id ? renderEditor(currentStep) : (
+            <div className="rounded-md border p-4 bg-gray-50">
+                <StepSummary step={currentStep} />
+                {canEdit && onUpdateStep && (
+                  <div className="mt-2 flex justify-end">
+                    <Button variant="ghost" size="sm" onClick={() => setEditingStepId(currentStep.tool_call_id)}>Edit step</Button>
+                  </div>
+                )}
+            </div>
+          )}
+          {/* Steps after the current one can be edited, reordered and deleted before they run */}
+          {(upcomingSteps.length > 0 || canEdit) && (
+            <div>
+              <p className="text-xs font-medium text-gray-500">Upcoming steps</p>
+              {editError && <p className="mt-1 text-xs text-red-600">{editError}</p>}
+              <ol className="mt-1 space-y-2">
+                {upcomingSteps.map((step, offset) => {
+                  const index = currentStepIndex + 1 + offset;
+                  return (
+                    <li key={step.tool_call_id} className="rounded-md border p-2">
+                      {editingStepId === step.tool_call_id ? renderEditor(step) : (
+                        <>
+                          <StepSummary step={step} />
+                          {canEdit && (
+                            <div className="mt-1 flex justify-end gap-1">
+                              {onMoveStep && (
+                                <>
+                                  <Button variant="ghost" size="sm" aria-label="Move up"
+                                    onClick={() => runListAction(onMoveStep(step.tool_call_id, steps[index - 1]?.tool_call_id))}>↑</Button>
+                                  <Button variant="ghost" size="sm" aria-label="Move down" disabled={index === steps.length - 1}
+                                    onClick={() => runListAction(onMoveStep(step.tool_call_id, steps[index + 2]?.tool_call_id))}>↓</Button>
+                                </>
+                              )}
+                              {onUpdateStep && <Button variant="ghost" size="sm" onClick={() => setEditingStepId(step.tool_call_id)}>Edit</Button>}
+                              {onDeleteStep && <Button variant="ghost" size="sm" onClick={() => runListAction(onDeleteStep(step.tool_call_id))}>Delete</Button>}
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+              {canEdit && onInsertStep && (editingStepId === NEW_STEP ? (
+                <div className="mt-2">
+                  <StepEditor
+                    tools={tools}
+                    elements={elements}
+                    saveLabel="Add step"
+                    onSave={async (toolName, args) => closeOnSuccess(await onInsertStep(toolName, args))}
+                    onCancel={() => setEditingStepId(null)}
+                  />
+                </div>
+              ) : (
+                <Button variant="outline" size="sm" className="mt-2" onClick={() => setEditingStepId(NEW_STEP)}>Add step</Button>
+              ))}
+            </div>
+          )}
         </div>
         <DialogFooter>
           <Button variant="outline" onClick={handleReject} disabled={buttonsDisabled}>Reject / Cancel</Button>
-          <Button onClick={handleAccept} disabled={buttonsDisabled}>Accept Step</Button>
+          <Button onClick={handleAccept} disabled={buttonsDisabled || editingStepId !== null || currentStepInvalid}
+            title={currentStepInvalid ? 'Edit the step to fix its arguments first.' : undefined}>Accept Step</Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,80 @@
+// Re-define or import the step structure
+interface McpToolCall {
+    tool_call_id: string;
+    tool_name: string;
+    arguments: { [key: string]: any };
+    description?: string; // Human-readable summary from the parser
+    source_span?: { start: number; end: number; text: string }; // Part of the instruction the step came from
+    confidence?: number; // 0 to 1
+    validation_errors?: string[]; // Schema problems left after the repair round; the step can't be confirmed
+    auto_approved_by?: string; // Confirmation-policy rule that ran the step without asking
+}
+
+interface StepSummaryProps {
+  step: McpToolCall;
+  tone?: 'default' | 'failed';
+}
+
+// Below this confidence the reviewer is warned to check the step closely
+const LOW_CONFIDENCE = 0.6;
+
+/**
+ * Shows a step the way a reviewer reads it: its description, the words of the instruction it came
+ * from and the parser's confidence. The raw tool call stays available under "Details", and is shown
+ * directly for steps without a description. Arguments that still fail the tool's input schema are
+ * listed in red.
+ */
+function StepSummary({ step, tone = 'default' }: StepSummaryProps) {
+  const codeBackground = tone === 'failed' ? 'bg-red-100' : 'bg-gray-100';
+  const rawCall = (
+    <pre className={`mt-1 p-2 ${codeBackground} rounded text-xs text-gray-700 overflow-x-auto`}>
+        {step.tool_name} {JSON.stringify(step.arguments, null, 2)}
+    </pre>
+  );
+  const problems = step.validation_errors && step.validation_errors.length > 0 && (
+    <div className="mt-1 text-xs text-red-600">
+      <p className="font-medium">Does not match the tool's input schema:</p>
+      <ul className="list-disc list-inside">
+        {step.validation_errors.map(problem => <li key={problem}>{problem}</li>)}
+      </ul>
+    </div>
+  );
+
+  if (!step.description) {
+    return (
+      <div>
+        {rawCall}
+        {problems}
+      </div>
+    );
+  }
+
+  const lowConfidence = step.confidence !== undefined && step.confidence < LOW_CONFIDENCE;
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm font-semibold text-gray-900">{step.description}</p>
+        {step.confidence !== undefined && (
+          <span
+            className={`shrink-0 rounded px-1.5 py-0.5 text-xs ${lowConfidence ? 'bg-orange-100 text-orange-800' : 'bg-green-100 text-green-800'}`}
+            title={lowConfidence ? 'The parser is unsure about this step; check it carefully.' : 'Parser confidence'}
+          >
+            {Math.round(step.confidence * 100)}%
+          </span>
+        )}
+      </div>
+      {step.source_span && (
+        <p className="mt-1 text-xs text-gray-500">
+          From: <span className="italic">"{step.source_span.text}"</span>
+        </p>
+      )}
+      {problems}
+      <details className="mt-1">
+        <summary className="cursor-pointer text-xs text-gray-500">Details</summary>
+        {rawCall}
+      </details>
+    </div>
+  );
+}
+
+export default StepSummary;
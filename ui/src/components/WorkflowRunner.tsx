@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button"; // Adjust path if needed
+
+// A saved workflow as returned by /api/workflows
+export interface WorkflowSummary {
+  id: string;
+  name: string;
+  instruction: string; // With {{name}} placeholders
+  stepCount: number;
+  variables: string[]; // Placeholders that need a value for each run
+}
+
+interface WorkflowRunnerProps {
+  workflows: WorkflowSummary[];
+  disabled?: boolean;
+  // Resolves with the problems the backend found (missing variables etc.); empty when the run started
+  onRun: (workflowId: string, variables: { [name: string]: string }) => Promise<string[]>;
+}
+
+/**
+ * Form for running a saved workflow: pick one, fill in its variables, run its steps without parsing.
+ */
+function WorkflowRunner({ workflows, disabled = false, onRun }: WorkflowRunnerProps) {
+  const [workflowId, setWorkflowId] = useState('');
+  const [values, setValues] = useState<{ [name: string]: string }>({});
+  const [problems, setProblems] = useState<string[]>([]);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const selected = workflows.find(workflow => workflow.id === workflowId);
+
+  const handleSelect = (id: string) => {
+    setWorkflowId(id);
+    setValues({});
+    setProblems([]);
+  };
+
+  const handleRun = async () => {
+    if (!selected) return;
+    const variables: { [name: string]: string } = {};
+    selected.variables.forEach(name => { variables[name] = values[name] ?? ''; });
+    setIsStarting(true);
+    try {
+      setProblems(await onRun(selected.id, variables));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (workflows.length === 0) return null;
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4 space-y-2">
+      <label className="block text-sm font-medium text-gray-700">
+        Run a saved workflow:
+        <select
+          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm disabled:bg-gray-100"
+          value={workflowId}
+          onChange={(event) => handleSelect(event.target.value)}
+          disabled={disabled || isStarting}
+        >
+          <option value="">Pick a workflow...</option>
+          {workflows.map(workflow => (
+            <option key={workflow.id} value={workflow.id}>{workflow.name} ({workflow.stepCount} steps)</option>
+          ))}
+        </select>
+      </label>
+      {selected && (
+        <p className="text-xs text-gray-500">{selected.instruction}</p>
+      )}
+      {selected?.variables.map(name => (
+        <label key={name} className="block text-xs font-medium text-gray-700">
+          {name}
+          <input
+            type="text"
+            className="mt-1 block w-full rounded border border-gray-300 px-2 py-1 text-sm"
+            value={values[name] ?? ''}
+            onChange={(event) => setValues({ ...values, [name]: event.target.value })}
+            disabled={disabled || isStarting}
+          />
+        </label>
+      ))}
+      {problems.length > 0 && (
+        <ul className="list-disc list-inside text-xs text-red-600">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+      {selected && (
+        <Button className="w-full" onClick={handleRun} disabled={disabled || isStarting}>
+          {isStarting ? 'Starting...' : 'Run Workflow'}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export default WorkflowRunner;